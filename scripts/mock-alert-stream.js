@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+/**
+ * Mock Market Edge alert stream
+ *
+ * Serves the live alert Server-Sent Events route so streaming can be
+ * developed and tested without the backend:
+ *
+ *   npm run mock:alert-stream
+ *   NEXT_PUBLIC_MARKET_EDGE_STREAM_URL=http://localhost:8001/api/v1/market-edge npm run dev
+ *
+ * Like the real stream host, it hands out single-use tickets from
+ * `POST .../alerts/stream/ticket` and only opens streams that present one
+ * as `?ticket=`. Each subscriber gets an alert straight away and another
+ * every ALERT_INTERVAL_MS (default 15 seconds).
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const STREAM_PATH = /^\/api\/v1\/market-edge\/markets\/([^/]+)\/alerts\/stream$/
+const TICKET_PATH = /^\/api\/v1\/market-edge\/markets\/([^/]+)\/alerts\/stream\/ticket$/
+const TICKET_TTL_MS = 30000
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+}
+
+const TEMPLATES = [
+  { alert_type: 'price_change', severity: 'high', title: 'Competitor cut prices', message: 'Average prices dropped 8.5% in the last week.' },
+  { alert_type: 'promotion', severity: 'low', title: 'New promotion spotted', message: 'A competitor started a two-for-one offer.' },
+  { alert_type: 'anomaly', severity: 'medium', title: 'Unusual price detected', message: 'A price 3.1 standard deviations from the mean was collected.' },
+  { alert_type: 'new_competitor', severity: 'critical', title: 'New competitor in market', message: 'A new competitor has started listing prices.' }
+]
+
+let sequence = 0
+
+const mockAlert = (marketId) => {
+  sequence += 1
+  const template = TEMPLATES[sequence % TEMPLATES.length]
+  return {
+    ...template,
+    id: `mock-stream-alert-${sequence}`,
+    market_id: marketId,
+    organisation_id: 'org-mock',
+    trigger_data: { confidence: 0.9 },
+    is_read: false,
+    created_at: new Date().toISOString()
+  }
+}
+
+const sendJSON = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS })
+  res.end(JSON.stringify(body))
+}
+
+const createMockAlertStreamServer = ({ intervalMs = 15000, heartbeatMs = 15000 } = {}) => {
+  // ticket -> { marketId, expiresAt }
+  const tickets = new Map()
+
+  return http.createServer((req, res) => {
+    const { pathname, searchParams } = new URL(req.url, 'http://localhost')
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS)
+      res.end()
+      return
+    }
+
+    const ticketMatch = pathname.match(TICKET_PATH)
+    if (ticketMatch && req.method === 'POST') {
+      const ticket = crypto.randomBytes(16).toString('hex')
+      const expiresAt = Date.now() + TICKET_TTL_MS
+      tickets.set(ticket, { marketId: ticketMatch[1], expiresAt })
+      sendJSON(res, 201, { ticket, expires_at: new Date(expiresAt).toISOString() })
+      return
+    }
+
+    const match = pathname.match(STREAM_PATH)
+    if (!match) {
+      sendJSON(res, 404, { detail: 'Not found' })
+      return
+    }
+
+    const ticket = tickets.get(searchParams.get('ticket'))
+    tickets.delete(searchParams.get('ticket'))
+    if (!ticket || ticket.marketId !== match[1] || ticket.expiresAt < Date.now()) {
+      sendJSON(res, 401, { detail: 'Invalid or expired stream ticket' })
+      return
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*'
+    })
+
+    const send = () => res.write(`event: alert\ndata: ${JSON.stringify(mockAlert(match[1]))}\n\n`)
+    send()
+    const alertTimer = setInterval(send, intervalMs)
+    // Comments keep proxies from closing an idle connection
+    const heartbeatTimer = setInterval(() => res.write(': heartbeat\n\n'), heartbeatMs)
+
+    req.on('close', () => {
+      clearInterval(alertTimer)
+      clearInterval(heartbeatTimer)
+    })
+  })
+}
+
+module.exports = { createMockAlertStreamServer }
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 8001
+  const intervalMs = Number(process.env.ALERT_INTERVAL_MS) || 15000
+  createMockAlertStreamServer({ intervalMs }).listen(port, () => {
+    console.log(`Mock alert stream on http://localhost:${port}/api/v1/market-edge/markets/:id/alerts/stream`)
+  })
+}
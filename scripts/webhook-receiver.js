@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Local Market Edge webhook receiver
+ *
+ * Accepts alert webhooks, checks their signature and prints each alert so
+ * an integration can be tried end to end:
+ *
+ *   WEBHOOK_SECRET=whsec_... npm run webhook:receiver
+ *
+ * then register http://localhost:4001/webhooks/market-edge with the same
+ * secret under Settings → Integrations. Set RESPONSE_STATUS=500 to watch
+ * deliveries being retried. Only deliveries from the live backend reach
+ * it: with Test Data on, Market Edge simulates them and sends nothing.
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const SIGNATURE_HEADER = 'x-marketedge-signature'
+const TIMESTAMP_HEADER = 'x-marketedge-timestamp'
+const EVENT_HEADER = 'x-marketedge-event'
+const DELIVERY_HEADER = 'x-marketedge-delivery'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': [
+    'Content-Type',
+    SIGNATURE_HEADER,
+    TIMESTAMP_HEADER,
+    EVENT_HEADER,
+    DELIVERY_HEADER
+  ].join(', ')
+}
+
+const signPayload = (secret, timestamp, body) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+const verifySignature = (secret, timestamp, body, signature) => {
+  if (!signature || !timestamp) return false
+  const expected = Buffer.from(signPayload(secret, timestamp, body))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+/**
+ * `onDelivery` gets `{ event, deliveryId, verified, alert }` for each POST.
+ * Without a secret every delivery is accepted and reported as unverified.
+ */
+const createWebhookReceiver = ({ secret, responseStatus = 200, onDelivery = () => {} } = {}) =>
+  http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS)
+      res.end()
+      return
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { ...CORS_HEADERS, Allow: 'POST' })
+      res.end()
+      return
+    }
+
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const verified = secret
+        ? verifySignature(secret, req.headers[TIMESTAMP_HEADER], body, req.headers[SIGNATURE_HEADER])
+        : false
+      let alert = null
+      try {
+        alert = JSON.parse(body)
+      } catch {
+        // Reported below as an empty delivery
+      }
+
+      onDelivery({
+        event: req.headers[EVENT_HEADER],
+        deliveryId: req.headers[DELIVERY_HEADER],
+        verified,
+        alert
+      })
+
+      const status = secret && !verified ? 401 : responseStatus
+      res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ received: status < 300 }))
+    })
+  })
+
+module.exports = { createWebhookReceiver, signPayload, verifySignature }
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 4001
+  const secret = process.env.WEBHOOK_SECRET
+  const responseStatus = Number(process.env.RESPONSE_STATUS) || 200
+
+  if (!secret) {
+    console.warn('WEBHOOK_SECRET is not set, so signatures will not be checked')
+  }
+
+  createWebhookReceiver({
+    secret,
+    responseStatus,
+    onDelivery: ({ event, deliveryId, verified, alert }) => {
+      const check = secret ? (verified ? 'signature ok' : 'BAD SIGNATURE') : 'unverified'
+      console.log(`[${new Date().toISOString()}] ${event || 'unknown event'} ${deliveryId || '-'} (${check})`)
+      if (alert) {
+        console.log(`  ${alert.severity} ${alert.alert_type}: ${alert.title}`)
+        console.log(`  ${alert.message}`)
+      }
+    }
+  }).listen(port, () => {
+    console.log(`Webhook receiver on http://localhost:${port}/webhooks/market-edge (responding ${responseStatus})`)
+  })
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  PrinterIcon
+} from '@heroicons/react/24/outline';
+import { MarketReportView, REPORT_TYPE_OPTIONS } from '@/components/market-edge/MarketReportView';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { useMarketEdgeDataMode } from '@/hooks/useMarketEdgeDataMode';
+import { MarketReport, MarketReportType } from '@/types/market-edge';
+import './report-print.css';
+
+const isReportType = (value: string | null): value is MarketReportType =>
+  REPORT_TYPE_OPTIONS.some(option => option.id === value);
+
+export default function MarketReportPage() {
+  const { marketId } = useParams<{ marketId: string }>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const typeParam = searchParams.get('type');
+  const reportType: MarketReportType = isReportType(typeParam) ? typeParam : 'comprehensive';
+
+  const [report, setReport] = useState<MarketReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { isReady: isDataModeReady } = useMarketEdgeDataMode();
+
+  useEffect(() => {
+    if (isDataModeReady && marketId) {
+      loadReport();
+    }
+  }, [isDataModeReady, marketId, reportType]);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setReport(await marketEdgeAPI.generateMarketReport(marketId, reportType));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReportTypeChange = (type: MarketReportType) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('type', type);
+    router.replace(`/market-edge/${marketId}/report?${params.toString()}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* Toolbar */}
+      <div className="report-toolbar bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              href="/market-edge"
+              className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              Back to Market Edge
+            </Link>
+
+            <div className="flex items-center space-x-3">
+              <label htmlFor="report-type" className="sr-only">Report type</label>
+              <select
+                id="report-type"
+                value={reportType}
+                onChange={(e) => handleReportTypeChange(e.target.value as MarketReportType)}
+                className="block border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {REPORT_TYPE_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+
+              <button
+                onClick={() => window.print()}
+                disabled={!report || isLoading}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                <PrinterIcon className="h-4 w-4 mr-2" />
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="report-page max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-8 animate-pulse space-y-4">
+            <div className="h-4 bg-gray-200 rounded w-40"></div>
+            <div className="h-8 bg-gray-200 rounded w-2/3"></div>
+            <div className="h-4 bg-gray-200 rounded w-full"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        ) : error || !report ? (
+          <div className="text-center py-12">
+            <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">Error Generating Report</h3>
+            <p className="mt-1 text-sm text-gray-500">{error || 'The report could not be generated.'}</p>
+            <div className="mt-6">
+              <button
+                onClick={loadReport}
+                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-2" />
+                Try Again
+              </button>
+            </div>
+          </div>
+        ) : (
+          <MarketReportView
+            report={report}
+            reportType={reportType}
+            className="rounded-lg border border-gray-200 shadow-sm p-8"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Market Edge page tests
+ * Opening alert links from notifications in the data mode they came from
+ */
+
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import MarketEdgePage from '../page'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { HttpDataSource } from '@/services/market-edge-data-source'
+import { SyntheticDataSource } from '@/services/market-edge-synthetic-data'
+import { alertHref } from '@/services/notifications'
+import { Market, MarketAlert } from '@/types/market-edge'
+
+// The URL as the page sees it; router.replace updates it and re-renders
+const mockLocation = { query: '', listeners: [] as (() => void)[] }
+
+jest.mock('next/navigation', () => {
+  const { useEffect, useReducer } = jest.requireActual('react')
+  const router = {
+    push: jest.fn(),
+    replace: (href: string) => {
+      mockLocation.query = href.split('?')[1] || ''
+      mockLocation.listeners.forEach(listener => listener())
+    }
+  }
+  return {
+    useRouter: () => router,
+    usePathname: () => '/market-edge',
+    useSearchParams: () => {
+      const [, rerender] = useReducer((count: number) => count + 1, 0)
+      useEffect(() => {
+        mockLocation.listeners.push(rerender)
+        return () => {
+          mockLocation.listeners = mockLocation.listeners.filter(listener => listener !== rerender)
+        }
+      }, [])
+      return new URLSearchParams(mockLocation.query)
+    }
+  }
+})
+
+jest.mock('@/hooks/useAuth', () => ({
+  useAuthContext: () => ({ user: { id: 'user-123', email: 'analyst@example.com' }, logout: jest.fn() })
+}))
+
+describe('MarketEdgePage', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+    marketEdgeAPI.setDataMode('test')
+    mockLocation.query = ''
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('opens a live alert link while Test Data is on', async () => {
+    // Stands in for the live backend, with a market Test Data does not have
+    const backend = new SyntheticDataSource()
+    const liveMarket = await backend.request<Market>('/markets', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: 'Bristol Cinemas',
+        geographic_bounds: { city: 'Bristol' },
+        tracking_config: { currency: 'GBP', collection_frequency: 'weekly' }
+      })
+    })
+    jest.spyOn(HttpDataSource.prototype, 'request')
+      .mockImplementation((endpoint, options) => backend.request(endpoint, options))
+    jest.spyOn(HttpDataSource.prototype, 'streamUrl').mockRejectedValue(new Error('No stream in tests'))
+    await expect(marketEdgeAPI.getMarket(liveMarket.id)).rejects.toThrow()
+
+    mockLocation.query = alertHref({ market_id: liveMarket.id } as MarketAlert).split('?')[1]
+    const { unmount } = render(<MarketEdgePage />)
+
+    expect((await screen.findAllByText('Bristol Cinemas')).length).toBeGreaterThan(0)
+    expect(marketEdgeAPI.dataMode).toBe('live')
+    await waitFor(() => expect(mockLocation.query).toBe(`market=${liveMarket.id}`))
+    unmount()
+  })
+})
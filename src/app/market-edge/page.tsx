@@ -1,44 +1,275 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import { 
   ChartBarIcon, 
   UsersIcon, 
   ExclamationTriangleIcon,
   PlusIcon,
   ArrowPathIcon,
-  BeakerIcon
+  ArrowDownTrayIcon,
+  BeakerIcon,
+  DocumentTextIcon,
+  ArrowUpTrayIcon,
+  TagIcon,
+  StarIcon
 } from '@heroicons/react/24/outline';
 import { MarketSelector } from '@/components/market-edge/MarketSelector';
 import { CompetitorTable } from '@/components/market-edge/CompetitorTable';
 import { PricingChart } from '@/components/market-edge/PricingChart';
+import { ChartAnnotationsPanel } from '@/components/market-edge/ChartAnnotationsPanel';
 import { PerformanceMetrics } from '@/components/market-edge/PerformanceMetrics';
-import { AlertsPanel } from '@/components/market-edge/AlertsPanel';
+import { PositioningChart } from '@/components/market-edge/PositioningChart';
+import { PriceDistributionChart } from '@/components/market-edge/PriceDistributionChart';
+import { AnomalyExplorer } from '@/components/market-edge/AnomalyExplorer';
+import { CompetitorMovesTimeline } from '@/components/market-edge/CompetitorMovesTimeline';
+import { PromotionTracker } from '@/components/market-edge/PromotionTracker';
+import { AlertsPanel, isAlertUnread } from '@/components/market-edge/AlertsPanel';
+import { AlertRulesManager } from '@/components/market-edge/AlertRulesManager';
+import { ExportDialog } from '@/components/market-edge/ExportDialog';
+import {
+  CompetitorDetailDrawer,
+  DAYS_BACK_OPTIONS,
+  DEFAULT_DAYS_BACK
+} from '@/components/market-edge/CompetitorDetailDrawer';
+import { CompetitorFormModal, CompetitorFormValues } from '@/components/market-edge/CompetitorFormModal';
+import { MarketFormModal, MarketFormValues } from '@/components/market-edge/MarketFormModal';
+import { PricingEntryModal } from '@/components/market-edge/PricingEntryModal';
+import { PricingImportWizard } from '@/components/market-edge/PricingImportWizard';
+import {
+  MarketFilter,
+  MarketFilterBar,
+  describeMarketFilter,
+  marketFilterQuery,
+  parseMarketFilter
+} from '@/components/market-edge/MarketFilterBar';
 import { AccountMenu } from '@/components/ui/AccountMenu';
 import { DummyDataToggle } from '@/components/ui/DummyDataToggle';
 import { marketEdgeAPI } from '@/services/market-edge-api';
+import { MarketEdgeDataMode } from '@/services/market-edge-data-source';
+import { useMarketEdgeDataMode } from '@/hooks/useMarketEdgeDataMode';
+import { useMarketAlertStream } from '@/hooks/useMarketAlertStream';
+import { useDesktopAlertNotifications } from '@/hooks/useDesktopAlertNotifications';
 import { 
   Market, 
+  Competitor,
+  PricingDataInput,
+  MarketAlert,
   MarketOverview, 
+  MarketMetrics,
   MarketTrends, 
-  CompetitorComparison 
+  CompetitorComparison,
+  CompetitorMove,
+  PromotionSummary,
+  TrendGranularity,
+  ChartAnnotation
 } from '@/types/market-edge';
 
+/**
+ * Loads data for an optional panel without failing the whole page: errors
+ * are reported through `setPanelError` and the fallback is used instead.
+ */
+function loadPanelData<T>(request: Promise<T>, fallback: T, setPanelError: (error: string | null) => void): Promise<T> {
+  return request.then(
+    result => {
+      setPanelError(null);
+      return result;
+    },
+    err => {
+      setPanelError(err instanceof Error ? err.message : 'Failed to load');
+      return fallback;
+    }
+  );
+}
+
 export default function MarketEdgePage() {
   const [selectedMarket, setSelectedMarket] = useState<Market | null>(null);
   const [marketOverview, setMarketOverview] = useState<MarketOverview | null>(null);
   const [pricingTrends, setPricingTrends] = useState<MarketTrends | null>(null);
   const [competitorComparison, setCompetitorComparison] = useState<CompetitorComparison | null>(null);
+  const [marketMetrics, setMarketMetrics] = useState<MarketMetrics | null>(null);
+  const [marketMetricsError, setMarketMetricsError] = useState<string | null>(null);
+  const [competitorMoves, setCompetitorMoves] = useState<CompetitorMove[]>([]);
+  const [competitorMovesError, setCompetitorMovesError] = useState<string | null>(null);
+  const [promotionSummary, setPromotionSummary] = useState<PromotionSummary | null>(null);
+  const [promotionsError, setPromotionsError] = useState<string | null>(null);
+  const [marketAlerts, setMarketAlerts] = useState<MarketAlert[]>([]);
+  const [marketAlertsError, setMarketAlertsError] = useState<string | null>(null);
+  // `${dataMode}:${marketId}` once that market's alerts are loaded, so the stream knows what is already seen
+  const [alertsLoadedFor, setAlertsLoadedFor] = useState<string | null>(null);
+  const [highlightedAlertId, setHighlightedAlertId] = useState<string | null>(null);
+  const [marketProducts, setMarketProducts] = useState<string[]>([]);
+  const [chartAnnotations, setChartAnnotations] = useState<ChartAnnotation[]>([]);
+  const [chartAnnotationsError, setChartAnnotationsError] = useState<string | null>(null);
+  const [trendGranularity, setTrendGranularity] = useState<TrendGranularity>('week');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'competitors' | 'pricing' | 'alerts'>('overview');
-  const [isDummyMode, setIsDummyMode] = useState(true); // Default to dummy mode for testing
+  const [activeTab, setActiveTab] = useState<'overview' | 'competitors' | 'pricing' | 'promotions' | 'alerts'>('overview');
+  const [competitorView, setCompetitorView] = useState<'comparison' | 'positioning'>('comparison');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isCompetitorFormOpen, setIsCompetitorFormOpen] = useState(false);
+  const [editingCompetitor, setEditingCompetitor] = useState<Competitor | null>(null);
+  const [isMarketFormOpen, setIsMarketFormOpen] = useState(false);
+  const [editingMarket, setEditingMarket] = useState<Market | null>(null);
+  const [marketListVersion, setMarketListVersion] = useState(0);
+  const [isPricingEntryOpen, setIsPricingEntryOpen] = useState(false);
+  const [isPricingImportOpen, setIsPricingImportOpen] = useState(false);
+  const { dataMode, isDummyMode, setDummyMode, isReady: isDataModeReady } = useMarketEdgeDataMode();
+
+  // Market and competitor selection live in the URL so views can be shared
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const marketParam = searchParams.get('market');
+  const competitorParam = searchParams.get('competitor');
+  const tabParam = searchParams.get('tab');
+  const alertParam = searchParams.get('alert');
+  // Set by notification links to open the data their alert came from
+  const modeParam = searchParams.get('mode');
+  const daysParam = Number(searchParams.get('days'));
+  const competitorDaysBack = DAYS_BACK_OPTIONS.includes(daysParam) ? daysParam : DEFAULT_DAYS_BACK;
+  // Date range and product filter shared by every tab
+  const marketFilter = parseMarketFilter(searchParams);
+  const marketFilterKey = JSON.stringify(marketFilter);
+
+  const updateQuery = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+    });
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
 
   useEffect(() => {
     if (selectedMarket) {
       loadMarketData();
     }
-  }, [selectedMarket, isDummyMode]); // Reload data when dummy mode changes
+  }, [selectedMarket, isDummyMode, marketFilterKey, trendGranularity]); // Reload data when dummy mode or filters change
+
+  useEffect(() => {
+    if (!selectedMarket) {
+      setMarketProducts([]);
+      return;
+    }
+
+    marketEdgeAPI.getMarketPricingData(selectedMarket.id)
+      .then(pricing => setMarketProducts(Array.from(new Set(pricing.map(p => p.product_service))).sort()))
+      .catch(() => setMarketProducts([]));
+  }, [selectedMarket?.id, isDummyMode]);
+
+  useEffect(() => {
+    if (!isDataModeReady || (modeParam !== 'live' && modeParam !== 'test')) return;
+    if (modeParam !== dataMode) switchDataMode(modeParam);
+    updateQuery({ mode: null });
+  }, [isDataModeReady, modeParam]);
+
+  useEffect(() => {
+    // A linked market is looked up once the link's data mode is applied
+    if (!isDataModeReady || modeParam || !marketParam || selectedMarket?.id === marketParam) return;
+
+    marketEdgeAPI.getMarket(marketParam)
+      .then(market => {
+        setSelectedMarket(market);
+        if (competitorParam) setActiveTab('competitors');
+      })
+      .catch(() => updateQuery({ market: null, competitor: null, days: null }));
+  }, [isDataModeReady, marketParam, modeParam]);
+
+  // Links from the notification center and desktop notifications can open
+  // the alerts tab directly, optionally highlighting one alert
+  useEffect(() => {
+    if (tabParam !== 'alerts') return;
+    setActiveTab('alerts');
+    if (alertParam) setHighlightedAlertId(alertParam);
+    updateQuery({ tab: null, alert: null });
+  }, [tabParam, alertParam]);
+
+  const handleMarketSelect = (market: Market) => {
+    setSelectedMarket(market);
+    // Products differ between markets; the date range carries over
+    updateQuery({ market: market.id, competitor: null, days: null, product: null });
+  };
+
+  const handleFilterChange = (filter: MarketFilter) => {
+    updateQuery(marketFilterQuery(filter));
+  };
+
+  // Markets differ between the synthetic and live sources, so start over
+  const switchDataMode = (mode: MarketEdgeDataMode) => {
+    setSelectedMarket(null);
+    setMarketOverview(null);
+    setPricingTrends(null);
+    setCompetitorComparison(null);
+    setMarketMetrics(null);
+    setDummyMode(mode === 'test');
+  };
+
+  const handleDataModeToggle = (enabled: boolean) => {
+    updateQuery({ market: null, competitor: null, days: null, product: null });
+    switchDataMode(enabled ? 'test' : 'live');
+  };
+
+  const openMarketForm = (market: Market | null) => {
+    setEditingMarket(market);
+    setIsMarketFormOpen(true);
+  };
+
+  // Saved markets change the selector list, so remount it to reload
+  const handleMarketSaved = (market: Market) => {
+    setIsMarketFormOpen(false);
+    setMarketListVersion(version => version + 1);
+    if (!editingMarket || selectedMarket?.id === market.id) {
+      handleMarketSelect(market);
+    }
+  };
+
+  const handleSaveMarket = async (values: MarketFormValues) => {
+    try {
+      const saved = editingMarket
+        ? await marketEdgeAPI.updateMarket(editingMarket.id, values)
+        : await marketEdgeAPI.createMarket(values);
+      handleMarketSaved(saved);
+      toast.success(editingMarket ? `${saved.name} updated` : `${saved.name} created`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save market');
+    }
+  };
+
+  const handleArchiveMarket = async (market: Market) => {
+    try {
+      await marketEdgeAPI.deleteMarket(market.id);
+      setIsMarketFormOpen(false);
+      setMarketListVersion(version => version + 1);
+      if (selectedMarket?.id === market.id) {
+        setSelectedMarket(null);
+        setMarketOverview(null);
+        setPricingTrends(null);
+        setCompetitorComparison(null);
+        updateQuery({ market: null, competitor: null, days: null });
+      }
+      toast.success(`${market.name} archived`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to archive market');
+    }
+  };
+
+  const handleRestoreMarket = async (market: Market) => {
+    try {
+      const restored = await marketEdgeAPI.updateMarket(market.id, { name: market.name, is_active: true });
+      handleMarketSaved(restored);
+      toast.success(`${restored.name} restored`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore market');
+    }
+  };
 
   const loadMarketData = async () => {
     if (!selectedMarket) return;
@@ -47,15 +278,35 @@ export default function MarketEdgePage() {
     setError(null);
 
     try {
-      const [overview, trends, comparison] = await Promise.all([
+      const [overview, trends, comparison, metrics, moves, promotions, alerts, annotations] = await Promise.all([
         marketEdgeAPI.getMarketOverview(selectedMarket.id),
-        marketEdgeAPI.getPricingTrends(selectedMarket.id, { days_back: 30 }),
-        marketEdgeAPI.compareCompetitors(selectedMarket.id)
+        marketEdgeAPI.getPricingTrends(selectedMarket.id, { ...marketFilter, granularity: trendGranularity }),
+        marketEdgeAPI.compareCompetitors(selectedMarket.id, marketFilter),
+        loadPanelData(marketEdgeAPI.getMarketAnalysis(selectedMarket.id, marketFilter), null, setMarketMetricsError),
+        loadPanelData(
+          marketEdgeAPI.getCompetitorMoves(selectedMarket.id, marketFilter),
+          [] as CompetitorMove[],
+          setCompetitorMovesError
+        ),
+        loadPanelData(marketEdgeAPI.getPromotions(selectedMarket.id, marketFilter), null, setPromotionsError),
+        loadPanelData(marketEdgeAPI.getMarketAlerts(selectedMarket.id), null as MarketAlert[] | null, setMarketAlertsError),
+        loadPanelData(
+          marketEdgeAPI.getChartAnnotations(selectedMarket.id),
+          [] as ChartAnnotation[],
+          setChartAnnotationsError
+        )
       ]);
 
       setMarketOverview(overview);
       setPricingTrends(trends);
       setCompetitorComparison(comparison);
+      setMarketMetrics(metrics);
+      setCompetitorMoves(moves);
+      setPromotionSummary(promotions);
+      setMarketAlerts(alerts || []);
+      setChartAnnotations(annotations);
+      // Without the loaded alerts the stream cannot tell new ones from old, so leave it off
+      setAlertsLoadedFor(alerts ? `${dataMode}:${selectedMarket.id}` : null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load market data');
     } finally {
@@ -67,10 +318,96 @@ export default function MarketEdgePage() {
     loadMarketData();
   };
 
+  const updateCompetitors = (update: (competitors: Competitor[]) => Competitor[]) => {
+    setMarketOverview(prev => prev && { ...prev, competitors: update(prev.competitors) });
+  };
+
+  const openCompetitorForm = (competitor: Competitor | null) => {
+    setEditingCompetitor(competitor);
+    setIsCompetitorFormOpen(true);
+  };
+
+  // Show the change straight away and put the previous row back if the save fails
+  const handleSaveCompetitor = async (values: CompetitorFormValues) => {
+    if (!selectedMarket) return;
+
+    const original = editingCompetitor;
+    const now = new Date().toISOString();
+    const optimistic: Competitor = original
+      ? { ...original, ...values, last_updated: now }
+      : { ...values, id: `pending-${Date.now()}`, organisation_id: selectedMarket.organisation_id, created_at: now };
+
+    updateCompetitors(competitors => original
+      ? competitors.map(c => (c.id === original.id ? optimistic : c))
+      : [...competitors, optimistic]);
+    setIsCompetitorFormOpen(false);
+
+    try {
+      const saved = original
+        ? await marketEdgeAPI.updateCompetitor(original.id, values)
+        : await marketEdgeAPI.createCompetitor(values);
+      updateCompetitors(competitors => competitors.map(c => (c.id === optimistic.id ? saved : c)));
+      toast.success(original ? `${saved.name} updated` : `${saved.name} added`);
+    } catch (err) {
+      updateCompetitors(competitors => original
+        ? competitors.map(c => (c.id === optimistic.id ? original : c))
+        : competitors.filter(c => c.id !== optimistic.id));
+      toast.error(err instanceof Error ? err.message : 'Failed to save competitor');
+    }
+  };
+
+  const handleAddPricing = async (values: PricingDataInput) => {
+    try {
+      await marketEdgeAPI.createPricingData(values);
+      setIsPricingEntryOpen(false);
+      toast.success(`Price added for ${values.product_service}`);
+      loadMarketData();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add price');
+    }
+  };
+
+  const alertsInRange = (alerts: MarketAlert[]) => {
+    if (!marketMetrics) return alerts;
+    const start = new Date(marketMetrics.period_start).getTime();
+    const end = new Date(marketMetrics.period_end).getTime();
+    return alerts.filter(alert => {
+      const created = new Date(alert.created_at).getTime();
+      return created >= start && created <= end;
+    });
+  };
+  const filteredAlerts = alertsInRange(marketAlerts);
+  const unreadAlertCount = filteredAlerts.filter(a => isAlertUnread(a)).length;
+
+  const mergeAlerts = (updated: MarketAlert[]) => {
+    setMarketAlerts(prev => prev.map(alert => updated.find(u => u.id === alert.id) || alert));
+  };
+
+  const notifyDesktop = useDesktopAlertNotifications();
+
+  const handleStreamedAlerts = (incoming: MarketAlert[]) => {
+    setMarketAlerts(prev => [...incoming.filter(a => !prev.some(p => p.id === a.id)), ...prev]);
+    notifyDesktop(incoming, selectedMarket ? [selectedMarket] : [], dataMode);
+    if (incoming.length === 1) {
+      toast(`New alert: ${incoming[0].title}`, { icon: '🔔' });
+    } else {
+      toast(`${incoming.length} new alerts`, { icon: '🔔' });
+    }
+  };
+
+  const alertStreamStatus = useMarketAlertStream({
+    marketId: selectedMarket?.id ?? null,
+    dataMode,
+    enabled: !!selectedMarket && alertsLoadedFor === `${dataMode}:${selectedMarket.id}`,
+    knownAlerts: marketAlerts,
+    onAlerts: handleStreamedAlerts
+  });
+
   const tabs = [
     { id: 'overview', name: 'Overview', icon: ChartBarIcon },
     { id: 'competitors', name: 'Competitors', icon: UsersIcon },
     { id: 'pricing', name: 'Pricing Analysis', icon: ChartBarIcon },
+    { id: 'promotions', name: 'Promotions', icon: TagIcon },
     { id: 'alerts', name: 'Alerts', icon: ExclamationTriangleIcon },
   ];
 
@@ -90,20 +427,21 @@ export default function MarketEdgePage() {
               {/* Dummy Data Toggle */}
               <DummyDataToggle
                 isDummyMode={isDummyMode}
-                onToggle={setIsDummyMode}
+                onToggle={handleDataModeToggle}
               />
               
               {/* Market Selector and Actions */}
               <div className="flex items-center space-x-4">
-                <MarketSelector
-                  selectedMarket={selectedMarket || undefined}
-                  onMarketSelect={setSelectedMarket}
-                  onCreateMarket={() => {
-                    // This would open a create market modal
-                    console.log('Create new market');
-                  }}
-                  className="w-64"
-                />
+                {isDataModeReady && (
+                  <MarketSelector
+                    key={`${dataMode}-${marketListVersion}`}
+                    selectedMarket={selectedMarket || undefined}
+                    onMarketSelect={handleMarketSelect}
+                    onCreateMarket={() => openMarketForm(null)}
+                    onEditMarket={openMarketForm}
+                    className="w-64"
+                  />
+                )}
                 
                 {selectedMarket && (
                   <button
@@ -115,6 +453,35 @@ export default function MarketEdgePage() {
                     Refresh
                   </button>
                 )}
+
+                {selectedMarket && (
+                  <button
+                    onClick={() => setIsExportOpen(true)}
+                    disabled={isLoading}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                    Export
+                  </button>
+                )}
+
+                {selectedMarket && (
+                  <Link
+                    href={`/market-edge/${selectedMarket.id}/report`}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <DocumentTextIcon className="h-4 w-4 mr-2" />
+                    Report
+                  </Link>
+                )}
+
+                <Link
+                  href="/market-edge/watchlists"
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <StarIcon className="h-4 w-4 mr-2" />
+                  Watchlists
+                </Link>
               </div>
               
               {/* Account Menu */}
@@ -141,10 +508,7 @@ export default function MarketEdgePage() {
             </p>
             <div className="mt-6">
               <button
-                onClick={() => {
-                  // This would open market selector or create modal
-                  console.log('Get started');
-                }}
+                onClick={() => openMarketForm(null)}
                 className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <PlusIcon className="h-4 w-4 mr-2" />
@@ -183,6 +547,13 @@ export default function MarketEdgePage() {
               </div>
             )}
             
+            <MarketFilterBar
+              filter={marketFilter}
+              products={marketProducts}
+              onChange={handleFilterChange}
+              className="mb-6"
+            />
+
             {/* Navigation Tabs */}
             <div className="border-b border-gray-200 mb-8">
               <nav className="-mb-px flex space-x-8">
@@ -200,6 +571,14 @@ export default function MarketEdgePage() {
                     >
                       <Icon className="h-4 w-4 mr-2" />
                       {tab.name}
+                      {tab.id === 'alerts' && unreadAlertCount > 0 && (
+                        <span
+                          aria-label={`${unreadAlertCount} unread alerts`}
+                          className="ml-2 inline-flex items-center justify-center min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                        >
+                          {unreadAlertCount}
+                        </span>
+                      )}
                     </button>
                   );
                 })}
@@ -229,7 +608,7 @@ export default function MarketEdgePage() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-gray-500">Data Points</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {marketOverview?.recent_data_points || 0}
+                          {marketMetrics?.total_data_points ?? marketOverview?.recent_data_points ?? 0}
                         </p>
                       </div>
                     </div>
@@ -241,7 +620,7 @@ export default function MarketEdgePage() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-gray-500">Active Alerts</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {marketOverview?.recent_alerts.filter(a => !a.is_read).length || 0}
+                          {unreadAlertCount}
                         </p>
                       </div>
                     </div>
@@ -249,19 +628,23 @@ export default function MarketEdgePage() {
                 </div>
 
                 {/* Performance Metrics */}
-                {marketOverview?.metrics && (
+                {(marketMetrics || marketMetricsError) && (
                   <PerformanceMetrics 
-                    metrics={marketOverview.metrics} 
+                    metrics={marketMetrics} 
                     isLoading={isLoading}
+                    error={marketMetricsError}
                   />
                 )}
 
                 {/* Recent Alerts */}
-                {marketOverview?.recent_alerts && (
+                {marketOverview && (
                   <AlertsPanel
-                    alerts={marketOverview.recent_alerts}
+                    alerts={filteredAlerts}
                     isLoading={isLoading}
+                    onAlertsChange={mergeAlerts}
                     onRefresh={handleRefreshData}
+                    streamStatus={alertStreamStatus}
+                    error={marketAlertsError}
                   />
                 )}
               </div>
@@ -269,57 +652,174 @@ export default function MarketEdgePage() {
 
             {activeTab === 'competitors' && (
               <div className="space-y-8">
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => openCompetitorForm(null)}
+                    disabled={!marketOverview}
+                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Add Competitor
+                  </button>
+                </div>
+
                 {marketOverview?.competitors && (
                   <CompetitorTable
                     competitors={marketOverview.competitors}
                     isLoading={isLoading}
-                    onViewCompetitor={(competitor) => {
-                      console.log('View competitor:', competitor);
-                    }}
-                    onEditCompetitor={(competitor) => {
-                      console.log('Edit competitor:', competitor);
-                    }}
+                    onViewCompetitor={(competitor) => updateQuery({ competitor: competitor.id })}
+                    onEditCompetitor={openCompetitorForm}
                   />
                 )}
 
                 {competitorComparison && (
-                  <PricingChart
-                    data={competitorComparison}
-                    chartType="bar"
-                    title="Competitor Price Comparison"
-                    height={400}
-                  />
+                  <div className="space-y-4">
+                    <div role="group" aria-label="Competitor view" className="inline-flex rounded-md shadow-sm">
+                      {([
+                        { id: 'comparison', name: 'Price comparison' },
+                        { id: 'positioning', name: 'Positioning' }
+                      ] as const).map(view => (
+                        <button
+                          key={view.id}
+                          type="button"
+                          aria-pressed={competitorView === view.id}
+                          onClick={() => setCompetitorView(view.id)}
+                          className={`px-3 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                            competitorView === view.id
+                              ? 'bg-blue-600 border-blue-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {view.name}
+                        </button>
+                      ))}
+                    </div>
+
+                    {competitorView === 'positioning' ? (
+                      <PositioningChart
+                        comparison={competitorComparison}
+                        metrics={marketMetrics}
+                        title={`Price Positioning · ${describeMarketFilter(marketFilter)}`}
+                        onSelectCompetitor={(competitorId) => updateQuery({ competitor: competitorId })}
+                      />
+                    ) : (
+                      <PricingChart
+                        data={competitorComparison}
+                        chartType="bar"
+                        title={`Competitor Price Comparison · ${describeMarketFilter(marketFilter)}`}
+                        height={400}
+                      />
+                    )}
+                  </div>
                 )}
+
+                <CompetitorMovesTimeline
+                  moves={competitorMoves}
+                  currency={marketMetrics?.currency}
+                  isLoading={isLoading}
+                  error={competitorMovesError}
+                  onSelectCompetitor={(competitorId) => updateQuery({ competitor: competitorId })}
+                />
               </div>
             )}
 
             {activeTab === 'pricing' && (
               <div className="space-y-8">
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setIsPricingImportOpen(true)}
+                    disabled={!marketOverview}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+                    Import CSV
+                  </button>
+                  <button
+                    onClick={() => setIsPricingEntryOpen(true)}
+                    disabled={!marketOverview}
+                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Add Price
+                  </button>
+                </div>
+
                 {pricingTrends && (
                   <PricingChart
                     data={pricingTrends}
                     chartType="line"
-                    title="Pricing Trends Over Time"
+                    title={`Pricing Trends Over Time · ${describeMarketFilter(marketFilter)}`}
+                    granularity={trendGranularity}
+                    onGranularityChange={setTrendGranularity}
                     height={500}
+                    annotations={chartAnnotations}
+                  />
+                )}
+
+                {selectedMarket && (
+                  <ChartAnnotationsPanel
+                    marketId={selectedMarket.id}
+                    annotations={chartAnnotations}
+                    onAnnotationsChange={setChartAnnotations}
+                    error={chartAnnotationsError}
+                  />
+                )}
+
+                {marketMetrics && (
+                  <PriceDistributionChart
+                    metrics={marketMetrics}
+                    title={`Price Distribution · ${describeMarketFilter(marketFilter)}`}
                   />
                 )}
 
-                {marketOverview?.metrics && (
+                {selectedMarket && marketMetrics && (
+                  <AnomalyExplorer
+                    marketId={selectedMarket.id}
+                    anomalies={marketMetrics.anomalies || []}
+                    competitors={marketOverview?.competitors || []}
+                    currency={marketMetrics.currency}
+                  />
+                )}
+
+                {(marketMetrics || marketMetricsError) && (
                   <PerformanceMetrics 
-                    metrics={marketOverview.metrics} 
+                    metrics={marketMetrics} 
                     isLoading={isLoading}
+                    error={marketMetricsError}
                   />
                 )}
               </div>
             )}
 
+            {activeTab === 'promotions' && (
+              <PromotionTracker
+                summary={promotionSummary}
+                isLoading={isLoading}
+                error={promotionsError}
+                onSelectCompetitor={(competitorId) => updateQuery({ competitor: competitorId })}
+              />
+            )}
+
             {activeTab === 'alerts' && (
               <div className="space-y-8">
-                {marketOverview?.recent_alerts && (
+                {marketOverview && (
                   <AlertsPanel
-                    alerts={marketOverview.recent_alerts}
+                    alerts={filteredAlerts}
                     isLoading={isLoading}
+                    onAlertsChange={mergeAlerts}
                     onRefresh={handleRefreshData}
+                    streamStatus={alertStreamStatus}
+                    error={marketAlertsError}
+                    highlightedAlertId={highlightedAlertId}
+                  />
+                )}
+
+                {selectedMarket && (
+                  <AlertRulesManager
+                    marketId={selectedMarket.id}
+                    competitors={marketOverview?.competitors || []}
+                    products={marketProducts}
+                    currency={marketMetrics?.currency}
                   />
                 )}
               </div>
@@ -327,6 +827,67 @@ export default function MarketEdgePage() {
           </>
         )}
       </div>
+
+      {selectedMarket && (
+        <CompetitorDetailDrawer
+          competitorId={competitorParam}
+          daysBack={competitorDaysBack}
+          onDaysBackChange={(days) => updateQuery({ days: days.toString() })}
+          onClose={() => updateQuery({ competitor: null, days: null })}
+        />
+      )}
+
+      {selectedMarket && (
+        <CompetitorFormModal
+          isOpen={isCompetitorFormOpen}
+          onClose={() => setIsCompetitorFormOpen(false)}
+          marketId={selectedMarket.id}
+          competitor={editingCompetitor}
+          onSubmit={handleSaveCompetitor}
+        />
+      )}
+
+      {selectedMarket && (
+        <PricingEntryModal
+          isOpen={isPricingEntryOpen}
+          onClose={() => setIsPricingEntryOpen(false)}
+          marketId={selectedMarket.id}
+          competitors={marketOverview?.competitors || []}
+          defaultCurrency={selectedMarket.tracking_config?.currency}
+          onSubmit={handleAddPricing}
+        />
+      )}
+
+      {selectedMarket && (
+        <PricingImportWizard
+          isOpen={isPricingImportOpen}
+          onClose={() => setIsPricingImportOpen(false)}
+          marketId={selectedMarket.id}
+          competitors={marketOverview?.competitors || []}
+          defaultCurrency={selectedMarket.tracking_config?.currency}
+          onImported={(result) => {
+            toast.success(`Imported ${result.created.length} prices`);
+            loadMarketData();
+          }}
+        />
+      )}
+
+      <MarketFormModal
+        isOpen={isMarketFormOpen}
+        onClose={() => setIsMarketFormOpen(false)}
+        market={editingMarket}
+        onSubmit={handleSaveMarket}
+        onArchive={handleArchiveMarket}
+        onRestore={handleRestoreMarket}
+      />
+
+      {selectedMarket && (
+        <ExportDialog
+          isOpen={isExportOpen}
+          onClose={() => setIsExportOpen(false)}
+          market={selectedMarket}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeftIcon, StarIcon } from '@heroicons/react/24/outline';
+import { WatchlistsView } from '@/components/market-edge/WatchlistsView';
+import { useMarketEdgeDataMode } from '@/hooks/useMarketEdgeDataMode';
+
+export default function WatchlistsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isReady: isDataModeReady, dataMode } = useMarketEdgeDataMode();
+
+  const handleSelect = (watchlistId: string | null) => {
+    router.replace(watchlistId ? `/market-edge/watchlists?id=${watchlistId}` : '/market-edge/watchlists');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Toolbar */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link
+              href="/market-edge"
+              className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              Back to Market Edge
+            </Link>
+            <div className="flex items-center">
+              <StarIcon className="h-6 w-6 text-blue-600 mr-2" />
+              <h1 className="text-xl font-bold text-gray-900">Watchlists</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isDataModeReady && (
+          <WatchlistsView
+            key={dataMode}
+            initialWatchlistId={searchParams.get('id')}
+            onSelect={handleSelect}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
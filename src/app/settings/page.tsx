@@ -2,10 +2,14 @@
 
 import { useState, useEffect } from 'react'
 import { useAuthContext } from '@/hooks/useAuth'
+import { useMarketEdgeDataMode } from '@/hooks/useMarketEdgeDataMode'
 import { apiService } from '@/services/api'
 import Button from '@/components/ui/Button'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 import DashboardLayout from '@/components/layout/DashboardLayout'
+import { CurrencySettingsPanel } from '@/components/market-edge/CurrencySettingsPanel'
+import { IntegrationsSettingsPanel } from '@/components/market-edge/IntegrationsSettingsPanel'
+import { DesktopNotificationSettingsPanel } from '@/components/market-edge/DesktopNotificationSettingsPanel'
 import toast from 'react-hot-toast'
 
 interface Organisation {
@@ -40,6 +44,8 @@ export default function SettingsPage() {
     last_name: ''
   })
   const { user, refreshUser } = useAuthContext()
+  // Market Edge panels wait until the saved Test/Live source is active
+  const { isReady: isDataModeReady, dataMode } = useMarketEdgeDataMode()
 
   useEffect(() => {
     fetchOrganisation()
@@ -237,6 +243,19 @@ export default function SettingsPage() {
         </form>
       </div>
 
+      {/* Currency Settings */}
+      {isDataModeReady && (
+        <CurrencySettingsPanel key={dataMode} canEdit={isAdmin} className="mb-8" />
+      )}
+
+      {/* Integrations */}
+      {isDataModeReady && (
+        <IntegrationsSettingsPanel key={dataMode} canEdit={isAdmin} className="mb-8" />
+      )}
+
+      {/* Desktop Notifications */}
+      <DesktopNotificationSettingsPanel userId={user?.id} className="mb-8" />
+
       {/* User Profile Section */}
       <div className="bg-white shadow rounded-lg">
         <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
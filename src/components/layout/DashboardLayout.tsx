@@ -17,6 +17,7 @@ import { useRouter, usePathname } from 'next/navigation'
 import Link from 'next/link'
 import Button from '@/components/ui/Button'
 import OrganizationSwitcher from '@/components/ui/OrganizationSwitcher'
+import NotificationCenter from '@/components/ui/NotificationCenter'
 
 interface NavigationItem {
   name: string
@@ -292,6 +293,9 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
             <div className="flex flex-1 items-center justify-end gap-x-4">
+              {/* Notification Center */}
+              <NotificationCenter />
+
               {/* Organization Switcher */}
               <OrganizationSwitcher />
             </div>
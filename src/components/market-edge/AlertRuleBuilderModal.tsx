@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { BeakerIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import {
+  ALERT_RULE_METRICS,
+  ALERT_RULE_OPERATORS,
+  ALERT_SEVERITIES,
+  BACKTEST_DAYS,
+  DEFAULT_ALERT_RULE,
+  MAX_RULE_WINDOW_DAYS,
+  isEventMetric,
+  validateAlertRule
+} from '@/services/market-edge-alert-rules';
+import {
+  AlertRule,
+  AlertRuleBacktest,
+  AlertRuleInput,
+  AlertRuleMetric,
+  AlertRuleOperator,
+  Competitor,
+  MarketAlert
+} from '@/types/market-edge';
+
+interface AlertRuleBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  marketId: string;
+  rule?: AlertRule | null;
+  competitors: Competitor[];
+  products: string[];
+  onSubmit: (values: AlertRuleInput) => void | Promise<void>;
+}
+
+interface FormState {
+  name: string;
+  competitor_id: string;
+  product_service: string;
+  metric: AlertRuleMetric;
+  operator: AlertRuleOperator;
+  threshold: string;
+  window_days: string;
+  severity: MarketAlert['severity'];
+  is_active: boolean;
+}
+
+// Matches the severity badges in AlertsPanel
+export const SEVERITY_CLASSES: Record<MarketAlert['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800'
+};
+
+const PREVIEW_LIMIT = 20;
+
+const initialState = (rule?: AlertRule | null): FormState => {
+  const source = rule || DEFAULT_ALERT_RULE;
+  return {
+    name: source.name,
+    competitor_id: source.competitor_id || '',
+    product_service: source.product_service || '',
+    metric: source.metric,
+    operator: source.operator,
+    threshold: source.threshold.toString(),
+    window_days: source.window_days.toString(),
+    severity: source.severity,
+    is_active: source.is_active
+  };
+};
+
+const toAlertRuleInput = (form: FormState): AlertRuleInput => ({
+  name: form.name.trim(),
+  competitor_id: form.competitor_id || undefined,
+  product_service: form.product_service || undefined,
+  metric: form.metric,
+  operator: form.operator,
+  threshold: isEventMetric(form.metric) ? 0 : form.threshold.trim() === '' ? NaN : Number(form.threshold),
+  window_days: Number(form.window_days),
+  severity: form.severity,
+  is_active: form.is_active
+});
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+export const AlertRuleBuilderModal: React.FC<AlertRuleBuilderModalProps> = ({
+  isOpen,
+  onClose,
+  marketId,
+  rule,
+  competitors,
+  products,
+  onSubmit
+}) => {
+  const [formData, setFormData] = useState<FormState>(() => initialState(rule));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [backtest, setBacktest] = useState<AlertRuleBacktest | null>(null);
+  const isEditing = !!rule;
+  const eventMetric = isEventMetric(formData.metric);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(rule));
+      setError(null);
+      setBacktest(null);
+    }
+  }, [isOpen, rule]);
+
+  const handleChange = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+    // A preview only describes the rule it was run for
+    setBacktest(null);
+  };
+
+  const validated = (): AlertRuleInput | null => {
+    const values = toAlertRuleInput(formData);
+    const problem = validateAlertRule(values);
+    setError(problem);
+    return problem ? null : values;
+  };
+
+  const handleTest = async () => {
+    const values = validated();
+    if (!values) return;
+
+    try {
+      setIsTesting(true);
+      setBacktest(await marketEdgeAPI.backtestAlertRule(marketId, values));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to test rule');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = validated();
+    if (!values) return;
+
+    try {
+      setIsSaving(true);
+      await onSubmit(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+  const unit = ALERT_RULE_METRICS[formData.metric].unit;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit ${rule!.name}` : 'New Alert Rule'}
+      maxWidth="2xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="sm:col-span-2">
+            <label htmlFor="rule-name" className="block text-sm font-medium text-gray-700">Name *</label>
+            <input
+              id="rule-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              placeholder="e.g. Starlight undercuts adult tickets"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="rule-competitor" className="block text-sm font-medium text-gray-700">Competitor</label>
+            <select
+              id="rule-competitor"
+              value={formData.competitor_id}
+              onChange={(e) => handleChange('competitor_id', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any competitor</option>
+              {competitors.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="rule-product" className="block text-sm font-medium text-gray-700">Product/Service</label>
+            <select
+              id="rule-product"
+              value={formData.product_service}
+              onChange={(e) => handleChange('product_service', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any product</option>
+              {products.map(p => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="rule-metric" className="block text-sm font-medium text-gray-700">Metric</label>
+            <select
+              id="rule-metric"
+              value={formData.metric}
+              onChange={(e) => handleChange('metric', e.target.value as AlertRuleMetric)}
+              className={inputClass}
+            >
+              {(Object.keys(ALERT_RULE_METRICS) as AlertRuleMetric[]).map(metric => (
+                <option key={metric} value={metric}>{ALERT_RULE_METRICS[metric].label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="rule-window" className="block text-sm font-medium text-gray-700">Window (days)</label>
+            <input
+              id="rule-window"
+              type="number"
+              min={1}
+              max={MAX_RULE_WINDOW_DAYS}
+              value={formData.window_days}
+              onChange={(e) => handleChange('window_days', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          {!eventMetric && (
+            <>
+              <div>
+                <label htmlFor="rule-operator" className="block text-sm font-medium text-gray-700">Operator</label>
+                <select
+                  id="rule-operator"
+                  value={formData.operator}
+                  onChange={(e) => handleChange('operator', e.target.value as AlertRuleOperator)}
+                  className={inputClass}
+                >
+                  {(Object.keys(ALERT_RULE_OPERATORS) as AlertRuleOperator[]).map(op => (
+                    <option key={op} value={op}>{ALERT_RULE_OPERATORS[op]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="rule-threshold" className="block text-sm font-medium text-gray-700">
+                  Threshold {unit === 'percent' ? '(%)' : '(base currency)'}
+                </label>
+                <input
+                  id="rule-threshold"
+                  type="number"
+                  step="0.1"
+                  value={formData.threshold}
+                  onChange={(e) => handleChange('threshold', e.target.value)}
+                  className={inputClass}
+                />
+                {unit === 'percent' && (
+                  <p className="text-xs text-gray-500 mt-1">Use a negative threshold for price drops, e.g. &lt; -5</p>
+                )}
+              </div>
+            </>
+          )}
+
+          <div>
+            <label htmlFor="rule-severity" className="block text-sm font-medium text-gray-700">Severity</label>
+            <select
+              id="rule-severity"
+              value={formData.severity}
+              onChange={(e) => handleChange('severity', e.target.value as MarketAlert['severity'])}
+              className={`${inputClass} capitalize`}
+            >
+              {ALERT_SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>{severity}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700 sm:pt-6">
+            <input
+              type="checkbox"
+              checked={formData.is_active}
+              onChange={(e) => handleChange('is_active', e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Active
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="border-t border-gray-200 pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              See which alerts this rule would have raised over the last {BACKTEST_DAYS} days.
+            </p>
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={isTesting}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <BeakerIcon className="h-4 w-4 mr-1" />
+              {isTesting ? 'Testing...' : `Test against last ${BACKTEST_DAYS} days`}
+            </button>
+          </div>
+
+          {backtest && (
+            <div className="mt-3" data-testid="rule-backtest">
+              <p className="text-sm font-medium text-gray-900">
+                {backtest.matches.length
+                  ? `Would have fired ${backtest.matches.length} time${backtest.matches.length === 1 ? '' : 's'}`
+                  : 'Would not have fired'}
+              </p>
+              {backtest.matches.length > 0 && (
+                <ul className="mt-2 max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {backtest.matches.slice(0, PREVIEW_LIMIT).map(match => (
+                    <li key={`${match.competitor_id}-${match.product_service || ''}-${match.triggered_at}`} className="px-3 py-2 flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm text-gray-900">{match.message}</p>
+                        <p className="text-xs text-gray-500">{formatDate(match.triggered_at)}</p>
+                      </div>
+                      <span className={`flex-shrink-0 inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${SEVERITY_CLASSES[match.severity]}`}>
+                        {match.severity}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {backtest.matches.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-1">Showing the latest {PREVIEW_LIMIT}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Create rule'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
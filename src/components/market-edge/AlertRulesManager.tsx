@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { describeAlertRule } from '@/services/market-edge-alert-rules';
+import { AlertRule, AlertRuleInput, Competitor } from '@/types/market-edge';
+import { AlertRuleBuilderModal, SEVERITY_CLASSES } from './AlertRuleBuilderModal';
+
+interface AlertRulesManagerProps {
+  marketId: string;
+  competitors: Competitor[];
+  products: string[];
+  currency?: string;
+  className?: string;
+}
+
+export const AlertRulesManager: React.FC<AlertRulesManagerProps> = ({
+  marketId,
+  competitors,
+  products,
+  currency,
+  className = ''
+}) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRules([]);
+    setIsLoading(true);
+
+    marketEdgeAPI.getAlertRules(marketId)
+      .then(list => {
+        if (!cancelled) setRules(list);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load alert rules');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [marketId]);
+
+  const openBuilder = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    setIsBuilderOpen(true);
+  };
+
+  const handleSave = async (values: AlertRuleInput) => {
+    try {
+      if (editingRule) {
+        const saved = await marketEdgeAPI.updateAlertRule(editingRule.id, values);
+        setRules(prev => prev.map(r => (r.id === saved.id ? saved : r)));
+        toast.success('Alert rule updated');
+      } else {
+        const saved = await marketEdgeAPI.createAlertRule(marketId, values);
+        setRules(prev => [...prev, saved]);
+        toast.success('Alert rule created');
+      }
+      setIsBuilderOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save alert rule');
+    }
+  };
+
+  // Flip straight away and put it back if the save fails
+  const toggleActive = async (rule: AlertRule) => {
+    const setActive = (is_active: boolean) =>
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active } : r)));
+
+    setActive(!rule.is_active);
+    try {
+      await marketEdgeAPI.updateAlertRule(rule.id, { is_active: !rule.is_active });
+    } catch (err) {
+      setActive(rule.is_active);
+      toast.error(err instanceof Error ? err.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    setConfirmingDeleteId(null);
+    try {
+      await marketEdgeAPI.deleteAlertRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      toast.success('Alert rule deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Alert Rules</h3>
+          <p className="text-sm text-gray-500">Your own conditions on top of the built-in alerts</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openBuilder(null)}
+          className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          New rule
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="animate-pulse h-10 bg-gray-100 rounded" />
+          ))}
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="p-6 text-center text-sm text-gray-500">No alert rules for this market yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {rules.map(rule => (
+            <li key={rule.id} data-testid="alert-rule" className="px-6 py-4 flex items-center justify-between gap-4">
+              <div className={rule.is_active ? '' : 'opacity-60'}>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-gray-900">{rule.name}</p>
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${SEVERITY_CLASSES[rule.severity]}`}>
+                    {rule.severity}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mt-0.5">{describeAlertRule(rule, competitors, currency)}</p>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-3">
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={rule.is_active}
+                    onChange={() => toggleActive(rule)}
+                    aria-label={`${rule.name} active`}
+                    className="h-4 w-4 mr-1 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Active
+                </label>
+                <button
+                  type="button"
+                  onClick={() => openBuilder(rule)}
+                  className="text-gray-400 hover:text-blue-600"
+                >
+                  <span className="sr-only">Edit {rule.name}</span>
+                  <PencilSquareIcon className="h-5 w-5" />
+                </button>
+                {confirmingDeleteId === rule.id ? (
+                  <span className="flex items-center gap-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      className="font-medium text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDeleteId(null)}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Keep
+                    </button>
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingDeleteId(rule.id)}
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <span className="sr-only">Delete {rule.name}</span>
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertRuleBuilderModal
+        isOpen={isBuilderOpen}
+        onClose={() => setIsBuilderOpen(false)}
+        marketId={marketId}
+        rule={editingRule}
+        competitors={competitors}
+        products={products}
+        onSubmit={handleSave}
+      />
+    </div>
+  );
+};
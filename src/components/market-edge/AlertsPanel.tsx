@@ -1,32 +1,90 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
 import {
   ExclamationTriangleIcon,
   InformationCircleIcon,
   ExclamationCircleIcon,
   XCircleIcon,
   CheckCircleIcon,
-  EyeIcon,
-  XMarkIcon
+  EyeIcon
 } from '@heroicons/react/24/outline';
-import { MarketAlert } from '@/types/market-edge';
+import { AlertBulkAction, MarketAlert } from '@/types/market-edge';
 import { marketEdgeAPI } from '@/services/market-edge-api';
+import { AlertStreamStatus, DEFAULT_POLL_INTERVAL_MS } from '@/services/market-edge-alert-stream';
+import { isAlertSnoozed } from '@/services/market-edge-alert-rules';
+import { formatTimeAgo } from '@/utils/time-ago';
 
 interface AlertsPanelProps {
   alerts: MarketAlert[];
   isLoading?: boolean;
   onMarkRead?: (alertId: string) => void;
+  // Receives alerts changed by triage so the owner can merge them back in
+  onAlertsChange?: (alerts: MarketAlert[]) => void;
   onRefresh?: () => void;
+  streamStatus?: AlertStreamStatus;
+  // Scrolled into view and outlined, e.g. when opened from a notification
+  highlightedAlertId?: string | null;
+  // Set when the alerts could not be loaded; the rest of the page still renders
+  error?: string | null;
   className?: string;
 }
 
+export type AlertStateFilter = 'open' | 'unread' | 'read' | 'resolved' | 'snoozed' | 'all';
+
+const STATE_FILTER_LABELS: Record<AlertStateFilter, string> = {
+  open: 'Open',
+  unread: 'Unread',
+  read: 'Read',
+  resolved: 'Resolved',
+  snoozed: 'Snoozed',
+  all: 'All alerts'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Unread, unresolved and not snoozed: what the unread badges count. */
+export const isAlertUnread = (alert: MarketAlert, now = new Date()) =>
+  !alert.is_read && !alert.resolved_at && !isAlertSnoozed(alert, now);
+
+export const matchesAlertState = (alert: MarketAlert, state: AlertStateFilter, now = new Date()) => {
+  const snoozed = isAlertSnoozed(alert, now);
+  switch (state) {
+    case 'open': return !alert.resolved_at && !snoozed;
+    case 'unread': return isAlertUnread(alert, now);
+    case 'read': return alert.is_read && !alert.resolved_at && !snoozed;
+    case 'resolved': return !!alert.resolved_at;
+    case 'snoozed': return snoozed && !alert.resolved_at;
+    default: return true;
+  }
+};
+
+// Snooze dates are calendar days in the user's time zone, so build and read them from local parts
+const pad2 = (value: number) => (value < 10 ? '0' : '') + value;
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
 export const AlertsPanel: React.FC<AlertsPanelProps> = ({
   alerts,
   isLoading = false,
   onMarkRead,
+  onAlertsChange,
   onRefresh,
+  streamStatus,
+  highlightedAlertId,
+  error = null,
   className = ''
 }) => {
   const [processingAlerts, setProcessingAlerts] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [severityFilter, setSeverityFilter] = useState<'' | MarketAlert['severity']>('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [stateFilter, setStateFilter] = useState<AlertStateFilter>('open');
+  const [snoozeUntil, setSnoozeUntil] = useState(() => toDateInput(new Date(Date.now() + DAY_MS)));
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -72,18 +130,6 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
     return labels[type] || type.charAt(0).toUpperCase() + type.slice(1);
   };
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
-    
-    if (diffInMinutes < 1) return 'Just now';
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
-    if (diffInMinutes < 10080) return `${Math.floor(diffInMinutes / 1440)}d ago`;
-    return date.toLocaleDateString();
-  };
-
   const handleMarkRead = async (alertId: string) => {
     if (processingAlerts.has(alertId)) return;
 
@@ -94,6 +140,10 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
       if (onMarkRead) {
         onMarkRead(alertId);
       }
+      const alert = alerts.find(a => a.id === alertId);
+      if (alert && onAlertsChange) {
+        onAlertsChange([{ ...alert, is_read: true }]);
+      }
     } catch (error) {
       console.error('Failed to mark alert as read:', error);
     } finally {
@@ -105,9 +155,49 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
     }
   };
 
+  const runBulkAction = async (ids: string[], action: AlertBulkAction) => {
+    if (!ids.length) return;
+
+    const options = action === 'snooze'
+      ? { snoozed_until: fromDateInput(snoozeUntil).toISOString() }
+      : {};
+
+    setIsBulkUpdating(true);
+    try {
+      const updated = await marketEdgeAPI.bulkUpdateAlerts(ids, action, options);
+      onAlertsChange?.(updated);
+      setSelectedIds(new Set());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update alerts');
+    } finally {
+      setIsBulkUpdating(false);
+    }
+  };
+
+  const typeOptions = React.useMemo(
+    () => Array.from(new Set(alerts.map(a => a.alert_type))).sort(),
+    [alerts]
+  );
+
+  const visibleAlerts = React.useMemo(() => {
+    const now = new Date();
+    return alerts
+      .filter(a => !severityFilter || a.severity === severityFilter)
+      .filter(a => !typeFilter || a.alert_type === typeFilter)
+      .filter(a => matchesAlertState(a, stateFilter, now));
+  }, [alerts, severityFilter, typeFilter, stateFilter]);
+
+  const unreadCount = alerts.filter(a => isAlertUnread(a)).length;
+  const isHighlightedVisible = !!highlightedAlertId && visibleAlerts.some(a => a.id === highlightedAlertId);
+
+  useEffect(() => {
+    if (!isHighlightedVisible) return;
+    document.getElementById(`market-alert-${highlightedAlertId}`)?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [highlightedAlertId, isHighlightedVisible]);
+
   // Group alerts by severity and read status
   const { unreadAlerts, readAlerts } = React.useMemo(() => {
-    const unread = alerts.filter(alert => !alert.is_read)
+    const unread = visibleAlerts.filter(alert => !alert.is_read)
       .sort((a, b) => {
         // Sort by severity first, then by date
         const severityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
@@ -118,12 +208,28 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
       });
     
-    const read = alerts.filter(alert => alert.is_read)
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(0, 10); // Show only last 10 read alerts
+    const read = visibleAlerts.filter(alert => alert.is_read)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
     
-    return { unreadAlerts: unread, readAlerts: read };
-  }, [alerts]);
+    return {
+      unreadAlerts: unread,
+      // The default view only keeps the last 10 read alerts; filters show them all
+      readAlerts: stateFilter === 'open' ? read.slice(0, 10) : read
+    };
+  }, [visibleAlerts, stateFilter]);
+
+  const shownIds = [...unreadAlerts, ...readAlerts].map(a => a.id);
+  const allShownSelected = shownIds.length > 0 && shownIds.every(id => selectedIds.has(id));
+  const selected = shownIds.filter(id => selectedIds.has(id));
+
+  const toggleSelected = (alertId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(alertId)) next.delete(alertId);
+      else next.add(alertId);
+      return next;
+    });
+  };
 
   if (isLoading) {
     return (
@@ -150,7 +256,7 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
     );
   }
 
-  if (alerts.length === 0) {
+  if (error || alerts.length === 0) {
     return (
       <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
         <div className="p-4 border-b border-gray-200">
@@ -166,22 +272,30 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
             )}
           </div>
         </div>
-        <div className="p-6 text-center">
-          <CheckCircleIcon className="mx-auto h-12 w-12 text-green-400" />
-          <h3 className="mt-2 text-sm font-medium text-gray-900">All clear!</h3>
-          <p className="mt-1 text-sm text-gray-500">
-            No alerts at the moment. You'll be notified of any market changes.
-          </p>
-        </div>
+        {error ? (
+          <p role="alert" className="p-6 text-center text-sm text-red-600">Alerts could not be loaded: {error}</p>
+        ) : (
+          <div className="p-6 text-center">
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">All clear!</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              No alerts at the moment. You'll be notified of any market changes.
+            </p>
+          </div>
+        )}
       </div>
     );
   }
 
+  const selectClass = 'rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
   const AlertItem: React.FC<{ alert: MarketAlert; showActions?: boolean }> = ({ 
     alert, 
     showActions = true 
   }) => (
-    <div className={`p-4 border-l-4 ${
+    <div id={`market-alert-${alert.id}`} className={`p-4 border-l-4 ${
+      alert.id === highlightedAlertId ? 'ring-2 ring-inset ring-blue-500 ' : ''
+    }${
       alert.is_read 
         ? 'border-gray-200 bg-gray-50' 
         : alert.severity === 'critical' 
@@ -194,6 +308,13 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
     }`}>
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={selectedIds.has(alert.id)}
+            onChange={() => toggleSelected(alert.id)}
+            aria-label={`Select ${alert.title}`}
+            className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
           {getSeverityIcon(alert.severity)}
           <div className="flex-1 min-w-0">
             <div className="flex items-center space-x-2 mb-1">
@@ -203,6 +324,14 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
               <span className="text-xs text-gray-500">
                 {getAlertTypeLabel(alert.alert_type)}
               </span>
+              {alert.resolved_at && (
+                <span className="text-xs font-medium text-green-700">Resolved</span>
+              )}
+              {isAlertSnoozed(alert) && (
+                <span className="text-xs text-gray-500">
+                  Snoozed until {new Date(alert.snoozed_until!).toLocaleDateString()}
+                </span>
+              )}
             </div>
             <p className={`text-sm font-medium ${alert.is_read ? 'text-gray-700' : 'text-gray-900'}`}>
               {alert.title}
@@ -223,19 +352,29 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
           </div>
         </div>
         
-        {showActions && !alert.is_read && (
+        {showActions && !alert.resolved_at && (
           <div className="flex items-center space-x-1 ml-4">
+            {!alert.is_read && (
+              <button
+                onClick={() => handleMarkRead(alert.id)}
+                disabled={processingAlerts.has(alert.id)}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                title="Mark as read"
+              >
+                {processingAlerts.has(alert.id) ? (
+                  <div className="w-4 h-4 border border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
+                ) : (
+                  <EyeIcon className="w-4 h-4" />
+                )}
+              </button>
+            )}
             <button
-              onClick={() => handleMarkRead(alert.id)}
-              disabled={processingAlerts.has(alert.id)}
-              className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
-              title="Mark as read"
+              onClick={() => runBulkAction([alert.id], 'resolve')}
+              disabled={isBulkUpdating}
+              className="p-1 text-gray-400 hover:text-green-600 transition-colors"
+              title="Resolve alert"
             >
-              {processingAlerts.has(alert.id) ? (
-                <div className="w-4 h-4 border border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
-              ) : (
-                <EyeIcon className="w-4 h-4" />
-              )}
+              <CheckCircleIcon className="w-4 h-4" />
             </button>
           </div>
         )}
@@ -249,9 +388,9 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-medium text-gray-900">
             Market Alerts
-            {unreadAlerts.length > 0 && (
+            {unreadCount > 0 && (
               <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                {unreadAlerts.length} new
+                {unreadCount} new
               </span>
             )}
           </h3>
@@ -264,8 +403,96 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
             </button>
           )}
         </div>
+
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <select
+            aria-label="Severity"
+            value={severityFilter}
+            onChange={(e) => setSeverityFilter(e.target.value as '' | MarketAlert['severity'])}
+            className={selectClass}
+          >
+            <option value="">All severities</option>
+            <option value="critical">Critical</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <select
+            aria-label="Alert type"
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All types</option>
+            {typeOptions.map(type => (
+              <option key={type} value={type}>{getAlertTypeLabel(type)}</option>
+            ))}
+          </select>
+          <select
+            aria-label="State"
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value as AlertStateFilter)}
+            className={selectClass}
+          >
+            {(Object.keys(STATE_FILTER_LABELS) as AlertStateFilter[]).map(state => (
+              <option key={state} value={state}>{STATE_FILTER_LABELS[state]}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
+      {shownIds.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center text-gray-600">
+            <input
+              type="checkbox"
+              checked={allShownSelected}
+              onChange={() => setSelectedIds(allShownSelected ? new Set() : new Set(shownIds))}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            {selected.length ? `${selected.length} selected` : 'Select all'}
+          </label>
+          {selected.length > 0 && (
+            <>
+              <button
+                type="button"
+                onClick={() => runBulkAction(selected, 'mark_read')}
+                disabled={isBulkUpdating}
+                className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Mark read
+              </button>
+              <button
+                type="button"
+                onClick={() => runBulkAction(selected, 'resolve')}
+                disabled={isBulkUpdating}
+                className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Resolve
+              </button>
+              <span className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => runBulkAction(selected, 'snooze')}
+                  disabled={isBulkUpdating || !snoozeUntil}
+                  className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  Snooze until
+                </button>
+                <input
+                  type="date"
+                  aria-label="Snooze until date"
+                  value={snoozeUntil}
+                  min={toDateInput(new Date(Date.now() + DAY_MS))}
+                  onChange={(e) => setSnoozeUntil(e.target.value)}
+                  className="rounded-md border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
       <div className="max-h-96 overflow-y-auto">
         {/* Unread Alerts */}
         {unreadAlerts.length > 0 && (
@@ -288,22 +515,30 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
           <div>
             <div className="px-4 py-2 bg-gray-50 border-b border-gray-200">
               <h4 className="text-sm font-medium text-gray-700">
-                Recently Read
+                {stateFilter === 'open' ? 'Recently Read' : 'Read'}
               </h4>
             </div>
             <div className="space-y-1">
               {readAlerts.map((alert) => (
-                <AlertItem key={alert.id} alert={alert} showActions={false} />
+                <AlertItem key={alert.id} alert={alert} />
               ))}
             </div>
           </div>
         )}
+
+        {shownIds.length === 0 && (
+          <p className="p-6 text-center text-sm text-gray-500">No alerts match these filters</p>
+        )}
       </div>
 
       {/* Footer */}
       <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-center">
-        <p className="text-xs text-gray-500">
-          Alerts are updated in real-time based on market changes
+        <p className="text-xs text-gray-500" data-testid="alert-stream-status">
+          {streamStatus === 'polling'
+            ? `Checking for new alerts every ${DEFAULT_POLL_INTERVAL_MS / 1000} seconds while this page is open`
+            : streamStatus === 'connecting'
+              ? 'Connecting to live alerts...'
+              : 'Alerts are updated in real-time based on market changes'}
         </p>
       </div>
     </div>
@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ChevronUpIcon,
+  ChevronDownIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ArrowUturnLeftIcon
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { formatPrice } from '@/services/market-edge-currency';
+import {
+  AnomalyReview,
+  AnomalyReviewStatus,
+  Competitor,
+  PriceAnomaly,
+  PricingData
+} from '@/types/market-edge';
+
+type SortField = 'date_collected' | 'competitor_name' | 'product_service' | 'price' | 'z_score' | 'severity';
+type SortDirection = 'asc' | 'desc';
+type ReviewFilter = 'unreviewed' | AnomalyReviewStatus | 'all';
+
+interface AnomalyExplorerProps {
+  marketId: string;
+  anomalies: PriceAnomaly[];
+  competitors: Competitor[];
+  currency?: string;
+  className?: string;
+}
+
+interface SparklineProps {
+  points: Array<{ id: string; date: string; price: number }>;
+  highlightId: string;
+  width?: number;
+  height?: number;
+}
+
+// Days either side of the anomaly shown in its sparkline
+export const SPARKLINE_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REVIEW_LABELS: Record<AnomalyReviewStatus, string> = {
+  confirmed: 'Confirmed',
+  false_positive: 'False positive'
+};
+
+/** Prices for the same competitor and product around the anomaly date. */
+export const priceHistoryAround = (
+  anomaly: PriceAnomaly,
+  pricing: PricingData[],
+  competitorId: string | undefined,
+  windowDays = SPARKLINE_WINDOW_DAYS
+) => {
+  const centre = new Date(anomaly.date_collected).getTime();
+  return pricing
+    .filter(p => p.competitor_id === competitorId && p.product_service === anomaly.product_service)
+    .filter(p => Math.abs(new Date(p.date_collected).getTime() - centre) <= windowDays * DAY_MS)
+    .sort((a, b) => a.date_collected.localeCompare(b.date_collected))
+    .map(p => ({ id: p.id, date: p.date_collected, price: p.price_point }));
+};
+
+export const PriceSparkline: React.FC<SparklineProps> = ({ points, highlightId, width = 120, height = 32 }) => {
+  if (points.length < 2) {
+    return <span className="text-xs text-gray-400">Not enough history</span>;
+  }
+
+  const prices = points.map(p => p.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const times = points.map(p => new Date(p.date).getTime());
+  const start = times[0];
+  const span = times[times.length - 1] - start || 1;
+  const pad = 3;
+  const xFor = (time: number) => pad + ((time - start) / span) * (width - pad * 2);
+  const yFor = (price: number) => (max === min ? height / 2 : pad + ((max - price) / (max - min)) * (height - pad * 2));
+  const highlight = points.find(p => p.id === highlightId);
+
+  return (
+    <svg width={width} height={height} role="img" aria-label={`Price history, ${points.length} points`}>
+      <polyline
+        fill="none"
+        stroke="#6b7280"
+        strokeWidth={1.5}
+        points={points.map((p, i) => `${xFor(times[i]).toFixed(1)},${yFor(p.price).toFixed(1)}`).join(' ')}
+      />
+      {highlight && (
+        <circle
+          data-testid="sparkline-anomaly"
+          cx={xFor(new Date(highlight.date).getTime())}
+          cy={yFor(highlight.price)}
+          r={3}
+          fill="#DC2626"
+        />
+      )}
+    </svg>
+  );
+};
+
+export const AnomalyExplorer: React.FC<AnomalyExplorerProps> = ({
+  marketId,
+  anomalies,
+  competitors,
+  currency,
+  className = ''
+}) => {
+  const [reviews, setReviews] = useState<Record<string, AnomalyReview>>({});
+  const [pricing, setPricing] = useState<PricingData[]>([]);
+  const [competitorFilter, setCompetitorFilter] = useState('');
+  const [productFilter, setProductFilter] = useState('');
+  const [severityFilter, setSeverityFilter] = useState<'' | PriceAnomaly['severity']>('');
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('unreviewed');
+  const [sortField, setSortField] = useState<SortField>('z_score');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+
+  useEffect(() => {
+    let cancelled = false;
+    setReviews({});
+    setPricing([]);
+
+    marketEdgeAPI.getAnomalyReviews(marketId)
+      .then(list => {
+        if (!cancelled) {
+          setReviews(list.reduce((acc, r) => ({ ...acc, [r.anomaly_id]: r }), {} as Record<string, AnomalyReview>));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load anomaly reviews');
+      });
+    marketEdgeAPI.getMarketPricingData(marketId)
+      .then(rows => {
+        if (!cancelled) setPricing(rows);
+      })
+      .catch(() => {
+        // Sparklines are optional context
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [marketId]);
+
+  const competitorIds = useMemo(() => competitors.reduce((acc, c) => {
+    acc[c.name] = c.id;
+    return acc;
+  }, {} as Record<string, string>), [competitors]);
+
+  const competitorOptions = useMemo(() => Array.from(new Set(anomalies.map(a => a.competitor_name))).sort(), [anomalies]);
+  const productOptions = useMemo(() => Array.from(new Set(anomalies.map(a => a.product_service))).sort(), [anomalies]);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'z_score' || field === 'date_collected' ? 'desc' : 'asc');
+    }
+  };
+
+  const visibleAnomalies = useMemo(() => {
+    const sortValue = (a: PriceAnomaly): number | string => {
+      switch (sortField) {
+        case 'z_score': return Math.abs(a.z_score);
+        case 'severity': return a.severity === 'high' ? 2 : 1;
+        case 'price': return a.price;
+        case 'date_collected': return new Date(a.date_collected).getTime();
+        default: return a[sortField].toLowerCase();
+      }
+    };
+
+    return anomalies
+      .filter(a => !competitorFilter || a.competitor_name === competitorFilter)
+      .filter(a => !productFilter || a.product_service === productFilter)
+      .filter(a => !severityFilter || a.severity === severityFilter)
+      .filter(a => {
+        const status = reviews[a.id]?.status;
+        if (reviewFilter === 'all') return true;
+        return reviewFilter === 'unreviewed' ? !status : status === reviewFilter;
+      })
+      .sort((a, b) => {
+        const aValue = sortValue(a);
+        const bValue = sortValue(b);
+        if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
+        if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
+        return 0;
+      });
+  }, [anomalies, reviews, competitorFilter, productFilter, severityFilter, reviewFilter, sortField, sortDirection]);
+
+  const unreviewedCount = anomalies.filter(a => !reviews[a.id]).length;
+
+  const setReview = async (anomaly: PriceAnomaly, status: AnomalyReviewStatus | null) => {
+    const previous = reviews[anomaly.id];
+    setReviews(prev => {
+      const next = { ...prev };
+      if (status) {
+        next[anomaly.id] = { anomaly_id: anomaly.id, market_id: marketId, status, reviewed_at: new Date().toISOString() };
+      } else {
+        delete next[anomaly.id];
+      }
+      return next;
+    });
+
+    try {
+      if (status) {
+        const saved = await marketEdgeAPI.reviewAnomaly(marketId, anomaly.id, status);
+        setReviews(prev => ({ ...prev, [anomaly.id]: saved }));
+      } else {
+        await marketEdgeAPI.clearAnomalyReview(marketId, anomaly.id);
+      }
+    } catch (err) {
+      setReviews(prev => {
+        const next = { ...prev };
+        if (previous) next[anomaly.id] = previous;
+        else delete next[anomaly.id];
+        return next;
+      });
+      toast.error(err instanceof Error ? err.message : 'Failed to save review');
+    }
+  };
+
+  const SortIcon: React.FC<{ field: SortField }> = ({ field }) => {
+    if (sortField !== field) {
+      return <div className="w-4 h-4" />; // Placeholder
+    }
+    return sortDirection === 'asc' ?
+      <ChevronUpIcon className="w-4 h-4" /> :
+      <ChevronDownIcon className="w-4 h-4" />;
+  };
+
+  const SortableHeader: React.FC<{ field: SortField; label: string; align?: 'left' | 'right' }> = ({ field, label, align = 'left' }) => (
+    <th
+      scope="col"
+      aria-sort={sortField === field ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+      className={`px-4 py-3 text-${align} text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100`}
+      onClick={() => handleSort(field)}
+    >
+      <div className={`flex items-center space-x-1 ${align === 'right' ? 'justify-end' : ''}`}>
+        <span>{label}</span>
+        <SortIcon field={field} />
+      </div>
+    </th>
+  );
+
+  const selectClass = 'rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Anomaly Explorer</h3>
+          <span className="text-sm text-gray-500">
+            {unreviewedCount} of {anomalies.length} awaiting review
+          </span>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-3">
+          <select aria-label="Competitor" value={competitorFilter} onChange={(e) => setCompetitorFilter(e.target.value)} className={selectClass}>
+            <option value="">All competitors</option>
+            {competitorOptions.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <select aria-label="Product" value={productFilter} onChange={(e) => setProductFilter(e.target.value)} className={selectClass}>
+            <option value="">All products</option>
+            {productOptions.map(product => <option key={product} value={product}>{product}</option>)}
+          </select>
+          <select
+            aria-label="Severity"
+            value={severityFilter}
+            onChange={(e) => setSeverityFilter(e.target.value as '' | PriceAnomaly['severity'])}
+            className={selectClass}
+          >
+            <option value="">All severities</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+          </select>
+          <select
+            aria-label="Review status"
+            value={reviewFilter}
+            onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)}
+            className={selectClass}
+          >
+            <option value="unreviewed">Awaiting review</option>
+            <option value="confirmed">Confirmed</option>
+            <option value="false_positive">False positive</option>
+            <option value="all">All anomalies</option>
+          </select>
+        </div>
+      </div>
+
+      {visibleAnomalies.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          {anomalies.length ? 'No anomalies match these filters' : 'No price anomalies detected in this period'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <SortableHeader field="date_collected" label="Date" />
+                <SortableHeader field="competitor_name" label="Competitor" />
+                <SortableHeader field="product_service" label="Product" />
+                <SortableHeader field="price" label="Price" align="right" />
+                <SortableHeader field="z_score" label="Z-score" align="right" />
+                <SortableHeader field="severity" label="Severity" />
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">History</th>
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Review</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleAnomalies.map(anomaly => {
+                const review = reviews[anomaly.id];
+                return (
+                  <tr key={anomaly.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {new Date(anomaly.date_collected).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{anomaly.competitor_name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{anomaly.product_service}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900 whitespace-nowrap">
+                      {formatPrice(anomaly.price, currency)}
+                      <div className="text-xs text-gray-500">
+                        {anomaly.deviation_from_mean >= 0 ? '+' : '-'}{formatPrice(Math.abs(anomaly.deviation_from_mean), currency)} vs mean
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{anomaly.z_score.toFixed(2)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        anomaly.severity === 'high' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {anomaly.severity === 'high' ? 'High' : 'Medium'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <PriceSparkline
+                        points={priceHistoryAround(anomaly, pricing, competitorIds[anomaly.competitor_name])}
+                        highlightId={anomaly.id}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {review ? (
+                        <div className="flex items-center justify-end space-x-2">
+                          <span className={`text-xs font-medium ${review.status === 'confirmed' ? 'text-green-700' : 'text-gray-500'}`}>
+                            {REVIEW_LABELS[review.status]}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setReview(anomaly, null)}
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            title="Undo review"
+                          >
+                            <ArrowUturnLeftIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => setReview(anomaly, 'confirmed')}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-green-700 bg-green-50 hover:bg-green-100"
+                          >
+                            <CheckCircleIcon className="w-4 h-4 mr-1" />
+                            Confirm
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setReview(anomaly, 'false_positive')}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200"
+                          >
+                            <XCircleIcon className="w-4 h-4 mr-1" />
+                            False positive
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { EMPTY_ANNOTATION, MAX_ANNOTATION_LABEL_LENGTH, validateAnnotation } from '@/services/market-edge-annotations';
+import { ChartAnnotation, ChartAnnotationInput } from '@/types/market-edge';
+
+interface ChartAnnotationFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  annotation?: ChartAnnotation | null;
+  onSubmit: (values: ChartAnnotationInput) => void | Promise<void>;
+}
+
+const initialState = (annotation?: ChartAnnotation | null): ChartAnnotationInput => annotation
+  ? { date: annotation.date, label: annotation.label, description: annotation.description || '' }
+  : { ...EMPTY_ANNOTATION, date: new Date().toISOString().substring(0, 10) };
+
+export const ChartAnnotationFormModal: React.FC<ChartAnnotationFormModalProps> = ({
+  isOpen,
+  onClose,
+  annotation,
+  onSubmit
+}) => {
+  const [formData, setFormData] = useState<ChartAnnotationInput>(() => initialState(annotation));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = !!annotation;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(annotation));
+      setError(null);
+    }
+  }, [isOpen, annotation]);
+
+  const handleChange = <K extends keyof ChartAnnotationInput>(field: K, value: ChartAnnotationInput[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = {
+      ...formData,
+      label: formData.label.trim(),
+      description: (formData.description || '').trim()
+    };
+    const problem = validateAnnotation(values);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSubmit(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Annotation' : 'New Annotation'}
+      maxWidth="lg"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="annotation-date" className="block text-sm font-medium text-gray-700">Date *</label>
+            <input
+              id="annotation-date"
+              type="date"
+              value={formData.date}
+              onChange={(e) => handleChange('date', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="sm:col-span-2">
+            <label htmlFor="annotation-label" className="block text-sm font-medium text-gray-700">Label *</label>
+            <input
+              id="annotation-label"
+              type="text"
+              value={formData.label}
+              onChange={(e) => handleChange('label', e.target.value)}
+              maxLength={MAX_ANNOTATION_LABEL_LENGTH}
+              placeholder="e.g. VAT rise on tickets"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="annotation-description" className="block text-sm font-medium text-gray-700">Details</label>
+          <textarea
+            id="annotation-description"
+            rows={3}
+            value={formData.description}
+            onChange={(e) => handleChange('description', e.target.value)}
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500 mt-1">Shown in the chart tooltip and included in exports.</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Add annotation'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { PencilSquareIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { annotationAuthor, sortAnnotations } from '@/services/market-edge-annotations';
+import { formatPeriodLabel } from '@/services/market-edge-time-axis';
+import { ChartAnnotation, ChartAnnotationInput } from '@/types/market-edge';
+import { ChartAnnotationFormModal } from './ChartAnnotationFormModal';
+
+interface ChartAnnotationsPanelProps {
+  marketId: string;
+  annotations: ChartAnnotation[];
+  onAnnotationsChange: (annotations: ChartAnnotation[]) => void;
+  // Set when the annotations could not be loaded; the rest of the page still renders
+  error?: string | null;
+  className?: string;
+}
+
+export const ChartAnnotationsPanel: React.FC<ChartAnnotationsPanelProps> = ({
+  marketId,
+  annotations,
+  onAnnotationsChange,
+  error = null,
+  className = ''
+}) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAnnotation, setEditingAnnotation] = useState<ChartAnnotation | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const openForm = (annotation: ChartAnnotation | null) => {
+    setEditingAnnotation(annotation);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (values: ChartAnnotationInput) => {
+    try {
+      if (editingAnnotation) {
+        const saved = await marketEdgeAPI.updateChartAnnotation(marketId, editingAnnotation.id, values);
+        onAnnotationsChange(annotations.map(a => (a.id === saved.id ? saved : a)));
+        toast.success('Annotation updated');
+      } else {
+        const saved = await marketEdgeAPI.createChartAnnotation(marketId, values);
+        onAnnotationsChange([...annotations, saved]);
+        toast.success('Annotation added');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save annotation');
+    }
+  };
+
+  const handleDelete = async (annotation: ChartAnnotation) => {
+    setConfirmingDeleteId(null);
+    try {
+      await marketEdgeAPI.deleteChartAnnotation(marketId, annotation.id);
+      onAnnotationsChange(annotations.filter(a => a.id !== annotation.id));
+      toast.success('Annotation deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete annotation');
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Chart Annotations</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Mark launches, tax changes and other events on the pricing trends chart.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => openForm(null)}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add annotation
+        </button>
+      </div>
+
+      {error && (
+        <p role="alert" className="px-6 pt-4 text-sm text-red-600">Annotations could not be loaded: {error}</p>
+      )}
+
+      {annotations.length === 0 ? (
+        !error && <p className="px-6 py-4 text-sm text-gray-500">No annotations for this market yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sortAnnotations(annotations).map(annotation => (
+            <li key={annotation.id} data-testid="chart-annotation" className="px-6 py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  <span className="text-purple-700">{formatPeriodLabel(annotation.date)}</span>
+                  {' · '}
+                  {annotation.label}
+                </p>
+                {annotation.description && <p className="text-sm text-gray-600">{annotation.description}</p>}
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Added by {annotationAuthor(annotation)}
+                  {annotation.updated_at && ` · edited ${new Date(annotation.updated_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              {annotation.can_edit && (
+                <div className="flex flex-shrink-0 items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => openForm(annotation)}
+                    className="text-gray-400 hover:text-blue-600"
+                  >
+                    <span className="sr-only">Edit {annotation.label}</span>
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  {confirmingDeleteId === annotation.id ? (
+                    <span className="flex items-center gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(annotation)}
+                        className="font-medium text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingDeleteId(null)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Keep
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDeleteId(annotation.id)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <span className="sr-only">Delete {annotation.label}</span>
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ChartAnnotationFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        annotation={editingAnnotation}
+        onSubmit={handleSave}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  ArrowPathIcon,
+  GlobeAltIcon,
+  LinkIcon
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { SlideOver } from '@/components/ui/SlideOver';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { formatPrice } from '@/services/market-edge-currency';
+import { CompetitorAnalysis } from '@/types/market-edge';
+
+interface CompetitorDetailDrawerProps {
+  competitorId: string | null;
+  daysBack: number;
+  onDaysBackChange: (daysBack: number) => void;
+  onClose: () => void;
+}
+
+export const DAYS_BACK_OPTIONS = [7, 30, 90, 365];
+export const DEFAULT_DAYS_BACK = 30;
+
+const SERIES_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899'];
+
+const POSITION_BADGES: Record<CompetitorAnalysis['pricing_metrics']['position_vs_market'], { label: string; className: string }> = {
+  below_market: { label: 'Below market', className: 'bg-green-100 text-green-800' },
+  at_market: { label: 'At market', className: 'bg-gray-100 text-gray-800' },
+  above_market: { label: 'Above market', className: 'bg-red-100 text-red-800' }
+};
+
+const formatShortDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+export const CompetitorDetailDrawer: React.FC<CompetitorDetailDrawerProps> = ({
+  competitorId,
+  daysBack,
+  onDaysBackChange,
+  onClose
+}) => {
+  const [analysis, setAnalysis] = useState<CompetitorAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (competitorId) {
+      loadAnalysis();
+    } else {
+      setAnalysis(null);
+    }
+  }, [competitorId, daysBack]);
+
+  const loadAnalysis = async () => {
+    if (!competitorId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setAnalysis(await marketEdgeAPI.getCompetitorAnalysis(competitorId, { days_back: daysBack }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load competitor analysis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy link');
+    }
+  };
+
+  // One line per product, oldest point first
+  const { chartData, products } = useMemo(() => {
+    if (!analysis) return { chartData: [], products: [] as string[] };
+
+    const products = Array.from(new Set(analysis.recent_pricing.map(p => p.product_service))).sort();
+    const chartData = [...analysis.recent_pricing]
+      .sort((a, b) => a.date_collected.localeCompare(b.date_collected))
+      .map(p => ({
+        date: formatShortDate(p.date_collected),
+        [p.product_service]: p.price_point,
+        is_promotion: p.is_promotion
+      }));
+
+    return { chartData, products };
+  }, [analysis]);
+
+  const metrics = analysis?.pricing_metrics;
+  const formatCurrency = (value: number) => formatPrice(value, analysis?.currency);
+  const position = metrics ? POSITION_BADGES[metrics.position_vs_market] : null;
+  const breakdown = analysis
+    ? Object.entries(analysis.product_breakdown).sort(([a], [b]) => a.localeCompare(b))
+    : [];
+
+  return (
+    <SlideOver
+      isOpen={!!competitorId}
+      onClose={onClose}
+      title={analysis?.competitor.name || 'Competitor'}
+      description={analysis?.competitor.business_type}
+      maxWidth="2xl"
+    >
+      <div className="space-y-6">
+        {/* Controls */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <label htmlFor="competitor-days-back" className="text-sm text-gray-600">Period</label>
+            <select
+              id="competitor-days-back"
+              value={daysBack}
+              onChange={(e) => onDaysBackChange(Number(e.target.value))}
+              className="block border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {DAYS_BACK_OPTIONS.map(days => (
+                <option key={days} value={days}>Last {days} days</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleCopyLink}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <LinkIcon className="h-4 w-4 mr-2" />
+              Copy link
+            </button>
+            <button
+              onClick={loadAnalysis}
+              disabled={isLoading}
+              className="inline-flex items-center p-2 border border-gray-300 shadow-sm rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              title="Refresh"
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+            {error}
+            <button onClick={loadAnalysis} className="block mt-2 text-red-800 underline">Retry</button>
+          </div>
+        ) : isLoading && !analysis ? (
+          <div className="animate-pulse space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-20 bg-gray-200 rounded-lg"></div>
+              ))}
+            </div>
+            <div className="h-64 bg-gray-200 rounded-lg"></div>
+          </div>
+        ) : analysis && metrics && (
+          <>
+            {analysis.competitor.website && (
+              <a
+                href={analysis.competitor.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <GlobeAltIcon className="h-4 w-4 mr-1" />
+                {analysis.competitor.website.replace(/^https?:\/\//, '')}
+              </a>
+            )}
+
+            {/* Pricing metrics */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-medium text-gray-900">Pricing</h4>
+                {position && (
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${position.className}`}>
+                    {position.label}
+                  </span>
+                )}
+              </div>
+              <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {[
+                  { label: 'Average price', value: formatCurrency(metrics.average_price) },
+                  { label: 'Market average', value: formatCurrency(metrics.market_average) },
+                  { label: 'Data points', value: metrics.total_data_points },
+                  { label: 'Lowest price', value: formatCurrency(metrics.min_price) },
+                  { label: 'Highest price', value: formatCurrency(metrics.max_price) },
+                  {
+                    label: 'vs market',
+                    value: metrics.market_average
+                      ? `${metrics.average_price >= metrics.market_average ? '+' : ''}${(((metrics.average_price - metrics.market_average) / metrics.market_average) * 100).toFixed(1)}%`
+                      : '-'
+                  }
+                ].map(item => (
+                  <div key={item.label} className="rounded-lg border border-gray-200 p-3">
+                    <dt className="text-xs text-gray-500">{item.label}</dt>
+                    <dd className="text-lg font-semibold text-gray-900">{item.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            {/* Recent pricing chart */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Recent pricing</h4>
+              {chartData.length === 0 ? (
+                <p className="text-sm text-gray-500">No pricing recorded in this period.</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke="#6b7280" />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={formatCurrency} stroke="#6b7280" />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    {products.map((product, index) => (
+                      <Line
+                        key={product}
+                        type="monotone"
+                        dataKey={product}
+                        stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+
+            {/* Product breakdown */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Products & services</h4>
+              {breakdown.length === 0 ? (
+                <p className="text-sm text-gray-500">No products priced in this period.</p>
+              ) : (
+                <div className="overflow-hidden border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2">Product/Service</th>
+                        <th className="px-4 py-2 text-right">Average</th>
+                        <th className="px-4 py-2 text-right">Min</th>
+                        <th className="px-4 py-2 text-right">Max</th>
+                        <th className="px-4 py-2 text-right">Points</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-100">
+                      {breakdown.map(([product, stats]) => (
+                        <tr key={product}>
+                          <td className="px-4 py-2 font-medium text-gray-900">{product}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(stats.average_price)}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(stats.min_price)}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(stats.max_price)}</td>
+                          <td className="px-4 py-2 text-right">{stats.data_points}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </SlideOver>
+  );
+};
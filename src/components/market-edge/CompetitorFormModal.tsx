@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { Competitor, CompetitorLocation } from '@/types/market-edge';
+
+export interface CompetitorFormValues {
+  name: string;
+  market_id: string;
+  business_type?: string;
+  website?: string;
+  locations?: Record<string, any>;
+  tracking_priority: number;
+  description?: string;
+  market_share_estimate?: number;
+}
+
+interface CompetitorFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  marketId: string;
+  competitor?: Competitor | null;
+  onSubmit: (values: CompetitorFormValues) => void | Promise<void>;
+}
+
+interface FormState {
+  name: string;
+  business_type: string;
+  website: string;
+  tracking_priority: number;
+  description: string;
+  market_share_estimate: string;
+  locations: CompetitorLocation[];
+}
+
+const PRIORITY_OPTIONS = [
+  { value: 1, label: 'Low' },
+  { value: 2, label: 'Below Average' },
+  { value: 3, label: 'Average' },
+  { value: 4, label: 'High' },
+  { value: 5, label: 'Critical' }
+];
+
+const emptyLocation = (): CompetitorLocation => ({ name: '', address: '', city: '', postcode: '' });
+
+/**
+ * Competitors store locations as `{ primary, sites, addresses }`. Older
+ * records only have `primary` and `sites`, so seed a single site from them.
+ */
+export const locationsFromCompetitor = (competitor?: Competitor | null): CompetitorLocation[] => {
+  const locations = competitor?.locations;
+  if (Array.isArray(locations?.addresses)) {
+    return locations!.addresses.map((l: CompetitorLocation) => ({ ...emptyLocation(), ...l }));
+  }
+  if (locations?.primary) {
+    return [{ ...emptyLocation(), name: competitor!.name, city: locations.primary }];
+  }
+  return [];
+};
+
+export const toLocationsPayload = (locations: CompetitorLocation[]) => {
+  const addresses = locations
+    .map(l => ({
+      name: l.name.trim(),
+      address: l.address?.trim() || undefined,
+      city: l.city.trim(),
+      postcode: l.postcode?.trim().toUpperCase() || undefined
+    }))
+    .filter(l => l.name || l.city);
+  if (!addresses.length) return undefined;
+  return { primary: addresses[0].city, sites: addresses.length, addresses };
+};
+
+/** Adds a scheme when one was left off, so "example.com" is accepted. */
+export const normaliseWebsite = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+const isValidWebsite = (value: string) => {
+  try {
+    const url = new URL(normaliseWebsite(value));
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+const initialState = (competitor?: Competitor | null): FormState => ({
+  name: competitor?.name || '',
+  business_type: competitor?.business_type || '',
+  website: competitor?.website || '',
+  tracking_priority: competitor?.tracking_priority || 3,
+  description: competitor?.description || '',
+  market_share_estimate: competitor?.market_share_estimate != null ? competitor.market_share_estimate.toString() : '',
+  locations: locationsFromCompetitor(competitor)
+});
+
+export const CompetitorFormModal: React.FC<CompetitorFormModalProps> = ({
+  isOpen,
+  onClose,
+  marketId,
+  competitor,
+  onSubmit
+}) => {
+  const [formData, setFormData] = useState<FormState>(() => initialState(competitor));
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = !!competitor;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(competitor));
+      setValidationErrors({});
+    }
+  }, [isOpen, competitor]);
+
+  const handleInputChange = (field: keyof FormState, value: string | number) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear validation error when user starts typing
+    if (validationErrors[field]) {
+      setValidationErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleLocationChange = (index: number, field: keyof CompetitorLocation, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      locations: prev.locations.map((l, i) => (i === index ? { ...l, [field]: value } : l))
+    }));
+    const key = `locations.${index}.${field}`;
+    if (validationErrors[key]) {
+      setValidationErrors(prev => ({ ...prev, [key]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Competitor name is required';
+    } else if (formData.name.trim().length > 100) {
+      errors.name = 'Name must be 100 characters or fewer';
+    }
+
+    if (formData.website.trim() && !isValidWebsite(formData.website)) {
+      errors.website = 'Please enter a valid website URL';
+    }
+
+    if (formData.market_share_estimate.trim()) {
+      const share = Number(formData.market_share_estimate);
+      if (Number.isNaN(share) || share < 0 || share > 100) {
+        errors.market_share_estimate = 'Market share must be between 0 and 100';
+      }
+    }
+
+    if (formData.description.length > 500) {
+      errors.description = 'Description must be 500 characters or fewer';
+    }
+
+    formData.locations.forEach((location, index) => {
+      const isBlank = !location.name.trim() && !location.city.trim() && !location.address?.trim() && !location.postcode?.trim();
+      if (isBlank) return;
+      if (!location.name.trim()) errors[`locations.${index}.name`] = 'Site name is required';
+      if (!location.city.trim()) errors[`locations.${index}.city`] = 'City is required';
+    });
+
+    setValidationErrors(errors);
+    return Object.values(errors).every(error => !error);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const values: CompetitorFormValues = {
+      name: formData.name.trim(),
+      market_id: competitor?.market_id || marketId,
+      business_type: formData.business_type.trim() || undefined,
+      website: normaliseWebsite(formData.website) || undefined,
+      tracking_priority: formData.tracking_priority,
+      description: formData.description.trim() || undefined,
+      market_share_estimate: formData.market_share_estimate.trim()
+        ? Number(formData.market_share_estimate)
+        : undefined,
+      locations: toLocationsPayload(formData.locations)
+    };
+
+    try {
+      setIsSaving(true);
+      await onSubmit(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `mt-1 block w-full rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 ${
+      validationErrors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: string) =>
+    validationErrors[field] ? <p className="text-sm text-red-600 mt-1">{validationErrors[field]}</p> : null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit ${competitor!.name}` : 'Add Competitor'}
+      maxWidth="2xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="sm:col-span-2">
+            <label htmlFor="competitor-name" className="block text-sm font-medium text-gray-700">Name *</label>
+            <input
+              id="competitor-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              className={inputClass('name')}
+            />
+            {fieldError('name')}
+          </div>
+
+          <div>
+            <label htmlFor="competitor-business-type" className="block text-sm font-medium text-gray-700">Business type</label>
+            <input
+              id="competitor-business-type"
+              type="text"
+              value={formData.business_type}
+              onChange={(e) => handleInputChange('business_type', e.target.value)}
+              placeholder="e.g. Multiplex cinema"
+              className={inputClass('business_type')}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="competitor-website" className="block text-sm font-medium text-gray-700">Website</label>
+            <input
+              id="competitor-website"
+              type="url"
+              value={formData.website}
+              onChange={(e) => handleInputChange('website', e.target.value)}
+              placeholder="https://example.com"
+              className={inputClass('website')}
+            />
+            {fieldError('website')}
+          </div>
+
+          <div>
+            <label htmlFor="competitor-priority" className="block text-sm font-medium text-gray-700">Tracking priority</label>
+            <select
+              id="competitor-priority"
+              value={formData.tracking_priority}
+              onChange={(e) => handleInputChange('tracking_priority', Number(e.target.value))}
+              className={inputClass('tracking_priority')}
+            >
+              {PRIORITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="competitor-market-share" className="block text-sm font-medium text-gray-700">Market share estimate (%)</label>
+            <input
+              id="competitor-market-share"
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={formData.market_share_estimate}
+              onChange={(e) => handleInputChange('market_share_estimate', e.target.value)}
+              className={inputClass('market_share_estimate')}
+            />
+            {fieldError('market_share_estimate')}
+          </div>
+
+          <div className="sm:col-span-2">
+            <label htmlFor="competitor-description" className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              id="competitor-description"
+              rows={3}
+              value={formData.description}
+              onChange={(e) => handleInputChange('description', e.target.value)}
+              className={inputClass('description')}
+            />
+            {fieldError('description')}
+          </div>
+        </div>
+
+        {/* Locations */}
+        <fieldset>
+          <div className="flex items-center justify-between mb-2">
+            <legend className="text-sm font-medium text-gray-700">Locations</legend>
+            <button
+              type="button"
+              onClick={() => setFormData(prev => ({ ...prev, locations: [...prev.locations, emptyLocation()] }))}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add location
+            </button>
+          </div>
+          {formData.locations.length === 0 ? (
+            <p className="text-sm text-gray-500">No locations added.</p>
+          ) : (
+            <div className="space-y-3">
+              {formData.locations.map((location, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                  <div className="col-span-3">
+                    <input
+                      aria-label={`Location ${index + 1} name`}
+                      placeholder="Site name"
+                      value={location.name}
+                      onChange={(e) => handleLocationChange(index, 'name', e.target.value)}
+                      className={inputClass(`locations.${index}.name`)}
+                    />
+                    {fieldError(`locations.${index}.name`)}
+                  </div>
+                  <div className="col-span-4">
+                    <input
+                      aria-label={`Location ${index + 1} address`}
+                      placeholder="Address"
+                      value={location.address || ''}
+                      onChange={(e) => handleLocationChange(index, 'address', e.target.value)}
+                      className={inputClass(`locations.${index}.address`)}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      aria-label={`Location ${index + 1} city`}
+                      placeholder="City"
+                      value={location.city}
+                      onChange={(e) => handleLocationChange(index, 'city', e.target.value)}
+                      className={inputClass(`locations.${index}.city`)}
+                    />
+                    {fieldError(`locations.${index}.city`)}
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      aria-label={`Location ${index + 1} postcode`}
+                      placeholder="Postcode"
+                      value={location.postcode || ''}
+                      onChange={(e) => handleLocationChange(index, 'postcode', e.target.value)}
+                      className={inputClass(`locations.${index}.postcode`)}
+                    />
+                  </div>
+                  <div className="col-span-1 pt-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, locations: prev.locations.filter((_, i) => i !== index) }))}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <span className="sr-only">Remove location {index + 1}</span>
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Add competitor'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import {
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  SparklesIcon
+} from '@heroicons/react/24/outline';
+import { CompetitorMove } from '@/types/market-edge';
+import { formatPrice } from '@/services/market-edge-currency';
+
+interface CompetitorMovesTimelineProps {
+  moves: CompetitorMove[];
+  currency?: string;
+  isLoading?: boolean;
+  // Set when the moves could not be loaded; the rest of the page still renders
+  error?: string | null;
+  onSelectCompetitor?: (competitorId: string) => void;
+  className?: string;
+}
+
+export interface MoveDay {
+  day: string;
+  moves: CompetitorMove[];
+}
+
+const SIGNIFICANCE_CLASSES: Record<CompetitorMove['significance'], string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+/** Moves grouped by UTC day, newest day first. */
+export const groupMovesByDay = (moves: CompetitorMove[]): MoveDay[] => {
+  const byDay = moves.reduce((acc, move) => {
+    const day = move.detected_at.substring(0, 10);
+    (acc[day] = acc[day] || []).push(move);
+    return acc;
+  }, {} as Record<string, CompetitorMove[]>);
+
+  return Object.keys(byDay)
+    .sort((a, b) => b.localeCompare(a))
+    .map(day => ({
+      day,
+      moves: byDay[day].sort((a, b) => b.detected_at.localeCompare(a.detected_at))
+    }));
+};
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00.000Z`).toLocaleDateString('en-GB', {
+    weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC'
+  });
+
+const MoveIcon: React.FC<{ move: CompetitorMove }> = ({ move }) => {
+  if (move.type === 'new_products') {
+    return <SparklesIcon className="w-4 h-4 text-purple-600" />;
+  }
+  return move.change_type === 'increase'
+    ? <ArrowTrendingUpIcon className="w-4 h-4 text-red-600" />
+    : <ArrowTrendingDownIcon className="w-4 h-4 text-green-600" />;
+};
+
+export const CompetitorMovesTimeline: React.FC<CompetitorMovesTimelineProps> = ({
+  moves,
+  currency,
+  isLoading = false,
+  error = null,
+  onSelectCompetitor,
+  className = ''
+}) => {
+  const [significance, setSignificance] = useState<'' | CompetitorMove['significance']>('');
+  const [competitorId, setCompetitorId] = useState('');
+
+  const competitorOptions = useMemo(() => {
+    const names = moves.reduce((acc, m) => {
+      acc[m.competitor_id] = m.competitor_name;
+      return acc;
+    }, {} as Record<string, string>);
+    return Object.entries(names).sort(([, a], [, b]) => a.localeCompare(b));
+  }, [moves]);
+
+  const days = useMemo(() => groupMovesByDay(
+    moves
+      .filter(m => !significance || m.significance === significance)
+      .filter(m => !competitorId || m.competitor_id === competitorId)
+  ), [moves, significance, competitorId]);
+
+  const describe = (move: CompetitorMove) => {
+    if (move.type === 'new_products') {
+      const count = move.new_products?.length || 0;
+      return `started listing ${count} new product${count === 1 ? '' : 's'}`;
+    }
+    const direction = move.change_type === 'increase' ? 'raised' : 'cut';
+    return `${direction} average prices by ${Math.abs(move.change_percent || 0).toFixed(1)}%`;
+  };
+
+  const selectClass = 'rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-medium text-gray-900">Competitor Moves</h3>
+        <div className="flex flex-wrap gap-3">
+          <select
+            aria-label="Significance"
+            value={significance}
+            onChange={(e) => setSignificance(e.target.value as '' | CompetitorMove['significance'])}
+            className={selectClass}
+          >
+            <option value="">All significance</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <select
+            aria-label="Competitor"
+            value={competitorId}
+            onChange={(e) => setCompetitorId(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All competitors</option>
+            {competitorOptions.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse h-12 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : error ? (
+          <p role="alert" className="text-center text-sm text-red-600">Competitor moves could not be loaded: {error}</p>
+        ) : days.length === 0 ? (
+          <p className="text-center text-sm text-gray-500">
+            {moves.length ? 'No moves match these filters' : 'No competitor moves detected in this period'}
+          </p>
+        ) : (
+          <ol className="space-y-6">
+            {days.map(({ day, moves: dayMoves }) => (
+              <li key={day}>
+                <h4 className="text-sm font-medium text-gray-500 mb-3">{formatDay(day)}</h4>
+                <ul className="relative border-l border-gray-200 ml-2 space-y-4">
+                  {dayMoves.map(move => (
+                    <li
+                      key={`${move.type}-${move.competitor_id}-${move.detected_at}`}
+                      data-testid="competitor-move"
+                      className="ml-6"
+                    >
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-white ring-4 ring-white">
+                        <MoveIcon move={move} />
+                      </span>
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm text-gray-900">
+                          {onSelectCompetitor ? (
+                            <button
+                              type="button"
+                              onClick={() => onSelectCompetitor(move.competitor_id)}
+                              className="font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              {move.competitor_name}
+                            </button>
+                          ) : (
+                            <span className="font-medium">{move.competitor_name}</span>
+                          )}{' '}
+                          {describe(move)}
+                        </p>
+                        <span className={`flex-shrink-0 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SIGNIFICANCE_CLASSES[move.significance]}`}>
+                          {move.significance}
+                        </span>
+                      </div>
+                      {move.type === 'price_change' && move.previous_average !== undefined && move.current_average !== undefined && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Average {formatPrice(move.previous_average, currency)} → {formatPrice(move.current_average, currency)}
+                        </p>
+                      )}
+                      {move.type === 'new_products' && move.new_products?.length ? (
+                        <ul className="mt-1 flex flex-wrap gap-1">
+                          {move.new_products.map(product => (
+                            <li key={product} className="px-2 py-0.5 rounded bg-purple-50 text-xs text-purple-700">{product}</li>
+                          ))}
+                        </ul>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
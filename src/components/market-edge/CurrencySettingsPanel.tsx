@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowUpTrayIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { CurrencySettings, ExchangeRate } from '@/types/market-edge';
+import {
+  BASE_CURRENCY_OPTIONS,
+  DEFAULT_CURRENCY_SETTINGS,
+  parseRateTable
+} from '@/services/market-edge-currency';
+
+interface CurrencySettingsPanelProps {
+  canEdit: boolean;
+  className?: string;
+}
+
+interface RateRow {
+  currency: string;
+  rate: string;
+  effective_date: string;
+}
+
+const toRows = (rates: ExchangeRate[]): RateRow[] =>
+  rates.map(r => ({ currency: r.currency, rate: r.rate.toString(), effective_date: r.effective_date || '' }));
+
+const readFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+export const CurrencySettingsPanel: React.FC<CurrencySettingsPanelProps> = ({
+  canEdit,
+  className = ''
+}) => {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY_SETTINGS.base_currency);
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const applySettings = (settings: CurrencySettings) => {
+    setBaseCurrency(settings.base_currency);
+    setRows(toRows(settings.rates));
+    setUpdatedAt(settings.updated_at);
+    setErrors([]);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    marketEdgeAPI.getCurrencySettings()
+      .then(settings => {
+        if (!cancelled) applySettings(settings);
+      })
+      .catch(err => {
+        console.error('Failed to load currency settings:', err);
+        if (!cancelled) toast.error('Failed to load currency settings');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRow = (index: number, field: keyof RateRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const validate = (): ExchangeRate[] | null => {
+    const problems: string[] = [];
+    const rates: ExchangeRate[] = [];
+
+    rows.forEach((row, index) => {
+      const currency = row.currency.trim().toUpperCase();
+      const rate = Number(row.rate);
+      const label = `Rate ${index + 1}`;
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        problems.push(`${label}: currency must be a 3-letter ISO code`);
+      } else if (currency === baseCurrency) {
+        problems.push(`${label}: ${currency} is the base currency`);
+      } else if (!(rate > 0)) {
+        problems.push(`${label}: rate must be a positive number`);
+      } else {
+        rates.push({ currency, rate, ...(row.effective_date ? { effective_date: row.effective_date } : {}) });
+      }
+    });
+
+    setErrors(problems);
+    return problems.length ? null : rates;
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseRateTable(await readFile(file), baseCurrency);
+      setErrors(result.errors);
+      if (result.rates.length) {
+        setRows(toRows(result.rates));
+        toast.success(`Loaded ${result.rates.length} exchange rate${result.rates.length === 1 ? '' : 's'}`);
+      }
+    } catch (err) {
+      console.error('Failed to read rate table:', err);
+      toast.error('Failed to read the rate table');
+    }
+  };
+
+  const handleSave = async () => {
+    const rates = validate();
+    if (!rates) return;
+
+    try {
+      setIsSaving(true);
+      applySettings(await marketEdgeAPI.updateCurrencySettings({ base_currency: baseCurrency, rates }));
+      toast.success('Currency settings saved');
+    } catch (err) {
+      console.error('Failed to save currency settings:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save currency settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed';
+
+  return (
+    <div className={`bg-white shadow rounded-lg ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Currency</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Market Edge converts prices into the base currency before averaging them.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 text-sm text-gray-500">Loading currency settings...</div>
+      ) : (
+        <div className="p-6 space-y-6">
+          <div>
+            <label htmlFor="base-currency" className="block text-sm font-medium text-gray-700">Base currency</label>
+            <select
+              id="base-currency"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value)}
+              disabled={!canEdit}
+              className={`mt-1 ${inputClass} sm:w-48`}
+            >
+              {BASE_CURRENCY_OPTIONS.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Exchange rates</h3>
+              {canEdit && (
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => fileInput.current?.click()}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <ArrowUpTrayIcon className="h-4 w-4 mr-1" />
+                    Upload CSV
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRows(prev => [...prev, { currency: '', rate: '', effective_date: '' }])}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add rate
+                  </button>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".csv,.tsv,.txt"
+                    aria-label="Rate table file"
+                    onChange={handleUpload}
+                    className="hidden"
+                  />
+                </div>
+              )}
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No exchange rates yet. Prices in other currencies are left out of charts and metrics.
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="py-2 pr-4">Currency</th>
+                    <th className="py-2 pr-4">1 unit in {baseCurrency}</th>
+                    <th className="py-2 pr-4">Effective from</th>
+                    {canEdit && <th className="py-2"><span className="sr-only">Remove</span></th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((row, index) => (
+                    <tr key={index}>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="text"
+                          maxLength={3}
+                          aria-label={`Currency ${index + 1}`}
+                          value={row.currency}
+                          onChange={(e) => updateRow(index, 'currency', e.target.value.toUpperCase())}
+                          disabled={!canEdit}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          aria-label={`Rate ${index + 1}`}
+                          value={row.rate}
+                          onChange={(e) => updateRow(index, 'rate', e.target.value)}
+                          disabled={!canEdit}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="date"
+                          aria-label={`Effective date ${index + 1}`}
+                          value={row.effective_date}
+                          onChange={(e) => updateRow(index, 'effective_date', e.target.value)}
+                          disabled={!canEdit}
+                          className={inputClass}
+                        />
+                      </td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Remove rate"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="space-y-1">
+              {errors.map(error => (
+                <li key={error} className="text-sm text-red-600">{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit ? (
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                {updatedAt ? `Last updated ${new Date(updatedAt).toLocaleString()}` : 'Rates have not been edited yet'}
+              </p>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save currency settings'}
+              </button>
+            </div>
+          ) : (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+              <p className="text-sm text-yellow-800">
+                Only administrators can change the base currency and exchange rates.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
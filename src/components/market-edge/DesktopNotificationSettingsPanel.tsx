@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { ALERT_SEVERITIES } from '@/services/market-edge-alert-rules';
+import {
+  DesktopNotificationPermission,
+  DesktopNotificationPreferences,
+  getDesktopNotificationPermission,
+  getDesktopNotificationPreferences,
+  requestDesktopNotificationPermission,
+  sendTestDesktopNotification,
+  storeDesktopNotificationPreferences
+} from '@/services/market-edge-desktop-notifications';
+import { MarketAlert } from '@/types/market-edge';
+
+interface DesktopNotificationSettingsPanelProps {
+  userId?: string;
+  className?: string;
+}
+
+export const DesktopNotificationSettingsPanel: React.FC<DesktopNotificationSettingsPanelProps> = ({
+  userId,
+  className = ''
+}) => {
+  const [preferences, setPreferences] = useState<DesktopNotificationPreferences>(
+    () => getDesktopNotificationPreferences(userId)
+  );
+  const [permission, setPermission] = useState<DesktopNotificationPermission>('default');
+
+  useEffect(() => {
+    setPreferences(getDesktopNotificationPreferences(userId));
+    setPermission(getDesktopNotificationPermission());
+  }, [userId]);
+
+  const update = (changes: Partial<DesktopNotificationPreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    storeDesktopNotificationPreferences(next, userId);
+  };
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ enabled: false });
+      return;
+    }
+
+    const result = await requestDesktopNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      update({ enabled: true });
+    } else {
+      toast.error('Desktop notifications are blocked in this browser');
+    }
+  };
+
+  const toggleSeverity = (severity: MarketAlert['severity']) => {
+    update({
+      severities: preferences.severities.indexOf(severity) === -1
+        ? [...preferences.severities, severity]
+        : preferences.severities.filter(s => s !== severity)
+    });
+  };
+
+  const updateQuietHours = (changes: Partial<DesktopNotificationPreferences['quiet_hours']>) => {
+    update({ quiet_hours: { ...preferences.quiet_hours, ...changes } });
+  };
+
+  const isUnavailable = permission === 'unsupported' || permission === 'denied';
+  const isActive = preferences.enabled && permission === 'granted';
+  const inputClass = 'rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed';
+  const checkboxClass = 'h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div className={`bg-white shadow rounded-lg ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Desktop Notifications</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Get a browser notification when a market alert arrives while Market Edge is in the background.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {permission === 'unsupported' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-sm text-yellow-800">
+              This browser does not support desktop notifications. New alerts still appear in the app.
+            </p>
+          </div>
+        )}
+        {permission === 'denied' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-sm text-yellow-800">
+              Notifications are blocked for this site. Allow them in your browser&apos;s site settings and reload
+              the page. Until then, new alerts appear in the app only.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => handleEnabledChange(e.target.checked)}
+              disabled={isUnavailable}
+              className={checkboxClass}
+            />
+            Show desktop notifications for new alerts
+          </label>
+          {isActive && (
+            <button
+              type="button"
+              onClick={sendTestDesktopNotification}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Send test notification
+            </button>
+          )}
+        </div>
+
+        <fieldset disabled={!isActive}>
+          <legend className="text-sm font-medium text-gray-700">Severities</legend>
+          <div className="mt-2 flex flex-wrap gap-4">
+            {ALERT_SEVERITIES.map(severity => (
+              <label key={severity} className="flex items-center text-sm text-gray-700 capitalize">
+                <input
+                  type="checkbox"
+                  checked={preferences.severities.indexOf(severity) !== -1}
+                  onChange={() => toggleSeverity(severity)}
+                  className={checkboxClass}
+                />
+                {severity}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset disabled={!isActive}>
+          <legend className="text-sm font-medium text-gray-700">Quiet hours</legend>
+          <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={preferences.quiet_hours.enabled}
+                onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+                className={checkboxClass}
+              />
+              Pause notifications from
+            </label>
+            <input
+              type="time"
+              aria-label="Quiet hours start"
+              value={preferences.quiet_hours.start}
+              onChange={(e) => updateQuietHours({ start: e.target.value })}
+              disabled={!isActive || !preferences.quiet_hours.enabled}
+              className={inputClass}
+            />
+            <span>to</span>
+            <input
+              type="time"
+              aria-label="Quiet hours end"
+              value={preferences.quiet_hours.end}
+              onChange={(e) => updateQuietHours({ end: e.target.value })}
+              disabled={!isActive || !preferences.quiet_hours.enabled}
+              className={inputClass}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Uses this device&apos;s local time.</p>
+        </fieldset>
+      </div>
+    </div>
+  );
+};
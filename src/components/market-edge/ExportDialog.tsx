@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Modal } from '@/components/ui/Modal';
+import { REPORT_TYPE_OPTIONS } from './MarketReportView';
+import { Market, MarketReportType } from '@/types/market-edge';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { MarketExportFormat } from '@/services/market-edge-export';
+import { downloadBlob, toFileSlug } from '@/utils/download';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  market: Market;
+}
+
+const FORMAT_OPTIONS: Array<{ id: MarketExportFormat; name: string; description: string; extension: string }> = [
+  { id: 'csv', name: 'CSV', description: 'Spreadsheet-friendly sections for Excel', extension: 'csv' },
+  { id: 'xlsx', name: 'Excel workbook', description: 'One sheet per section with formatted prices and dates', extension: 'xlsx' },
+  { id: 'pdf', name: 'PDF report', description: 'Formatted market report with charts', extension: 'pdf' }
+];
+
+const SECTION_OPTIONS = [
+  { id: 'include_competitors', name: 'Competitors' },
+  { id: 'include_pricing', name: 'Raw pricing data' },
+  { id: 'include_trends', name: 'Weekly market & competitor trends' },
+  { id: 'include_anomalies', name: 'Price anomalies' },
+  { id: 'include_annotations', name: 'Chart annotations' }
+] as const;
+
+type SectionId = typeof SECTION_OPTIONS[number]['id'];
+
+const toDateInput = (date: Date) => date.toISOString().substring(0, 10);
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  market
+}) => {
+  const [format, setFormat] = useState<MarketExportFormat>('csv');
+  const [reportType, setReportType] = useState<MarketReportType>('comprehensive');
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [sections, setSections] = useState<Record<SectionId, boolean>>({
+    include_competitors: true,
+    include_pricing: true,
+    include_trends: true,
+    include_anomalies: true,
+    include_annotations: true
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // PDF reports cover the report's own analysis period
+  const isDataExport = format !== 'pdf';
+  const isRangeValid = !isDataExport || (!!startDate && !!endDate && startDate <= endDate);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isRangeValid) return;
+
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const blob = await marketEdgeAPI.exportMarketData(market.id, format, {
+        ...sections,
+        date_range: { start: startDate, end: endDate },
+        report_type: reportType
+      });
+      const extension = FORMAT_OPTIONS.find(f => f.id === format)?.extension || format;
+      const suffix = isDataExport ? `${startDate}-to-${endDate}` : `${reportType}-report`;
+      downloadBlob(blob, `${toFileSlug(market.name)}-${suffix}.${extension}`);
+      toast.success('Export downloaded');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Export ${market.name}`} maxWidth="lg">
+      <form onSubmit={handleExport} className="space-y-5">
+        {/* Format */}
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-2">Format</legend>
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <label key={option.id} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.id}
+                  checked={format === option.id}
+                  onChange={() => setFormat(option.id)}
+                  className="mt-1 h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.name}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {!isDataExport && (
+          <div>
+            <label htmlFor="export-report-type" className="block text-sm font-medium text-gray-700">Report type</label>
+            <select
+              id="export-report-type"
+              value={reportType}
+              onChange={(e) => setReportType(e.target.value as MarketReportType)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {REPORT_TYPE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {isDataExport && (
+          <>
+            {/* Date Range */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="export-start" className="block text-sm font-medium text-gray-700">From</label>
+                <input
+                  id="export-start"
+                  type="date"
+                  value={startDate}
+                  max={endDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="export-end" className="block text-sm font-medium text-gray-700">To</label>
+                <input
+                  id="export-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            {!isRangeValid && (
+              <p className="text-sm text-red-600">The start date must be on or before the end date.</p>
+            )}
+
+            {/* Sections */}
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-2">Include</legend>
+              <div className="space-y-2">
+                {SECTION_OPTIONS.map(section => (
+                  <label key={section.id} className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={sections[section.id]}
+                      onChange={(e) => setSections(prev => ({ ...prev, [section.id]: e.target.checked }))}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-900">{section.name}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isExporting || !isRangeValid}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className={`h-4 w-4 mr-2 ${isExporting ? 'animate-pulse' : ''}`} />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
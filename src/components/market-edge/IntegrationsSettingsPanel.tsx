@@ -0,0 +1,448 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import {
+  ArrowPathIcon,
+  PaperAirplaneIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { describeWebhookFilters } from '@/services/market-edge-webhooks';
+import {
+  Market,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookInput,
+  WebhookUpdate,
+  WebhookWithSecret
+} from '@/types/market-edge';
+import { WebhookFormModal } from './WebhookFormModal';
+
+interface IntegrationsSettingsPanelProps {
+  canEdit: boolean;
+  className?: string;
+}
+
+const DELIVERY_LOG_LIMIT = 20;
+
+const EVENT_LABELS: Record<WebhookDelivery['event'], string> = {
+  'alert.created': 'Alert',
+  'webhook.test': 'Test'
+};
+
+const attemptLabel = (attempt: WebhookDeliveryAttempt) => {
+  const label = attempt.status_code === null ? 'No response' : attempt.status_code.toString();
+  return attempt.simulated ? `${label} (simulated)` : label;
+};
+
+const lastAttempt = (delivery: WebhookDelivery) => delivery.attempts[delivery.attempts.length - 1];
+
+const describeOutcome = (delivery: WebhookDelivery) => {
+  const attempt = lastAttempt(delivery);
+  const tries = `${delivery.attempts.length} attempt${delivery.attempts.length === 1 ? '' : 's'}`;
+  if (!attempt) return 'not sent';
+  return delivery.status === 'succeeded'
+    ? `${attemptLabel(attempt)} after ${tries}`
+    : `${attempt.error || attemptLabel(attempt)} after ${tries}`;
+};
+
+// Secrets are shown once, in the form that created or rotated them, and not kept in the list
+const withoutSecret = ({ secret, ...webhook }: WebhookWithSecret): Webhook => webhook;
+
+interface WebhookDeliveryLogProps {
+  deliveries: WebhookDelivery[] | undefined;
+  canEdit: boolean;
+  redeliveringId: string | null;
+  onRedeliver: (delivery: WebhookDelivery) => void;
+}
+
+const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({
+  deliveries,
+  canEdit,
+  redeliveringId,
+  onRedeliver
+}) => {
+  if (!deliveries) {
+    return <p className="text-sm text-gray-500">Loading deliveries...</p>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing has been sent to this webhook yet</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200" data-testid="webhook-delivery-log">
+      <thead>
+        <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+          <th className="py-2 pr-4">Sent</th>
+          <th className="py-2 pr-4">Event</th>
+          <th className="py-2 pr-4">Alert</th>
+          <th className="py-2 pr-4">Status</th>
+          <th className="py-2 pr-4">Responses</th>
+          {canEdit && <th className="py-2"><span className="sr-only">Redeliver</span></th>}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {deliveries.map(delivery => (
+          <tr key={delivery.id} data-testid="webhook-delivery" className="text-sm">
+            <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+              {new Date(delivery.created_at).toLocaleString()}
+            </td>
+            <td className="py-2 pr-4 text-gray-700">{EVENT_LABELS[delivery.event]}</td>
+            <td className="py-2 pr-4 text-gray-900">{delivery.payload.title}</td>
+            <td className="py-2 pr-4">
+              <span
+                className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                  delivery.status === 'succeeded' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}
+                title={describeOutcome(delivery)}
+              >
+                {delivery.status === 'succeeded' ? 'Delivered' : 'Failed'}
+              </span>
+            </td>
+            <td className="py-2 pr-4 text-gray-600 font-mono text-xs">
+              {delivery.attempts.map(attemptLabel).join(' → ')}
+            </td>
+            {canEdit && (
+              <td className="py-2 text-right">
+                <button
+                  type="button"
+                  onClick={() => onRedeliver(delivery)}
+                  disabled={redeliveringId === delivery.id}
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  <ArrowPathIcon className="h-4 w-4 mr-1" />
+                  Redeliver
+                </button>
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const IntegrationsSettingsPanel: React.FC<IntegrationsSettingsPanelProps> = ({
+  canEdit,
+  className = ''
+}) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [markets, setMarkets] = useState<Market[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([marketEdgeAPI.getWebhooks(), marketEdgeAPI.getMarkets()])
+      .then(([webhookList, marketList]) => {
+        if (cancelled) return;
+        setWebhooks(webhookList);
+        setMarkets(marketList);
+      })
+      .catch(err => {
+        console.error('Failed to load webhooks:', err);
+        if (!cancelled) toast.error('Failed to load integrations');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const loadDeliveries = async (webhookId: string) => {
+    try {
+      const list = await marketEdgeAPI.getWebhookDeliveries(webhookId, DELIVERY_LOG_LIMIT);
+      setDeliveries(prev => ({ ...prev, [webhookId]: list }));
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err);
+      toast.error('Failed to load the delivery log');
+    }
+  };
+
+  const toggleLog = (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    loadDeliveries(webhookId);
+  };
+
+  const recordDelivery = (delivery: WebhookDelivery) => {
+    setDeliveries(prev => {
+      const existing = prev[delivery.webhook_id];
+      if (!existing) return prev;
+      const updated = existing.some(d => d.id === delivery.id)
+        ? existing.map(d => (d.id === delivery.id ? delivery : d))
+        : [delivery, ...existing].slice(0, DELIVERY_LOG_LIMIT);
+      return { ...prev, [delivery.webhook_id]: updated };
+    });
+  };
+
+  const handleSave = async (values: WebhookInput | WebhookUpdate) => {
+    try {
+      if ('secret' in values) {
+        const saved = await marketEdgeAPI.createWebhook(values);
+        setWebhooks(prev => [...prev, withoutSecret(saved)]);
+        toast.success('Webhook added');
+      } else if (editingWebhook) {
+        const saved = await marketEdgeAPI.updateWebhook(editingWebhook.id, values);
+        setWebhooks(prev => prev.map(w => (w.id === saved.id ? saved : w)));
+        toast.success('Webhook updated');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save webhook');
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    try {
+      const rotated = await marketEdgeAPI.rotateWebhookSecret(webhook.id);
+      setWebhooks(prev => prev.map(w => (w.id === rotated.id ? withoutSecret(rotated) : w)));
+      toast.success('Signing secret rotated');
+      return rotated.secret;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to rotate the secret');
+      return null;
+    }
+  };
+
+  // Flip straight away and put it back if the save fails
+  const toggleActive = async (webhook: Webhook) => {
+    const setActive = (is_active: boolean) =>
+      setWebhooks(prev => prev.map(w => (w.id === webhook.id ? { ...w, is_active } : w)));
+
+    setActive(!webhook.is_active);
+    try {
+      await marketEdgeAPI.updateWebhook(webhook.id, { is_active: !webhook.is_active });
+    } catch (err) {
+      setActive(webhook.is_active);
+      toast.error(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    setConfirmingDeleteId(null);
+    try {
+      await marketEdgeAPI.deleteWebhook(webhook.id);
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+      if (expandedId === webhook.id) setExpandedId(null);
+      toast.success('Webhook deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      setTestingId(webhook.id);
+      const delivery = await marketEdgeAPI.sendWebhookTestEvent(webhook.id);
+      if (lastAttempt(delivery)?.simulated) {
+        toast.success('Test event simulated: Test Data mode does not send requests');
+      } else if (delivery.status === 'succeeded') {
+        toast.success(`Test event delivered (${describeOutcome(delivery)})`);
+      } else {
+        toast.error(`Test event failed (${describeOutcome(delivery)})`);
+      }
+      if (deliveries[webhook.id]) {
+        recordDelivery(delivery);
+      } else {
+        loadDeliveries(webhook.id);
+      }
+      setExpandedId(webhook.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send test event');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      setRedeliveringId(delivery.id);
+      const updated = await marketEdgeAPI.redeliverWebhookDelivery(delivery.id);
+      recordDelivery(updated);
+      if (updated.status === 'succeeded') {
+        toast.success(lastAttempt(updated)?.simulated ? 'Redelivery simulated' : 'Delivered');
+      } else {
+        toast.error(`Redelivery failed (${describeOutcome(updated)})`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to redeliver');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  const secondaryButton = 'inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div className={`bg-white shadow rounded-lg ${className}`}>
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Integrations</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Push Market Edge alerts to your own tools with signed webhooks.
+          </p>
+        </div>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => {
+              setEditingWebhook(null);
+              setIsFormOpen(true);
+            }}
+            className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add webhook
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 text-sm text-gray-500">Loading integrations...</div>
+      ) : (
+        <div className="p-6 space-y-4">
+          {marketEdgeAPI.dataMode === 'test' && (
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+              <p className="text-sm text-blue-800">
+                Test Data is on: test events and redeliveries are simulated and nothing is sent to
+                your webhook URLs. Switch Market Edge to Live to deliver them.
+              </p>
+            </div>
+          )}
+
+          {webhooks.length === 0 ? (
+            <p className="text-sm text-gray-500">No webhooks yet. Alerts are only shown in Market Edge.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {webhooks.map(webhook => (
+                <li key={webhook.id} data-testid="webhook" className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className={`min-w-0 ${webhook.is_active ? '' : 'opacity-60'}`}>
+                      <p className="text-sm font-medium text-gray-900">{webhook.name}</p>
+                      <p className="text-sm text-gray-500 font-mono truncate">{webhook.url}</p>
+                      <p className="text-xs text-gray-500 mt-1">{describeWebhookFilters(webhook.filters, markets)}</p>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-3">
+                      <label className="flex items-center text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={webhook.is_active}
+                          onChange={() => toggleActive(webhook)}
+                          disabled={!canEdit}
+                          aria-label={`${webhook.name} active`}
+                          className="h-4 w-4 mr-1 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        Active
+                      </label>
+                      {canEdit && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleTest(webhook)}
+                            disabled={testingId === webhook.id}
+                            className={secondaryButton}
+                          >
+                            <PaperAirplaneIcon className="h-4 w-4 mr-1" />
+                            {testingId === webhook.id ? 'Sending...' : 'Send test event'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setEditingWebhook(webhook);
+                              setIsFormOpen(true);
+                            }}
+                            className="text-gray-400 hover:text-blue-600"
+                          >
+                            <span className="sr-only">Edit {webhook.name}</span>
+                            <PencilSquareIcon className="h-5 w-5" />
+                          </button>
+                          {confirmingDeleteId === webhook.id ? (
+                            <span className="flex items-center gap-2 text-sm">
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(webhook)}
+                                className="font-medium text-red-600 hover:text-red-800"
+                              >
+                                Delete
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setConfirmingDeleteId(null)}
+                                className="text-gray-500 hover:text-gray-700"
+                              >
+                                Keep
+                              </button>
+                            </span>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => setConfirmingDeleteId(webhook.id)}
+                              className="text-gray-400 hover:text-red-600"
+                            >
+                              <span className="sr-only">Delete {webhook.name}</span>
+                              <TrashIcon className="h-5 w-5" />
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => toggleLog(webhook.id)}
+                    aria-expanded={expandedId === webhook.id}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    {expandedId === webhook.id ? 'Hide deliveries' : 'Show deliveries'}
+                  </button>
+                  {expandedId === webhook.id && (
+                    <div className="mt-3">
+                      <WebhookDeliveryLog
+                        deliveries={deliveries[webhook.id]}
+                        canEdit={canEdit}
+                        redeliveringId={redeliveringId}
+                        onRedeliver={handleRedeliver}
+                      />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!canEdit && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+              <p className="text-sm text-yellow-800">
+                Only administrators can add, change or test webhooks.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <WebhookFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        webhook={editingWebhook}
+        markets={markets}
+        onSubmit={handleSave}
+        onRotateSecret={handleRotateSecret}
+      />
+    </div>
+  );
+};
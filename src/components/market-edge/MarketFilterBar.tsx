@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { MarketDateFilter } from '@/types/market-edge';
+
+export interface MarketFilter extends MarketDateFilter {
+  days_back: number;
+  product_service?: string;
+  exclude_promotions?: boolean;
+}
+
+interface MarketFilterBarProps {
+  filter: MarketFilter;
+  products: string[];
+  onChange: (filter: MarketFilter) => void;
+  className?: string;
+}
+
+interface SearchParamsLike {
+  get(name: string): string | null;
+}
+
+export const DATE_RANGE_PRESETS = [
+  { days: 7, label: '7d' },
+  { days: 30, label: '30d' },
+  { days: 90, label: '90d' },
+  { days: 365, label: '1y' }
+];
+
+export const DEFAULT_FILTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateInput = (date: Date) => date.toISOString().substring(0, 10);
+
+export const isCustomRange = (filter: MarketDateFilter) => !!(filter.start_date && filter.end_date);
+
+/**
+ * Reads the filter from the page query string: `range` (days or "custom"),
+ * `from`/`to` for custom ranges, `product` and `promos=exclude`. Invalid
+ * values fall back to the default 30 day window.
+ */
+export const parseMarketFilter = (params: SearchParamsLike): MarketFilter => {
+  const range = params.get('range');
+  const from = params.get('from');
+  const to = params.get('to');
+  const product_service = params.get('product') || undefined;
+  const exclude_promotions = params.get('promos') === 'exclude' || undefined;
+
+  if (range === 'custom' && from && to && ISO_DATE.test(from) && ISO_DATE.test(to) && from <= to) {
+    const days_back = Math.max(1, Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1);
+    return { days_back, start_date: from, end_date: to, product_service, exclude_promotions };
+  }
+
+  const days = Number(range);
+  const preset = DATE_RANGE_PRESETS.find(p => p.days === days);
+  return { days_back: preset ? preset.days : DEFAULT_FILTER_DAYS, product_service, exclude_promotions };
+};
+
+// Query changes for `updateQuery`; defaults are dropped to keep URLs short
+export const marketFilterQuery = (filter: MarketFilter): Record<string, string | null> => {
+  const custom = isCustomRange(filter);
+  return {
+    range: custom ? 'custom' : filter.days_back === DEFAULT_FILTER_DAYS ? null : filter.days_back.toString(),
+    from: custom ? filter.start_date! : null,
+    to: custom ? filter.end_date! : null,
+    product: filter.product_service || null,
+    promos: filter.exclude_promotions ? 'exclude' : null
+  };
+};
+
+export const describeMarketFilter = (filter: MarketFilter) => {
+  const range = isCustomRange(filter)
+    ? `${filter.start_date} to ${filter.end_date}`
+    : `Last ${filter.days_back} days`;
+  return [
+    range,
+    filter.product_service,
+    filter.exclude_promotions ? 'excl. promotions' : null
+  ].filter(Boolean).join(' · ');
+};
+
+export const MarketFilterBar: React.FC<MarketFilterBarProps> = ({
+  filter,
+  products,
+  onChange,
+  className = ''
+}) => {
+  const custom = isCustomRange(filter);
+  const [showCustom, setShowCustom] = useState(custom);
+  const [from, setFrom] = useState(filter.start_date || '');
+  const [to, setTo] = useState(filter.end_date || '');
+
+  useEffect(() => {
+    setShowCustom(isCustomRange(filter));
+    setFrom(filter.start_date || '');
+    setTo(filter.end_date || '');
+  }, [filter.start_date, filter.end_date]);
+
+  const rangeError = from && to && from > to ? 'Start date must be before end date' : null;
+  // Keep a product from a shared link selectable even if it has no recent data
+  const productOptions = filter.product_service && !products.includes(filter.product_service)
+    ? [...products, filter.product_service]
+    : products;
+
+  const selectPreset = (days: number) => {
+    setShowCustom(false);
+    onChange({ days_back: days, product_service: filter.product_service, exclude_promotions: filter.exclude_promotions });
+  };
+
+  const openCustom = () => {
+    const end = new Date();
+    const start = new Date(end.getTime() - (filter.days_back - 1) * DAY_MS);
+    setFrom(from || toDateInput(start));
+    setTo(to || toDateInput(end));
+    setShowCustom(true);
+  };
+
+  const applyCustom = (nextFrom: string, nextTo: string) => {
+    setFrom(nextFrom);
+    setTo(nextTo);
+    if (ISO_DATE.test(nextFrom) && ISO_DATE.test(nextTo) && nextFrom <= nextTo) {
+      onChange({
+        days_back: Math.round((Date.parse(nextTo) - Date.parse(nextFrom)) / DAY_MS) + 1,
+        start_date: nextFrom,
+        end_date: nextTo,
+        product_service: filter.product_service,
+        exclude_promotions: filter.exclude_promotions
+      });
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:z-10 ${
+      active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-4 bg-white p-4 rounded-lg border border-gray-200 ${className}`}>
+      <div className="flex items-center">
+        <CalendarDaysIcon className="h-5 w-5 text-gray-400 mr-2" />
+        <div role="group" aria-label="Date range" className="inline-flex">
+          {DATE_RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.days}
+              type="button"
+              aria-pressed={!showCustom && filter.days_back === preset.days}
+              onClick={() => selectPreset(preset.days)}
+              className={buttonClass(!showCustom && filter.days_back === preset.days)}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            aria-pressed={showCustom}
+            onClick={openCustom}
+            className={buttonClass(showCustom)}
+          >
+            Custom
+          </button>
+        </div>
+      </div>
+
+      {showCustom && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="market-filter-from" className="text-sm text-gray-600">From</label>
+          <input
+            id="market-filter-from"
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => applyCustom(e.target.value, to)}
+            className="rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          <label htmlFor="market-filter-to" className="text-sm text-gray-600">To</label>
+          <input
+            id="market-filter-to"
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => applyCustom(from, e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+          {rangeError && <p className="text-sm text-red-600">{rangeError}</p>}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 ml-auto">
+        <label htmlFor="market-filter-product" className="text-sm text-gray-600">Product/Service</label>
+        <select
+          id="market-filter-product"
+          value={filter.product_service || ''}
+          onChange={(e) => onChange({ ...filter, product_service: e.target.value || undefined })}
+          className="rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All products</option>
+          {productOptions.map(product => (
+            <option key={product} value={product}>{product}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={!!filter.exclude_promotions}
+          onChange={(e) => onChange({ ...filter, exclude_promotions: e.target.checked || undefined })}
+          className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        Exclude promotions
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,389 @@
+import React, { useState, useEffect } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { Market } from '@/types/market-edge';
+
+export interface MarketFormValues {
+  name: string;
+  geographic_bounds: Record<string, any>;
+  tracking_config: Record<string, any>;
+}
+
+interface MarketFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  market?: Market | null;
+  onSubmit: (values: MarketFormValues) => void | Promise<void>;
+  onArchive?: (market: Market) => void | Promise<void>;
+  onRestore?: (market: Market) => void | Promise<void>;
+}
+
+interface FormState {
+  name: string;
+  city: string;
+  region: string;
+  radius_km: string;
+  currency: string;
+  collection_frequency: string;
+}
+
+type PendingAction = 'save' | 'archive' | 'restore';
+
+export interface MarketImpact {
+  competitors: number;
+  pricingPoints: number;
+}
+
+export const CURRENCY_OPTIONS = ['GBP', 'USD', 'EUR'];
+
+const FREQUENCY_OPTIONS = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+];
+
+const initialState = (market?: Market | null): FormState => ({
+  name: market?.name || '',
+  city: market?.geographic_bounds?.city || '',
+  region: market?.geographic_bounds?.region || '',
+  radius_km: market?.geographic_bounds?.radius_km != null ? market.geographic_bounds.radius_km.toString() : '',
+  currency: market?.tracking_config?.currency || 'GBP',
+  collection_frequency: market?.tracking_config?.collection_frequency || 'weekly'
+});
+
+/** Counts the data that hangs off a market, for the confirmation step. */
+export const loadMarketImpact = async (marketId: string): Promise<MarketImpact> => {
+  const overview = await marketEdgeAPI.getMarketOverview(marketId);
+  return { competitors: overview.competitors.length, pricingPoints: overview.total_data_points };
+};
+
+const plural = (count: number, noun: string) =>
+  `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+export const MarketFormModal: React.FC<MarketFormModalProps> = ({
+  isOpen,
+  onClose,
+  market,
+  onSubmit,
+  onArchive,
+  onRestore
+}) => {
+  const [formData, setFormData] = useState<FormState>(() => initialState(market));
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [impact, setImpact] = useState<MarketImpact | null>(null);
+  const [impactError, setImpactError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const isEditing = !!market;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(market));
+      setValidationErrors({});
+      setPendingAction(null);
+      setImpact(null);
+      setImpactError(null);
+    }
+  }, [isOpen, market]);
+
+  const handleInputChange = (field: keyof FormState, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear validation error when user starts typing
+    if (validationErrors[field]) {
+      setValidationErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Market name is required';
+    } else if (formData.name.trim().length > 100) {
+      errors.name = 'Name must be 100 characters or fewer';
+    }
+
+    if (formData.radius_km.trim()) {
+      const radius = Number(formData.radius_km);
+      if (Number.isNaN(radius) || radius <= 0) {
+        errors.radius_km = 'Radius must be greater than 0';
+      }
+    }
+
+    setValidationErrors(errors);
+    return Object.values(errors).every(error => !error);
+  };
+
+  const buildValues = (): MarketFormValues => {
+    const geographic_bounds: Record<string, any> = { ...market?.geographic_bounds };
+    geographic_bounds.city = formData.city.trim() || undefined;
+    geographic_bounds.region = formData.region.trim() || undefined;
+    geographic_bounds.radius_km = formData.radius_km.trim() ? Number(formData.radius_km) : undefined;
+
+    return {
+      name: formData.name.trim(),
+      geographic_bounds,
+      tracking_config: {
+        ...market?.tracking_config,
+        currency: formData.currency,
+        collection_frequency: formData.collection_frequency
+      }
+    };
+  };
+
+  // Existing markets have data attached, so changes go through a confirmation step
+  const requestConfirmation = async (action: PendingAction) => {
+    if (!market) return;
+
+    setPendingAction(action);
+    setImpact(null);
+    setImpactError(null);
+    try {
+      setImpact(await loadMarketImpact(market.id));
+    } catch (err) {
+      setImpactError(err instanceof Error ? err.message : 'Failed to load market data');
+    }
+  };
+
+  const run = async (action: () => void | Promise<void>) => {
+    try {
+      setIsWorking(true);
+      await action();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    if (isEditing) {
+      await requestConfirmation('save');
+      return;
+    }
+
+    await run(() => onSubmit(buildValues()));
+  };
+
+  const handleConfirm = async () => {
+    if (!market || !pendingAction) return;
+
+    if (pendingAction === 'save') {
+      await run(() => onSubmit(buildValues()));
+    } else if (pendingAction === 'archive') {
+      await run(() => onArchive?.(market));
+    } else {
+      await run(() => onRestore?.(market));
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `mt-1 block w-full rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 ${
+      validationErrors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: string) =>
+    validationErrors[field] ? <p className="text-sm text-red-600 mt-1">{validationErrors[field]}</p> : null;
+
+  const confirmationText = () => {
+    if (!market || !impact) return null;
+    const affected = `${plural(impact.competitors, 'competitor')} and ${plural(impact.pricingPoints, 'pricing point')}`;
+
+    switch (pendingAction) {
+      case 'archive':
+        return `Archiving ${market.name} will hide it, along with its ${affected}, from dashboards and reports. Data is kept and the market can be restored later.`;
+      case 'restore':
+        return `Restoring ${market.name} will make its ${affected} visible again.`;
+      default:
+        return `Saving changes to ${market.name} will apply to its ${affected}.`;
+    }
+  };
+
+  const confirmLabel = pendingAction === 'archive'
+    ? 'Archive market'
+    : pendingAction === 'restore'
+      ? 'Restore market'
+      : 'Confirm changes';
+
+  const title = !isEditing
+    ? 'Create Market'
+    : pendingAction === 'archive'
+      ? `Archive ${market!.name}?`
+      : pendingAction === 'restore'
+        ? `Restore ${market!.name}?`
+        : `Edit ${market!.name}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} maxWidth="lg">
+      {pendingAction ? (
+        <div className="space-y-5">
+          <div className={`flex items-start p-4 rounded-md ${pendingAction === 'archive' ? 'bg-red-50' : 'bg-blue-50'}`}>
+            <ExclamationTriangleIcon
+              className={`h-5 w-5 mr-3 flex-shrink-0 ${pendingAction === 'archive' ? 'text-red-400' : 'text-blue-400'}`}
+            />
+            <p className="text-sm text-gray-700">
+              {impactError
+                ? impactError
+                : impact
+                  ? confirmationText()
+                  : 'Counting affected competitors and pricing points...'}
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setPendingAction(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={!impact || isWorking}
+              className={`inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${
+                pendingAction === 'archive'
+                  ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                  : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+              }`}
+            >
+              {isWorking ? 'Saving...' : confirmLabel}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate className="space-y-5">
+          {market && !market.is_active && (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-md p-3">
+              This market is archived and hidden from the market list.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label htmlFor="market-name" className="block text-sm font-medium text-gray-700">Name *</label>
+              <input
+                id="market-name"
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className={inputClass('name')}
+              />
+              {fieldError('name')}
+            </div>
+
+            <div>
+              <label htmlFor="market-city" className="block text-sm font-medium text-gray-700">City</label>
+              <input
+                id="market-city"
+                type="text"
+                value={formData.city}
+                onChange={(e) => handleInputChange('city', e.target.value)}
+                className={inputClass('city')}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="market-region" className="block text-sm font-medium text-gray-700">Region</label>
+              <input
+                id="market-region"
+                type="text"
+                value={formData.region}
+                onChange={(e) => handleInputChange('region', e.target.value)}
+                className={inputClass('region')}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="market-radius" className="block text-sm font-medium text-gray-700">Radius (km)</label>
+              <input
+                id="market-radius"
+                type="number"
+                min={0}
+                step="0.5"
+                value={formData.radius_km}
+                onChange={(e) => handleInputChange('radius_km', e.target.value)}
+                className={inputClass('radius_km')}
+              />
+              {fieldError('radius_km')}
+            </div>
+
+            <div>
+              <label htmlFor="market-currency" className="block text-sm font-medium text-gray-700">Currency</label>
+              <select
+                id="market-currency"
+                value={formData.currency}
+                onChange={(e) => handleInputChange('currency', e.target.value)}
+                className={inputClass('currency')}
+              >
+                {CURRENCY_OPTIONS.map(currency => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="market-frequency" className="block text-sm font-medium text-gray-700">Collection frequency</label>
+              <select
+                id="market-frequency"
+                value={formData.collection_frequency}
+                onChange={(e) => handleInputChange('collection_frequency', e.target.value)}
+                className={inputClass('collection_frequency')}
+              >
+                {FREQUENCY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            <div>
+              {market && market.is_active && onArchive && (
+                <button
+                  type="button"
+                  onClick={() => requestConfirmation('archive')}
+                  className="text-sm font-medium text-red-600 hover:text-red-800"
+                >
+                  Archive market
+                </button>
+              )}
+              {market && !market.is_active && onRestore && (
+                <button
+                  type="button"
+                  onClick={() => requestConfirmation('restore')}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Restore market
+                </button>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : isEditing ? 'Save changes' : 'Create market'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
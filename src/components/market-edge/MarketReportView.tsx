@@ -0,0 +1,277 @@
+import React from 'react';
+import {
+  ArrowTrendingUpIcon,
+  ArrowTrendingDownIcon,
+  LightBulbIcon,
+  SparklesIcon
+} from '@heroicons/react/24/outline';
+import { PricingChart } from './PricingChart';
+import { formatPrice } from '@/services/market-edge-currency';
+import { annotationAuthor, sortAnnotations } from '@/services/market-edge-annotations';
+import { insightText } from '@/services/market-edge-export';
+import {
+  CompetitorMove,
+  MarketReport,
+  MarketReportType
+} from '@/types/market-edge';
+
+interface MarketReportViewProps {
+  report: MarketReport;
+  reportType: MarketReportType;
+  className?: string;
+}
+
+export const REPORT_TYPE_OPTIONS: Array<{ id: MarketReportType; name: string }> = [
+  { id: 'comprehensive', name: 'Comprehensive' },
+  { id: 'summary', name: 'Executive summary' },
+  { id: 'trends', name: 'Pricing trends' }
+];
+
+const formatCurrency = (value: number, currency?: string) => formatPrice(value, currency, 'en-GB');
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const priorityClasses: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+const describeMove = (move: CompetitorMove, currency?: string) => {
+  if (move.type === 'new_products') {
+    return `${move.competitor_name} started listing ${(move.new_products || []).join(', ')}.`;
+  }
+  const direction = move.change_type === 'increase' ? 'raised' : 'cut';
+  const averages = move.previous_average !== undefined && move.current_average !== undefined
+    ? ` from ${formatCurrency(move.previous_average, currency)} to ${formatCurrency(move.current_average, currency)}`
+    : '';
+  return `${move.competitor_name} ${direction} average prices by ${Math.abs(move.change_percent || 0).toFixed(1)}%${averages}.`;
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="report-section mt-10">
+    <h2 className="text-xl font-semibold text-gray-900 border-b border-gray-200 pb-2 mb-4">{title}</h2>
+    <div className="space-y-4 text-gray-700 leading-relaxed">{children}</div>
+  </section>
+);
+
+export const MarketReportView: React.FC<MarketReportViewProps> = ({
+  report,
+  reportType,
+  className = ''
+}) => {
+  const overview = report.market_overview;
+  const { market, metrics } = overview;
+  const currency = metrics.currency;
+  const comparison = report.competitor_analysis;
+  const trends = report.pricing_trends;
+  const annotations = sortAnnotations(report.annotations || []);
+  const rankings = comparison?.rankings.by_price || [];
+  const insights = (report.insights || []).filter(i => insightText(i));
+  const reportName = REPORT_TYPE_OPTIONS.find(o => o.id === reportType)?.name || reportType;
+
+  const moves = reportType === 'summary'
+    ? report.recent_moves.slice(0, 5)
+    : reportType === 'trends'
+      ? report.recent_moves.filter(m => m.type === 'price_change')
+      : report.recent_moves;
+
+  const weeks = Object.keys(trends?.market_trend || {}).sort();
+  const firstWeek = weeks[0];
+  const lastWeek = weeks[weeks.length - 1];
+  const weeklyChange = weeks.length > 1 && trends.market_trend[firstWeek]
+    ? ((trends.market_trend[lastWeek] - trends.market_trend[firstWeek]) / trends.market_trend[firstWeek]) * 100
+    : null;
+
+  const showInsights = reportType !== 'trends';
+  const showCompetitors = reportType !== 'trends';
+  const showTrends = reportType !== 'summary';
+
+  return (
+    <article className={`market-report bg-white ${className}`}>
+      {/* Title */}
+      <header className="border-b border-gray-200 pb-6">
+        <p className="text-sm font-medium uppercase tracking-wide text-blue-600">Market Edge - {reportName}</p>
+        <h1 className="mt-1 text-3xl font-bold text-gray-900">{market.name}</h1>
+        <p className="mt-2 text-sm text-gray-500">
+          Generated <time dateTime={report.generated_at}>{formatDateTime(report.generated_at)}</time>
+        </p>
+      </header>
+
+      {/* Overview */}
+      <Section title="Market Overview">
+        <p>
+          {market.name} is tracking {plural(report.summary.total_competitors, 'competitor')}, with{' '}
+          {plural(overview.recent_data_points, 'price point')} collected recently.
+          {metrics && metrics.total_data_points > 0 && (
+            <>
+              {' '}Between {formatDate(metrics.period_start)} and {formatDate(metrics.period_end)} the average price was{' '}
+              <strong>{formatCurrency(metrics.average_price, currency)}</strong> (median {formatCurrency(metrics.median_price, currency)}),
+              ranging from {formatCurrency(metrics.min_price, currency)} to {formatCurrency(metrics.max_price, currency)}.
+            </>
+          )}
+        </p>
+        {metrics && metrics.trends.trend !== 'insufficient_data' && (
+          <p className="flex items-start">
+            {metrics.trends.price_change_percent >= 0
+              ? <ArrowTrendingUpIcon className="h-5 w-5 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+              : <ArrowTrendingDownIcon className="h-5 w-5 mr-2 mt-0.5 text-red-600 flex-shrink-0" />}
+            <span>
+              Prices are {metrics.trends.trend}, moving {formatPercent(metrics.trends.price_change_percent)} over the period.
+            </span>
+          </p>
+        )}
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Competitors', value: report.summary.total_competitors },
+            { label: 'Active alerts', value: report.summary.active_alerts },
+            { label: 'Recent moves', value: report.summary.recent_moves },
+            { label: 'Key insights', value: report.summary.key_insights }
+          ].map(item => (
+            <div key={item.label} className="rounded-lg border border-gray-200 p-4">
+              <dt className="text-sm text-gray-500">{item.label}</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{item.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </Section>
+
+      {showInsights && (
+        <Section title="Key Insights">
+          {insights.length === 0 ? (
+            <p className="text-gray-500">No insights were generated for this period.</p>
+          ) : (
+            <ul className="space-y-3">
+              {insights.map((insight, index) => (
+                <li key={index} className="flex items-start">
+                  <LightBulbIcon className="h-5 w-5 mr-2 mt-0.5 text-yellow-500 flex-shrink-0" />
+                  <span>
+                    {insightText(insight)}
+                    {insight?.priority && (
+                      <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${priorityClasses[insight.priority] || priorityClasses.low}`}>
+                        {insight.priority} priority
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      )}
+
+      {showCompetitors && (
+        <Section title="Competitor Analysis">
+          {rankings.length === 0 ? (
+            <p className="text-gray-500">No competitor pricing was recorded for this period.</p>
+          ) : (
+            <>
+              <p>
+                {rankings[0].name} is the price leader at {formatCurrency(rankings[0].average_price, currency)} on average
+                {rankings.length > 1 && (
+                  <>, while {rankings[rankings.length - 1].name} is the most expensive at{' '}
+                    {formatCurrency(rankings[rankings.length - 1].average_price, currency)}</>
+                )}.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Rank</th>
+                    <th className="py-2 pr-4 font-medium">Competitor</th>
+                    <th className="py-2 pr-4 font-medium text-right">Average</th>
+                    <th className="py-2 pr-4 font-medium text-right">Range</th>
+                    <th className="py-2 font-medium text-right">Data points</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(reportType === 'summary' ? rankings.slice(0, 5) : rankings).map(r => {
+                    const details = comparison.competitors[r.competitor_id];
+                    return (
+                      <tr key={r.competitor_id}>
+                        <td className="py-2 pr-4">{r.rank}</td>
+                        <td className="py-2 pr-4 font-medium text-gray-900">{r.name}</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(r.average_price, currency)}</td>
+                        <td className="py-2 pr-4 text-right">
+                          {details ? `${formatCurrency(details.min_price, currency)} - ${formatCurrency(details.max_price, currency)}` : '-'}
+                        </td>
+                        <td className="py-2 text-right">{details?.data_points ?? '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+        </Section>
+      )}
+
+      {showTrends && (
+        <Section title="Pricing Trends">
+          {weeks.length === 0 ? (
+            <p className="text-gray-500">Not enough pricing history to show weekly trends.</p>
+          ) : (
+            <>
+              <p>
+                Weekly averages cover {plural(weeks.length, 'week')} from {firstWeek} to {lastWeek}.
+                {weeklyChange !== null && (
+                  <> The market average moved from {formatCurrency(trends.market_trend[firstWeek], currency)} to{' '}
+                    {formatCurrency(trends.market_trend[lastWeek], currency)} ({formatPercent(weeklyChange)}).</>
+                )}
+              </p>
+              <PricingChart
+                data={trends}
+                chartType="line"
+                height={320}
+                className="report-chart"
+                annotations={annotations}
+              />
+              {annotations.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm" data-testid="report-annotations">
+                  {annotations.map(annotation => (
+                    <li key={annotation.id}>
+                      <span className="font-medium text-gray-900">{formatDate(annotation.date)}: {annotation.label}</span>
+                      {annotation.description && <> · {annotation.description}</>}
+                      <span className="ml-2 text-xs text-gray-500">added by {annotationAuthor(annotation)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </Section>
+      )}
+
+      <Section title={reportType === 'trends' ? 'Recent Price Changes' : 'Recent Competitor Moves'}>
+        {moves.length === 0 ? (
+          <p className="text-gray-500">No significant competitor moves were detected.</p>
+        ) : (
+          <ul className="space-y-3">
+            {moves.map((move, index) => (
+              <li key={`${move.competitor_id}-${move.type}-${index}`} className="flex items-start">
+                <SparklesIcon className="h-5 w-5 mr-2 mt-0.5 text-blue-500 flex-shrink-0" />
+                <span>
+                  {describeMove(move, currency)}
+                  <span className="ml-2 text-xs text-gray-500">{move.significance} significance</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <footer className="mt-12 pt-4 border-t border-gray-200 text-xs text-gray-500">
+        {reportName} for {market.name}. Generated {formatDateTime(report.generated_at)}.
+      </footer>
+    </article>
+  );
+};
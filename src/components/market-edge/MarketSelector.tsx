@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ChevronDownIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { ChevronDownIcon, PlusIcon, PencilIcon } from '@heroicons/react/24/outline';
 import { Market } from '@/types/market-edge';
 import { marketEdgeAPI } from '@/services/market-edge-api';
 
@@ -7,6 +7,7 @@ interface MarketSelectorProps {
   selectedMarket?: Market;
   onMarketSelect: (market: Market) => void;
   onCreateMarket?: () => void;
+  onEditMarket?: (market: Market) => void;
   className?: string;
 }
 
@@ -14,12 +15,14 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
   selectedMarket,
   onMarketSelect,
   onCreateMarket,
+  onEditMarket,
   className = ''
 }) => {
   const [markets, setMarkets] = useState<Market[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -39,7 +42,10 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
     }
   };
 
+  // Archived markets are hidden unless asked for
+  const archivedCount = markets.filter(market => !market.is_active).length;
   const filteredMarkets = markets.filter(market =>
+    (showArchived || market.is_active) &&
     market.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
@@ -81,6 +87,15 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               autoFocus
             />
+            <label className="mt-2 flex items-center text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="h-3.5 w-3.5 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Show archived{archivedCount > 0 ? ` (${archivedCount})` : ''}
+            </label>
           </div>
 
           {/* Markets List */}
@@ -105,26 +120,40 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
               </div>
             ) : (
               filteredMarkets.map((market) => (
-                <button
-                  key={market.id}
-                  onClick={() => handleMarketSelect(market)}
-                  className="w-full px-4 py-3 text-left hover:bg-gray-50 focus:outline-none focus:bg-gray-50 transition-colors"
-                >
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">
-                        {market.name}
-                      </div>
-                      <div className="text-xs text-gray-500 mt-1">
-                        {market.competitor_count} competitors • 
-                        {market.is_active ? ' Active' : ' Inactive'}
+                <div key={market.id} className="flex items-center hover:bg-gray-50">
+                  <button
+                    onClick={() => handleMarketSelect(market)}
+                    className="flex-1 min-w-0 px-4 py-3 text-left focus:outline-none focus:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className={`text-sm font-medium ${market.is_active ? 'text-gray-900' : 'text-gray-500'}`}>
+                          {market.name}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {market.competitor_count} competitors • 
+                          {market.is_active ? ' Active' : ' Archived'}
+                        </div>
                       </div>
+                      {selectedMarket?.id === market.id && (
+                        <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
+                      )}
                     </div>
-                    {selectedMarket?.id === market.id && (
-                      <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-                    )}
-                  </div>
-                </button>
+                  </button>
+                  {onEditMarket && (
+                    <button
+                      onClick={() => {
+                        onEditMarket(market);
+                        setIsOpen(false);
+                      }}
+                      className="p-2 mr-2 text-gray-400 hover:text-gray-600 rounded-md"
+                      title={`Edit ${market.name}`}
+                    >
+                      <span className="sr-only">Edit {market.name}</span>
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               ))
             )}
           </div>
@@ -6,13 +6,17 @@ import {
   CurrencyPoundIcon,
   ChartBarIcon,
   UsersIcon,
-  ExclamationCircleIcon
+  ExclamationCircleIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
 import { MarketMetrics } from '@/types/market-edge';
+import { formatPrice } from '@/services/market-edge-currency';
 
 interface PerformanceMetricsProps {
-  metrics: MarketMetrics;
+  metrics: MarketMetrics | null;
   isLoading?: boolean;
+  // Set when the market analysis could not be loaded; the rest of the page still renders
+  error?: string | null;
   className?: string;
 }
 
@@ -79,11 +83,7 @@ const MetricCard: React.FC<MetricCardProps> = ({
       
       <div className="flex items-baseline justify-between">
         <div>
-          <p className="text-2xl font-semibold text-gray-900">
-            {typeof value === 'number' && title.toLowerCase().includes('price') 
-              ? `£${value.toFixed(2)}` 
-              : value}
-          </p>
+          <p className="text-2xl font-semibold text-gray-900">{value}</p>
           {subtitle && (
             <p className="text-sm text-gray-600 mt-1">{subtitle}</p>
           )}
@@ -109,6 +109,7 @@ const MetricCard: React.FC<MetricCardProps> = ({
 export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
   metrics,
   isLoading = false,
+  error = null,
   className = ''
 }) => {
   if (isLoading) {
@@ -126,6 +127,14 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
     );
   }
 
+  if (error) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+        <p role="alert" className="text-center text-sm text-red-600">Market analysis could not be loaded: {error}</p>
+      </div>
+    );
+  }
+
   if (!metrics || Object.keys(metrics).length === 0) {
     return (
       <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
@@ -157,6 +166,8 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
   };
 
   const trendInfo = getTrendInfo();
+  const formatCurrency = (value?: number) => formatPrice(value || 0, metrics.currency);
+  const excludedCurrencies = metrics.excluded_currencies || [];
   const competitorCount = Object.keys(metrics.competitors || {}).length;
   const anomalyCount = metrics.anomalies?.length || 0;
 
@@ -167,11 +178,22 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
 
   return (
     <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 ${className}`}>
+      {/* Prices without an exchange rate are left out of every figure */}
+      {excludedCurrencies.length > 0 && (
+        <div role="alert" className="md:col-span-2 lg:col-span-4 flex items-start p-4 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+          <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span>
+            Prices in {excludedCurrencies.join(', ')} are excluded because no exchange rate
+            to {metrics.currency} is set. Add rates in Settings to include them.
+          </span>
+        </div>
+      )}
+
       {/* Average Price */}
       <MetricCard
         title="Average Price"
-        value={metrics.average_price}
-        subtitle={`Median: £${metrics.median_price?.toFixed(2) || '0.00'}`}
+        value={formatCurrency(metrics.average_price)}
+        subtitle={`Median: ${formatCurrency(metrics.median_price)}`}
         trend={trendInfo.trend}
         trendValue={trendInfo.trendValue}
         icon={<CurrencyPoundIcon className="w-5 h-5" />}
@@ -181,8 +203,8 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
       {/* Price Range */}
       <MetricCard
         title="Price Range"
-        value={`£${metrics.price_range?.toFixed(2) || '0.00'}`}
-        subtitle={`£${metrics.min_price?.toFixed(2) || '0.00'} - £${metrics.max_price?.toFixed(2) || '0.00'}`}
+        value={formatCurrency(metrics.price_range)}
+        subtitle={`${formatCurrency(metrics.min_price)} - ${formatCurrency(metrics.max_price)}`}
         icon={<ChartBarIcon className="w-5 h-5" />}
         color="green"
       />
@@ -200,7 +222,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
       <MetricCard
         title="Price Volatility"
         value={`${priceVolatility.toFixed(1)}%`}
-        subtitle={`Std Dev: £${metrics.standard_deviation?.toFixed(2) || '0.00'}`}
+        subtitle={`Std Dev: ${formatCurrency(metrics.standard_deviation)}`}
         icon={<ChartBarIcon className="w-5 h-5" />}
         color={priceVolatility > 15 ? 'red' : priceVolatility > 8 ? 'yellow' : 'green'}
       />
@@ -210,7 +232,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
         <>
           <MetricCard
             title="25th Percentile"
-            value={metrics.price_quartiles.q1}
+            value={formatCurrency(metrics.price_quartiles.q1)}
             subtitle="Lower quartile"
             icon={<ChartBarIcon className="w-5 h-5" />}
             color="gray"
@@ -218,7 +240,7 @@ export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
 
           <MetricCard
             title="75th Percentile"
-            value={metrics.price_quartiles.q3}
+            value={formatCurrency(metrics.price_quartiles.q3)}
             subtitle="Upper quartile"
             icon={<ChartBarIcon className="w-5 h-5" />}
             color="gray"
@@ -0,0 +1,270 @@
+import React, { useMemo } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  Cell,
+  Label
+} from 'recharts';
+import { CompetitorComparison, MarketMetrics } from '@/types/market-edge';
+import { quantile } from '@/services/market-edge-analytics';
+import { formatPrice } from '@/services/market-edge-currency';
+
+interface PositioningChartProps {
+  comparison: CompetitorComparison;
+  metrics?: MarketMetrics | null;
+  title?: string;
+  height?: number;
+  onSelectCompetitor?: (competitorId: string) => void;
+  className?: string;
+}
+
+export type PositioningQuadrant = 'premium_leader' | 'value_leader' | 'premium_niche' | 'value_challenger';
+
+export interface PositioningPoint {
+  id: string;
+  name: string;
+  price: number;
+  share: number;
+  dataPoints: number;
+  trackingPriority: number;
+  position?: MarketMetrics['competitors'][string]['position'];
+  quadrant: PositioningQuadrant;
+}
+
+export interface PositioningData {
+  points: PositioningPoint[];
+  // Competitors without a share estimate can't be placed on the chart
+  unplotted: string[];
+  priceSplit: number;
+  shareSplit: number;
+}
+
+export const QUADRANT_LABELS: Record<PositioningQuadrant, string> = {
+  premium_leader: 'Premium leader',
+  value_leader: 'Value leader',
+  premium_niche: 'Premium niche',
+  value_challenger: 'Value challenger'
+};
+
+// Same hues as the priority badges in CompetitorTable
+export const PRIORITY_COLORS: Record<number, string> = {
+  1: '#9CA3AF',
+  2: '#3B82F6',
+  3: '#EAB308',
+  4: '#F97316',
+  5: '#EF4444'
+};
+
+const PRIORITY_LABELS: Record<number, string> = {
+  1: 'Low',
+  2: 'Below Average',
+  3: 'Average',
+  4: 'High',
+  5: 'Critical'
+};
+
+export const positioningQuadrant = (
+  price: number,
+  share: number,
+  priceSplit: number,
+  shareSplit: number
+): PositioningQuadrant => {
+  const premium = price >= priceSplit;
+  const leader = share >= shareSplit;
+  if (premium) return leader ? 'premium_leader' : 'premium_niche';
+  return leader ? 'value_leader' : 'value_challenger';
+};
+
+/**
+ * Places competitors by average price and estimated share. Quadrants are
+ * split at the median of each axis so there is always a mix of positions,
+ * whatever the absolute price level of the market.
+ */
+export const buildPositioningData = (
+  comparison: CompetitorComparison,
+  metrics?: MarketMetrics | null
+): PositioningData => {
+  const entries = Object.entries(comparison.competitors || {}).filter(([, c]) => c.data_points > 0);
+  const placed = entries.filter(([, c]) => typeof c.market_share_estimate === 'number');
+  const unplotted = entries.filter(([, c]) => typeof c.market_share_estimate !== 'number').map(([, c]) => c.name);
+
+  const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+  const priceSplit = quantile(sorted(placed.map(([, c]) => c.average_price)), 0.5);
+  const shareSplit = quantile(sorted(placed.map(([, c]) => c.market_share_estimate as number)), 0.5);
+
+  const points = placed.map(([id, c]) => ({
+    id,
+    name: c.name,
+    price: c.average_price,
+    share: c.market_share_estimate as number,
+    dataPoints: c.data_points,
+    trackingPriority: c.tracking_priority,
+    position: metrics?.competitors?.[id]?.position,
+    quadrant: positioningQuadrant(c.average_price, c.market_share_estimate as number, priceSplit, shareSplit)
+  }));
+
+  return { points, unplotted, priceSplit, shareSplit };
+};
+
+const POSITION_LABELS: Record<NonNullable<PositioningPoint['position']>, string> = {
+  low: 'Low price tier',
+  mid: 'Mid price tier',
+  high: 'High price tier'
+};
+
+export const PositioningChart: React.FC<PositioningChartProps> = ({
+  comparison,
+  metrics,
+  title = 'Price Positioning',
+  height = 420,
+  onSelectCompetitor,
+  className = ''
+}) => {
+  const data = useMemo(() => buildPositioningData(comparison, metrics), [comparison, metrics]);
+  const currency = comparison.currency;
+
+  const PositioningTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const point: PositioningPoint = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-medium text-gray-900 mb-1">{point.name}</p>
+        <p className="text-sm text-gray-600">Average price: {formatPrice(point.price, currency)}</p>
+        <p className="text-sm text-gray-600">Market share: {point.share.toFixed(1)}%</p>
+        <p className="text-sm text-gray-600">Data points: {point.dataPoints}</p>
+        {point.position && <p className="text-sm text-gray-600">{POSITION_LABELS[point.position]}</p>}
+        <p className="text-sm font-medium text-gray-800 mt-1">{QUADRANT_LABELS[point.quadrant]}</p>
+      </div>
+    );
+  };
+
+  if (!data.points.length) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+        <div className="flex items-center justify-center h-64 text-center text-gray-500">
+          <div>
+            <div className="text-sm">No competitors to position</div>
+            <div className="text-xs mt-1">Add market share estimates and pricing data to see the matrix</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const quadrantCorner = (quadrant: PositioningQuadrant) => {
+    const right = quadrant === 'premium_leader' || quadrant === 'premium_niche';
+    const top = quadrant === 'premium_leader' || quadrant === 'value_leader';
+    return `absolute text-xs font-medium text-gray-400 ${top ? 'top-2' : 'bottom-12'} ${right ? 'right-4' : 'left-20'}`;
+  };
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+        <div className="flex items-center space-x-3 text-xs text-gray-500" aria-label="Tracking priority">
+          {Object.entries(PRIORITY_COLORS).map(([priority, color]) => (
+            <span key={priority} className="flex items-center">
+              <span className="inline-block w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: color }} />
+              {PRIORITY_LABELS[Number(priority)]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative w-full">
+        {(Object.keys(QUADRANT_LABELS) as PositioningQuadrant[]).map(quadrant => (
+          <span key={quadrant} className={quadrantCorner(quadrant)}>{QUADRANT_LABELS[quadrant]}</span>
+        ))}
+        <ResponsiveContainer width="100%" height={height}>
+          <ScatterChart margin={{ top: 20, right: 20, bottom: 30, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+            <XAxis
+              type="number"
+              dataKey="price"
+              name="Average price"
+              domain={['auto', 'auto']}
+              tickFormatter={(value: number) => formatPrice(value, currency)}
+              tick={{ fontSize: 12 }}
+              stroke="#6b7280"
+            >
+              <Label value="Average price" position="bottom" offset={10} style={{ fontSize: 12, fill: '#6b7280' }} />
+            </XAxis>
+            <YAxis
+              type="number"
+              dataKey="share"
+              name="Market share"
+              unit="%"
+              tick={{ fontSize: 12 }}
+              stroke="#6b7280"
+            >
+              <Label value="Market share" angle={-90} position="insideLeft" style={{ fontSize: 12, fill: '#6b7280' }} />
+            </YAxis>
+            <ZAxis type="number" dataKey="dataPoints" range={[80, 800]} name="Data points" />
+            <ReferenceLine x={data.priceSplit} stroke="#9ca3af" strokeDasharray="4 4" />
+            <ReferenceLine y={data.shareSplit} stroke="#9ca3af" strokeDasharray="4 4" />
+            <Tooltip content={<PositioningTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter
+              data={data.points}
+              fillOpacity={0.75}
+              cursor={onSelectCompetitor ? 'pointer' : undefined}
+              onClick={(entry: any) => {
+                const id = entry?.payload?.id ?? entry?.id;
+                if (id && onSelectCompetitor) onSelectCompetitor(id);
+              }}
+            >
+              {data.points.map(point => (
+                <Cell key={point.id} fill={PRIORITY_COLORS[point.trackingPriority] || PRIORITY_COLORS[3]} />
+              ))}
+            </Scatter>
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {(Object.keys(QUADRANT_LABELS) as PositioningQuadrant[]).map(quadrant => {
+          const members = data.points.filter(p => p.quadrant === quadrant);
+          return (
+            <div key={quadrant} className="border border-gray-100 rounded-md p-3">
+              <h4 className="text-sm font-medium text-gray-900">{QUADRANT_LABELS[quadrant]}</h4>
+              {members.length ? (
+                <ul className="mt-1 space-y-1">
+                  {members.map(point => (
+                    <li key={point.id}>
+                      <button
+                        type="button"
+                        onClick={() => onSelectCompetitor?.(point.id)}
+                        disabled={!onSelectCompetitor}
+                        className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-700"
+                      >
+                        {point.name}
+                      </button>
+                      <span className="text-xs text-gray-500 ml-2">
+                        {formatPrice(point.price, currency)} · {point.share.toFixed(1)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-xs text-gray-400">No competitors</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {data.unplotted.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          Not shown (no market share estimate): {data.unplotted.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
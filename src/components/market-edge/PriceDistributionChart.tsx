@@ -0,0 +1,229 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { MarketMetrics, PriceAnomaly, PriceQuartiles } from '@/types/market-edge';
+import { formatPrice } from '@/services/market-edge-currency';
+
+interface PriceDistributionChartProps {
+  metrics: MarketMetrics;
+  title?: string;
+  height?: number;
+  className?: string;
+}
+
+export interface DistributionRow {
+  id: string;
+  name: string;
+  isMarket: boolean;
+  min: number;
+  max: number;
+  median: number;
+  quartiles?: PriceQuartiles;
+  standardDeviation?: number;
+  dataPoints: number;
+  outliers: PriceAnomaly[];
+  // [min, max] so recharts sizes the bar to the whisker span
+  range: [number, number];
+}
+
+export const MARKET_ROW_ID = 'market';
+
+/**
+ * One row for the whole market followed by each competitor, cheapest
+ * first. Anomalies are matched to competitors by name since that is all
+ * `PriceAnomaly` carries; the market row shows every anomaly.
+ */
+export const buildDistributionRows = (metrics: MarketMetrics): DistributionRow[] => {
+  const anomalies = metrics.anomalies || [];
+  const market: DistributionRow = {
+    id: MARKET_ROW_ID,
+    name: 'Market',
+    isMarket: true,
+    min: metrics.min_price,
+    max: metrics.max_price,
+    median: metrics.median_price,
+    quartiles: metrics.price_quartiles,
+    standardDeviation: metrics.standard_deviation,
+    dataPoints: metrics.total_data_points,
+    outliers: anomalies,
+    range: [metrics.min_price, metrics.max_price]
+  };
+
+  const competitors = Object.entries(metrics.competitors || {})
+    .sort(([, a], [, b]) => a.price_rank - b.price_rank)
+    .map(([id, c]): DistributionRow => ({
+      id,
+      name: c.name,
+      isMarket: false,
+      min: c.min_price,
+      max: c.max_price,
+      median: c.median_price,
+      quartiles: c.price_quartiles,
+      standardDeviation: c.standard_deviation,
+      dataPoints: c.price_points_count,
+      outliers: anomalies.filter(a => a.competitor_name === c.name),
+      range: [c.min_price, c.max_price]
+    }));
+
+  return metrics.total_data_points ? [market, ...competitors] : competitors;
+};
+
+interface BoxPlotShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: DistributionRow;
+}
+
+/**
+ * Bar shape drawing a whisker from min to max, a box from Q1 to Q3 and a
+ * median line. The bar already spans [min, max] in pixels, so values are
+ * placed by interpolating within it. Competitors without quartiles get a
+ * median tick only.
+ */
+export const BoxPlotShape: React.FC<BoxPlotShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, payload }) => {
+  if (!payload) return null;
+
+  const { min, max, median, quartiles, outliers, isMarket } = payload;
+  const spread = max - min;
+  const yFor = (value: number) => (spread > 0 ? y + height * ((max - value) / spread) : y + height / 2);
+  const centre = x + width / 2;
+  const boxWidth = Math.max(8, Math.min(width * 0.6, 48));
+  const stroke = isMarket ? '#1f2937' : '#2563EB';
+
+  return (
+    <g data-testid={`box-plot-${payload.id}`}>
+      <line x1={centre} x2={centre} y1={yFor(max)} y2={yFor(min)} stroke={stroke} strokeWidth={1.5} />
+      <line x1={centre - boxWidth / 4} x2={centre + boxWidth / 4} y1={yFor(max)} y2={yFor(max)} stroke={stroke} />
+      <line x1={centre - boxWidth / 4} x2={centre + boxWidth / 4} y1={yFor(min)} y2={yFor(min)} stroke={stroke} />
+      {quartiles && (
+        <rect
+          x={centre - boxWidth / 2}
+          y={yFor(quartiles.q3)}
+          width={boxWidth}
+          height={Math.max(1, yFor(quartiles.q1) - yFor(quartiles.q3))}
+          fill={isMarket ? '#e5e7eb' : '#dbeafe'}
+          stroke={stroke}
+        />
+      )}
+      <line
+        x1={centre - boxWidth / 2}
+        x2={centre + boxWidth / 2}
+        y1={yFor(median)}
+        y2={yFor(median)}
+        stroke={stroke}
+        strokeWidth={2.5}
+      />
+      {outliers.map(outlier => (
+        <circle
+          key={outlier.id}
+          data-testid="box-plot-outlier"
+          cx={centre}
+          cy={yFor(outlier.price)}
+          r={outlier.severity === 'high' ? 4.5 : 3.5}
+          fill={outlier.severity === 'high' ? '#DC2626' : '#F59E0B'}
+          fillOpacity={0.8}
+        />
+      ))}
+    </g>
+  );
+};
+
+export const PriceDistributionChart: React.FC<PriceDistributionChartProps> = ({
+  metrics,
+  title = 'Price Distribution',
+  height = 400,
+  className = ''
+}) => {
+  const rows = useMemo(() => buildDistributionRows(metrics), [metrics]);
+  const currency = metrics.currency;
+  const formatCurrency = (value: number) => formatPrice(value, currency);
+
+  const DistributionTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const row: DistributionRow = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-medium text-gray-900 mb-2">{row.name}</p>
+        <p className="text-sm text-gray-600">Max: {formatCurrency(row.max)}</p>
+        {row.quartiles && <p className="text-sm text-gray-600">Upper quartile: {formatCurrency(row.quartiles.q3)}</p>}
+        <p className="text-sm text-gray-600">Median: {formatCurrency(row.median)}</p>
+        {row.quartiles && <p className="text-sm text-gray-600">Lower quartile: {formatCurrency(row.quartiles.q1)}</p>}
+        <p className="text-sm text-gray-600">Min: {formatCurrency(row.min)}</p>
+        {row.standardDeviation !== undefined && (
+          <p className="text-sm text-gray-600">Std dev: {formatCurrency(row.standardDeviation)}</p>
+        )}
+        <p className="text-sm text-gray-600">Data points: {row.dataPoints}</p>
+        {row.outliers.length > 0 && (
+          <p className="text-sm text-red-600">
+            {row.outliers.length} outlier{row.outliers.length === 1 ? '' : 's'}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  if (!rows.length) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+        <div className="flex items-center justify-center h-64 text-sm text-gray-500">
+          No pricing data available
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+        <div className="flex items-center space-x-4 text-xs text-gray-500">
+          <span className="flex items-center">
+            <span className="inline-block w-3 h-3 border border-gray-800 bg-gray-200 mr-1" />
+            Q1 - Q3
+          </span>
+          <span className="flex items-center">
+            <span className="inline-block w-2.5 h-2.5 rounded-full bg-red-600 mr-1" />
+            High severity outlier
+          </span>
+          <span className="flex items-center">
+            <span className="inline-block w-2.5 h-2.5 rounded-full bg-amber-500 mr-1" />
+            Medium severity outlier
+          </span>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={rows} margin={{ bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis
+            dataKey="name"
+            tick={{ fontSize: 11 }}
+            angle={-45}
+            textAnchor="end"
+            height={80}
+            interval={0}
+            stroke="#6b7280"
+          />
+          <YAxis
+            tick={{ fontSize: 12 }}
+            tickFormatter={formatCurrency}
+            domain={['auto', 'auto']}
+            stroke="#6b7280"
+          />
+          <Tooltip content={<DistributionTooltip />} cursor={{ fill: '#f9fafb' }} />
+          <Bar dataKey="range" name="Price range" shape={<BoxPlotShape />} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
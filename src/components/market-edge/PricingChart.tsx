@@ -11,9 +11,20 @@ import {
   Legend,
   ResponsiveContainer,
   Area,
-  AreaChart
+  AreaChart,
+  ReferenceLine
 } from 'recharts';
-import { MarketTrends, CompetitorComparison } from '@/types/market-edge';
+import { ChartAnnotation, MarketTrends, CompetitorComparison, TrendGranularity } from '@/types/market-edge';
+import {
+  TREND_GRANULARITIES,
+  buildTrendChartData,
+  formatAxisTick,
+  formatPeriodLabel,
+  spansMultipleYears,
+  TrendSeries
+} from '@/services/market-edge-time-axis';
+import { formatPrice } from '@/services/market-edge-currency';
+import { AnnotationMarker, annotationAuthor, annotationMarkers, markerLabel } from '@/services/market-edge-annotations';
 
 interface PricingChartProps {
   data: MarketTrends | CompetitorComparison | any;
@@ -22,51 +33,68 @@ interface PricingChartProps {
   height?: number;
   showLegend?: boolean;
   className?: string;
+  // Trend data only; the selector is shown when a change handler is given
+  granularity?: TrendGranularity;
+  onGranularityChange?: (granularity: TrendGranularity) => void;
+  locale?: string;
+  // Trend line and area views only
+  annotations?: ChartAnnotation[];
 }
 
+const ANNOTATION_COLOR = '#9333EA';
+const NO_ANNOTATIONS: ChartAnnotation[] = [];
+
+/** Annotation notes shown under the values in the trend tooltip. */
+export const AnnotationNotes: React.FC<{ marker: AnnotationMarker; locale?: string }> = ({ marker, locale }) => (
+  <div className="mt-2 pt-2 border-t border-gray-100 max-w-xs space-y-1" data-testid="annotation-notes">
+    {marker.annotations.map(annotation => (
+      <div key={annotation.id} className="text-xs">
+        <p className="font-medium" style={{ color: ANNOTATION_COLOR }}>
+          {formatPeriodLabel(annotation.date, locale)} · {annotation.label}
+        </p>
+        {annotation.description && <p className="text-gray-600">{annotation.description}</p>}
+        <p className="text-gray-400">Added by {annotationAuthor(annotation)}</p>
+      </div>
+    ))}
+  </div>
+);
+
 export const PricingChart: React.FC<PricingChartProps> = ({
   data,
   chartType = 'line',
   title,
   height = 400,
   showLegend = true,
-  className = ''
+  className = '',
+  granularity = 'week',
+  onGranularityChange,
+  locale,
+  annotations = NO_ANNOTATIONS
 }) => {
-  const { chartData, competitorColors } = useMemo((): { chartData: any[]; competitorColors: Record<string, string> } => {
-    if (!data) return { chartData: [], competitorColors: {} as Record<string, string> };
+  const { chartData, competitorColors, axisGranularity, trendSeries } = useMemo((): {
+    chartData: any[];
+    competitorColors: Record<string, string>;
+    axisGranularity: TrendGranularity;
+    trendSeries?: TrendSeries[];
+  } => {
+    if (!data) return { chartData: [], competitorColors: {} as Record<string, string>, axisGranularity: granularity };
 
     // Handle MarketTrends data
     if ('market_trend' in data && data.market_trend) {
-      const weeks = Object.keys(data.market_trend).sort();
       const colors = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899'];
-      const competitors = Object.keys(data.competitor_trends || {});
-      
-      const competitorColorMap = competitors.reduce((acc, comp, index) => {
-        acc[comp] = colors[index % colors.length];
+      const trendData = buildTrendChartData(data, granularity);
+
+      const competitorColorMap = trendData.series.reduce((acc, series, index) => {
+        acc[series.id] = colors[index % colors.length];
         return acc;
       }, {} as Record<string, string>);
 
-      const chartData = weeks.map(week => {
-        const dataPoint: any = {
-          week: week.replace('2024-W', 'W'),
-          market: Math.round(data.market_trend[week] * 100) / 100
-        };
-
-        // Add competitor data
-        if (data.competitor_trends) {
-          Object.entries(data.competitor_trends).forEach(([competitorId, competitorData]) => {
-            const typedCompetitorData = competitorData as { name: string; weekly_averages: Record<string, number>; };
-            const weeklyData = typedCompetitorData.weekly_averages[week];
-            if (weeklyData) {
-              dataPoint[typedCompetitorData.name] = Math.round(weeklyData * 100) / 100;
-            }
-          });
-        }
-
-        return dataPoint;
-      });
-
-      return { chartData, competitorColors: competitorColorMap };
+      return {
+        chartData: trendData.points,
+        competitorColors: competitorColorMap,
+        axisGranularity: trendData.granularity,
+        trendSeries: trendData.series
+      };
     }
 
     // Handle CompetitorComparison data
@@ -79,6 +107,8 @@ export const PricingChart: React.FC<PricingChartProps> = ({
           max_price: number;
           market_share_estimate?: number;
           data_points: number;
+          original_currency?: string;
+          original_average_price?: number;
         };
         return {
           name: typedCompetitor.name.length > 15 ? typedCompetitor.name.substring(0, 15) + '...' : typedCompetitor.name,
@@ -87,38 +117,60 @@ export const PricingChart: React.FC<PricingChartProps> = ({
           minPrice: typedCompetitor.min_price,
           maxPrice: typedCompetitor.max_price,
           marketShare: typedCompetitor.market_share_estimate || 0,
-          dataPoints: typedCompetitor.data_points
+          dataPoints: typedCompetitor.data_points,
+          originalCurrency: typedCompetitor.original_currency,
+          originalAveragePrice: typedCompetitor.original_average_price
         };
       });
 
       return { 
         chartData: chartData.sort((a, b) => a.averagePrice - b.averagePrice),
-        competitorColors: {} as Record<string, string>
+        competitorColors: {} as Record<string, string>,
+        axisGranularity: granularity
       };
     }
 
     // Handle generic data
-    return { chartData: data, competitorColors: {} as Record<string, string> };
-  }, [data]);
+    return { chartData: data, competitorColors: {} as Record<string, string>, axisGranularity: granularity };
+  }, [data, granularity]);
+
+  const markers = useMemo(
+    () => (trendSeries ? annotationMarkers(annotations, chartData, axisGranularity) : []),
+    [annotations, chartData, axisGranularity, trendSeries]
+  );
+
+  const showYear = 'market_trend' in (data || {}) && spansMultipleYears(chartData);
+  const formatTick = (timestamp: number) => formatAxisTick(timestamp, axisGranularity, { showYear, locale });
 
   const formatCurrency = (value: number) => {
-    return `£${value.toFixed(2)}`;
+    return formatPrice(value, data?.currency, locale);
+  };
+
+  // Converted prices also show the amount that was actually collected
+  const formatTrendValue = (entry: any) => {
+    const series = trendSeries?.find(s => s.id === entry.dataKey);
+    const original = series?.original_values?.[entry.payload.key];
+    return series?.original_currency && original !== undefined
+      ? `${formatCurrency(entry.value)} (${formatPrice(original, series.original_currency, locale)})`
+      : formatCurrency(entry.value);
   };
 
   const formatPercent = (value: number) => {
     return `${value.toFixed(1)}%`;
   };
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
+      const marker = markers.find(m => m.timestamp === payload[0].payload.timestamp);
       return (
         <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
-          <p className="font-medium text-gray-900 mb-2">{label}</p>
-          {payload.map((entry: any, index: number) => (
+          <p className="font-medium text-gray-900 mb-2">{formatPeriodLabel(payload[0].payload.key, locale)}</p>
+          {payload.filter((entry: any) => entry.value !== null && entry.value !== undefined).map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {`${entry.dataKey === 'market' ? 'Market Average' : entry.dataKey}: ${formatCurrency(entry.value)}`}
+              {`${entry.name}: ${formatTrendValue(entry)}`}
             </p>
           ))}
+          {marker && <AnnotationNotes marker={marker} locale={locale} />}
         </div>
       );
     }
@@ -131,7 +183,12 @@ export const PricingChart: React.FC<PricingChartProps> = ({
       return (
         <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
           <p className="font-medium text-gray-900 mb-2">{data.fullName}</p>
-          <p className="text-sm text-gray-600">Average Price: {formatCurrency(data.averagePrice)}</p>
+          <p className="text-sm text-gray-600">
+            Average Price: {formatCurrency(data.averagePrice)}
+            {data.originalCurrency && data.originalAveragePrice !== undefined && (
+              <> ({formatPrice(data.originalAveragePrice, data.originalCurrency, locale)})</>
+            )}
+          </p>
           <p className="text-sm text-gray-600">Price Range: {formatCurrency(data.minPrice)} - {formatCurrency(data.maxPrice)}</p>
           {data.marketShare > 0 && (
             <p className="text-sm text-gray-600">Market Share: {formatPercent(data.marketShare)}</p>
@@ -159,6 +216,17 @@ export const PricingChart: React.FC<PricingChartProps> = ({
     );
   }
 
+  // A dashed line per annotated period, labelled with the note or a count
+  const annotationLines = markers.map(marker => (
+    <ReferenceLine
+      key={`annotation-${marker.timestamp}`}
+      x={marker.timestamp}
+      stroke={ANNOTATION_COLOR}
+      strokeDasharray="4 4"
+      label={{ value: markerLabel(marker), position: 'insideTopLeft', fill: ANNOTATION_COLOR, fontSize: 11 }}
+    />
+  ));
+
   const renderChart = () => {
     // For trends data (line/area chart)
     if ('market_trend' in data) {
@@ -168,7 +236,8 @@ export const PricingChart: React.FC<PricingChartProps> = ({
             <AreaChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
               <XAxis 
-                dataKey="week" 
+                dataKey="timestamp" 
+                tickFormatter={formatTick}
                 tick={{ fontSize: 12 }}
                 stroke="#6b7280"
               />
@@ -179,6 +248,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
               />
               <Tooltip content={<CustomTooltip />} />
               {showLegend && <Legend />}
+              {annotationLines}
               
               {/* Market trend area */}
               <Area
@@ -188,6 +258,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
                 strokeWidth={3}
                 strokeDasharray="5 5"
                 name="Market Average"
+                connectNulls={false}
                 fill="#1f293740"
               />
               
@@ -198,7 +269,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
                   <Area
                     key={competitorId}
                     type="monotone"
-                    dataKey={typedCompetitorData.name}
+                    dataKey={competitorId}
                     stroke={competitorColors[competitorId] || '#6b7280'}
                     strokeWidth={2}
                     name={typedCompetitorData.name}
@@ -217,7 +288,8 @@ export const PricingChart: React.FC<PricingChartProps> = ({
             <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
               <XAxis 
-                dataKey="week" 
+                dataKey="timestamp" 
+                tickFormatter={formatTick}
                 tick={{ fontSize: 12 }}
                 stroke="#6b7280"
               />
@@ -228,6 +300,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
               />
               <Tooltip content={<CustomTooltip />} />
               {showLegend && <Legend />}
+              {annotationLines}
               
               {/* Market trend line */}
               <Line
@@ -237,6 +310,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
                 strokeWidth={3}
                 strokeDasharray="5 5"
                 name="Market Average"
+                connectNulls={false}
               />
               
               {/* Competitor lines */}
@@ -246,7 +320,7 @@ export const PricingChart: React.FC<PricingChartProps> = ({
                   <Line
                     key={competitorId}
                     type="monotone"
-                    dataKey={typedCompetitorData.name}
+                    dataKey={competitorId}
                     stroke={competitorColors[competitorId] || '#6b7280'}
                     strokeWidth={2}
                     name={typedCompetitorData.name}
@@ -291,12 +365,33 @@ export const PricingChart: React.FC<PricingChartProps> = ({
     );
   };
 
+  const granularitySelector = onGranularityChange && 'market_trend' in data && (
+    <div role="group" aria-label="Granularity" className="inline-flex rounded-md shadow-sm">
+      {TREND_GRANULARITIES.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={granularity === option.value}
+          onClick={() => onGranularityChange(option.value)}
+          className={`px-3 py-1 text-xs font-medium border first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+            granularity === option.value
+              ? 'bg-blue-100 border-blue-200 text-blue-700'
+              : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
-      {title && (
+      {(title || granularitySelector) && (
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-medium text-gray-900">{title}</h3>
-          <div className="flex items-center space-x-2">
+          <div className="flex items-center space-x-4">
+            {granularitySelector}
             <div className="text-sm text-gray-500">
               {chartData.length} data points
             </div>
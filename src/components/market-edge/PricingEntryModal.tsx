@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { Competitor, PricingDataInput } from '@/types/market-edge';
+import { isCurrencyCode, parseIsoDate, parsePrice } from '@/services/market-edge-import';
+
+interface PricingEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  marketId: string;
+  competitors: Competitor[];
+  defaultCurrency?: string;
+  onSubmit: (values: PricingDataInput) => void | Promise<void>;
+}
+
+interface FormState {
+  competitor_id: string;
+  product_service: string;
+  price_point: string;
+  currency: string;
+  date_collected: string;
+  is_promotion: boolean;
+  promotion_details: string;
+}
+
+export const MANUAL_ENTRY_SOURCE = 'manual_entry';
+
+// Recent rows are enough to suggest the products already being tracked
+const PRODUCT_SUGGESTION_LIMIT = 500;
+
+const initialState = (currency: string): FormState => ({
+  competitor_id: '',
+  product_service: '',
+  price_point: '',
+  currency,
+  date_collected: new Date().toISOString().substring(0, 10),
+  is_promotion: false,
+  promotion_details: ''
+});
+
+export const PricingEntryModal: React.FC<PricingEntryModalProps> = ({
+  isOpen,
+  onClose,
+  marketId,
+  competitors,
+  defaultCurrency = 'GBP',
+  onSubmit
+}) => {
+  const [formData, setFormData] = useState<FormState>(() => initialState(defaultCurrency));
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [products, setProducts] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(defaultCurrency));
+      setValidationErrors({});
+    }
+  }, [isOpen, defaultCurrency]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    marketEdgeAPI.getMarketPricingData(marketId, { limit: PRODUCT_SUGGESTION_LIMIT })
+      .then(pricing => {
+        if (!cancelled) setProducts(Array.from(new Set(pricing.map(p => p.product_service))).sort());
+      })
+      .catch(() => {
+        // Suggestions are optional; free text still works
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, marketId]);
+
+  const handleInputChange = (field: keyof FormState, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear validation error when user starts typing
+    if (validationErrors[field]) {
+      setValidationErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.competitor_id) {
+      errors.competitor_id = 'Please select a competitor';
+    }
+
+    if (!formData.product_service.trim()) {
+      errors.product_service = 'Product/service is required';
+    }
+
+    if (parsePrice(formData.price_point) === null) {
+      errors.price_point = 'Price must be a number';
+    }
+
+    if (!isCurrencyCode(formData.currency)) {
+      errors.currency = 'Currency must be a 3-letter ISO code';
+    }
+
+    const date = parseIsoDate(formData.date_collected);
+    if (!date) {
+      errors.date_collected = 'Please enter a valid date';
+    } else if (new Date(date) > new Date()) {
+      errors.date_collected = 'Date cannot be in the future';
+    }
+
+    setValidationErrors(errors);
+    return Object.values(errors).every(error => !error);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const values: PricingDataInput = {
+      competitor_id: formData.competitor_id,
+      product_service: formData.product_service.trim(),
+      price_point: parsePrice(formData.price_point)!,
+      currency: formData.currency.trim().toUpperCase(),
+      date_collected: parseIsoDate(formData.date_collected)!,
+      source: MANUAL_ENTRY_SOURCE,
+      is_promotion: formData.is_promotion,
+      promotion_details: formData.is_promotion ? formData.promotion_details.trim() || undefined : undefined
+    };
+
+    try {
+      setIsSaving(true);
+      await onSubmit(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `mt-1 block w-full rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 ${
+      validationErrors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: string) =>
+    validationErrors[field] ? <p className="text-sm text-red-600 mt-1">{validationErrors[field]}</p> : null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add Price" maxWidth="lg">
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="sm:col-span-2">
+            <label htmlFor="pricing-competitor" className="block text-sm font-medium text-gray-700">Competitor *</label>
+            <select
+              id="pricing-competitor"
+              value={formData.competitor_id}
+              onChange={(e) => handleInputChange('competitor_id', e.target.value)}
+              className={inputClass('competitor_id')}
+            >
+              <option value="">Select a competitor</option>
+              {competitors.map(competitor => (
+                <option key={competitor.id} value={competitor.id}>{competitor.name}</option>
+              ))}
+            </select>
+            {fieldError('competitor_id')}
+          </div>
+
+          <div className="sm:col-span-2">
+            <label htmlFor="pricing-product" className="block text-sm font-medium text-gray-700">Product/Service *</label>
+            <input
+              id="pricing-product"
+              type="text"
+              list="pricing-product-options"
+              value={formData.product_service}
+              onChange={(e) => handleInputChange('product_service', e.target.value)}
+              className={inputClass('product_service')}
+            />
+            <datalist id="pricing-product-options">
+              {products.map(product => <option key={product} value={product} />)}
+            </datalist>
+            {fieldError('product_service')}
+          </div>
+
+          <div>
+            <label htmlFor="pricing-price" className="block text-sm font-medium text-gray-700">Price *</label>
+            <input
+              id="pricing-price"
+              type="text"
+              inputMode="decimal"
+              value={formData.price_point}
+              onChange={(e) => handleInputChange('price_point', e.target.value)}
+              className={inputClass('price_point')}
+            />
+            {fieldError('price_point')}
+          </div>
+
+          <div>
+            <label htmlFor="pricing-currency" className="block text-sm font-medium text-gray-700">Currency</label>
+            <input
+              id="pricing-currency"
+              type="text"
+              maxLength={3}
+              value={formData.currency}
+              onChange={(e) => handleInputChange('currency', e.target.value.toUpperCase())}
+              className={inputClass('currency')}
+            />
+            {fieldError('currency')}
+          </div>
+
+          <div>
+            <label htmlFor="pricing-date" className="block text-sm font-medium text-gray-700">Date collected *</label>
+            <input
+              id="pricing-date"
+              type="date"
+              value={formData.date_collected}
+              onChange={(e) => handleInputChange('date_collected', e.target.value)}
+              className={inputClass('date_collected')}
+            />
+            {fieldError('date_collected')}
+          </div>
+
+          <div className="flex items-end">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.is_promotion}
+                onChange={(e) => handleInputChange('is_promotion', e.target.checked)}
+                className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Promotional price
+            </label>
+          </div>
+
+          {formData.is_promotion && (
+            <div className="sm:col-span-2">
+              <label htmlFor="pricing-promotion-details" className="block text-sm font-medium text-gray-700">Promotion details</label>
+              <input
+                id="pricing-promotion-details"
+                type="text"
+                value={formData.promotion_details}
+                onChange={(e) => handleInputChange('promotion_details', e.target.value)}
+                placeholder="e.g. 20% off"
+                className={inputClass('promotion_details')}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Add price'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowUpTrayIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import {
+  PRICING_IMPORT_FIELDS,
+  PricingColumnMapping,
+  PricingImportField,
+  PricingImportResult,
+  PricingImportRow,
+  buildPricingImportPreview,
+  commitPricingImport,
+  guessColumnMapping,
+  importableRows,
+  missingRequiredFields
+} from '@/services/market-edge-import';
+import { parseDelimited } from '@/utils/csv';
+import { Competitor } from '@/types/market-edge';
+
+interface PricingImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  marketId: string;
+  competitors: Competitor[];
+  defaultCurrency?: string;
+  onImported: (result: PricingImportResult) => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'result';
+
+const STEPS: { id: WizardStep; name: string }[] = [
+  { id: 'upload', name: 'Upload' },
+  { id: 'map', name: 'Map columns' },
+  { id: 'preview', name: 'Preview' },
+  { id: 'result', name: 'Done' }
+];
+
+// jsdom and older browsers lack Blob.text(), so read through FileReader
+const readFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+const rowStatus = (row: PricingImportRow) => {
+  if (row.errors.length) return { tone: 'text-red-600', text: row.errors.join('; ') };
+  if (row.duplicate === 'existing') return { tone: 'text-yellow-700', text: 'Duplicate of an existing price' };
+  if (row.duplicate === 'file') return { tone: 'text-yellow-700', text: 'Duplicate of an earlier row' };
+  return { tone: 'text-green-700', text: 'Ready' };
+};
+
+export const PricingImportWizard: React.FC<PricingImportWizardProps> = ({
+  isOpen,
+  onClose,
+  marketId,
+  competitors,
+  defaultCurrency = 'GBP',
+  onImported
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [pastedText, setPastedText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<PricingColumnMapping>({});
+  const [preview, setPreview] = useState<PricingImportRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [result, setResult] = useState<PricingImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setPastedText('');
+      setFileName(null);
+      setPreview([]);
+      setIncludeDuplicates(false);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const loadText = (text: string) => {
+    const rows = parseDelimited(text);
+    if (rows.length < 2) {
+      setError('The file needs a header row and at least one data row');
+      return;
+    }
+    setError(null);
+    setHeaders(rows[0].map(h => h.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+    setStep('map');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setFileName(file.name);
+      loadText(await readFile(file));
+    } catch {
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const handleMappingChange = (field: PricingImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const existing = await marketEdgeAPI.getMarketPricingData(marketId);
+      setPreview(buildPricingImportPreview({ rows: dataRows, mapping, competitors, existing, defaultCurrency }));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load existing pricing data');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const outcome = await commitPricingImport(
+        importableRows(preview, includeDuplicates),
+        input => marketEdgeAPI.createPricingData(input)
+      );
+      setResult(outcome);
+      setStep('result');
+      if (outcome.created.length) onImported(outcome);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const missingFields = missingRequiredFields(mapping);
+  const toImport = importableRows(preview, includeDuplicates);
+  const invalidCount = preview.filter(row => row.errors.length).length;
+  const duplicateCount = preview.filter(row => row.duplicate).length;
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  const secondaryButton = 'px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500';
+  const primaryButton = 'inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Pricing Data" maxWidth="4xl">
+      <div className="space-y-5">
+        {/* Steps */}
+        <ol className="flex items-center space-x-4 text-sm">
+          {STEPS.map((s, index) => (
+            <li
+              key={s.id}
+              className={`flex items-center ${index === stepIndex ? 'text-blue-600 font-medium' : index < stepIndex ? 'text-gray-700' : 'text-gray-400'}`}
+            >
+              <span className="mr-2">{index + 1}.</span>
+              {s.name}
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <div className="flex items-center p-3 rounded-md bg-red-50 text-sm text-red-700">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400">
+              <ArrowUpTrayIcon className="h-8 w-8 text-gray-400" />
+              <span className="mt-2 text-sm font-medium text-gray-700">Choose a CSV or TSV file</span>
+              <span className="text-xs text-gray-500">{fileName || 'The first row must contain column headers'}</span>
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                onChange={handleFileChange}
+                className="sr-only"
+                aria-label="Pricing file"
+              />
+            </label>
+
+            <div>
+              <label htmlFor="pricing-import-paste" className="block text-sm font-medium text-gray-700">Or paste rows from a spreadsheet</label>
+              <textarea
+                id="pricing-import-paste"
+                rows={5}
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm font-mono focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={onClose} className={secondaryButton}>Cancel</button>
+              <button type="button" onClick={() => loadText(pastedText)} disabled={!pastedText.trim()} className={primaryButton}>
+                Continue
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Match the columns in your file to pricing fields. {dataRows.length.toLocaleString()} data rows found.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {PRICING_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label htmlFor={`pricing-import-${field}`} className="block text-sm font-medium text-gray-700">
+                    {label}{required ? ' *' : ''}
+                  </label>
+                  <select
+                    id={`pricing-import-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Not mapped</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map a column for: {missingFields.map(f => f.label).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Competitors are matched by name or ID. Dates must be ISO formatted (YYYY-MM-DD). Rows without a currency use {defaultCurrency}.
+            </p>
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={() => setStep('upload')} className={secondaryButton}>Back</button>
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={missingFields.length > 0 || isWorking}
+                className={primaryButton}
+              >
+                {isWorking ? 'Checking...' : 'Preview'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span className="text-green-700">{preview.length - invalidCount - duplicateCount} ready</span>
+              <span className="text-red-600">{invalidCount} with errors</span>
+              <span className="text-yellow-700">{duplicateCount} duplicates</span>
+              {duplicateCount > 0 && (
+                <label className="flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Import duplicates anyway
+                </label>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Competitor</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Product/Service</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Price</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Date</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {preview.map(row => {
+                    const status = rowStatus(row);
+                    const cell = (field: PricingImportField) =>
+                      mapping[field] === undefined ? '' : row.values[mapping[field]!] ?? '';
+                    return (
+                      <tr key={row.rowNumber}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2">{cell('competitor')}</td>
+                        <td className="px-3 py-2">{cell('product_service')}</td>
+                        <td className="px-3 py-2 text-right">{cell('price_point')}</td>
+                        <td className="px-3 py-2">{cell('date_collected')}</td>
+                        <td className={`px-3 py-2 ${status.tone}`}>{status.text}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={() => setStep('map')} className={secondaryButton}>Back</button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isWorking}
+                className={primaryButton}
+              >
+                {isWorking ? 'Importing...' : `Import ${toImport.length} ${toImport.length === 1 ? 'row' : 'rows'}`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'result' && result && (
+          <div className="space-y-4">
+            <div className="flex items-center text-sm text-gray-700">
+              <CheckCircleIcon className="h-5 w-5 mr-2 text-green-500" />
+              Imported {result.created.length} of {result.created.length + result.failed.length} rows.
+            </div>
+            {result.failed.length > 0 && (
+              <div className="p-3 rounded-md bg-red-50">
+                <p className="text-sm font-medium text-red-700">
+                  {result.failed.length} {result.failed.length === 1 ? 'row' : 'rows'} could not be saved:
+                </p>
+                <ul className="mt-2 space-y-1 text-sm text-red-700">
+                  {result.failed.map(failure => (
+                    <li key={failure.rowNumber}>Row {failure.rowNumber}: {failure.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button type="button" onClick={onClose} className={primaryButton}>Done</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
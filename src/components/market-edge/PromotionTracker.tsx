@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { PromotionEntry, PromotionSummary } from '@/types/market-edge';
+import { formatPrice } from '@/services/market-edge-currency';
+
+interface PromotionTrackerProps {
+  summary: PromotionSummary | null;
+  isLoading?: boolean;
+  // Set when the promotions could not be loaded; the rest of the page still renders
+  error?: string | null;
+  onSelectCompetitor?: (competitorId: string) => void;
+  className?: string;
+}
+
+export interface CompetitorPromotions {
+  competitor_id: string;
+  competitor_name: string;
+  active: number;
+  promotions: PromotionEntry[];
+}
+
+/**
+ * Promotions per competitor, competitors with live promotions first and
+ * then by name. Each competitor keeps the summary's order (active first,
+ * most recently seen next).
+ */
+export const groupPromotionsByCompetitor = (promotions: PromotionEntry[]): CompetitorPromotions[] => {
+  const groups = promotions.reduce((acc, promo) => {
+    const group = acc[promo.competitor_id] = acc[promo.competitor_id] || {
+      competitor_id: promo.competitor_id,
+      competitor_name: promo.competitor_name,
+      active: 0,
+      promotions: []
+    };
+    group.promotions.push(promo);
+    if (promo.is_active) group.active += 1;
+    return acc;
+  }, {} as Record<string, CompetitorPromotions>);
+
+  return Object.values(groups).sort((a, b) =>
+    Number(b.active > 0) - Number(a.active > 0) || a.competitor_name.localeCompare(b.competitor_name)
+  );
+};
+
+const discountClass = (discount: number) => {
+  if (discount >= 20) return 'bg-red-100 text-red-800';
+  if (discount >= 10) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-700';
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+export const PromotionTracker: React.FC<PromotionTrackerProps> = ({
+  summary,
+  isLoading = false,
+  error = null,
+  onSelectCompetitor,
+  className = ''
+}) => {
+  const [activeOnly, setActiveOnly] = useState(false);
+  const currency = summary?.currency;
+
+  const groups = useMemo(() => groupPromotionsByCompetitor(
+    (summary?.promotions || []).filter(p => !activeOnly || p.is_active)
+  ), [summary, activeOnly]);
+
+  const frequency = useMemo(() => Object.entries(summary?.frequency || {}).map(([week, f]) => ({
+    week,
+    share: f.promotion_share,
+    promotional: f.promotional_points,
+    total: f.total_points
+  })), [summary]);
+
+  const activeCount = summary?.promotions.filter(p => p.is_active).length || 0;
+
+  const FrequencyTooltip = ({ active, payload }: any) => {
+    if (!active || !payload?.length) return null;
+    const point = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-medium text-gray-900 mb-1">{point.week}</p>
+        <p className="text-sm text-gray-600">{point.share}% of prices on promotion</p>
+        <p className="text-sm text-gray-600">{point.promotional} of {point.total} data points</p>
+      </div>
+    );
+  };
+
+  if (isLoading && !summary) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="animate-pulse h-12 bg-gray-100 rounded" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+        <p role="alert" className="text-center text-sm text-red-600">Promotions could not be loaded: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-8 ${className}`}>
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-6">Promotion Frequency</h3>
+        {frequency.length === 0 ? (
+          <div className="flex items-center justify-center h-48 text-sm text-gray-500">
+            No pricing data available
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={frequency}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="week" tick={{ fontSize: 12 }} stroke="#6b7280" />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickFormatter={(value: number) => `${value}%`}
+                stroke="#6b7280"
+              />
+              <Tooltip content={<FrequencyTooltip />} cursor={{ fill: '#f9fafb' }} />
+              <Bar dataKey="share" name="Promotion share" fill="#7C3AED" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Promotions</h3>
+            <p className="text-sm text-gray-500">
+              {activeCount} active of {summary?.promotions.length || 0} in this period
+            </p>
+          </div>
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={activeOnly}
+              onChange={(e) => setActiveOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Active only
+          </label>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">
+            {summary?.promotions.length ? 'No active promotions' : 'No promotions found in this period'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {groups.map(group => (
+              <li key={group.competitor_id} data-testid="competitor-promotions" className="px-6 py-4">
+                <div className="flex items-center justify-between mb-3">
+                  {onSelectCompetitor ? (
+                    <button
+                      type="button"
+                      onClick={() => onSelectCompetitor(group.competitor_id)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {group.competitor_name}
+                    </button>
+                  ) : (
+                    <span className="text-sm font-medium text-gray-900">{group.competitor_name}</span>
+                  )}
+                  {group.active > 0 && (
+                    <span className="text-xs text-green-700">{group.active} active</span>
+                  )}
+                </div>
+                <ul className="space-y-2">
+                  {group.promotions.map(promo => (
+                    <li key={promo.id} className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm text-gray-900">
+                          {promo.product_service}
+                          {promo.promotion_details && (
+                            <span className="text-gray-500"> · {promo.promotion_details}</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          {formatPrice(promo.lowest_price, currency)}
+                          {promo.regular_price !== undefined && (
+                            <> vs {formatPrice(promo.regular_price, currency)} regular</>
+                          )}
+                          {' · '}
+                          {formatDate(promo.first_seen)} – {formatDate(promo.last_seen)}
+                        </p>
+                      </div>
+                      <div className="flex flex-shrink-0 items-center gap-2">
+                        {promo.discount_percent !== undefined && promo.discount_percent > 0 && (
+                          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${discountClass(promo.discount_percent)}`}>
+                            -{promo.discount_percent.toFixed(0)}%
+                          </span>
+                        )}
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${promo.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                          {promo.is_active ? 'Active' : 'Ended'}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '@/components/ui/Modal';
+import {
+  EMPTY_WATCHLIST,
+  MAX_WATCHLIST_NAME_LENGTH,
+  MarketCompetitors,
+  validateWatchlist
+} from '@/services/market-edge-watchlists';
+import { Watchlist, WatchlistInput } from '@/types/market-edge';
+
+interface WatchlistFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  watchlist?: Watchlist | null;
+  groups: MarketCompetitors[];
+  onSubmit: (values: WatchlistInput) => void | Promise<void>;
+}
+
+const initialState = (watchlist?: Watchlist | null): WatchlistInput => watchlist
+  ? {
+      name: watchlist.name,
+      description: watchlist.description || '',
+      competitor_ids: watchlist.competitor_ids,
+      visibility: watchlist.visibility
+    }
+  : EMPTY_WATCHLIST;
+
+export const WatchlistFormModal: React.FC<WatchlistFormModalProps> = ({
+  isOpen,
+  onClose,
+  watchlist,
+  groups,
+  onSubmit
+}) => {
+  const [formData, setFormData] = useState<WatchlistInput>(() => initialState(watchlist));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = !!watchlist;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(watchlist));
+      setError(null);
+    }
+  }, [isOpen, watchlist]);
+
+  const handleChange = <K extends keyof WatchlistInput>(field: K, value: WatchlistInput[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const toggleCompetitor = (competitorId: string) => {
+    const ids = formData.competitor_ids;
+    handleChange(
+      'competitor_ids',
+      ids.indexOf(competitorId) === -1 ? [...ids, competitorId] : ids.filter(id => id !== competitorId)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = {
+      ...formData,
+      name: formData.name.trim(),
+      description: (formData.description || '').trim()
+    };
+    const problem = validateWatchlist(values);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSubmit(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+  const checkboxClass = 'h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit ${watchlist!.name}` : 'New Watchlist'}
+      maxWidth="2xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div>
+          <label htmlFor="watchlist-name" className="block text-sm font-medium text-gray-700">Name *</label>
+          <input
+            id="watchlist-name"
+            type="text"
+            value={formData.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            maxLength={MAX_WATCHLIST_NAME_LENGTH}
+            placeholder="e.g. National chains"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="watchlist-description" className="block text-sm font-medium text-gray-700">Description</label>
+          <textarea
+            id="watchlist-description"
+            rows={2}
+            value={formData.description}
+            onChange={(e) => handleChange('description', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700">
+            Competitors * <span className="font-normal text-gray-500">({formData.competitor_ids.length} selected)</span>
+          </legend>
+          {groups.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No competitors are being tracked yet</p>
+          ) : (
+            <div className="mt-2 max-h-72 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {groups.map(({ market, competitors }) => (
+                <div key={market.id} className="p-3">
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+                    {market.name}{!market.is_active && ' (archived)'}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                    {competitors.map(competitor => (
+                      <label key={competitor.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.competitor_ids.indexOf(competitor.id) !== -1}
+                          onChange={() => toggleCompetitor(competitor.id)}
+                          aria-label={`${competitor.name} in ${market.name}`}
+                          className={checkboxClass}
+                        />
+                        {competitor.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </fieldset>
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.visibility === 'organisation'}
+            onChange={(e) => handleChange('visibility', e.target.checked ? 'organisation' : 'private')}
+            className={checkboxClass}
+          />
+          Share with my organisation
+        </label>
+        <p className="-mt-4 ml-6 text-xs text-gray-500">
+          Colleagues can view a shared watchlist. Only you can change or delete it.
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Create watchlist'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
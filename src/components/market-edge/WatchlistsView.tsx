@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  BellAlertIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  StarIcon,
+  TrashIcon,
+  UsersIcon
+} from '@heroicons/react/24/outline';
+import { marketEdgeAPI } from '@/services/market-edge-api';
+import { formatPrice } from '@/services/market-edge-currency';
+import {
+  MarketCompetitors,
+  formatPriceChange,
+  groupCompetitorsByMarket,
+  sortWatchlistMembers
+} from '@/services/market-edge-watchlists';
+import { Competitor, Watchlist, WatchlistInput, WatchlistSummary } from '@/types/market-edge';
+import { WatchlistFormModal } from './WatchlistFormModal';
+
+interface WatchlistsViewProps {
+  initialWatchlistId?: string | null;
+  onSelect?: (watchlistId: string | null) => void;
+  className?: string;
+}
+
+const changeClass = (percent: number | null) => {
+  if (percent === null || percent === 0) return 'text-gray-500';
+  return percent > 0 ? 'text-red-600' : 'text-green-600';
+};
+
+const describeOwner = (watchlist: Watchlist) => {
+  if (watchlist.visibility === 'private') return 'Only you';
+  if (watchlist.can_edit) return 'Shared with your organisation';
+  return `Shared by ${watchlist.created_by_name || 'a colleague'}`;
+};
+
+export const WatchlistsView: React.FC<WatchlistsViewProps> = ({
+  initialWatchlistId,
+  onSelect,
+  className = ''
+}) => {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [groups, setGroups] = useState<MarketCompetitors[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialWatchlistId || null);
+  const [summary, setSummary] = useState<WatchlistSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSummaryLoading, setIsSummaryLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWatchlist, setEditingWatchlist] = useState<Watchlist | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([marketEdgeAPI.getWatchlists(), marketEdgeAPI.getMarkets()])
+      .then(async ([watchlistList, markets]) => {
+        const competitors = await Promise.all(markets.map(m => marketEdgeAPI.getCompetitors(m.id)));
+        if (cancelled) return;
+        setWatchlists(watchlistList);
+        setGroups(groupCompetitorsByMarket(markets, ([] as Competitor[]).concat(...competitors)));
+        setSelectedId(current =>
+          current && watchlistList.some(w => w.id === current)
+            ? current
+            : watchlistList.length > 0 ? watchlistList[0].id : null
+        );
+      })
+      .catch(err => {
+        console.error('Failed to load watchlists:', err);
+        if (!cancelled) toast.error('Failed to load watchlists');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSummaryLoading(true);
+    setIsConfirmingDelete(false);
+    marketEdgeAPI.getWatchlistSummary(selectedId)
+      .then(result => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch(err => {
+        console.error('Failed to load watchlist summary:', err);
+        if (!cancelled) toast.error('Failed to load the watchlist');
+      })
+      .finally(() => {
+        if (!cancelled) setIsSummaryLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, watchlists]);
+
+  const select = (watchlistId: string | null) => {
+    setSelectedId(watchlistId);
+    onSelect?.(watchlistId);
+  };
+
+  const handleSave = async (values: WatchlistInput) => {
+    try {
+      if (editingWatchlist) {
+        const saved = await marketEdgeAPI.updateWatchlist(editingWatchlist.id, values);
+        setWatchlists(prev => prev.map(w => (w.id === saved.id ? saved : w)));
+        toast.success('Watchlist updated');
+      } else {
+        const saved = await marketEdgeAPI.createWatchlist(values);
+        setWatchlists(prev => [...prev, saved]);
+        select(saved.id);
+        toast.success('Watchlist created');
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save watchlist');
+    }
+  };
+
+  const handleDelete = async (watchlist: Watchlist) => {
+    setIsConfirmingDelete(false);
+    try {
+      await marketEdgeAPI.deleteWatchlist(watchlist.id);
+      const remaining = watchlists.filter(w => w.id !== watchlist.id);
+      setWatchlists(remaining);
+      select(remaining.length > 0 ? remaining[0].id : null);
+      toast.success('Watchlist deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete watchlist');
+    }
+  };
+
+  const openForm = (watchlist: Watchlist | null) => {
+    setEditingWatchlist(watchlist);
+    setIsFormOpen(true);
+  };
+
+  const selected = watchlists.find(w => w.id === selectedId) || null;
+  const members = summary && summary.watchlist.id === selectedId ? sortWatchlistMembers(summary.members) : [];
+
+  if (isLoading) {
+    return (
+      <div className={`bg-white shadow rounded-lg p-6 animate-pulse space-y-4 ${className}`}>
+        <div className="h-6 bg-gray-200 rounded w-48"></div>
+        <div className="h-4 bg-gray-200 rounded w-full"></div>
+        <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`grid grid-cols-1 lg:grid-cols-4 gap-6 ${className}`}>
+      {/* Watchlist list */}
+      <div className="bg-white shadow rounded-lg lg:col-span-1">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">Watchlists</h2>
+          <button
+            type="button"
+            onClick={() => openForm(null)}
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            New
+          </button>
+        </div>
+        {watchlists.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">
+            No watchlists yet. Group key competitors from any market to follow them in one place.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {watchlists.map(watchlist => (
+              <li key={watchlist.id}>
+                <button
+                  type="button"
+                  onClick={() => select(watchlist.id)}
+                  aria-current={watchlist.id === selectedId ? 'true' : undefined}
+                  data-testid="watchlist"
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                    watchlist.id === selectedId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900 truncate">{watchlist.name}</p>
+                  <p className="text-xs text-gray-500 flex items-center mt-0.5">
+                    {watchlist.visibility === 'organisation' && <UsersIcon className="h-3 w-3 mr-1" />}
+                    {watchlist.competitor_ids.length} competitor{watchlist.competitor_ids.length === 1 ? '' : 's'}
+                    {' · '}
+                    {describeOwner(watchlist)}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Selected watchlist */}
+      <div className="bg-white shadow rounded-lg lg:col-span-3">
+        {!selected ? (
+          <div className="text-center py-12">
+            <StarIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">No Watchlist Selected</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create a watchlist to see prices and alerts for competitors across markets.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="text-lg font-medium text-gray-900">{selected.name}</h2>
+                {selected.description && <p className="text-sm text-gray-500 mt-1">{selected.description}</p>}
+                <p className="text-xs text-gray-500 mt-1">{describeOwner(selected)}</p>
+              </div>
+              {selected.can_edit && (
+                <div className="flex flex-shrink-0 items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => openForm(selected)}
+                    className="text-gray-400 hover:text-blue-600"
+                  >
+                    <span className="sr-only">Edit {selected.name}</span>
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  {isConfirmingDelete ? (
+                    <span className="flex items-center gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(selected)}
+                        className="font-medium text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setIsConfirmingDelete(false)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Keep
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setIsConfirmingDelete(true)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <span className="sr-only">Delete {selected.name}</span>
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="p-6 overflow-x-auto">
+              {isSummaryLoading && members.length === 0 ? (
+                <p className="text-sm text-gray-500">Loading watchlist...</p>
+              ) : members.length === 0 ? (
+                <p className="text-sm text-gray-500">None of these competitors are tracked any more.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200" data-testid="watchlist-members">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Competitor</th>
+                      <th className="py-2 pr-4">Market</th>
+                      <th className="py-2 pr-4 text-right">Latest avg price</th>
+                      <th className="py-2 pr-4 text-right">Change vs last week</th>
+                      <th className="py-2 text-right">Unread alerts</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {members.map(member => (
+                      <tr key={member.competitor.id} data-testid="watchlist-member" className="text-sm">
+                        <td className="py-2 pr-4">
+                          <Link
+                            href={`/market-edge?market=${member.market.id}&competitor=${member.competitor.id}`}
+                            className="font-medium text-gray-900 hover:text-blue-600"
+                          >
+                            {member.competitor.name}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {member.market.name}
+                          {!member.market.is_active && <span className="ml-1 text-xs text-gray-400">(archived)</span>}
+                        </td>
+                        <td
+                          className="py-2 pr-4 text-right text-gray-900"
+                          title={member.latest_collected_at
+                            ? `Collected ${new Date(member.latest_collected_at).toLocaleDateString()}`
+                            : undefined}
+                        >
+                          {member.latest_average_price === null
+                            ? '—'
+                            : formatPrice(member.latest_average_price, member.currency)}
+                        </td>
+                        <td className={`py-2 pr-4 text-right ${changeClass(member.price_change_percent)}`}>
+                          <span className="inline-flex items-center">
+                            {member.price_change_percent !== null && member.price_change_percent > 0 && (
+                              <ArrowUpIcon className="h-3 w-3 mr-1" />
+                            )}
+                            {member.price_change_percent !== null && member.price_change_percent < 0 && (
+                              <ArrowDownIcon className="h-3 w-3 mr-1" />
+                            )}
+                            {formatPriceChange(member.price_change_percent)}
+                          </span>
+                        </td>
+                        <td className="py-2 text-right">
+                          {member.unread_alerts > 0 ? (
+                            <Link
+                              href={`/market-edge?market=${member.market.id}&tab=alerts`}
+                              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200"
+                            >
+                              <BellAlertIcon className="h-3 w-3 mr-1" />
+                              {member.unread_alerts}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-400">0</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {!selected.can_edit && (
+                <p className="text-xs text-gray-500 mt-4">
+                  Only {selected.created_by_name || 'the creator'} can change this watchlist.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <WatchlistFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        watchlist={editingWatchlist}
+        groups={groups}
+        onSubmit={handleSave}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { KeyIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { ALERT_SEVERITIES } from '@/services/market-edge-alert-rules';
+import {
+  EMPTY_WEBHOOK_FILTERS,
+  WEBHOOK_ALERT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  validateWebhook,
+  validateWebhookSecret
+} from '@/services/market-edge-webhooks';
+import { Market, Webhook, WebhookFilters, WebhookInput, WebhookUpdate } from '@/types/market-edge';
+
+interface WebhookFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  webhook?: Webhook | null;
+  markets: Market[];
+  // New webhooks include their secret; edits leave it out
+  onSubmit: (values: WebhookInput | WebhookUpdate) => void | Promise<void>;
+  // Resolves to the new secret, or null when rotating failed
+  onRotateSecret?: (webhook: Webhook) => Promise<string | null>;
+}
+
+const initialState = (webhook?: Webhook | null): WebhookInput => ({
+  name: webhook?.name || '',
+  url: webhook?.url || '',
+  // Only new webhooks have a secret to edit; saved ones are rotated instead
+  secret: webhook ? '' : generateWebhookSecret(),
+  filters: webhook?.filters || EMPTY_WEBHOOK_FILTERS,
+  is_active: webhook ? webhook.is_active : true
+});
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.indexOf(value) === -1 ? [...list, value] : list.filter(v => v !== value);
+
+export const WebhookFormModal: React.FC<WebhookFormModalProps> = ({
+  isOpen,
+  onClose,
+  webhook,
+  markets,
+  onSubmit,
+  onRotateSecret
+}) => {
+  const [formData, setFormData] = useState<WebhookInput>(() => initialState(webhook));
+  const [showSecret, setShowSecret] = useState(false);
+  const [isConfirmingRotate, setIsConfirmingRotate] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [rotatedSecret, setRotatedSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isEditing = !!webhook;
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialState(webhook));
+      setShowSecret(!webhook);
+      setIsConfirmingRotate(false);
+      setRotatedSecret(null);
+      setError(null);
+    }
+  }, [isOpen, webhook]);
+
+  const handleChange = <K extends keyof WebhookInput>(field: K, value: WebhookInput[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const toggleFilter = (field: keyof WebhookFilters, value: string) => {
+    handleChange('filters', { ...formData.filters, [field]: toggle<string>(formData.filters[field], value) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { secret, ...settings } = { ...formData, name: formData.name.trim(), url: formData.url.trim() };
+    const problem = validateWebhook(settings) || (isEditing ? null : validateWebhookSecret(secret));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSubmit(isEditing ? settings : { ...settings, secret });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!webhook || !onRotateSecret) return;
+    setIsConfirmingRotate(false);
+    try {
+      setIsRotating(true);
+      const secret = await onRotateSecret(webhook);
+      if (secret) setRotatedSecret(secret);
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500';
+  const checkboxClass = 'h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? `Edit ${webhook!.name}` : 'New Webhook'}
+      maxWidth="2xl"
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="webhook-name" className="block text-sm font-medium text-gray-700">Name *</label>
+            <input
+              id="webhook-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              placeholder="e.g. Ops Slack relay"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="webhook-url" className="block text-sm font-medium text-gray-700">Payload URL *</label>
+            <input
+              id="webhook-url"
+              type="url"
+              value={formData.url}
+              onChange={(e) => handleChange('url', e.target.value)}
+              placeholder="https://example.com/hooks/market-edge"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="sm:col-span-2">
+            <label htmlFor="webhook-secret" className="block text-sm font-medium text-gray-700">Signing secret *</label>
+            {isEditing ? (
+              <>
+                <div className="mt-1 flex items-center gap-2">
+                  <input
+                    id="webhook-secret"
+                    type="text"
+                    value={rotatedSecret || `••••${webhook!.secret_last4}`}
+                    readOnly
+                    className={`${inputClass} mt-0 font-mono`}
+                  />
+                  {onRotateSecret && !rotatedSecret && (isConfirmingRotate ? (
+                    <span className="flex flex-shrink-0 items-center gap-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={handleRotate}
+                        className="font-medium text-red-600 hover:text-red-800"
+                      >
+                        Rotate
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setIsConfirmingRotate(false)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Keep
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setIsConfirmingRotate(true)}
+                      disabled={isRotating}
+                      className="inline-flex flex-shrink-0 items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <KeyIcon className="h-4 w-4 mr-1" />
+                      {isRotating ? 'Rotating...' : 'Rotate secret'}
+                    </button>
+                  ))}
+                </div>
+                {isConfirmingRotate && (
+                  <p className="text-xs text-red-600 mt-1">The current secret stops working as soon as it is rotated.</p>
+                )}
+                {rotatedSecret && (
+                  <p className="text-xs text-yellow-700 mt-1">
+                    Copy the new secret into your receiver now. It will not be shown again.
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="mt-1 flex gap-2">
+                <input
+                  id="webhook-secret"
+                  type={showSecret ? 'text' : 'password'}
+                  value={formData.secret}
+                  onChange={(e) => handleChange('secret', e.target.value)}
+                  autoComplete="off"
+                  className={`${inputClass} mt-0 font-mono`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowSecret(prev => !prev)}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  {showSecret ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    handleChange('secret', generateWebhookSecret());
+                    setShowSecret(true);
+                  }}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <KeyIcon className="h-4 w-4 mr-1" />
+                  Generate
+                </button>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Each request carries an HMAC-SHA256 signature of the body in the {WEBHOOK_SIGNATURE_HEADER} header.
+            </p>
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700">Send alerts matching</legend>
+          <p className="text-xs text-gray-500">Leave a group empty to include everything in it.</p>
+          <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Severity</p>
+              {ALERT_SEVERITIES.map(severity => (
+                <label key={severity} className="flex items-center text-sm text-gray-700 capitalize">
+                  <input
+                    type="checkbox"
+                    checked={formData.filters.severities.indexOf(severity) !== -1}
+                    onChange={() => toggleFilter('severities', severity)}
+                    className={checkboxClass}
+                  />
+                  {severity}
+                </label>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Alert type</p>
+              {Object.keys(WEBHOOK_ALERT_TYPES).map(type => (
+                <label key={type} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.filters.alert_types.indexOf(type) !== -1}
+                    onChange={() => toggleFilter('alert_types', type)}
+                    className={checkboxClass}
+                  />
+                  {WEBHOOK_ALERT_TYPES[type]}
+                </label>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Market</p>
+              {markets.length === 0 ? (
+                <p className="text-sm text-gray-500">No markets yet</p>
+              ) : (
+                <div className="max-h-40 overflow-y-auto">
+                  {markets.map(market => (
+                    <label key={market.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.filters.market_ids.indexOf(market.id) !== -1}
+                        onChange={() => toggleFilter('market_ids', market.id)}
+                        className={checkboxClass}
+                      />
+                      {market.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </fieldset>
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.is_active}
+            onChange={(e) => handleChange('is_active', e.target.checked)}
+            className={checkboxClass}
+          />
+          Active
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : isEditing ? 'Save changes' : 'Create webhook'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,104 @@
+/**
+ * AlertRuleBuilderModal tests
+ * Condition builder payloads and the 90 day backtest preview
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { AlertRuleBuilderModal } from '../AlertRuleBuilderModal'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Competitor } from '@/types/market-edge'
+
+const competitors = [
+  { id: 'comp-1', name: 'Starlight' },
+  { id: 'comp-2', name: 'Lumiere' }
+] as Competitor[]
+
+const renderBuilder = () => {
+  const onSubmit = jest.fn()
+  render(
+    <AlertRuleBuilderModal
+      isOpen
+      onClose={jest.fn()}
+      marketId="mkt-1"
+      competitors={competitors}
+      products={['Adult Ticket', 'Popcorn']}
+      onSubmit={onSubmit}
+    />
+  )
+  return { onSubmit }
+}
+
+const choose = (label: string, value: string) =>
+  fireEvent.change(screen.getByLabelText(label), { target: { value } })
+
+describe('AlertRuleBuilderModal', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('builds a scoped price drop rule', () => {
+    const { onSubmit } = renderBuilder()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Create rule' }))
+    expect(screen.getByText('Name is required')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+
+    choose('Name *', ' Starlight undercuts ')
+    choose('Competitor', 'comp-1')
+    choose('Product/Service', 'Adult Ticket')
+    choose('Threshold (%)', '-8')
+    choose('Severity', 'high')
+    fireEvent.click(screen.getByRole('button', { name: 'Create rule' }))
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Starlight undercuts',
+      competitor_id: 'comp-1',
+      product_service: 'Adult Ticket',
+      metric: 'price_change_percent',
+      operator: 'lt',
+      threshold: -8,
+      window_days: 7,
+      severity: 'high',
+      is_active: true
+    })
+  })
+
+  it('hides the threshold for event metrics', () => {
+    renderBuilder()
+    choose('Metric', 'new_competitor')
+    expect(screen.queryByLabelText('Operator')).not.toBeInTheDocument()
+    expect(screen.queryByLabelText(/Threshold/)).not.toBeInTheDocument()
+  })
+
+  it('previews the alerts a rule would have raised', async () => {
+    const backtestSpy = jest.spyOn(marketEdgeAPI, 'backtestAlertRule').mockResolvedValue({
+      period: { start_date: '2024-12-14T00:00:00.000Z', end_date: '2025-03-14T00:00:00.000Z' },
+      matches: [{
+        triggered_at: '2025-03-02T00:00:00.000Z',
+        competitor_id: 'comp-1',
+        competitor_name: 'Starlight',
+        value: -7.1,
+        severity: 'medium',
+        title: 'Any cut',
+        message: 'Starlight cut average prices by 7.1% over 7 days'
+      }]
+    })
+    renderBuilder()
+
+    choose('Name *', 'Any cut')
+    fireEvent.click(screen.getByRole('button', { name: 'Test against last 90 days' }))
+
+    expect(await screen.findByText('Would have fired 1 time')).toBeInTheDocument()
+    expect(screen.getByText('Starlight cut average prices by 7.1% over 7 days')).toBeInTheDocument()
+    expect(backtestSpy).toHaveBeenCalledWith('mkt-1', expect.objectContaining({ name: 'Any cut', threshold: -5 }))
+
+    // Editing the rule clears a preview that no longer applies
+    choose('Window (days)', '14')
+    await waitFor(() => expect(screen.queryByTestId('rule-backtest')).not.toBeInTheDocument())
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * AlertsPanel tests
+ * Triage filters, multi-select bulk actions and snoozing
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { AlertsPanel, isAlertUnread, matchesAlertState } from '../AlertsPanel'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { MarketAlert } from '@/types/market-edge'
+
+const alert = (overrides: Partial<MarketAlert>): MarketAlert => ({
+  id: 'alert-1',
+  market_id: 'mkt-1',
+  organisation_id: 'org-1',
+  alert_type: 'price_change',
+  severity: 'high',
+  title: 'Starlight cut prices',
+  message: 'Adult Ticket down 8%',
+  is_read: false,
+  created_at: new Date().toISOString(),
+  ...overrides
+})
+
+const future = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString()
+
+const alerts = [
+  alert({}),
+  alert({ id: 'alert-2', alert_type: 'promotion', severity: 'low', title: 'Lumiere promotion' }),
+  alert({ id: 'alert-3', title: 'Old move', is_read: true, resolved_at: '2025-03-01T00:00:00Z' }),
+  alert({ id: 'alert-4', title: 'Snoozed anomaly', alert_type: 'anomaly', snoozed_until: future })
+]
+
+describe('alert state helpers', () => {
+  it('leaves snoozed and resolved alerts out of the unread count', () => {
+    expect(alerts.filter(a => isAlertUnread(a)).map(a => a.id)).toEqual(['alert-1', 'alert-2'])
+    expect(alerts.filter(a => matchesAlertState(a, 'snoozed')).map(a => a.id)).toEqual(['alert-4'])
+    expect(alerts.filter(a => matchesAlertState(a, 'resolved')).map(a => a.id)).toEqual(['alert-3'])
+  })
+})
+
+describe('AlertsPanel', () => {
+  let bulkSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    jest.useRealTimers()
+    bulkSpy = jest.spyOn(marketEdgeAPI, 'bulkUpdateAlerts').mockImplementation(async (ids, action, options) =>
+      alerts
+        .filter(a => ids.includes(a.id))
+        .map(a => ({
+          ...a,
+          is_read: a.is_read || action !== 'snooze',
+          resolved_at: action === 'resolve' ? '2025-03-14T00:00:00Z' : a.resolved_at,
+          snoozed_until: options?.snoozed_until ?? a.snoozed_until
+        }))
+    )
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('shows open alerts by default and filters by type and state', () => {
+    render(<AlertsPanel alerts={alerts} />)
+
+    expect(screen.getByText('2 new')).toBeInTheDocument()
+    expect(screen.getByText('Starlight cut prices')).toBeInTheDocument()
+    expect(screen.queryByText('Old move')).not.toBeInTheDocument()
+    expect(screen.queryByText('Snoozed anomaly')).not.toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Alert type'), { target: { value: 'promotion' } })
+    expect(screen.queryByText('Starlight cut prices')).not.toBeInTheDocument()
+    expect(screen.getByText('Lumiere promotion')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Alert type'), { target: { value: '' } })
+    fireEvent.change(screen.getByLabelText('State'), { target: { value: 'resolved' } })
+    expect(screen.getByText('Old move')).toBeInTheDocument()
+    expect(screen.getByText('Resolved', { selector: 'span' })).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Severity'), { target: { value: 'critical' } })
+    expect(screen.getByText('No alerts match these filters')).toBeInTheDocument()
+  })
+
+  it('resolves the selected alerts in one request', async () => {
+    const onAlertsChange = jest.fn()
+    render(<AlertsPanel alerts={alerts} onAlertsChange={onAlertsChange} />)
+
+    fireEvent.click(screen.getByLabelText('Select all'))
+    expect(screen.getByText('2 selected')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Resolve' }))
+
+    await waitFor(() => expect(onAlertsChange).toHaveBeenCalled())
+    expect(bulkSpy).toHaveBeenCalledWith(['alert-1', 'alert-2'], 'resolve', {})
+    expect(onAlertsChange.mock.calls[0][0].every((a: MarketAlert) => a.resolved_at)).toBe(true)
+  })
+
+  it('snoozes a selection until the chosen date', async () => {
+    render(<AlertsPanel alerts={alerts} onAlertsChange={jest.fn()} />)
+
+    fireEvent.click(screen.getByLabelText('Select Lumiere promotion'))
+    fireEvent.change(screen.getByLabelText('Snooze until date'), { target: { value: '2099-01-31' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Snooze until' }))
+
+    await waitFor(() => expect(bulkSpy).toHaveBeenCalled())
+    const [ids, action, options] = bulkSpy.mock.calls[0]
+    expect(ids).toEqual(['alert-2'])
+    expect(action).toBe('snooze')
+    expect(options.snoozed_until).toBe(new Date(2099, 0, 31).toISOString())
+  })
+
+  it('defaults the snooze date to tomorrow in local time', () => {
+    render(<AlertsPanel alerts={alerts} />)
+
+    fireEvent.click(screen.getByLabelText('Select Lumiere promotion'))
+    const tomorrow = new Date()
+    tomorrow.setDate(tomorrow.getDate() + 1)
+    const [year, month, day] = (screen.getByLabelText('Snooze until date') as HTMLInputElement).value.split('-').map(Number)
+    expect([year, month - 1, day]).toEqual([tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate()])
+  })
+
+  it('shows a load error in place of the alerts', () => {
+    const onRefresh = jest.fn()
+    render(<AlertsPanel alerts={[]} error="HTTP 503" onRefresh={onRefresh} />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Alerts could not be loaded: HTTP 503')
+    expect(screen.queryByText('All clear!')).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }))
+    expect(onRefresh).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * AnomalyExplorer tests
+ * Filtering, sorting, history sparklines and per-market review state
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import { AnomalyExplorer, priceHistoryAround } from '../AnomalyExplorer'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Competitor, PriceAnomaly, PricingData } from '@/types/market-edge'
+
+const anomaly = (overrides: Partial<PriceAnomaly>): PriceAnomaly => ({
+  id: 'price-1',
+  competitor_name: 'Starlight',
+  product_service: 'Adult Ticket',
+  price: 30,
+  z_score: 3.4,
+  date_collected: '2025-03-10T12:00:00Z',
+  deviation_from_mean: 15,
+  severity: 'high',
+  ...overrides
+})
+
+const pricingRow = (id: string, date: string, price: number, competitor_id = 'comp-1'): PricingData => ({
+  id,
+  competitor_id,
+  market_id: 'mkt-1',
+  product_service: 'Adult Ticket',
+  price_point: price,
+  currency: 'GBP',
+  date_collected: date,
+  is_promotion: false,
+  created_at: date
+})
+
+const anomalies = [
+  anomaly({}),
+  anomaly({ id: 'price-2', competitor_name: 'Lumiere', z_score: -2.2, price: 4, deviation_from_mean: -11, severity: 'medium' }),
+  anomaly({ id: 'price-3', product_service: 'Popcorn', z_score: 2.6, severity: 'medium' })
+]
+
+const competitors = [
+  { id: 'comp-1', name: 'Starlight' },
+  { id: 'comp-2', name: 'Lumiere' }
+] as Competitor[]
+
+const pricing = [
+  pricingRow('old', '2025-01-01T00:00:00Z', 12),
+  pricingRow('before', '2025-03-03T00:00:00Z', 14),
+  pricingRow('price-1', '2025-03-10T12:00:00Z', 30),
+  pricingRow('after', '2025-03-12T00:00:00Z', 15),
+  pricingRow('other', '2025-03-11T00:00:00Z', 9, 'comp-2')
+]
+
+const rowNames = () =>
+  screen.getAllByRole('row').slice(1).map(row => within(row).getAllByRole('cell')[1].textContent)
+
+describe('priceHistoryAround', () => {
+  it('keeps the same competitor and product within the window, oldest first', () => {
+    expect(priceHistoryAround(anomalies[0], pricing, 'comp-1').map(p => p.id)).toEqual(['before', 'price-1', 'after'])
+  })
+})
+
+describe('AnomalyExplorer', () => {
+  let reviewSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    jest.useRealTimers()
+    jest.spyOn(marketEdgeAPI, 'getAnomalyReviews').mockResolvedValue([
+      { anomaly_id: 'price-3', market_id: 'mkt-1', status: 'false_positive', reviewed_at: '2025-03-12T00:00:00Z' }
+    ])
+    jest.spyOn(marketEdgeAPI, 'getMarketPricingData').mockResolvedValue(pricing)
+    reviewSpy = jest.spyOn(marketEdgeAPI, 'reviewAnomaly').mockImplementation(async (marketId, anomalyId, status) => ({
+      anomaly_id: anomalyId, market_id: marketId, status, reviewed_at: '2025-03-14T00:00:00Z'
+    }))
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const renderExplorer = () =>
+    render(<AnomalyExplorer marketId="mkt-1" anomalies={anomalies} competitors={competitors} currency="GBP" />)
+
+  it('hides reviewed anomalies and sorts by absolute z-score', async () => {
+    renderExplorer()
+
+    expect(await screen.findByText('2 of 3 awaiting review')).toBeInTheDocument()
+    expect(rowNames()).toEqual(['Starlight', 'Lumiere'])
+    expect(await screen.findByTestId('sparkline-anomaly')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Z-score'))
+    expect(rowNames()).toEqual(['Lumiere', 'Starlight'])
+  })
+
+  it('filters by severity and review status', async () => {
+    renderExplorer()
+    await screen.findByText('2 of 3 awaiting review')
+
+    fireEvent.change(screen.getByLabelText('Severity'), { target: { value: 'medium' } })
+    expect(rowNames()).toEqual(['Lumiere'])
+
+    fireEvent.change(screen.getByLabelText('Review status'), { target: { value: 'false_positive' } })
+    expect(screen.getByRole('cell', { name: 'Popcorn' })).toBeInTheDocument()
+    expect(screen.getByText('False positive', { selector: 'span' })).toBeInTheDocument()
+  })
+
+  it('saves a review for the market and removes the row from the queue', async () => {
+    renderExplorer()
+    await screen.findByText('2 of 3 awaiting review')
+
+    const starlightRow = screen.getAllByRole('row').find(row => row.textContent?.includes('Starlight'))!
+    fireEvent.click(within(starlightRow).getByRole('button', { name: /confirm/i }))
+
+    await waitFor(() => expect(reviewSpy).toHaveBeenCalledWith('mkt-1', 'price-1', 'confirmed'))
+    expect(screen.getByText('1 of 3 awaiting review')).toBeInTheDocument()
+    expect(rowNames()).toEqual(['Lumiere'])
+  })
+})
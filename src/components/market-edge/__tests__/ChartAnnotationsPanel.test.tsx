@@ -0,0 +1,106 @@
+/**
+ * ChartAnnotationsPanel tests
+ * Adding, editing and attributing dated chart annotations
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import { ChartAnnotationsPanel } from '../ChartAnnotationsPanel'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { ChartAnnotation } from '@/types/market-edge'
+
+const colleagueNote: ChartAnnotation = {
+  id: 'annotation-1',
+  market_id: 'mkt-1',
+  date: '2025-03-10',
+  label: 'Starlight refit',
+  description: 'Recliners in every screen',
+  created_by: 'user-2',
+  created_by_name: 'Priya Shah',
+  can_edit: false,
+  created_at: '2025-03-10T09:00:00Z'
+}
+
+const ownNote: ChartAnnotation = {
+  ...colleagueNote,
+  id: 'annotation-2',
+  date: '2025-03-01',
+  label: 'VAT rise',
+  description: '',
+  created_by: 'user-1',
+  created_by_name: 'Sam Lee',
+  can_edit: true
+}
+
+describe('ChartAnnotationsPanel', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('lists annotations by date with their authors and only lets authors edit', () => {
+    render(
+      <ChartAnnotationsPanel marketId="mkt-1" annotations={[colleagueNote, ownNote]} onAnnotationsChange={jest.fn()} />
+    )
+
+    const items = screen.getAllByTestId('chart-annotation')
+    expect(items[0]).toHaveTextContent(/2025 · VAT rise/)
+    expect(within(items[1]).getByText('Recliners in every screen')).toBeInTheDocument()
+    expect(within(items[1]).getByText('Added by Priya Shah')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Edit VAT rise' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Edit Starlight refit' })).not.toBeInTheDocument()
+  })
+
+  it('adds an annotation for the market', async () => {
+    const create = jest.spyOn(marketEdgeAPI, 'createChartAnnotation')
+      .mockImplementation(async (_marketId, values) => ({ ...ownNote, ...values, id: 'annotation-3' }))
+    const onChange = jest.fn()
+    render(<ChartAnnotationsPanel marketId="mkt-1" annotations={[colleagueNote]} onAnnotationsChange={onChange} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add annotation' }))
+    fireEvent.change(screen.getByLabelText('Date *'), { target: { value: '2025-03-12' } })
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Add annotation' }))
+    expect(screen.getByText('Label is required')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Label *'), { target: { value: 'Blockbuster release' } })
+    fireEvent.change(screen.getByLabelText('Details'), { target: { value: 'Queues all weekend' } })
+    fireEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Add annotation' }))
+
+    await waitFor(() => expect(create).toHaveBeenCalledWith('mkt-1', {
+      date: '2025-03-12',
+      label: 'Blockbuster release',
+      description: 'Queues all weekend'
+    }))
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith([
+      colleagueNote,
+      expect.objectContaining({ id: 'annotation-3', label: 'Blockbuster release' })
+    ]))
+  })
+
+  it('saves edits to an own annotation', async () => {
+    const update = jest.spyOn(marketEdgeAPI, 'updateChartAnnotation')
+      .mockImplementation(async (_marketId, _id, values) => ({ ...ownNote, ...values }))
+    const onChange = jest.fn()
+    render(<ChartAnnotationsPanel marketId="mkt-1" annotations={[ownNote]} onAnnotationsChange={onChange} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit VAT rise' }))
+    fireEvent.change(screen.getByLabelText('Label *'), { target: { value: 'VAT rise to 20%' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }))
+
+    await waitFor(() => expect(update).toHaveBeenCalledWith('mkt-1', 'annotation-2', expect.objectContaining({
+      label: 'VAT rise to 20%'
+    })))
+    await waitFor(() => expect(onChange).toHaveBeenCalledWith([expect.objectContaining({ label: 'VAT rise to 20%' })]))
+  })
+
+  it('reports a load error and still allows adding annotations', () => {
+    render(<ChartAnnotationsPanel marketId="mkt-1" annotations={[]} onAnnotationsChange={jest.fn()} error="HTTP 500" />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Annotations could not be loaded: HTTP 500')
+    expect(screen.queryByText('No annotations for this market yet.')).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Add annotation' })).toBeEnabled()
+  })
+})
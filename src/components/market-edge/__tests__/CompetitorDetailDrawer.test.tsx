@@ -0,0 +1,67 @@
+/**
+ * CompetitorDetailDrawer tests
+ * Loads competitor analysis from the synthetic data source
+ */
+
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { CompetitorDetailDrawer } from '../CompetitorDetailDrawer'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+
+describe('CompetitorDetailDrawer', () => {
+  const competitorId = 'mkt-london-cinemas-comp-1'
+
+  beforeEach(() => {
+    jest.useRealTimers()
+    marketEdgeAPI.setDataMode('test')
+  })
+
+  it('shows pricing metrics, position and product breakdown', async () => {
+    render(
+      <CompetitorDetailDrawer
+        competitorId={competitorId}
+        daysBack={30}
+        onDaysBackChange={jest.fn()}
+        onClose={jest.fn()}
+      />
+    )
+
+    expect(await screen.findByText('Average price')).toBeInTheDocument()
+    expect(screen.getByText(/^(Below|At|Above) market$/)).toBeInTheDocument()
+    expect(screen.getByRole('columnheader', { name: 'Product/Service' })).toBeInTheDocument()
+    expect(screen.getByRole('cell', { name: 'Standard Ticket' })).toBeInTheDocument()
+  })
+
+  it('requests analysis for the selected period', async () => {
+    const spy = jest.spyOn(marketEdgeAPI, 'getCompetitorAnalysis')
+    const onDaysBackChange = jest.fn()
+    render(
+      <CompetitorDetailDrawer
+        competitorId={competitorId}
+        daysBack={90}
+        onDaysBackChange={onDaysBackChange}
+        onClose={jest.fn()}
+      />
+    )
+
+    await waitFor(() => expect(spy).toHaveBeenCalledWith(competitorId, { days_back: 90 }))
+
+    await userEvent.selectOptions(await screen.findByLabelText('Period'), '7')
+    expect(onDaysBackChange).toHaveBeenCalledWith(7)
+    spy.mockRestore()
+  })
+
+  it('stays closed without a competitor', () => {
+    render(
+      <CompetitorDetailDrawer
+        competitorId={null}
+        daysBack={30}
+        onDaysBackChange={jest.fn()}
+        onClose={jest.fn()}
+      />
+    )
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+  })
+})
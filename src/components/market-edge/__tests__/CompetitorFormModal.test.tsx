@@ -0,0 +1,117 @@
+/**
+ * CompetitorFormModal tests
+ * Validation and payload shape for creating and editing competitors
+ */
+
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CompetitorFormModal, locationsFromCompetitor } from '../CompetitorFormModal'
+import { Competitor } from '@/types/market-edge'
+
+const competitor: Competitor = {
+  id: 'comp-1',
+  name: 'Starlight Cinemas',
+  market_id: 'mkt-1',
+  organisation_id: 'org-1',
+  business_type: 'Multiplex',
+  website: 'https://starlight.example.com',
+  locations: { primary: 'London', sites: 2 },
+  tracking_priority: 4,
+  market_share_estimate: 22.5,
+  created_at: '2025-01-01T00:00:00Z'
+}
+
+const renderForm = (props: Partial<React.ComponentProps<typeof CompetitorFormModal>> = {}) => {
+  const onSubmit = jest.fn()
+  render(
+    <CompetitorFormModal
+      isOpen
+      onClose={jest.fn()}
+      marketId="mkt-1"
+      onSubmit={onSubmit}
+      {...props}
+    />
+  )
+  return { onSubmit }
+}
+
+const typeInto = (label: string, value: string) =>
+  fireEvent.change(screen.getByLabelText(label), { target: { value } })
+
+const click = (name: string) => fireEvent.click(screen.getByRole('button', { name }))
+
+describe('CompetitorFormModal', () => {
+  it('requires a name and validates the website and market share', () => {
+    const { onSubmit } = renderForm()
+
+    typeInto('Website', 'not a url')
+    typeInto('Market share estimate (%)', '140')
+    click('Add competitor')
+
+    expect(screen.getByText('Competitor name is required')).toBeInTheDocument()
+    expect(screen.getByText('Please enter a valid website URL')).toBeInTheDocument()
+    expect(screen.getByText('Market share must be between 0 and 100')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('submits a new competitor with structured locations', () => {
+    const { onSubmit } = renderForm()
+
+    typeInto('Name *', '  Picturehouse  ')
+    typeInto('Website', 'picturehouse.example.com')
+    click('Add location')
+    typeInto('Location 1 name', 'Picturehouse Central')
+    typeInto('Location 1 city', 'London')
+    typeInto('Location 1 postcode', 'w1d 7dh')
+    click('Add competitor')
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Picturehouse',
+      market_id: 'mkt-1',
+      website: 'https://picturehouse.example.com',
+      tracking_priority: 3,
+      locations: {
+        primary: 'London',
+        sites: 1,
+        addresses: [{ name: 'Picturehouse Central', address: undefined, city: 'London', postcode: 'W1D 7DH' }]
+      }
+    }))
+  })
+
+  it('flags incomplete locations', () => {
+    const { onSubmit } = renderForm()
+
+    typeInto('Name *', 'Picturehouse')
+    click('Add location')
+    typeInto('Location 1 name', 'Central')
+    click('Add competitor')
+
+    expect(screen.getByText('City is required')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('prefills the form when editing', () => {
+    const { onSubmit } = renderForm({ competitor })
+
+    expect(screen.getByLabelText('Name *')).toHaveValue('Starlight Cinemas')
+    expect(screen.getByLabelText('Market share estimate (%)')).toHaveValue(22.5)
+    expect(screen.getByLabelText('Location 1 city')).toHaveValue('London')
+
+    click('Save changes')
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ name: 'Starlight Cinemas', tracking_priority: 4 }))
+  })
+})
+
+describe('locationsFromCompetitor', () => {
+  it('reads structured addresses when present', () => {
+    const withAddresses = {
+      ...competitor,
+      locations: { primary: 'Leeds', sites: 1, addresses: [{ name: 'Leeds Central', city: 'Leeds' }] }
+    }
+
+    expect(locationsFromCompetitor(withAddresses)).toEqual([
+      { name: 'Leeds Central', address: '', city: 'Leeds', postcode: '' }
+    ])
+    expect(locationsFromCompetitor(null)).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+import React from 'react'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { CompetitorMovesTimeline, groupMovesByDay } from '../CompetitorMovesTimeline'
+import { CompetitorMove } from '@/types/market-edge'
+
+const moves: CompetitorMove[] = [
+  {
+    type: 'price_change',
+    competitor_id: 'comp-1',
+    competitor_name: 'Starlight',
+    change_type: 'increase',
+    change_percent: 12.4,
+    previous_average: 10,
+    current_average: 11.24,
+    significance: 'high',
+    detected_at: '2025-03-13T18:00:00Z'
+  },
+  {
+    type: 'new_products',
+    competitor_id: 'comp-2',
+    competitor_name: 'Lumiere',
+    new_products: ['IMAX Ticket', 'Dine-in Menu'],
+    significance: 'high',
+    detected_at: '2025-03-13T09:00:00Z'
+  },
+  {
+    type: 'price_change',
+    competitor_id: 'comp-2',
+    competitor_name: 'Lumiere',
+    change_type: 'decrease',
+    change_percent: -3.1,
+    previous_average: 15,
+    current_average: 14.54,
+    significance: 'low',
+    detected_at: '2025-03-06T10:00:00Z'
+  }
+]
+
+describe('groupMovesByDay', () => {
+  it('groups by UTC day with the newest day first', () => {
+    const days = groupMovesByDay(moves)
+    expect(days.map(d => d.day)).toEqual(['2025-03-13', '2025-03-06'])
+    expect(days[0].moves.map(m => m.competitor_name)).toEqual(['Starlight', 'Lumiere'])
+  })
+})
+
+describe('CompetitorMovesTimeline', () => {
+  it('shows before and after averages and new products', () => {
+    render(<CompetitorMovesTimeline moves={moves} currency="GBP" />)
+
+    expect(screen.getByText(/Thursday,? 13 March 2025/)).toBeInTheDocument()
+    expect(screen.getByText('Average £10.00 → £11.24')).toBeInTheDocument()
+    expect(screen.getByText('IMAX Ticket')).toBeInTheDocument()
+    expect(screen.getByText(/started listing 2 new products/)).toBeInTheDocument()
+  })
+
+  it('filters by significance and competitor', () => {
+    render(<CompetitorMovesTimeline moves={moves} />)
+
+    fireEvent.change(screen.getByLabelText('Significance'), { target: { value: 'low' } })
+    expect(screen.getAllByTestId('competitor-move')).toHaveLength(1)
+    expect(screen.getByText(/cut average prices by 3.1%/)).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Significance'), { target: { value: '' } })
+    fireEvent.change(screen.getByLabelText('Competitor'), { target: { value: 'comp-1' } })
+    expect(screen.getAllByTestId('competitor-move')).toHaveLength(1)
+  })
+
+  it('opens the competitor when their name is clicked', () => {
+    const onSelectCompetitor = jest.fn()
+    render(<CompetitorMovesTimeline moves={moves} onSelectCompetitor={onSelectCompetitor} />)
+
+    const [first] = screen.getAllByTestId('competitor-move')
+    fireEvent.click(within(first).getByRole('button', { name: 'Starlight' }))
+    expect(onSelectCompetitor).toHaveBeenCalledWith('comp-1')
+  })
+
+  it('shows a load error in place of the timeline', () => {
+    render(<CompetitorMovesTimeline moves={[]} error="HTTP 404" />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Competitor moves could not be loaded: HTTP 404')
+    expect(screen.queryByText('No competitor moves detected in this period')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * DesktopNotificationSettingsPanel tests
+ * Opting in, per-severity preferences, quiet hours and blocked permission
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { DesktopNotificationSettingsPanel } from '../DesktopNotificationSettingsPanel'
+import { getDesktopNotificationPreferences } from '@/services/market-edge-desktop-notifications'
+
+const Notification = {
+  permission: 'default' as NotificationPermission,
+  requestPermission: jest.fn()
+}
+
+describe('DesktopNotificationSettingsPanel', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+    Notification.permission = 'default'
+    Notification.requestPermission.mockReset()
+    ;(window as any).Notification = Notification
+  })
+
+  afterEach(() => {
+    delete (window as any).Notification
+  })
+
+  it('asks for permission when enabled and saves preferences per user', async () => {
+    Notification.requestPermission.mockImplementation(async () => {
+      Notification.permission = 'granted'
+      return 'granted'
+    })
+    render(<DesktopNotificationSettingsPanel userId="user-1" />)
+
+    expect(screen.getByLabelText('critical')).toBeDisabled()
+    fireEvent.click(screen.getByLabelText('Show desktop notifications for new alerts'))
+
+    await waitFor(() => expect(screen.getByLabelText('critical')).toBeEnabled())
+    expect(Notification.requestPermission).toHaveBeenCalled()
+    expect(screen.getByRole('button', { name: 'Send test notification' })).toBeInTheDocument()
+
+    fireEvent.click(screen.getByLabelText('high'))
+    fireEvent.click(screen.getByLabelText('Pause notifications from'))
+    fireEvent.change(screen.getByLabelText('Quiet hours start'), { target: { value: '21:30' } })
+
+    expect(getDesktopNotificationPreferences('user-1')).toEqual({
+      enabled: true,
+      severities: ['critical'],
+      quiet_hours: { enabled: true, start: '21:30', end: '07:00' }
+    })
+  })
+
+  it('explains how to recover when notifications are blocked', async () => {
+    Notification.requestPermission.mockResolvedValue('denied')
+    render(<DesktopNotificationSettingsPanel userId="user-1" />)
+
+    fireEvent.click(screen.getByLabelText('Show desktop notifications for new alerts'))
+
+    expect(await screen.findByText(/Notifications are blocked for this site/)).toBeInTheDocument()
+    expect(screen.getByLabelText('Show desktop notifications for new alerts')).not.toBeChecked()
+    expect(screen.getByLabelText('Show desktop notifications for new alerts')).toBeDisabled()
+    expect(getDesktopNotificationPreferences('user-1').enabled).toBe(false)
+  })
+
+  it('shows a notice when the browser has no Notification API', () => {
+    delete (window as any).Notification
+    render(<DesktopNotificationSettingsPanel userId="user-1" />)
+
+    expect(screen.getByText(/does not support desktop notifications/)).toBeInTheDocument()
+    expect(screen.getByLabelText('Show desktop notifications for new alerts')).toBeDisabled()
+  })
+})
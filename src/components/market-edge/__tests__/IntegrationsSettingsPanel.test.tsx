@@ -0,0 +1,163 @@
+/**
+ * IntegrationsSettingsPanel tests
+ * Registering webhooks with filters, secret rotation, test events and the delivery log
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import { IntegrationsSettingsPanel } from '../IntegrationsSettingsPanel'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Market, MarketAlert, Webhook, WebhookDelivery } from '@/types/market-edge'
+
+const markets = [
+  { id: 'mkt-1', name: 'London Cinemas' },
+  { id: 'mkt-2', name: 'Leeds Gyms' }
+] as Market[]
+
+const webhook: Webhook = {
+  id: 'webhook-1',
+  organisation_id: 'org-1',
+  name: 'Ops relay',
+  url: 'https://hooks.example.com/market-edge',
+  secret_last4: 'cdef',
+  filters: { severities: ['critical'], alert_types: [], market_ids: [] },
+  is_active: true,
+  created_at: '2025-03-01T09:00:00Z'
+}
+
+const attempt = (status_code: number | null) => ({
+  attempted_at: '2025-03-10T09:00:00Z',
+  status_code,
+  duration_ms: 40,
+  ...(status_code === null ? { error: 'Failed to fetch' } : {})
+})
+
+const failedDelivery: WebhookDelivery = {
+  id: 'delivery-1',
+  webhook_id: 'webhook-1',
+  event: 'webhook.test',
+  status: 'failed',
+  payload: { id: 'test-1', title: 'Test alert from Market Edge' } as MarketAlert,
+  attempts: [attempt(500), attempt(500), attempt(null)],
+  created_at: '2025-03-10T09:00:00Z'
+}
+
+describe('IntegrationsSettingsPanel', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+    jest.spyOn(marketEdgeAPI, 'getMarkets').mockResolvedValue(markets)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('registers a webhook with event filters', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWebhooks').mockResolvedValue([])
+    const create = jest.spyOn(marketEdgeAPI, 'createWebhook')
+      .mockImplementation(async values => ({ ...webhook, ...values, id: 'webhook-2', secret_last4: values.secret.slice(-4) }))
+    render(<IntegrationsSettingsPanel canEdit />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Add webhook' }))
+    fireEvent.change(screen.getByLabelText('Name *'), { target: { value: 'Pager' } })
+    fireEvent.change(screen.getByLabelText('Payload URL *'), { target: { value: 'http://hooks.example.com' } })
+    fireEvent.click(screen.getByLabelText('high'))
+    fireEvent.click(screen.getByLabelText('Leeds Gyms'))
+    fireEvent.click(screen.getByRole('button', { name: 'Create webhook' }))
+    expect(screen.getByText('URL must use HTTPS (HTTP is allowed for localhost)')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Payload URL *'), { target: { value: 'http://localhost:4001/hook' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Create webhook' }))
+
+    await waitFor(() => expect(create).toHaveBeenCalledWith({
+      name: 'Pager',
+      url: 'http://localhost:4001/hook',
+      secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+      filters: { severities: ['high'], alert_types: [], market_ids: ['mkt-2'] },
+      is_active: true
+    }))
+    expect(await screen.findByText('High · any type · Leeds Gyms')).toBeInTheDocument()
+  })
+
+  it('only shows a saved secret once it is rotated', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWebhooks').mockResolvedValue([webhook])
+    const update = jest.spyOn(marketEdgeAPI, 'updateWebhook')
+      .mockImplementation(async (id, values) => ({ ...webhook, ...values }))
+    const rotate = jest.spyOn(marketEdgeAPI, 'rotateWebhookSecret')
+      .mockResolvedValue({ ...webhook, secret: 'whsec_fedcba9876543210', secret_last4: '3210' })
+    render(<IntegrationsSettingsPanel canEdit />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit Ops relay' }))
+    expect(screen.getByLabelText('Signing secret *')).toHaveValue('••••cdef')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rotate secret' }))
+    expect(rotate).not.toHaveBeenCalled()
+    fireEvent.click(screen.getByRole('button', { name: 'Rotate' }))
+    await waitFor(() => expect(screen.getByLabelText('Signing secret *')).toHaveValue('whsec_fedcba9876543210'))
+    expect(rotate).toHaveBeenCalledWith('webhook-1')
+    expect(screen.getByText(/It will not be shown again/)).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Name *'), { target: { value: 'Ops pager' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }))
+    await waitFor(() => expect(update).toHaveBeenCalledWith('webhook-1', {
+      name: 'Ops pager',
+      url: webhook.url,
+      filters: webhook.filters,
+      is_active: true
+    }))
+  })
+
+  it('sends a test event and shows each attempt in the delivery log', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWebhooks').mockResolvedValue([webhook])
+    jest.spyOn(marketEdgeAPI, 'sendWebhookTestEvent').mockResolvedValue(failedDelivery)
+    jest.spyOn(marketEdgeAPI, 'getWebhookDeliveries').mockResolvedValue([failedDelivery])
+    const redeliver = jest.spyOn(marketEdgeAPI, 'redeliverWebhookDelivery').mockResolvedValue({
+      ...failedDelivery,
+      status: 'succeeded',
+      attempts: [...failedDelivery.attempts, attempt(200)]
+    })
+    render(<IntegrationsSettingsPanel canEdit />)
+
+    expect(await screen.findByText('Critical · any type · all markets')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Send test event' }))
+
+    const row = await screen.findByTestId('webhook-delivery')
+    expect(within(row).getByText('Failed')).toBeInTheDocument()
+    expect(within(row).getByText('500 → 500 → No response')).toBeInTheDocument()
+
+    fireEvent.click(within(row).getByRole('button', { name: 'Redeliver' }))
+    await waitFor(() => expect(within(row).getByText('Delivered')).toBeInTheDocument())
+    expect(redeliver).toHaveBeenCalledWith('delivery-1')
+    expect(within(row).getByText('500 → 500 → No response → 200')).toBeInTheDocument()
+  })
+
+  it('is read-only for non-administrators', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWebhooks').mockResolvedValue([webhook])
+    render(<IntegrationsSettingsPanel canEdit={false} />)
+
+    expect(await screen.findByText('Ops relay')).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Add webhook' })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Send test event' })).not.toBeInTheDocument()
+    expect(screen.getByLabelText('Ops relay active')).toBeDisabled()
+    expect(screen.getByText('Only administrators can add, change or test webhooks.')).toBeInTheDocument()
+  })
+
+  it('labels simulated deliveries in Test Data mode', async () => {
+    const simulated: WebhookDelivery = {
+      ...failedDelivery,
+      status: 'succeeded',
+      attempts: [{ attempted_at: '2025-03-10T09:00:00Z', status_code: 200, duration_ms: 0, simulated: true }]
+    }
+    jest.spyOn(marketEdgeAPI, 'dataMode', 'get').mockReturnValue('test')
+    jest.spyOn(marketEdgeAPI, 'getWebhooks').mockResolvedValue([webhook])
+    jest.spyOn(marketEdgeAPI, 'sendWebhookTestEvent').mockResolvedValue(simulated)
+    jest.spyOn(marketEdgeAPI, 'getWebhookDeliveries').mockResolvedValue([simulated])
+    render(<IntegrationsSettingsPanel canEdit />)
+
+    expect(await screen.findByText(/test events and redeliveries are simulated/)).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Send test event' }))
+
+    const row = await screen.findByTestId('webhook-delivery')
+    expect(within(row).getByText('200 (simulated)')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * MarketFilterBar tests
+ * Query string round trip and preset, custom range and product changes
+ */
+
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { MarketFilter, MarketFilterBar, marketFilterQuery, parseMarketFilter } from '../MarketFilterBar'
+
+describe('parseMarketFilter', () => {
+  it('reads presets, custom ranges and products from the query string', () => {
+    expect(parseMarketFilter(new URLSearchParams('range=90&product=IMAX+Ticket'))).toEqual({
+      days_back: 90,
+      product_service: 'IMAX Ticket'
+    })
+    expect(parseMarketFilter(new URLSearchParams('range=custom&from=2025-03-01&to=2025-03-14'))).toEqual({
+      days_back: 14,
+      start_date: '2025-03-01',
+      end_date: '2025-03-14',
+      product_service: undefined
+    })
+  })
+
+  it('falls back to 30 days for invalid values', () => {
+    expect(parseMarketFilter(new URLSearchParams('range=12')).days_back).toBe(30)
+    expect(parseMarketFilter(new URLSearchParams('range=custom&from=2025-03-14&to=2025-03-01'))).toEqual({
+      days_back: 30,
+      product_service: undefined
+    })
+  })
+
+  it('round trips through marketFilterQuery', () => {
+    const filter = { days_back: 7, start_date: '2025-03-08', end_date: '2025-03-14', product_service: 'Day Pass' }
+    const params = new URLSearchParams()
+    Object.entries(marketFilterQuery(filter)).forEach(([key, value]) => value && params.set(key, value))
+
+    expect(params.toString()).toBe('range=custom&from=2025-03-08&to=2025-03-14&product=Day+Pass')
+    expect(parseMarketFilter(params)).toEqual(filter)
+    expect(marketFilterQuery({ days_back: 30 })).toEqual({ range: null, from: null, to: null, product: null, promos: null })
+  })
+})
+
+describe('MarketFilterBar', () => {
+  const renderBar = (filter: MarketFilter = { days_back: 30 }) => {
+    const onChange = jest.fn()
+    render(<MarketFilterBar filter={filter} products={['Day Pass', 'Monthly Membership']} onChange={onChange} />)
+    return { onChange }
+  }
+
+  it('switches presets and products', () => {
+    const { onChange } = renderBar({ days_back: 30, product_service: 'Day Pass' })
+
+    expect(screen.getByRole('button', { name: '30d' })).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByRole('button', { name: '90d' }))
+    expect(onChange).toHaveBeenLastCalledWith({ days_back: 90, product_service: 'Day Pass' })
+
+    fireEvent.change(screen.getByLabelText('Product/Service'), { target: { value: '' } })
+    expect(onChange).toHaveBeenLastCalledWith({ days_back: 30, product_service: undefined })
+  })
+
+  it('toggles promotional prices out of the filter', () => {
+    const { onChange } = renderBar({ days_back: 7 })
+
+    fireEvent.click(screen.getByLabelText('Exclude promotions'))
+    expect(onChange).toHaveBeenLastCalledWith({ days_back: 7, exclude_promotions: true })
+    expect(parseMarketFilter(new URLSearchParams('range=7&promos=exclude'))).toEqual({ days_back: 7, exclude_promotions: true })
+  })
+
+  it('applies a custom range once both dates are valid', () => {
+    const { onChange } = renderBar()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Custom' }))
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-02-01' } })
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ start_date: '2025-02-01' }))
+
+    onChange.mockClear()
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2025-01-01' } })
+    expect(screen.getByText('Start date must be before end date')).toBeInTheDocument()
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
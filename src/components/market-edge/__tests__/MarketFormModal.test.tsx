@@ -0,0 +1,100 @@
+/**
+ * MarketFormModal tests
+ * Create, edit and archive flows including the impact confirmation step
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { MarketFormModal } from '../MarketFormModal'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Market } from '@/types/market-edge'
+
+const renderForm = (props: Partial<React.ComponentProps<typeof MarketFormModal>> = {}) => {
+  const onSubmit = jest.fn()
+  const onArchive = jest.fn()
+  render(
+    <MarketFormModal
+      isOpen
+      onClose={jest.fn()}
+      onSubmit={onSubmit}
+      onArchive={onArchive}
+      {...props}
+    />
+  )
+  return { onSubmit, onArchive }
+}
+
+const typeInto = (label: string, value: string) =>
+  fireEvent.change(screen.getByLabelText(label), { target: { value } })
+
+const click = (name: string) => fireEvent.click(screen.getByRole('button', { name }))
+
+describe('MarketFormModal', () => {
+  let market: Market
+
+  beforeEach(async () => {
+    jest.useRealTimers()
+    marketEdgeAPI.setDataMode('test')
+    market = await marketEdgeAPI.getMarket('mkt-london-cinemas')
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('validates the name and radius', () => {
+    const { onSubmit } = renderForm()
+
+    typeInto('Radius (km)', '-2')
+    click('Create market')
+
+    expect(screen.getByText('Market name is required')).toBeInTheDocument()
+    expect(screen.getByText('Radius must be greater than 0')).toBeInTheDocument()
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('creates a market without a confirmation step', async () => {
+    const { onSubmit } = renderForm()
+
+    typeInto('Name *', ' Glasgow Cinemas ')
+    typeInto('City', 'Glasgow')
+    typeInto('Radius (km)', '4')
+    typeInto('Currency', 'EUR')
+    click('Create market')
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Glasgow Cinemas',
+      geographic_bounds: { city: 'Glasgow', region: undefined, radius_km: 4 },
+      tracking_config: { currency: 'EUR', collection_frequency: 'weekly' }
+    }))
+  })
+
+  it('confirms edits with the number of affected competitors and pricing points', async () => {
+    const pricing = await marketEdgeAPI.getMarketPricingData(market.id)
+    const pricingSpy = jest.spyOn(marketEdgeAPI, 'getMarketPricingData')
+    const { onSubmit } = renderForm({ market })
+
+    expect(screen.getByLabelText('City')).toHaveValue('London')
+    typeInto('Name *', 'West End Cinemas')
+    click('Save changes')
+
+    expect(await screen.findByText(
+      new RegExp(`5 competitors and ${pricing.length.toLocaleString()} pricing points`)
+    )).toBeInTheDocument()
+    expect(pricingSpy).not.toHaveBeenCalled()
+    expect(onSubmit).not.toHaveBeenCalled()
+
+    click('Confirm changes')
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ name: 'West End Cinemas' })))
+  })
+
+  it('archives after confirmation', async () => {
+    const { onArchive } = renderForm({ market })
+
+    click('Archive market')
+    expect(await screen.findByText(/^Archiving Central London Cinemas will hide it/)).toBeInTheDocument()
+
+    click('Archive market')
+    await waitFor(() => expect(onArchive).toHaveBeenCalledWith(market))
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * MarketReportView tests
+ * Renders each report layout from a synthetic MarketReport
+ */
+
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { MarketReportView } from '../MarketReportView'
+import { SyntheticDataSource } from '@/services/market-edge-synthetic-data'
+import { MarketReport } from '@/types/market-edge'
+
+jest.mock('../PricingChart', () => ({
+  PricingChart: () => <div data-testid="pricing-chart" />
+}))
+
+describe('MarketReportView', () => {
+  let report: MarketReport
+
+  beforeAll(async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    report = await source.request<MarketReport>('/markets/mkt-london-cinemas/report')
+    report.generated_at = '2025-03-14T09:30:00.000Z'
+  })
+
+  it('renders every section of the comprehensive report', () => {
+    render(<MarketReportView report={report} reportType="comprehensive" />)
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Central London Cinemas' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Market Overview' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Key Insights' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Competitor Analysis' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Pricing Trends' })).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Recent Competitor Moves' })).toBeInTheDocument()
+    expect(screen.getByTestId('pricing-chart')).toBeInTheDocument()
+  })
+
+  it('writes each insight as a sentence', () => {
+    render(<MarketReportView report={report} reportType="summary" />)
+
+    report.insights.forEach(insight => {
+      expect(screen.getByText(insight.message)).toBeInTheDocument()
+    })
+  })
+
+  it('stamps the report with its generated_at time', () => {
+    const { container } = render(<MarketReportView report={report} reportType="summary" />)
+
+    expect(container.querySelector('time')).toHaveAttribute('dateTime', '2025-03-14T09:30:00.000Z')
+  })
+
+  it('leaves competitor rankings out of the trends report', () => {
+    render(<MarketReportView report={report} reportType="trends" />)
+
+    expect(screen.queryByRole('heading', { name: 'Competitor Analysis' })).not.toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Recent Price Changes' })).toBeInTheDocument()
+  })
+
+  it('explains when there is nothing to report', () => {
+    const empty: MarketReport = {
+      ...report,
+      recent_moves: [],
+      insights: [],
+      pricing_trends: { ...report.pricing_trends, market_trend: {}, competitor_trends: {} }
+    }
+    render(<MarketReportView report={empty} reportType="comprehensive" />)
+
+    expect(screen.getByText('No insights were generated for this period.')).toBeInTheDocument()
+    expect(screen.getByText('No significant competitor moves were detected.')).toBeInTheDocument()
+    expect(screen.getByText('Not enough pricing history to show weekly trends.')).toBeInTheDocument()
+  })
+})
@@ -316,4 +316,13 @@ describe('PerformanceMetrics Component', () => {
       expect(screen.queryByTestId('mobile-layout')).not.toBeInTheDocument()
     })
   })
+
+  describe('Load Errors', () => {
+    it('shows a load error in place of the metrics', () => {
+      renderWithProviders(<PerformanceMetrics metrics={null} error="HTTP 500" />)
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Market analysis could not be loaded: HTTP 500')
+      expect(screen.queryByText('No metrics available')).not.toBeInTheDocument()
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,90 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import {
+  PositioningChart,
+  buildPositioningData,
+  positioningQuadrant
+} from '../PositioningChart'
+import { CompetitorComparison, MarketMetrics } from '@/types/market-edge'
+
+const competitor = (
+  name: string,
+  average_price: number,
+  market_share_estimate: number | undefined,
+  tracking_priority = 3
+) => ({
+  name,
+  average_price,
+  min_price: average_price - 1,
+  max_price: average_price + 1,
+  data_points: 10,
+  products_services: ['Adult Ticket'],
+  market_share_estimate,
+  tracking_priority,
+  price_rank: 1
+})
+
+const comparison: CompetitorComparison = {
+  market_id: 'mkt-1',
+  comparison_period: { start_date: '2025-02-12T00:00:00Z', end_date: '2025-03-14T00:00:00Z' },
+  competitors: {
+    'comp-a': competitor('Starlight', 16, 30, 5),
+    'comp-b': competitor('Lumiere', 18, 10, 4),
+    'comp-c': competitor('Budget Screens', 9, 25, 2),
+    'comp-d': competitor('Indie Picturehouse', 11, 5, 1),
+    'comp-e': competitor('Pop-up Cinema', 12, undefined)
+  },
+  rankings: { by_price: [] },
+  currency: 'GBP'
+}
+
+describe('positioningQuadrant', () => {
+  it('splits on price and share', () => {
+    expect(positioningQuadrant(20, 30, 12, 15)).toBe('premium_leader')
+    expect(positioningQuadrant(20, 5, 12, 15)).toBe('premium_niche')
+    expect(positioningQuadrant(8, 30, 12, 15)).toBe('value_leader')
+    expect(positioningQuadrant(8, 5, 12, 15)).toBe('value_challenger')
+  })
+})
+
+describe('buildPositioningData', () => {
+  it('splits at the median price and share of plotted competitors', () => {
+    const metrics = {
+      competitors: { 'comp-a': { position: 'high' } }
+    } as unknown as MarketMetrics
+    const data = buildPositioningData(comparison, metrics)
+
+    expect(data.priceSplit).toBe(13.5)
+    expect(data.shareSplit).toBe(17.5)
+    expect(data.unplotted).toEqual(['Pop-up Cinema'])
+    expect(Object.fromEntries(data.points.map(p => [p.name, p.quadrant]))).toEqual({
+      Starlight: 'premium_leader',
+      Lumiere: 'premium_niche',
+      'Budget Screens': 'value_leader',
+      'Indie Picturehouse': 'value_challenger'
+    })
+    expect(data.points.find(p => p.id === 'comp-a')).toMatchObject({ position: 'high', trackingPriority: 5 })
+  })
+})
+
+describe('PositioningChart', () => {
+  it('lists competitors by quadrant and opens one on click', () => {
+    const onSelectCompetitor = jest.fn()
+    render(<PositioningChart comparison={comparison} onSelectCompetitor={onSelectCompetitor} />)
+
+    expect(screen.getAllByText('Premium leader').length).toBeGreaterThan(0)
+    expect(screen.getByText(/no market share estimate/i)).toHaveTextContent('Pop-up Cinema')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Budget Screens' }))
+    expect(onSelectCompetitor).toHaveBeenCalledWith('comp-c')
+  })
+
+  it('shows an empty state when no competitor has a share estimate', () => {
+    render(
+      <PositioningChart
+        comparison={{ ...comparison, competitors: { 'comp-e': comparison.competitors['comp-e'] } }}
+      />
+    )
+    expect(screen.getByText('No competitors to position')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,97 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import {
+  BoxPlotShape,
+  MARKET_ROW_ID,
+  PriceDistributionChart,
+  buildDistributionRows
+} from '../PriceDistributionChart'
+import { MarketMetrics, PriceAnomaly } from '@/types/market-edge'
+
+const anomaly = (id: string, competitor_name: string, price: number, severity: 'medium' | 'high'): PriceAnomaly => ({
+  id,
+  competitor_name,
+  product_service: 'Adult Ticket',
+  price,
+  z_score: 3,
+  date_collected: '2025-03-10T00:00:00Z',
+  deviation_from_mean: 10,
+  severity
+})
+
+const metrics = {
+  period_start: '2025-02-12T00:00:00Z',
+  period_end: '2025-03-14T00:00:00Z',
+  total_data_points: 40,
+  average_price: 12,
+  median_price: 11.5,
+  min_price: 6,
+  max_price: 30,
+  price_range: 24,
+  standard_deviation: 3.2,
+  price_quartiles: { q1: 9, q2: 11.5, q3: 14 },
+  competitors: {
+    'comp-b': {
+      name: 'Lumiere', average_price: 16, median_price: 15, min_price: 12, max_price: 30,
+      price_points_count: 20, standard_deviation: 4, price_rank: 2, position: 'high',
+      price_quartiles: { q1: 13, q2: 15, q3: 17 }
+    },
+    'comp-a': {
+      name: 'Budget Screens', average_price: 8, median_price: 8, min_price: 6, max_price: 10,
+      price_points_count: 20, standard_deviation: 1, price_rank: 1, position: 'low'
+    }
+  },
+  trends: { trend: 'stable', weekly_averages: {}, price_change: 0, price_change_percent: 0 },
+  anomalies: [anomaly('an-1', 'Lumiere', 30, 'high')],
+  currency: 'GBP'
+} as MarketMetrics
+
+describe('buildDistributionRows', () => {
+  it('puts the market first, then competitors cheapest first', () => {
+    const rows = buildDistributionRows(metrics)
+    expect(rows.map(r => r.id)).toEqual([MARKET_ROW_ID, 'comp-a', 'comp-b'])
+    expect(rows[0]).toMatchObject({ range: [6, 30], quartiles: { q1: 9, q3: 14 }, dataPoints: 40 })
+    expect(rows[1].quartiles).toBeUndefined()
+  })
+
+  it('attaches anomalies to the market and the matching competitor', () => {
+    const [market, budget, lumiere] = buildDistributionRows(metrics)
+    expect(market.outliers).toHaveLength(1)
+    expect(budget.outliers).toHaveLength(0)
+    expect(lumiere.outliers.map(o => o.id)).toEqual(['an-1'])
+  })
+})
+
+describe('BoxPlotShape', () => {
+  it('draws the box between the quartiles and outliers at their price', () => {
+    const [market] = buildDistributionRows(metrics)
+    // 24 price units over 240px: 10px per unit from max (30) at y = 0
+    render(
+      <svg>
+        <BoxPlotShape x={0} y={0} width={40} height={240} payload={market} />
+      </svg>
+    )
+
+    const box = screen.getByTestId(`box-plot-${MARKET_ROW_ID}`).querySelector('rect')!
+    expect(box.getAttribute('y')).toBe('160')
+    expect(box.getAttribute('height')).toBe('50')
+    expect(screen.getByTestId('box-plot-outlier').getAttribute('cy')).toBe('0')
+  })
+
+  it('skips the box for competitors without quartiles', () => {
+    const [, budget] = buildDistributionRows(metrics)
+    render(
+      <svg>
+        <BoxPlotShape x={0} y={0} width={40} height={100} payload={budget} />
+      </svg>
+    )
+    expect(screen.getByTestId('box-plot-comp-a').querySelector('rect')).toBeNull()
+  })
+})
+
+describe('PriceDistributionChart', () => {
+  it('shows an empty state without pricing data', () => {
+    render(<PriceDistributionChart metrics={{ ...metrics, total_data_points: 0, competitors: {} }} />)
+    expect(screen.getByText('No pricing data available')).toBeInTheDocument()
+  })
+})
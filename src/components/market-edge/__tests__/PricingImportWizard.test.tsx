@@ -0,0 +1,61 @@
+/**
+ * PricingImportWizard tests
+ * Paste, map, preview and import against the synthetic data source
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { PricingImportWizard } from '../PricingImportWizard'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Competitor } from '@/types/market-edge'
+
+const click = (name: string | RegExp) => fireEvent.click(screen.getByRole('button', { name }))
+
+describe('PricingImportWizard', () => {
+  let competitors: Competitor[]
+
+  beforeEach(async () => {
+    jest.useRealTimers()
+    marketEdgeAPI.setDataMode('test')
+    competitors = await marketEdgeAPI.getCompetitors('mkt-london-cinemas')
+  })
+
+  it('previews per-row errors and reports the import', async () => {
+    const onImported = jest.fn()
+    render(
+      <PricingImportWizard
+        isOpen
+        onClose={jest.fn()}
+        marketId="mkt-london-cinemas"
+        competitors={competitors}
+        onImported={onImported}
+      />
+    )
+
+    fireEvent.change(screen.getByLabelText('Or paste rows from a spreadsheet'), {
+      target: {
+        value: [
+          'Competitor\tProduct\tPrice\tDate',
+          `${competitors[0].name}\tGift Card\t25.00\t2020-01-06`,
+          'Nobody\tGift Card\tfree\t2020-01-06'
+        ].join('\n')
+      }
+    })
+    click('Continue')
+
+    expect(screen.getByLabelText('Competitor *')).toHaveValue('0')
+    expect(screen.getByLabelText('Currency')).toHaveValue('')
+    click('Preview')
+
+    expect(await screen.findByText('Unknown competitor "Nobody"; Price must be a number')).toBeInTheDocument()
+    expect(screen.getByText('Ready')).toBeInTheDocument()
+
+    click('Import 1 row')
+    expect(await screen.findByText('Imported 1 of 1 rows.')).toBeInTheDocument()
+    expect(onImported).toHaveBeenCalledWith(expect.objectContaining({ failed: [] }))
+
+    const pricing = await marketEdgeAPI.getMarketPricingData('mkt-london-cinemas', { product_service: 'Gift Card' })
+    expect(pricing).toHaveLength(1)
+    expect(pricing[0]).toMatchObject({ price_point: 25, currency: 'GBP', source: 'csv_import' })
+  })
+})
@@ -0,0 +1,79 @@
+import React from 'react'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import { PromotionTracker, groupPromotionsByCompetitor } from '../PromotionTracker'
+import { PromotionEntry, PromotionSummary } from '@/types/market-edge'
+
+const promotion = (overrides: Partial<PromotionEntry>): PromotionEntry => ({
+  id: 'comp-1|Adult Ticket|Half price Tuesdays',
+  competitor_id: 'comp-1',
+  competitor_name: 'Starlight',
+  product_service: 'Adult Ticket',
+  promotion_details: 'Half price Tuesdays',
+  first_seen: '2025-03-04T00:00:00Z',
+  last_seen: '2025-03-11T00:00:00Z',
+  observations: 2,
+  lowest_price: 6,
+  regular_price: 12,
+  discount_percent: 50,
+  is_active: true,
+  ...overrides
+})
+
+const summary: PromotionSummary = {
+  period: { start_date: '2025-02-12T00:00:00Z', end_date: '2025-03-14T00:00:00Z' },
+  promotions: [
+    promotion({}),
+    promotion({ id: 'comp-2|Popcorn|', competitor_id: 'comp-2', competitor_name: 'Lumiere', product_service: 'Popcorn', promotion_details: undefined, is_active: false, discount_percent: 10, lowest_price: 4.5, regular_price: 5 }),
+    promotion({ id: 'comp-1|Popcorn|Combo', product_service: 'Popcorn', promotion_details: 'Combo', is_active: false, regular_price: undefined, discount_percent: undefined })
+  ],
+  frequency: {
+    '2025-W10': { promotional_points: 2, total_points: 20, promotion_share: 10 }
+  },
+  currency: 'GBP'
+}
+
+describe('groupPromotionsByCompetitor', () => {
+  it('lists competitors with active promotions first', () => {
+    const groups = groupPromotionsByCompetitor([...summary.promotions].reverse())
+    expect(groups.map(g => g.competitor_name)).toEqual(['Starlight', 'Lumiere'])
+    expect(groups[0]).toMatchObject({ active: 1 })
+    expect(groups[0].promotions).toHaveLength(2)
+  })
+})
+
+describe('PromotionTracker', () => {
+  it('shows discount depth against the regular price', () => {
+    render(<PromotionTracker summary={summary} />)
+
+    expect(screen.getByText('1 active of 3 in this period')).toBeInTheDocument()
+    const starlight = screen.getAllByTestId('competitor-promotions')[0]
+    expect(within(starlight).getByText('-50%')).toBeInTheDocument()
+    expect(within(starlight).getByText(/£6\.00 vs £12\.00 regular/)).toBeInTheDocument()
+    expect(within(starlight).getByText('Ended')).toBeInTheDocument()
+  })
+
+  it('filters to active promotions and opens competitors', () => {
+    const onSelectCompetitor = jest.fn()
+    render(<PromotionTracker summary={summary} onSelectCompetitor={onSelectCompetitor} />)
+
+    fireEvent.click(screen.getByLabelText('Active only'))
+    expect(screen.getAllByTestId('competitor-promotions')).toHaveLength(1)
+    expect(screen.queryByText('Lumiere')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Starlight' }))
+    expect(onSelectCompetitor).toHaveBeenCalledWith('comp-1')
+  })
+
+  it('shows an empty state without promotions', () => {
+    render(<PromotionTracker summary={{ ...summary, promotions: [], frequency: {} }} />)
+    expect(screen.getByText('No promotions found in this period')).toBeInTheDocument()
+    expect(screen.getByText('No pricing data available')).toBeInTheDocument()
+  })
+
+  it('shows a load error in place of the tracker', () => {
+    render(<PromotionTracker summary={null} error="HTTP 503" />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Promotions could not be loaded: HTTP 503')
+    expect(screen.queryByText('Promotion Frequency')).not.toBeInTheDocument()
+  })
+})
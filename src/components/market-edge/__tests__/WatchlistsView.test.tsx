@@ -0,0 +1,114 @@
+/**
+ * WatchlistsView tests
+ * Building a cross-market watchlist, the weekly summary and shared lists
+ */
+
+import React from 'react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
+import { WatchlistsView } from '../WatchlistsView'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import { Competitor, Market, Watchlist, WatchlistSummary } from '@/types/market-edge'
+
+const markets = [
+  { id: 'mkt-1', name: 'London Cinemas', is_active: true },
+  { id: 'mkt-2', name: 'Leeds Cinemas', is_active: true }
+] as Market[]
+
+const competitors: Record<string, Competitor[]> = {
+  'mkt-1': [{ id: 'comp-1', market_id: 'mkt-1', name: 'Starlight' } as Competitor],
+  'mkt-2': [{ id: 'comp-2', market_id: 'mkt-2', name: 'Starlight' } as Competitor]
+}
+
+const shared: Watchlist = {
+  id: 'watchlist-1',
+  organisation_id: 'org-1',
+  name: 'Key accounts',
+  competitor_ids: ['comp-1', 'comp-2'],
+  visibility: 'organisation',
+  created_by: 'user-2',
+  created_by_name: 'Priya Shah',
+  can_edit: false,
+  created_at: '2025-03-01T09:00:00Z'
+}
+
+const summaryFor = (watchlist: Watchlist): WatchlistSummary => ({
+  watchlist,
+  members: [
+    {
+      competitor: competitors['mkt-1'][0],
+      market: markets[0],
+      latest_average_price: 12.5,
+      previous_average_price: 12,
+      price_change_percent: 4.17,
+      currency: 'GBP',
+      unread_alerts: 2
+    },
+    {
+      competitor: competitors['mkt-2'][0],
+      market: markets[1],
+      latest_average_price: 9,
+      previous_average_price: null,
+      price_change_percent: null,
+      currency: 'GBP',
+      unread_alerts: 0
+    }
+  ]
+})
+
+describe('WatchlistsView', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+    jest.spyOn(marketEdgeAPI, 'getMarkets').mockResolvedValue(markets)
+    jest.spyOn(marketEdgeAPI, 'getCompetitors').mockImplementation(async marketId => competitors[marketId])
+    jest.spyOn(marketEdgeAPI, 'getWatchlistSummary')
+      .mockImplementation(async id => summaryFor(id === shared.id ? shared : { ...shared, id, can_edit: true }))
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('shows price, weekly change and unread alerts for a shared list read-only', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWatchlists').mockResolvedValue([shared])
+    render(<WatchlistsView />)
+
+    const rows = await screen.findAllByTestId('watchlist-member')
+    expect(within(rows[0]).getByText('£12.50')).toBeInTheDocument()
+    expect(within(rows[0]).getByText('+4.2%')).toBeInTheDocument()
+    expect(within(rows[0]).getByRole('link', { name: '2' }))
+      .toHaveAttribute('href', '/market-edge?market=mkt-1&tab=alerts')
+    expect(within(rows[1]).getByRole('link', { name: 'Starlight' }))
+      .toHaveAttribute('href', '/market-edge?market=mkt-2&competitor=comp-2')
+
+    expect(screen.getAllByText('Shared by Priya Shah').length).toBeGreaterThan(0)
+    expect(screen.queryByRole('button', { name: 'Edit Key accounts' })).not.toBeInTheDocument()
+    expect(screen.getByText('Only Priya Shah can change this watchlist.')).toBeInTheDocument()
+  })
+
+  it('creates a watchlist from competitors in several markets', async () => {
+    jest.spyOn(marketEdgeAPI, 'getWatchlists').mockResolvedValue([])
+    const create = jest.spyOn(marketEdgeAPI, 'createWatchlist')
+      .mockImplementation(async values => ({ ...shared, ...values, id: 'watchlist-2', can_edit: true }))
+    const onSelect = jest.fn()
+    render(<WatchlistsView onSelect={onSelect} />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'New' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Create watchlist' }))
+    expect(screen.getByText('Name is required')).toBeInTheDocument()
+
+    fireEvent.change(screen.getByLabelText('Name *'), { target: { value: 'Starlight everywhere' } })
+    fireEvent.click(screen.getByLabelText('Starlight in London Cinemas'))
+    fireEvent.click(screen.getByLabelText('Starlight in Leeds Cinemas'))
+    fireEvent.click(screen.getByLabelText('Share with my organisation'))
+    fireEvent.click(screen.getByRole('button', { name: 'Create watchlist' }))
+
+    await waitFor(() => expect(create).toHaveBeenCalledWith({
+      name: 'Starlight everywhere',
+      description: '',
+      competitor_ids: ['comp-1', 'comp-2'],
+      visibility: 'organisation'
+    }))
+    expect(onSelect).toHaveBeenCalledWith('watchlist-2')
+    expect(await screen.findByRole('button', { name: 'Edit Starlight everywhere' })).toBeInTheDocument()
+  })
+})
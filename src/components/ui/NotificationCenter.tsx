@@ -0,0 +1,176 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { Popover, Transition } from '@headlessui/react'
+import {
+  BellIcon,
+  AdjustmentsHorizontalIcon,
+  ChartBarIcon,
+  BuildingOfficeIcon,
+  UserPlusIcon,
+} from '@heroicons/react/24/outline'
+import Link from 'next/link'
+import { useNotifications } from '@/hooks/useNotifications'
+import { NOTIFICATION_CATEGORIES } from '@/services/notifications'
+import { AppNotification, NotificationCategory } from '@/types/api'
+import { formatTimeAgo } from '@/utils/time-ago'
+
+const CATEGORY_ICONS: Record<NotificationCategory, React.ComponentType<{ className?: string }>> = {
+  market_alerts: ChartBarIcon,
+  organisation: BuildingOfficeIcon,
+  invitations: UserPlusIcon,
+}
+
+const SEVERITY_COLORS: Record<NonNullable<AppNotification['severity']>, string> = {
+  critical: 'text-red-600',
+  high: 'text-orange-600',
+  medium: 'text-yellow-600',
+  low: 'text-blue-600',
+}
+
+interface NotificationCenterProps {
+  className?: string
+}
+
+export default function NotificationCenter({ className = '' }: NotificationCenterProps) {
+  const {
+    notifications,
+    unreadCount,
+    muted,
+    markRead,
+    markAllRead,
+    setCategoryMuted,
+  } = useNotifications()
+  const [showPreferences, setShowPreferences] = useState(false)
+
+  return (
+    <Popover className={`relative ${className}`}>
+      <Popover.Button className="relative -m-2.5 p-2.5 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 rounded-full">
+        <span className="sr-only">
+          {unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        </span>
+        <BellIcon className="h-6 w-6" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span
+            className="absolute top-1 right-1 inline-flex min-w-[1.25rem] h-5 items-center justify-center rounded-full bg-red-600 px-1 text-xs font-medium text-white"
+            aria-hidden="true"
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Popover.Button>
+
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="opacity-0 scale-95"
+        enterTo="opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="opacity-100 scale-100"
+        leaveTo="opacity-0 scale-95"
+      >
+        <Popover.Panel className="absolute right-0 z-50 mt-2 w-96 max-w-[calc(100vw-2rem)] rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          {({ close }) => (
+            <>
+              <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+                <h2 className="text-sm font-semibold text-gray-900">Notifications</h2>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={markAllRead}
+                    disabled={unreadCount === 0}
+                    className="text-xs font-medium text-primary-600 hover:text-primary-500 disabled:text-gray-400"
+                  >
+                    Mark all as read
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowPreferences(prev => !prev)}
+                    aria-expanded={showPreferences}
+                    className="p-1 text-gray-400 hover:text-gray-500"
+                  >
+                    <span className="sr-only">Notification preferences</span>
+                    <AdjustmentsHorizontalIcon className="h-5 w-5" aria-hidden="true" />
+                  </button>
+                </div>
+              </div>
+
+              {showPreferences && (
+                <fieldset className="border-b border-gray-200 bg-gray-50 px-4 py-3">
+                  <legend className="sr-only">Notification preferences</legend>
+                  <p className="text-xs font-medium text-gray-500 uppercase mb-2">Show notifications for</p>
+                  {(Object.keys(NOTIFICATION_CATEGORIES) as NotificationCategory[]).map(category => (
+                    <label key={category} className="flex items-center py-0.5 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={muted.indexOf(category) === -1}
+                        onChange={(e) => setCategoryMuted(category, !e.target.checked)}
+                        className="h-4 w-4 mr-2 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                      />
+                      {NOTIFICATION_CATEGORIES[category]}
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+
+              {notifications.length === 0 ? (
+                <div className="px-4 py-8 text-center">
+                  <BellIcon className="mx-auto h-8 w-8 text-gray-300" aria-hidden="true" />
+                  <p className="mt-2 text-sm text-gray-500">You&apos;re all caught up</p>
+                </div>
+              ) : (
+                <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+                  {notifications.map(notification => {
+                    const Icon = CATEGORY_ICONS[notification.category]
+                    const content = (
+                      <div className="flex gap-3">
+                        <Icon
+                          className={`mt-0.5 h-5 w-5 flex-shrink-0 ${
+                            notification.severity ? SEVERITY_COLORS[notification.severity] : 'text-gray-400'
+                          }`}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className={`text-sm text-gray-900 ${notification.is_read ? '' : 'font-semibold'}`}>
+                            {notification.title}
+                          </p>
+                          <p className="text-sm text-gray-500 line-clamp-2">{notification.message}</p>
+                          <p className="mt-1 text-xs text-gray-400">{formatTimeAgo(notification.created_at)}</p>
+                        </div>
+                        {!notification.is_read && (
+                          <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary-600">
+                            <span className="sr-only">Unread</span>
+                          </span>
+                        )}
+                      </div>
+                    )
+                    const itemClass = `block w-full px-4 py-3 text-left hover:bg-gray-50 ${
+                      notification.is_read ? '' : 'bg-primary-50'
+                    }`
+                    const handleOpen = () => {
+                      markRead(notification)
+                      close()
+                    }
+
+                    return (
+                      <li key={notification.id} data-testid="notification-item">
+                        {notification.href ? (
+                          <Link href={notification.href} onClick={handleOpen} className={itemClass}>
+                            {content}
+                          </Link>
+                        ) : (
+                          <button type="button" onClick={() => markRead(notification)} className={itemClass}>
+                            {content}
+                          </button>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </>
+          )}
+        </Popover.Panel>
+      </Transition>
+    </Popover>
+  )
+}
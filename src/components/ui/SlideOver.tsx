@@ -0,0 +1,93 @@
+'use client'
+
+import { Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+
+interface SlideOverProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  description?: React.ReactNode
+  children: React.ReactNode
+  maxWidth?: 'md' | 'lg' | 'xl' | '2xl'
+}
+
+function SlideOver({
+  isOpen,
+  onClose,
+  title,
+  description,
+  children,
+  maxWidth = 'xl'
+}: SlideOverProps) {
+  const maxWidthClasses = {
+    md: 'max-w-md',
+    lg: 'max-w-lg',
+    xl: 'max-w-xl',
+    '2xl': 'max-w-2xl'
+  }
+
+  return (
+    <Transition.Root show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-in-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in-out duration-300"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-hidden">
+          <div className="absolute inset-0 overflow-hidden">
+            <div className="pointer-events-none fixed inset-y-0 right-0 flex max-w-full pl-10">
+              <Transition.Child
+                as={Fragment}
+                enter="transform transition ease-in-out duration-300"
+                enterFrom="translate-x-full"
+                enterTo="translate-x-0"
+                leave="transform transition ease-in-out duration-300"
+                leaveFrom="translate-x-0"
+                leaveTo="translate-x-full"
+              >
+                <Dialog.Panel className={`pointer-events-auto w-screen ${maxWidthClasses[maxWidth]}`}>
+                  <div className="flex h-full flex-col overflow-y-auto bg-white shadow-xl">
+                    <div className="border-b border-gray-200 px-4 py-5 sm:px-6">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <Dialog.Title className="text-lg font-semibold leading-6 text-gray-900">
+                            {title}
+                          </Dialog.Title>
+                          {description && (
+                            <div className="mt-1 text-sm text-gray-500">{description}</div>
+                          )}
+                        </div>
+                        <button
+                          type="button"
+                          className="ml-3 rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                          onClick={onClose}
+                        >
+                          <span className="sr-only">Close panel</span>
+                          <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="relative flex-1 px-4 py-6 sm:px-6">{children}</div>
+                  </div>
+                </Dialog.Panel>
+              </Transition.Child>
+            </div>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
+
+export default SlideOver
+export { SlideOver }
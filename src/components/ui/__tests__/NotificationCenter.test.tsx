@@ -0,0 +1,162 @@
+/**
+ * NotificationCenter tests
+ * Aggregated alerts and invitations, read state, deep links and muting
+ */
+
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react'
+import NotificationCenter from '../NotificationCenter'
+import { apiService } from '@/services/api'
+import { liveMarketEdgeAPI, marketEdgeAPI } from '@/services/market-edge-api'
+import { InvitedUser } from '@/types/api'
+import { Market, MarketAlert } from '@/types/market-edge'
+
+const mockAuth = {
+  user: { id: 'user-123', email: 'admin@example.com', role: 'admin' },
+  hasPermission: (permission: string) => ['read:market_edge', 'read:users'].indexOf(permission) !== -1,
+}
+
+jest.mock('@/hooks/useAuth', () => ({
+  useAuthContext: () => mockAuth,
+}))
+
+jest.mock('@/components/providers/OrganisationProvider', () => ({
+  useOrganisationContext: () => ({
+    currentOrganisation: { id: 'org-1', name: 'Odeon Cinemas UK' },
+    isSuperAdmin: false,
+  }),
+}))
+
+const markets = [
+  { id: 'mkt-1', name: 'London Cinemas' },
+  { id: 'mkt-2', name: 'Leeds Gyms' },
+] as Market[]
+
+const alert = (overrides: Partial<MarketAlert>): MarketAlert => ({
+  id: 'alert-1',
+  market_id: 'mkt-1',
+  organisation_id: 'org-1',
+  alert_type: 'price_change',
+  severity: 'high',
+  title: 'Starlight cut prices',
+  message: 'Adult tickets dropped 12%',
+  is_read: false,
+  created_at: '2025-03-10T09:00:00Z',
+  ...overrides,
+})
+
+const alerts = [
+  alert({ trigger_data: { competitor_id: 'comp-7' } }),
+  alert({ id: 'alert-2', market_id: 'mkt-2', title: 'Unusual price', alert_type: 'anomaly', created_at: '2025-03-09T09:00:00Z' }),
+  alert({ id: 'alert-3', title: 'Snoozed alert', snoozed_until: '2099-01-01T00:00:00Z' }),
+]
+
+const users: InvitedUser[] = [
+  {
+    id: 'user-9',
+    email: 'sam@example.com',
+    first_name: 'Sam',
+    last_name: 'Lee',
+    invitation_status: 'accepted',
+    invitation_accepted_at: '2025-03-11T09:00:00Z',
+    created_at: '2025-03-01T09:00:00Z',
+  },
+  {
+    id: 'user-10',
+    email: 'pending@example.com',
+    first_name: 'Pat',
+    last_name: 'Kim',
+    invitation_status: 'pending',
+    created_at: '2025-03-01T09:00:00Z',
+  },
+]
+
+const storedState = () => JSON.parse(localStorage.getItem('notification-center:user-123') || '{}')
+
+const openCenter = async (unread: number) => {
+  fireEvent.click(await screen.findByRole('button', { name: `Notifications, ${unread} unread` }))
+}
+
+describe('NotificationCenter', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+    localStorage.setItem('notification-center:user-123', JSON.stringify({
+      read_ids: [], muted: [], events: [], since: '2025-03-01T00:00:00Z',
+    }))
+    jest.spyOn(liveMarketEdgeAPI, 'getMarkets').mockResolvedValue(markets)
+    jest.spyOn(liveMarketEdgeAPI, 'getAlerts').mockResolvedValue(alerts)
+    jest.spyOn(apiService, 'get').mockResolvedValue(users)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('aggregates alerts and accepted invitations with deep links', async () => {
+    render(<NotificationCenter />)
+    await openCenter(3)
+
+    const items = screen.getAllByTestId('notification-item')
+    expect(items.map(item => item.textContent)).toEqual([
+      expect.stringContaining('Sam Lee joined'),
+      expect.stringContaining('London Cinemas: Starlight cut prices'),
+      expect.stringContaining('Leeds Gyms: Unusual price'),
+    ])
+    expect(apiService.get).toHaveBeenCalledWith('/organizations/org-1/users/')
+    expect(screen.getByText('London Cinemas: Starlight cut prices').closest('a'))
+      .toHaveAttribute('href', '/market-edge?market=mkt-1&mode=live&competitor=comp-7')
+    expect(screen.getByText('Leeds Gyms: Unusual price').closest('a'))
+      .toHaveAttribute('href', '/market-edge?market=mkt-2&mode=live&tab=alerts')
+    expect(screen.queryByText(/Snoozed alert/)).not.toBeInTheDocument()
+  })
+
+  it('reads alerts from the live backend even with Test Data on', async () => {
+    marketEdgeAPI.setDataMode('test')
+    const testDataAlerts = jest.spyOn(marketEdgeAPI, 'getAlerts')
+    render(<NotificationCenter />)
+    await openCenter(3)
+
+    expect(liveMarketEdgeAPI.getAlerts).toHaveBeenCalled()
+    expect(testDataAlerts).not.toHaveBeenCalled()
+    expect(marketEdgeAPI.dataMode).toBe('test')
+    marketEdgeAPI.setDataMode('live')
+  })
+
+  it('marks single items and everything as read', async () => {
+    const markAlertRead = jest.spyOn(liveMarketEdgeAPI, 'markAlertRead').mockResolvedValue()
+    const bulk = jest.spyOn(liveMarketEdgeAPI, 'bulkUpdateAlerts').mockResolvedValue([])
+    render(<NotificationCenter />)
+    await openCenter(3)
+
+    fireEvent.click(screen.getByText('London Cinemas: Starlight cut prices'))
+    expect(markAlertRead).toHaveBeenCalledWith('alert-1')
+    await openCenter(2)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark all as read' }))
+    expect(bulk).toHaveBeenCalledWith(['alert-2'], 'mark_read')
+    expect(storedState().read_ids).toEqual(['invitation:user-9'])
+    expect(await screen.findByRole('button', { name: 'Notifications' })).toBeInTheDocument()
+  })
+
+  it('records organisation switches and mutes categories', async () => {
+    render(<NotificationCenter />)
+    await openCenter(3)
+
+    const [, handleOrganizationChange] = (window.addEventListener as jest.Mock).mock.calls
+      .filter(([event]) => event === 'organizationChanged')
+      .pop()
+    act(() => {
+      handleOrganizationChange(new CustomEvent('organizationChanged', {
+        detail: { organizationId: 'org-2', organization: { id: 'org-2', name: 'Premier Hotels Group' } },
+      }))
+    })
+    expect(screen.getByText('Switched to Premier Hotels Group')).toBeInTheDocument()
+    expect(storedState().events).toHaveLength(1)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Notification preferences' }))
+    fireEvent.click(screen.getByLabelText('Market alerts'))
+
+    await waitFor(() => expect(screen.getAllByTestId('notification-item')).toHaveLength(2))
+    expect(screen.queryByText(/Starlight cut prices/)).not.toBeInTheDocument()
+    expect(storedState().muted).toEqual(['market_alerts'])
+  })
+})
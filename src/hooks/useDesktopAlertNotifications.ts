@@ -0,0 +1,30 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuthContext } from '@/hooks/useAuth'
+import {
+  getDesktopNotificationPreferences,
+  notifyDesktop
+} from '@/services/market-edge-desktop-notifications'
+import { MarketEdgeDataMode } from '@/services/market-edge-data-source'
+import { Market, MarketAlert } from '@/types/market-edge'
+
+/**
+ * Returns a function that raises desktop notifications for newly arrived
+ * alerts using the signed-in user's saved preferences. Preferences are read
+ * on every call so changes in Settings apply straight away. The function
+ * returns the alerts that could not be shown for lack of permission.
+ */
+export const useDesktopAlertNotifications = () => {
+  const { user } = useAuthContext()
+  const router = useRouter()
+
+  return useCallback((alerts: MarketAlert[], markets: Pick<Market, 'id' | 'name'>[], dataMode: MarketEdgeDataMode) =>
+    notifyDesktop(alerts, {
+      preferences: getDesktopNotificationPreferences(user?.id),
+      markets,
+      dataMode,
+      onOpen: href => router.push(href)
+    }), [user?.id, router])
+}
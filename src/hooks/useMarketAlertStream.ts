@@ -0,0 +1,52 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { MarketAlert } from '@/types/market-edge'
+import { MarketEdgeDataMode } from '@/services/market-edge-data-source'
+import {
+  AlertStreamStatus,
+  subscribeToMarketAlerts
+} from '@/services/market-edge-alert-stream'
+
+/**
+ * Subscribes to new alerts for a market while `enabled`. Enable it once the
+ * market's alerts have loaded so they count as already seen; alerts passed
+ * in later are read when the subscription (re)starts. Resubscribes when the
+ * market or data mode changes.
+ */
+export const useMarketAlertStream = ({
+  marketId,
+  dataMode,
+  enabled,
+  knownAlerts,
+  onAlerts
+}: {
+  marketId: string | null
+  dataMode: MarketEdgeDataMode
+  enabled: boolean
+  knownAlerts: MarketAlert[]
+  onAlerts: (alerts: MarketAlert[]) => void
+}): AlertStreamStatus => {
+  const [status, setStatus] = useState<AlertStreamStatus>('closed')
+  const knownAlertsRef = useRef(knownAlerts)
+  const onAlertsRef = useRef(onAlerts)
+  knownAlertsRef.current = knownAlerts
+  onAlertsRef.current = onAlerts
+
+  useEffect(() => {
+    if (!marketId || !enabled) {
+      setStatus('closed')
+      return
+    }
+
+    const subscription = subscribeToMarketAlerts({
+      marketId,
+      knownAlertIds: knownAlertsRef.current.map(a => a.id),
+      onAlerts: alerts => onAlertsRef.current(alerts),
+      onStatusChange: setStatus
+    })
+    return () => subscription.close()
+  }, [marketId, dataMode, enabled])
+
+  return status
+}
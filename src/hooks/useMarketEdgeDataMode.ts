@@ -0,0 +1,43 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuthContext } from '@/hooks/useAuth'
+import { marketEdgeAPI } from '@/services/market-edge-api'
+import {
+  MarketEdgeDataMode,
+  getStoredDataMode,
+  storeDataMode
+} from '@/services/market-edge-data-source'
+
+const DEFAULT_DATA_MODE: MarketEdgeDataMode = 'test'
+
+/**
+ * Keeps the Market Edge Test/Live toggle, the active API data source and the
+ * user's saved preference in sync. `isReady` stays false until the stored
+ * preference has been applied, so data loading can wait for the right source.
+ */
+export const useMarketEdgeDataMode = () => {
+  const { user } = useAuthContext()
+  const [dataMode, setDataModeState] = useState<MarketEdgeDataMode>(DEFAULT_DATA_MODE)
+  const [isReady, setIsReady] = useState(false)
+
+  useEffect(() => {
+    const mode = getStoredDataMode(user?.id) || DEFAULT_DATA_MODE
+    marketEdgeAPI.setDataMode(mode)
+    setDataModeState(mode)
+    setIsReady(true)
+  }, [user?.id])
+
+  const setDataMode = useCallback((mode: MarketEdgeDataMode) => {
+    marketEdgeAPI.setDataMode(mode)
+    storeDataMode(mode, user?.id)
+    setDataModeState(mode)
+  }, [user?.id])
+
+  return {
+    dataMode,
+    isDummyMode: dataMode === 'test',
+    setDummyMode: (enabled: boolean) => setDataMode(enabled ? 'test' : 'live'),
+    isReady
+  }
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import toast from 'react-hot-toast'
+import { useAuthContext } from '@/hooks/useAuth'
+import { useDesktopAlertNotifications } from '@/hooks/useDesktopAlertNotifications'
+import { useOrganisationContext } from '@/components/providers/OrganisationProvider'
+import { liveMarketEdgeAPI } from '@/services/market-edge-api'
+import {
+  NotificationState,
+  emptyNotificationState,
+  fetchAlertNotifications,
+  fetchInvitationNotifications,
+  getNotificationState,
+  mergeNotifications,
+  organisationSwitchNotification,
+  storeNotificationState
+} from '@/services/notifications'
+import { AppNotification, NotificationCategory } from '@/types/api'
+import { MarketAlert } from '@/types/market-edge'
+
+const REFRESH_INTERVAL_MS = 60000
+
+// In-app fallback for alerts that could not be shown on the desktop
+const showAlertToast = (alert: MarketAlert) => {
+  toast(`${alert.severity.toUpperCase()}: ${alert.title}`, { icon: '🔔' })
+}
+
+/**
+ * Feeds the header notification center: alerts from every market the user
+ * can access, accepted invitations for those who can see users, and
+ * organisation switches recorded in this browser. Alerts are marked read on
+ * the server; everything else is remembered per user in local storage.
+ * Alerts that appear after the first load also raise desktop notifications.
+ * Alerts always come from the live backend, whatever the Market Edge
+ * Test/Live toggle is set to.
+ */
+export const useNotifications = () => {
+  const { user, hasPermission } = useAuthContext()
+  const { currentOrganisation, isSuperAdmin } = useOrganisationContext()
+  const [state, setState] = useState<NotificationState>(() => emptyNotificationState())
+  const [remote, setRemote] = useState<AppNotification[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  // Alert ids from the previous load; null until the first one completes
+  const knownAlertIds = useRef<string[] | null>(null)
+  const notifyDesktop = useDesktopAlertNotifications()
+  const notifyDesktopRef = useRef(notifyDesktop)
+  notifyDesktopRef.current = notifyDesktop
+
+  const canReadAlerts = hasPermission('read:market_edge')
+  const canReadUsers = hasPermission('read:users')
+  const usersEndpoint = isSuperAdmin
+    ? '/users/'
+    : currentOrganisation ? `/organizations/${currentOrganisation.id}/users/` : null
+
+  useEffect(() => {
+    setState(getNotificationState(user?.id))
+  }, [user?.id])
+
+  const updateState = useCallback((update: (prev: NotificationState) => NotificationState) => {
+    setState(prev => {
+      const next = update(prev)
+      storeNotificationState(next, user?.id)
+      return next
+    })
+  }, [user?.id])
+
+  const refresh = useCallback(async () => {
+    if (!user) return
+    setIsLoading(true)
+    const [alerts, invitations] = await Promise.all([
+      canReadAlerts ? fetchAlertNotifications() : Promise.resolve({ alerts: [], markets: [], notifications: [] }),
+      canReadUsers && usersEndpoint ? fetchInvitationNotifications(usersEndpoint) : Promise.resolve([])
+    ])
+    setRemote([...alerts.notifications, ...invitations])
+    setIsLoading(false)
+
+    const known = knownAlertIds.current
+    knownAlertIds.current = alerts.alerts.map(alert => alert.id)
+    if (known) {
+      const arrived = alerts.alerts.filter(alert => known.indexOf(alert.id) === -1)
+      notifyDesktopRef.current(arrived, alerts.markets, 'live').forEach(showAlertToast)
+    }
+  }, [user, canReadAlerts, canReadUsers, usersEndpoint])
+
+  useEffect(() => {
+    // A different user: nothing loaded so far counts as seen
+    knownAlertIds.current = null
+    refresh()
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  useEffect(() => {
+    const handleOrganizationChange = (event: Event) => {
+      const organization = (event as CustomEvent).detail?.organization
+      if (!organization) return
+      updateState(prev => ({
+        ...prev,
+        events: [organisationSwitchNotification(organization), ...prev.events]
+      }))
+    }
+
+    window.addEventListener('organizationChanged', handleOrganizationChange)
+    return () => window.removeEventListener('organizationChanged', handleOrganizationChange)
+  }, [updateState])
+
+  const notifications = useMemo(
+    () => mergeNotifications([...remote, ...state.events], state),
+    [remote, state]
+  )
+
+  const rememberRead = useCallback((ids: string[]) => {
+    if (ids.length === 0) return
+    updateState(prev => ({ ...prev, read_ids: [...prev.read_ids, ...ids] }))
+  }, [updateState])
+
+  const setAlertsRead = (ids: string[]) => {
+    setRemote(prev => prev.map(item => ids.indexOf(item.id) === -1 ? item : { ...item, is_read: true }))
+  }
+
+  const markRead = useCallback(async (notification: AppNotification) => {
+    if (notification.is_read) return
+    if (notification.category !== 'market_alerts') {
+      rememberRead([notification.id])
+      return
+    }
+
+    setAlertsRead([notification.id])
+    try {
+      await liveMarketEdgeAPI.markAlertRead(notification.source_id!)
+    } catch (error) {
+      console.warn('Failed to mark alert as read:', error)
+      rememberRead([notification.id])
+    }
+  }, [rememberRead])
+
+  const markAllRead = useCallback(async () => {
+    const unread = notifications.filter(n => !n.is_read)
+    const alerts = unread.filter(n => n.category === 'market_alerts')
+    rememberRead(unread.filter(n => n.category !== 'market_alerts').map(n => n.id))
+    if (alerts.length === 0) return
+
+    setAlertsRead(alerts.map(n => n.id))
+    try {
+      await liveMarketEdgeAPI.bulkUpdateAlerts(alerts.map(n => n.source_id!), 'mark_read')
+    } catch (error) {
+      console.warn('Failed to mark alerts as read:', error)
+      rememberRead(alerts.map(n => n.id))
+    }
+  }, [notifications, rememberRead])
+
+  const setCategoryMuted = useCallback((category: NotificationCategory, muted: boolean) => {
+    updateState(prev => ({
+      ...prev,
+      muted: muted
+        ? [...prev.muted.filter(c => c !== category), category]
+        : prev.muted.filter(c => c !== category)
+    }))
+  }, [updateState])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.is_read).length,
+    muted: state.muted,
+    isLoading,
+    refresh,
+    markRead,
+    markAllRead,
+    setCategoryMuted
+  }
+}
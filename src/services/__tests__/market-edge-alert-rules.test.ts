@@ -0,0 +1,102 @@
+/**
+ * Alert rule tests
+ * Validation, descriptions and the 90 day backtest over historical pricing
+ */
+
+import {
+  DEFAULT_ALERT_RULE,
+  backtestAlertRule,
+  describeAlertRule,
+  validateAlertRule
+} from '../market-edge-alert-rules'
+import { windowFromDateRange } from '../market-edge-analytics'
+import { AlertRuleInput, Competitor, PricingData } from '@/types/market-edge'
+
+const competitors = [
+  { id: 'comp-1', name: 'Starlight' },
+  { id: 'comp-2', name: 'Lumiere' }
+] as Competitor[]
+
+let sequence = 0
+const price = (competitor_id: string, day: string, price_point: number, overrides: Partial<PricingData> = {}): PricingData => ({
+  id: `price-${++sequence}`,
+  competitor_id,
+  market_id: 'mkt-1',
+  product_service: 'Adult Ticket',
+  price_point,
+  currency: 'GBP',
+  date_collected: `${day}T12:00:00Z`,
+  is_promotion: false,
+  created_at: `${day}T12:00:00Z`,
+  ...overrides
+})
+
+// Daily prices for March; Starlight cuts from £12 to £10 on the 15th
+const pricing: PricingData[] = []
+for (let day = 1; day <= 31; day++) {
+  const date = `2025-03-${String(day).padStart(2, '0')}`
+  pricing.push(price('comp-1', date, day < 15 ? 12 : 10))
+  pricing.push(price('comp-2', date, 15))
+}
+pricing.push(price('comp-2', '2025-03-20', 3, { product_service: 'Popcorn' }))
+pricing.push(price('comp-1', '2025-03-18', 5, { is_promotion: true }))
+
+const window = windowFromDateRange('2025-03-01', '2025-03-31')
+
+const rule = (overrides: Partial<AlertRuleInput>): AlertRuleInput => ({
+  ...DEFAULT_ALERT_RULE,
+  name: 'Price cut',
+  ...overrides
+})
+
+describe('validateAlertRule', () => {
+  it('requires a name, a window within 90 days and a numeric threshold', () => {
+    expect(validateAlertRule(rule({}))).toBeNull()
+    expect(validateAlertRule(rule({ name: ' ' }))).toBe('Name is required')
+    expect(validateAlertRule(rule({ window_days: 120 }))).toBe('Window must be between 1 and 90 days')
+    expect(validateAlertRule(rule({ threshold: NaN }))).toBe('Threshold must be a number')
+    expect(validateAlertRule(rule({ metric: 'new_competitor', threshold: NaN }))).toBeNull()
+  })
+})
+
+describe('describeAlertRule', () => {
+  it('summarises the condition', () => {
+    expect(describeAlertRule(rule({ competitor_id: 'comp-1', product_service: 'Adult Ticket' }), competitors))
+      .toBe('Starlight · Adult Ticket · Price change < -5% over 7 days')
+    expect(describeAlertRule(rule({ metric: 'average_price', operator: 'gt', threshold: 14 }), competitors, 'GBP'))
+      .toBe('Any competitor · Average price > £14.00 over 7 days')
+  })
+})
+
+describe('backtestAlertRule', () => {
+  it('fires once when a competitor drops price past the threshold', () => {
+    const matches = backtestAlertRule(rule({ product_service: 'Adult Ticket' }), pricing, competitors, window)
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({
+      competitor_id: 'comp-1',
+      severity: 'medium',
+      title: 'Price cut',
+      triggered_at: '2025-03-18T00:00:00.000Z'
+    })
+    expect(matches[0].value).toBeLessThan(-5)
+    expect(matches[0].message).toMatch(/^Starlight cut Adult Ticket prices by \d+\.\d% over 7 days$/)
+  })
+
+  it('respects the competitor scope and operator', () => {
+    expect(backtestAlertRule(rule({ competitor_id: 'comp-2' }), pricing, competitors, window)).toEqual([])
+    const matches = backtestAlertRule(
+      rule({ metric: 'average_price', operator: 'gte', threshold: 15, product_service: 'Adult Ticket' }),
+      pricing, competitors, window, 'GBP'
+    )
+    expect(matches.map(m => m.competitor_name)).toEqual(['Lumiere'])
+    expect(matches[0].message).toBe('Lumiere Adult Ticket prices averaged £15.00 over 7 days')
+  })
+
+  it('reports products first seen after tracking began', () => {
+    const matches = backtestAlertRule(rule({ metric: 'new_product' }), pricing, competitors, window)
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ competitor_name: 'Lumiere', product_service: 'Popcorn' })
+    expect(backtestAlertRule(rule({ metric: 'new_competitor' }), pricing, competitors, window)).toEqual([])
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Live alert stream tests
+ * Stream delivery and deduplication, the polling fallback, and the payloads
+ * sent by the local mock stream server
+ */
+
+import net, { AddressInfo } from 'net'
+import {
+  AlertEventSource,
+  AlertStreamStatus,
+  parseAlertEvent,
+  subscribeToMarketAlerts
+} from '../market-edge-alert-stream'
+import Cookies from 'js-cookie'
+import { HttpDataSource } from '../market-edge-data-source'
+import { MarketAlert } from '@/types/market-edge'
+import { createMockAlertStreamServer } from '../../../scripts/mock-alert-stream'
+
+const alert = (id: string, created_at = '2026-03-01T09:00:00Z'): MarketAlert => ({
+  id,
+  organisation_id: 'org-1',
+  market_id: 'mkt-1',
+  alert_type: 'price_change',
+  severity: 'medium',
+  title: `Alert ${id}`,
+  message: 'Prices moved',
+  trigger_data: {},
+  is_read: false,
+  created_at
+})
+
+class FakeEventSource implements AlertEventSource {
+  onopen: ((event: Event) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  closed = false
+  private listeners: Record<string, (event: MessageEvent) => void> = {}
+
+  constructor(public url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners[type] = listener
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  open() {
+    this.onopen?.(new Event('open'))
+  }
+
+  fail() {
+    this.onerror?.(new Event('error'))
+  }
+
+  emit(payload: unknown) {
+    this.listeners.alert?.(new MessageEvent('alert', { data: JSON.stringify(payload) }))
+  }
+}
+
+// The test setup stubs document.addEventListener, so call the handler the
+// subscription registered
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state })
+  const registration = (document.addEventListener as jest.Mock).mock.calls
+    .filter(([type]) => type === 'visibilitychange')
+    .pop()
+  registration?.[1](new Event('visibilitychange'))
+}
+
+describe('subscribeToMarketAlerts', () => {
+  let sources: FakeEventSource[]
+  let statuses: AlertStreamStatus[]
+  let fetchUnread: jest.Mock<Promise<MarketAlert[]>, []>
+
+  // Resolves once the first connection attempt has been made
+  const subscribe = async (overrides = {}) => {
+    const onAlerts = jest.fn()
+    const subscription = subscribeToMarketAlerts({
+      marketId: 'mkt-1',
+      onAlerts,
+      onStatusChange: status => statuses.push(status),
+      knownAlertIds: ['known'],
+      getStreamUrl: async () => 'http://stream.test/markets/mkt-1/alerts/stream?ticket=t1',
+      pollIntervalMs: 1000,
+      reconnectDelayMs: 5000,
+      createEventSource: url => {
+        const source = new FakeEventSource(url)
+        sources.push(source)
+        return source
+      },
+      fetchUnread,
+      ...overrides
+    })
+    await jest.advanceTimersByTimeAsync(0)
+    return { onAlerts, subscription }
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    sources = []
+    statuses = []
+    fetchUnread = jest.fn().mockResolvedValue([])
+    setVisibility('visible')
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('delivers streamed alerts once, skipping ones already shown', async () => {
+    const { onAlerts, subscription } = await subscribe()
+    sources[0].open()
+    await jest.advanceTimersByTimeAsync(0)
+    expect(subscription.status).toBe('live')
+
+    sources[0].emit([alert('known'), alert('a1', '2026-03-01T09:00:00Z'), alert('a2', '2026-03-01T10:00:00Z')])
+    sources[0].emit(alert('a1'))
+
+    expect(onAlerts).toHaveBeenCalledTimes(1)
+    expect(onAlerts.mock.calls[0][0].map((a: MarketAlert) => a.id)).toEqual(['a2', 'a1'])
+    subscription.close()
+  })
+
+  it('catches up on unread alerts when the stream opens', async () => {
+    fetchUnread.mockResolvedValue([alert('known'), alert('missed')])
+    const { onAlerts, subscription } = await subscribe()
+    sources[0].open()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(onAlerts).toHaveBeenCalledWith([expect.objectContaining({ id: 'missed' })])
+    subscription.close()
+  })
+
+  it('falls back to polling when the stream fails and reconnects later', async () => {
+    const { onAlerts, subscription } = await subscribe()
+    sources[0].fail()
+    expect(sources[0].closed).toBe(true)
+    expect(subscription.status).toBe('polling')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(fetchUnread).toHaveBeenCalledTimes(1)
+
+    fetchUnread.mockResolvedValue([alert('p1')])
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(onAlerts).toHaveBeenCalledWith([expect.objectContaining({ id: 'p1' })])
+
+    // The same alert on the next poll is not announced again
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(onAlerts).toHaveBeenCalledTimes(1)
+
+    await jest.advanceTimersByTimeAsync(3000)
+    expect(sources).toHaveLength(2)
+    sources[1].open()
+    await jest.advanceTimersByTimeAsync(0)
+    const callsWhenLive = fetchUnread.mock.calls.length
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(fetchUnread).toHaveBeenCalledTimes(callsWhenLive)
+    expect(statuses).toEqual(['connecting', 'polling', 'live'])
+    subscription.close()
+  })
+
+  it('polls only while the page is visible', async () => {
+    const { subscription } = await subscribe({ getStreamUrl: async () => null })
+    expect(subscription.status).toBe('polling')
+    expect(fetchUnread).toHaveBeenCalledTimes(1)
+
+    setVisibility('hidden')
+    await jest.advanceTimersByTimeAsync(3000)
+    expect(fetchUnread).toHaveBeenCalledTimes(1)
+
+    setVisibility('visible')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(fetchUnread).toHaveBeenCalledTimes(2)
+    subscription.close()
+  })
+
+  it('fetches a new stream url for every connection and polls while none is issued', async () => {
+    const getStreamUrl = jest.fn()
+      .mockRejectedValueOnce(new Error('HTTP 503'))
+      .mockResolvedValue('http://stream.test/markets/mkt-1/alerts/stream?ticket=t2')
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const { subscription } = await subscribe({ getStreamUrl })
+
+    expect(sources).toHaveLength(0)
+    expect(subscription.status).toBe('polling')
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(getStreamUrl).toHaveBeenCalledTimes(2)
+    expect(sources.map(source => source.url)).toEqual(['http://stream.test/markets/mkt-1/alerts/stream?ticket=t2'])
+    subscription.close()
+    warn.mockRestore()
+  })
+
+  it('stops everything when closed', async () => {
+    const { subscription } = await subscribe()
+    sources[0].fail()
+    await jest.advanceTimersByTimeAsync(0)
+    subscription.close()
+    const calls = fetchUnread.mock.calls.length
+
+    await jest.advanceTimersByTimeAsync(10000)
+    expect(fetchUnread).toHaveBeenCalledTimes(calls)
+    expect(sources).toHaveLength(1)
+    expect(subscription.status).toBe('closed')
+  })
+})
+
+describe('parseAlertEvent', () => {
+  it('ignores malformed payloads', () => {
+    expect(parseAlertEvent('not json')).toEqual([])
+    expect(parseAlertEvent(JSON.stringify({ title: 'no id' }))).toEqual([])
+  })
+
+  it('reads alerts sent by the mock stream server', async () => {
+    const server = createMockAlertStreamServer({ intervalMs: 60000 })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+
+    // A raw socket sidesteps the request interception in the test setup;
+    // HTTP/1.0 keeps the response unchunked
+    const send = (request: string) => new Promise<string>((resolve, reject) => {
+      let received = ''
+      const socket = net.connect(port, '127.0.0.1', () => socket.write(`${request} HTTP/1.0\r\n\r\n`))
+      socket.setEncoding('utf8')
+      socket.on('data', chunk => {
+        received += chunk
+        if (received.includes('\n\n', received.indexOf('\r\n\r\n') + 4)) {
+          socket.destroy()
+          resolve(received)
+        }
+      })
+      socket.on('end', () => resolve(received))
+      socket.on('error', reject)
+    })
+    const streamPath = '/api/v1/market-edge/markets/mkt-9/alerts/stream'
+
+    const { ticket } = JSON.parse((await send(`POST ${streamPath}/ticket`)).split('\r\n\r\n')[1])
+    const response = await send(`GET ${streamPath}?ticket=${ticket}`)
+    // Tickets are single-use
+    const reused = await send(`GET ${streamPath}?ticket=${ticket}`)
+    await new Promise(resolve => server.close(resolve))
+
+    expect(reused).toMatch(/^HTTP\/1\.1 401/)
+    const [head, body] = response.split('\r\n\r\n')
+    expect(head).toMatch(/content-type: text\/event-stream/i)
+    const [eventLine, dataLine] = body.split('\n')
+    expect(eventLine).toBe('event: alert')
+    expect(parseAlertEvent(dataLine.replace(/^data: /, ''))).toEqual([
+      expect.objectContaining({ market_id: 'mkt-9', is_read: false })
+    ])
+  })
+})
+
+describe('HttpDataSource.streamUrl', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('opens streams with a single-use ticket instead of the session token', async () => {
+    jest.spyOn(Cookies, 'get').mockReturnValue('session-token' as any)
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 201,
+      json: async () => ({ ticket: 'ticket 1', expires_at: '2026-03-01T09:00:30Z' })
+    } as Response)
+
+    const url = await new HttpDataSource().streamUrl('/markets/mkt-1/alerts/stream')
+
+    expect(url).toBe('http://localhost:8000/api/v1/market-edge/markets/mkt-1/alerts/stream?ticket=ticket%201')
+    expect(url).not.toContain('session-token')
+    const [ticketUrl, init] = fetchMock.mock.calls[0]
+    expect(ticketUrl).toBe('http://localhost:8000/api/v1/market-edge/markets/mkt-1/alerts/stream/ticket')
+    expect(init).toEqual(expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ Authorization: 'Bearer session-token' })
+    }))
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Chart annotation tests
+ * Validation and placing annotations on trend chart periods
+ */
+
+import {
+  annotationMarkers,
+  markerLabel,
+  validateAnnotation
+} from '../market-edge-annotations'
+import { ChartAnnotation } from '@/types/market-edge'
+
+let nextAnnotation = 0
+const annotation = (date: string, label: string): ChartAnnotation => ({
+  id: `annotation-${++nextAnnotation}`,
+  market_id: 'mkt-1',
+  date,
+  label,
+  created_by: 'user-1',
+  can_edit: true,
+  created_at: `2025-03-${String(10 + nextAnnotation).padStart(2, '0')}T09:00:00Z`
+})
+
+const week = (date: string) => ({ timestamp: new Date(`${date}T00:00:00Z`).getTime() })
+
+describe('chart annotations', () => {
+  it('validates the date and label', () => {
+    expect(validateAnnotation({ date: '2025-03-10', label: 'VAT rise' })).toBeNull()
+    expect(validateAnnotation({ date: '', label: 'VAT rise' })).toBe('Choose the date of the event')
+    expect(validateAnnotation({ date: '2025-02-30x', label: 'VAT rise' })).toBe('Choose the date of the event')
+    expect(validateAnnotation({ date: '2025-03-10', label: ' ' })).toBe('Label is required')
+    expect(validateAnnotation({ date: '2025-03-10', label: 'x'.repeat(61) })).toMatch(/60 characters/)
+  })
+
+  it('places annotations on the period containing their date', () => {
+    // Weekly points start on Mondays
+    const points = [week('2025-03-03'), week('2025-03-10'), week('2025-03-17')]
+    const launch = annotation('2025-03-12', 'Launch')
+    const tax = annotation('2025-03-10', 'Tax change')
+    const markers = annotationMarkers([launch, tax, annotation('2025-02-01', 'Too early')], points, 'week')
+
+    expect(markers).toEqual([{ timestamp: points[1].timestamp, annotations: [tax, launch] }])
+    expect(markerLabel(markers[0])).toBe('2 notes')
+  })
+
+  it('uses the label when a period has one annotation', () => {
+    const points = [week('2025-03-01'), week('2025-04-01')]
+    const [marker] = annotationMarkers([annotation('2025-04-15', 'Refit')], points, 'month')
+
+    expect(marker.timestamp).toBe(points[1].timestamp)
+    expect(markerLabel(marker)).toBe('Refit')
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Market Edge currency tests
+ * Dated FX conversion, normalisation before aggregation and rate table uploads
+ */
+
+import {
+  createCurrencyConverter,
+  formatPrice,
+  normalisePricing,
+  parseRateTable
+} from '../market-edge-currency'
+import { computeCompetitorComparison, windowFromDateRange } from '../market-edge-analytics'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import { CompetitorComparison, Competitor, MarketMetrics, PricingData } from '@/types/market-edge'
+
+const price = (overrides: Partial<PricingData>): PricingData => ({
+  id: 'p',
+  competitor_id: 'c1',
+  market_id: 'm1',
+  product_service: 'Adult Ticket',
+  price_point: 10,
+  currency: 'GBP',
+  date_collected: '2025-03-10T00:00:00Z',
+  source: 'manual_entry',
+  is_promotion: false,
+  created_at: '2025-03-10T00:00:00Z',
+  ...overrides
+})
+
+const settings = {
+  base_currency: 'GBP',
+  rates: [
+    { currency: 'USD', rate: 0.8, effective_date: '2025-01-01' },
+    { currency: 'USD', rate: 0.75, effective_date: '2025-03-01' },
+    { currency: 'EUR', rate: 0.85 }
+  ]
+}
+
+describe('createCurrencyConverter', () => {
+  const converter = createCurrencyConverter(settings)
+
+  it('uses the latest rate in effect on the collection date', () => {
+    expect(converter.convert(10, 'USD', '2025-02-15T12:00:00Z')).toBe(8)
+    expect(converter.convert(10, 'USD', '2025-03-01T00:00:00Z')).toBe(7.5)
+  })
+
+  it('falls back to the earliest rate for older prices', () => {
+    expect(converter.convert(10, 'usd', '2024-06-01')).toBe(8)
+  })
+
+  it('returns base amounts unchanged and null without a rate', () => {
+    expect(converter.convert(12.34, 'GBP')).toBe(12.34)
+    expect(converter.convert(10, 'JPY')).toBeNull()
+    expect(converter.canConvert('EUR')).toBe(true)
+    expect(converter.canConvert('JPY')).toBe(false)
+  })
+})
+
+describe('normalisePricing', () => {
+  it('converts rows and keeps the original amount', () => {
+    const { pricing, excludedCurrencies } = normalisePricing([
+      price({ id: 'a', price_point: 10 }),
+      price({ id: 'b', price_point: 20, currency: 'USD' }),
+      price({ id: 'c', price_point: 5000, currency: 'JPY' })
+    ], createCurrencyConverter(settings))
+
+    expect(pricing.map(p => p.id)).toEqual(['a', 'b'])
+    expect(pricing[1]).toMatchObject({
+      price_point: 15,
+      currency: 'GBP',
+      original_price_point: 20,
+      original_currency: 'USD'
+    })
+    expect(excludedCurrencies).toEqual(['JPY'])
+  })
+
+  it('keeps original averages for competitors priced in a single foreign currency', () => {
+    const competitors = [{ id: 'c1', name: 'Cinema USA' }, { id: 'c2', name: 'Cinema UK' }] as Competitor[]
+    const { pricing } = normalisePricing([
+      price({ id: 'a', competitor_id: 'c1', price_point: 20, currency: 'USD' }),
+      price({ id: 'b', competitor_id: 'c1', price_point: 40, currency: 'USD' }),
+      price({ id: 'c', competitor_id: 'c2', price_point: 12 })
+    ], createCurrencyConverter(settings))
+
+    const comparison = computeCompetitorComparison(
+      'm1', pricing, competitors, windowFromDateRange('2025-03-01', '2025-03-14')
+    )
+    expect(comparison.competitors.c1).toMatchObject({
+      average_price: 22.5,
+      original_currency: 'USD',
+      original_average_price: 30
+    })
+    expect(comparison.competitors.c2.original_currency).toBeUndefined()
+  })
+})
+
+describe('parseRateTable', () => {
+  it('reads currency, rate and optional effective date columns', () => {
+    const result = parseRateTable('Currency,Rate,Effective Date\nusd,0.79,2025-03-01\nEUR,0.85,\n', 'GBP')
+    expect(result.errors).toEqual([])
+    expect(result.rates).toEqual([
+      { currency: 'USD', rate: 0.79, effective_date: '2025-03-01' },
+      { currency: 'EUR', rate: 0.85 }
+    ])
+  })
+
+  it('reports bad rows by line number', () => {
+    const result = parseRateTable('currency\trate\nGBP\t1\nUS\t2\nCAD\t-1\n', 'GBP')
+    expect(result.rates).toEqual([])
+    expect(result.errors).toEqual([
+      'Row 2: GBP is the base currency',
+      'Row 3: invalid currency "US"',
+      'Row 4: rate must be a positive number'
+    ])
+  })
+
+  it('requires currency and rate headers', () => {
+    expect(parseRateTable('code,value\nUSD,1\n', 'GBP').errors).toEqual([
+      'The header row needs "currency" and "rate" columns'
+    ])
+  })
+})
+
+describe('formatPrice', () => {
+  it('formats with the currency symbol for the locale', () => {
+    expect(formatPrice(12.5, 'GBP', 'en-GB')).toBe('£12.50')
+    expect(formatPrice(12.5, 'USD', 'en-GB')).toBe('US$12.50')
+  })
+
+  it('falls back to the ISO code for unknown currencies', () => {
+    expect(formatPrice(3, 'XX1', 'en-GB')).toBe('3.00 XX1')
+  })
+})
+
+describe('synthetic currency settings', () => {
+  beforeEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('converts foreign prices and excludes currencies without a rate', async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    const [competitor] = await source.request<Competitor[]>('/markets/mkt-london-cinemas/competitors')
+    const post = (body: object) => source.request('/pricing-data', { method: 'POST', body: JSON.stringify(body) })
+    await post({ competitor_id: competitor.id, product_service: 'Import', price_point: 100, currency: 'USD', date_collected: '2025-03-12T00:00:00Z' })
+    await post({ competitor_id: competitor.id, product_service: 'Import', price_point: 100, currency: 'NZD', date_collected: '2025-03-12T00:00:00Z' })
+
+    const metrics = await source.request<MarketMetrics>('/markets/mkt-london-cinemas/analysis?product_service=Import')
+    expect(metrics).toMatchObject({ currency: 'GBP', average_price: 79, excluded_currencies: ['NZD'] })
+
+    await source.request('/settings/currency', {
+      method: 'PUT',
+      body: JSON.stringify({ base_currency: 'GBP', rates: [{ currency: 'NZD', rate: 0.5 }] })
+    })
+    const comparison = await source.request<CompetitorComparison>(
+      '/markets/mkt-london-cinemas/comparison?product_service=Import'
+    )
+    expect(comparison.currency).toBe('GBP')
+    expect(comparison.competitors[competitor.id]).toMatchObject({ average_price: 50, original_currency: 'NZD' })
+  })
+
+  it('rejects unsupported base currencies', async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    await expect(source.request('/settings/currency', {
+      method: 'PUT',
+      body: JSON.stringify({ base_currency: 'XYZ', rates: [] })
+    })).rejects.toThrow('Unsupported base currency XYZ')
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Desktop notification tests
+ * Preferences, quiet hours, permission handling and a stubbed Notification API
+ */
+
+import {
+  DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES,
+  DesktopNotificationPreferences,
+  alertFocusHref,
+  getDesktopNotificationPermission,
+  getDesktopNotificationPreferences,
+  isWithinQuietHours,
+  notifyDesktop,
+  requestDesktopNotificationPermission,
+  shouldNotifyDesktop,
+  storeDesktopNotificationPreferences
+} from '../market-edge-desktop-notifications'
+import { MarketAlert } from '@/types/market-edge'
+
+class FakeNotification {
+  static permission: NotificationPermission = 'granted'
+  static requestPermission = jest.fn()
+  static instances: FakeNotification[] = []
+
+  onclick: (() => void) | null = null
+  close = jest.fn()
+
+  constructor(public title: string, public options: NotificationOptions = {}) {
+    FakeNotification.instances.push(this)
+  }
+}
+
+let nextAlert = 0
+const alert = (overrides: Partial<MarketAlert> = {}): MarketAlert => ({
+  id: `alert-${++nextAlert}`,
+  market_id: 'mkt-1',
+  organisation_id: 'org-1',
+  alert_type: 'price_change',
+  severity: 'critical',
+  title: 'Starlight cut prices',
+  message: 'Adult tickets dropped 12%',
+  is_read: false,
+  created_at: '2025-03-10T09:00:00Z',
+  ...overrides
+})
+
+const enabled: DesktopNotificationPreferences = { ...DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES, enabled: true }
+const at = (time: string) => new Date(`2025-03-10T${time}:00`)
+const quietHours = (start: string, end: string) => ({ enabled: true, start, end })
+
+describe('desktop notification preferences', () => {
+  it('are opt-in for critical and high alerts and stored per user', () => {
+    expect(getDesktopNotificationPreferences('user-1')).toEqual(DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES)
+    expect(DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES.enabled).toBe(false)
+
+    storeDesktopNotificationPreferences({ ...enabled, severities: ['critical'] }, 'user-1')
+    expect(getDesktopNotificationPreferences('user-1').severities).toEqual(['critical'])
+    expect(getDesktopNotificationPreferences('user-2')).toEqual(DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES)
+  })
+
+  it('handles quiet hours within a day and across midnight', () => {
+    expect(isWithinQuietHours(quietHours('12:00', '14:00'), at('13:30'))).toBe(true)
+    expect(isWithinQuietHours(quietHours('12:00', '14:00'), at('14:00'))).toBe(false)
+    expect(isWithinQuietHours(quietHours('22:00', '07:00'), at('23:15'))).toBe(true)
+    expect(isWithinQuietHours(quietHours('22:00', '07:00'), at('06:59'))).toBe(true)
+    expect(isWithinQuietHours(quietHours('22:00', '07:00'), at('12:00'))).toBe(false)
+    expect(isWithinQuietHours({ ...quietHours('22:00', '07:00'), enabled: false }, at('23:15'))).toBe(false)
+  })
+
+  it('only notifies for unread alerts of chosen severities outside quiet hours', () => {
+    expect(shouldNotifyDesktop(alert(), enabled, at('10:00'))).toBe(true)
+    expect(shouldNotifyDesktop(alert(), DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES, at('10:00'))).toBe(false)
+    expect(shouldNotifyDesktop(alert({ severity: 'medium' }), enabled, at('10:00'))).toBe(false)
+    expect(shouldNotifyDesktop(alert({ is_read: true }), enabled, at('10:00'))).toBe(false)
+    expect(shouldNotifyDesktop(alert(), { ...enabled, quiet_hours: quietHours('09:00', '17:00') }, at('10:00')))
+      .toBe(false)
+  })
+})
+
+describe('notifyDesktop', () => {
+  const originalNotification = (window as any).Notification
+
+  beforeEach(() => {
+    FakeNotification.permission = 'granted'
+    FakeNotification.instances = []
+    FakeNotification.requestPermission.mockReset()
+    ;(window as any).Notification = FakeNotification
+  })
+
+  afterEach(() => {
+    if (originalNotification) {
+      (window as any).Notification = originalNotification
+    } else {
+      delete (window as any).Notification
+    }
+    jest.restoreAllMocks()
+  })
+
+  it('shows each alert once and focuses the app on click', () => {
+    const focus = jest.spyOn(window, 'focus').mockImplementation(() => {})
+    const onOpen = jest.fn()
+    const critical = alert()
+    const options = {
+      preferences: enabled,
+      markets: [{ id: 'mkt-1', name: 'London Cinemas' }],
+      dataMode: 'live' as const,
+      onOpen,
+      now: at('10:00')
+    }
+
+    expect(notifyDesktop([critical, alert({ severity: 'low' })], options)).toEqual([])
+    notifyDesktop([critical], options)
+
+    expect(FakeNotification.instances).toHaveLength(1)
+    const [notification] = FakeNotification.instances
+    expect(notification.title).toBe('CRITICAL: Starlight cut prices')
+    expect(notification.options).toEqual(expect.objectContaining({
+      body: 'London Cinemas · Adult tickets dropped 12%',
+      tag: `market-alert-${critical.id}`,
+      requireInteraction: true
+    }))
+
+    notification.onclick!()
+    expect(focus).toHaveBeenCalled()
+    expect(onOpen).toHaveBeenCalledWith(`/market-edge?market=mkt-1&tab=alerts&alert=${critical.id}&mode=live`)
+    expect(notification.close).toHaveBeenCalled()
+  })
+
+  it('returns qualifying alerts for an in-app fallback when permission is denied', () => {
+    FakeNotification.permission = 'denied'
+    const high = alert({ severity: 'high' })
+
+    expect(notifyDesktop([high, alert({ severity: 'low' })], { preferences: enabled, dataMode: 'live', onOpen: jest.fn(), now: at('10:00') }))
+      .toEqual([high])
+    expect(FakeNotification.instances).toHaveLength(0)
+  })
+
+  it('requests permission only when the user has not decided', async () => {
+    FakeNotification.permission = 'default'
+    FakeNotification.requestPermission.mockResolvedValueOnce('granted')
+    expect(await requestDesktopNotificationPermission()).toBe('granted')
+
+    FakeNotification.requestPermission.mockRejectedValueOnce(new Error('Prompt dismissed'))
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(await requestDesktopNotificationPermission()).toBe('denied')
+
+    FakeNotification.permission = 'denied'
+    expect(await requestDesktopNotificationPermission()).toBe('denied')
+    expect(FakeNotification.requestPermission).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports browsers without the Notification API as unsupported', () => {
+    delete (window as any).Notification
+    expect(getDesktopNotificationPermission()).toBe('unsupported')
+    expect(notifyDesktop([alert()], { preferences: enabled, dataMode: 'live', onOpen: jest.fn(), now: at('10:00') })).toHaveLength(1)
+  })
+
+  it('links to the alert inside its market and data mode', () => {
+    expect(alertFocusHref(alert({ id: 'alert-x', market_id: 'mkt-2' }), 'test'))
+      .toBe('/market-edge?market=mkt-2&tab=alerts&alert=alert-x&mode=test')
+  })
+})
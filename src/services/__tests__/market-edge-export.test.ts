@@ -0,0 +1,102 @@
+/**
+ * Market Edge export tests
+ * Covers RFC 4180 escaping and the sections of the CSV export
+ */
+
+import { buildMarketCSV, MarketExportData } from '../market-edge-export'
+import { escapeCSVField, toCSV } from '@/utils/csv'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import { MarketOverview, MarketTrends, PricingData } from '@/types/market-edge'
+
+describe('CSV utilities', () => {
+  it('quotes fields containing commas, quotes and line breaks', () => {
+    expect(escapeCSVField('Plain')).toBe('Plain')
+    expect(escapeCSVField('Smith, Jones & Co')).toBe('"Smith, Jones & Co"')
+    expect(escapeCSVField('The "Grand"')).toBe('"The ""Grand"""')
+    expect(escapeCSVField('Line\nbreak')).toBe('"Line\nbreak"')
+    expect(escapeCSVField(undefined)).toBe('')
+    expect(escapeCSVField(12.5)).toBe('12.5')
+  })
+
+  it('separates records with CRLF', () => {
+    expect(toCSV([['a', 'b'], ['c', 'd']])).toBe('a,b\r\nc,d\r\n')
+  })
+})
+
+describe('buildMarketCSV', () => {
+  const referenceDate = new Date('2025-03-14T00:00:00Z')
+  let data: MarketExportData
+
+  beforeEach(async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate })
+    const overview = await source.request<MarketOverview>('/markets/mkt-london-cinemas/overview')
+    const pricing = await source.request<PricingData[]>('/markets/mkt-london-cinemas/pricing-data?limit=5')
+    const trends = await source.request<MarketTrends>('/markets/mkt-london-cinemas/trends?days_back=30')
+
+    overview.competitors[0].name = 'Starlight, "The Big One"'
+    data = {
+      overview,
+      date_range: { start: '2025-02-12', end: '2025-03-14' },
+      generated_at: '2025-03-14T09:00:00.000Z',
+      pricing,
+      trends,
+      anomalies: overview.metrics.anomalies
+    }
+  })
+
+  it('writes every requested section', () => {
+    const csv = buildMarketCSV(data)
+
+    expect(csv).toContain('\r\nCompetitors,')
+    expect(csv).toContain('\r\nPricing Data,')
+    expect(csv).toContain('\r\nWeekly Trends,')
+    expect(csv).toContain('\r\nAnomalies,')
+    expect(csv).toContain('Date Range Start,2025-02-12')
+  })
+
+  it('escapes competitor names', () => {
+    expect(buildMarketCSV(data)).toContain('"Starlight, ""The Big One"""')
+  })
+
+  it('pads every record to the same number of fields', () => {
+    const records = buildMarketCSV(data).split('\r\n').filter(Boolean)
+      .filter(record => !record.includes('"'))
+    const widths = records.map(record => record.split(',').length)
+
+    expect(new Set(widths).size).toBe(1)
+  })
+
+  it('includes one trend column per competitor', () => {
+    const header = buildMarketCSV(data).split('\r\n').find(line => line.startsWith('Week,'))
+
+    expect(header).toContain('Market Average')
+    expect(header).toContain('Lumiere Screens')
+  })
+
+  it('omits excluded sections', () => {
+    const csv = buildMarketCSV(data, { include_pricing: false, include_trends: false })
+
+    expect(csv).not.toContain('Pricing Data,')
+    expect(csv).not.toContain('Weekly Trends,')
+    expect(csv).toContain('Competitors,')
+  })
+
+  it('writes chart annotations with their authors', () => {
+    data.annotations = [{
+      id: 'annotation-1',
+      market_id: 'mkt-london-cinemas',
+      date: '2025-03-01',
+      label: 'VAT rise, tickets',
+      description: 'Standard rate applied to all screenings',
+      created_by: 'user-2',
+      created_by_name: 'Priya Shah',
+      can_edit: false,
+      created_at: '2025-03-02T09:00:00.000Z'
+    }]
+
+    const csv = buildMarketCSV(data)
+    expect(csv).toContain('\r\nChart Annotations,')
+    expect(csv).toContain('2025-03-01,"VAT rise, tickets",Standard rate applied to all screenings,Priya Shah,')
+    expect(buildMarketCSV(data, { include_annotations: false })).not.toContain('Chart Annotations')
+  })
+})
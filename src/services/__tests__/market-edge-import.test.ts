@@ -0,0 +1,135 @@
+/**
+ * Market Edge pricing import tests
+ * Covers CSV/TSV parsing, column mapping, row validation and partial commits
+ */
+
+import {
+  buildPricingImportPreview,
+  commitPricingImport,
+  guessColumnMapping,
+  importableRows,
+  parseIsoDate,
+  parsePrice
+} from '../market-edge-import'
+import { parseDelimited } from '@/utils/csv'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import { Competitor, PricingData, PricingDataInput } from '@/types/market-edge'
+
+const referenceDate = new Date('2025-03-14T00:00:00Z')
+
+describe('parseDelimited', () => {
+  it('parses quoted CSV fields with CRLF line endings', () => {
+    const text = '﻿Name,Notes\r\n"Smith, Jones","Said ""hi""\nthen left"\r\n\r\n'
+
+    expect(parseDelimited(text)).toEqual([
+      ['Name', 'Notes'],
+      ['Smith, Jones', 'Said "hi"\nthen left']
+    ])
+  })
+
+  it('detects tab separated rows pasted from a spreadsheet', () => {
+    expect(parseDelimited('Competitor\tPrice\nStarlight\t1,299.00')).toEqual([
+      ['Competitor', 'Price'],
+      ['Starlight', '1,299.00']
+    ])
+  })
+})
+
+describe('field parsers', () => {
+  it('parses prices with symbols and thousands separators', () => {
+    expect(parsePrice('£12.50')).toBe(12.5)
+    expect(parsePrice('1,299.00')).toBe(1299)
+    expect(parsePrice('12,5')).toBeNull()
+    expect(parsePrice('-3')).toBeNull()
+    expect(parsePrice('')).toBeNull()
+  })
+
+  it('only accepts real ISO dates', () => {
+    expect(parseIsoDate('2025-03-01')).toBe('2025-03-01T00:00:00.000Z')
+    expect(parseIsoDate('2025-03-01T09:30:00Z')).toBe('2025-03-01T09:30:00.000Z')
+    expect(parseIsoDate('2025-02-30')).toBeNull()
+    expect(parseIsoDate('01/03/2025')).toBeNull()
+  })
+})
+
+describe('buildPricingImportPreview', () => {
+  let competitors: Competitor[]
+  let existing: PricingData[]
+
+  beforeEach(async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate })
+    competitors = await source.request<Competitor[]>('/markets/mkt-london-cinemas/competitors')
+    existing = await source.request<PricingData[]>('/markets/mkt-london-cinemas/pricing-data')
+  })
+
+  it('maps headers by alias', () => {
+    expect(guessColumnMapping(['Competitor Name', 'Product', 'Price (GBP)', 'Date', 'Promo'])).toEqual({
+      competitor: 0,
+      product_service: 1,
+      date_collected: 3,
+      is_promotion: 4
+    })
+  })
+
+  it('validates rows, matches competitors and flags duplicates', () => {
+    const latest = existing[0]
+    const latestName = competitors.find(c => c.id === latest.competitor_id)!.name
+    const rows = [
+      ['starlight cinemas', 'Standard Ticket', '14.20', 'gbp', '2025-03-10'],
+      ['Unknown Films', 'Standard Ticket', 'abc', 'POUNDS', '10/03/2025'],
+      [latestName, latest.product_service, '9.99', '', latest.date_collected.substring(0, 10)],
+      ['Starlight Cinemas', 'standard ticket', '14.25', 'GBP', '2025-03-10'],
+      ['Starlight Cinemas', 'Standard Ticket', '14.20', 'GBP', '2025-04-01']
+    ]
+
+    const preview = buildPricingImportPreview({
+      rows,
+      mapping: { competitor: 0, product_service: 1, price_point: 2, currency: 3, date_collected: 4 },
+      competitors,
+      existing,
+      referenceDate
+    })
+
+    expect(preview[0].payload).toEqual({
+      competitor_id: 'mkt-london-cinemas-comp-1',
+      product_service: 'Standard Ticket',
+      price_point: 14.2,
+      currency: 'GBP',
+      date_collected: '2025-03-10T00:00:00.000Z',
+      source: 'csv_import',
+      is_promotion: false,
+      promotion_details: undefined
+    })
+    expect(preview[1].rowNumber).toBe(3)
+    expect(preview[1].errors).toEqual([
+      'Unknown competitor "Unknown Films"',
+      'Price must be a number',
+      'Invalid currency "POUNDS"',
+      'Date must be in ISO format (YYYY-MM-DD)'
+    ])
+    expect(preview[2].duplicate).toBe('existing')
+    expect(preview[3].duplicate).toBe('file')
+    expect(preview[4].errors).toEqual(['Date is in the future'])
+    expect(importableRows(preview)).toHaveLength(1)
+    expect(importableRows(preview, true)).toHaveLength(3)
+  })
+})
+
+describe('commitPricingImport', () => {
+  it('keeps going after a failed row and reports it', async () => {
+    const payload = { competitor_id: 'c1', product_service: 'Ticket', price_point: 10, date_collected: '2025-03-01' }
+    const create = jest.fn(async (input: PricingDataInput) => {
+      if (input.price_point > 10) throw new Error('Server rejected price')
+      return { ...input, id: 'p1' } as unknown as PricingData
+    })
+
+    const result = await commitPricingImport([
+      { rowNumber: 2, values: [], errors: [], payload },
+      { rowNumber: 3, values: [], errors: [], payload: { ...payload, price_point: 99 } },
+      { rowNumber: 4, values: [], errors: [], payload }
+    ], create)
+
+    expect(result.created).toHaveLength(2)
+    expect(result.failed).toEqual([{ rowNumber: 3, message: 'Server rejected price' }])
+  })
+})
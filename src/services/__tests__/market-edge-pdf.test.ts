@@ -0,0 +1,92 @@
+/**
+ * Market report PDF tests
+ * Renders each report layout from a synthetic MarketReport
+ */
+
+import { buildMarketReportPDF } from '../market-edge-pdf'
+import { liveMarketEdgeAPI } from '../market-edge-api'
+import { HttpDataSource } from '../market-edge-data-source'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import { MarketReport } from '@/types/market-edge'
+
+describe('buildMarketReportPDF', () => {
+  let report: MarketReport
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  beforeAll(async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    report = await source.request<MarketReport>('/markets/mkt-london-cinemas/report')
+  })
+
+  it.each(['comprehensive', 'summary', 'trends'] as const)('renders a multi-page %s report', (reportType) => {
+    const doc = buildMarketReportPDF(report, reportType)
+
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1)
+    expect(doc.output().startsWith('%PDF-')).toBe(true)
+  })
+
+  it('gives the comprehensive layout more pages than the summary', () => {
+    const comprehensive = buildMarketReportPDF(report, 'comprehensive').getNumberOfPages()
+    const summary = buildMarketReportPDF(report, 'summary').getNumberOfPages()
+
+    expect(comprehensive).toBeGreaterThan(summary)
+  })
+
+  it('includes the market name and summary figures', () => {
+    const output = buildMarketReportPDF(report, 'summary').output()
+
+    expect(output).toContain('Central London Cinemas')
+    expect(output).toContain('Active alerts')
+    expect(output).toContain('Top Competitor Moves')
+  })
+
+  it('lists chart annotations with their authors', () => {
+    expect(report.annotations!.map(a => a.label)).toContain('Starlight reopens after refit')
+
+    const output = buildMarketReportPDF(report, 'trends').output()
+    expect(output).toContain('Chart Annotations')
+    expect(output).toContain('Starlight reopens after refit')
+    expect(output).toContain('Priya Shah')
+    expect(buildMarketReportPDF(report, 'summary').output()).not.toContain('Chart Annotations')
+  })
+
+  it('says when a period has no chart annotations', () => {
+    const output = buildMarketReportPDF({ ...report, annotations: [] }, 'trends').output()
+
+    expect(output).toContain('Chart Annotations')
+    expect(output).toContain('No chart annotations in this period.')
+  })
+
+  it('adds chart annotations to exported reports from the live backend', async () => {
+    const backend = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    // The live report endpoint leaves annotations out
+    jest.spyOn(HttpDataSource.prototype, 'request').mockImplementation(async (endpoint, options) => {
+      const response = await backend.request<any>(endpoint, options)
+      return endpoint.indexOf('/report') >= 0 ? { ...response, annotations: undefined } : response
+    })
+
+    const blob = await liveMarketEdgeAPI.exportMarketData('mkt-london-cinemas', 'pdf', { report_type: 'trends' })
+    const output = await new Promise<string>(resolve => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(blob)
+    })
+
+    expect(output).toContain('Chart Annotations')
+    expect(output).toContain('Starlight reopens after refit')
+  })
+
+  it('handles a report without trend data or moves', () => {
+    const empty: MarketReport = {
+      ...report,
+      recent_moves: [],
+      insights: [],
+      pricing_trends: { ...report.pricing_trends, market_trend: {}, competitor_trends: {} }
+    }
+
+    expect(() => buildMarketReportPDF(empty, 'trends')).not.toThrow()
+  })
+})
@@ -0,0 +1,502 @@
+/**
+ * Synthetic Market Edge data source tests
+ * Verifies the Test Data mode returns seeded, reproducible API responses
+ */
+
+import {
+  SyntheticDataSource,
+  generateSyntheticStore
+} from '../market-edge-synthetic-data'
+import { getStoredDataMode, storeDataMode } from '../market-edge-data-source'
+import { computeWeeklyPriceChange, toIsoWeekKey } from '../market-edge-analytics'
+import {
+  Market,
+  MarketOverview,
+  MarketTrends,
+  CompetitorComparison,
+  MarketAlert,
+  MarketReport,
+  CompetitorAnalysis,
+  CompetitorMove,
+  PromotionSummary,
+  AlertRule,
+  AlertRuleBacktest,
+  Webhook,
+  WebhookDelivery,
+  WebhookWithSecret,
+  PricingData
+} from '@/types/market-edge'
+
+const referenceDate = new Date('2025-03-14T00:00:00Z')
+
+describe('SyntheticDataSource', () => {
+  let source: SyntheticDataSource
+
+  beforeEach(() => {
+    source = new SyntheticDataSource({ seed: 42, referenceDate })
+  })
+
+  it('generates identical data for the same seed and reference date', () => {
+    const first = generateSyntheticStore({ seed: 42, referenceDate })
+    const second = generateSyntheticStore({ seed: 42, referenceDate })
+
+    expect(second).toEqual(first)
+    expect(first.pricing.length).toBeGreaterThan(1000)
+  })
+
+  it('produces different prices for a different seed', () => {
+    const first = generateSyntheticStore({ seed: 42, referenceDate })
+    const other = generateSyntheticStore({ seed: 7, referenceDate })
+
+    expect(other.markets.map(m => m.id)).toEqual(first.markets.map(m => m.id))
+    expect(other.pricing.slice(0, 20).map(p => p.price_point))
+      .not.toEqual(first.pricing.slice(0, 20).map(p => p.price_point))
+  })
+
+  it('includes promotions and anomalous price points', () => {
+    const store = generateSyntheticStore({ seed: 42, referenceDate })
+
+    const promotions = store.pricing.filter(p => p.is_promotion)
+    expect(promotions.length).toBeGreaterThan(0)
+    expect(promotions[0].promotion_details).toMatch(/% off$/)
+    expect(store.pricing.some(p => p.source === 'manual_entry')).toBe(true)
+  })
+
+  it('serves markets including an archived one', async () => {
+    const markets = await source.request<Market[]>('/markets')
+
+    expect(markets.length).toBeGreaterThanOrEqual(3)
+    expect(markets.some(m => !m.is_active)).toBe(true)
+  })
+
+  it('serves a market overview with metrics for the default 30 day window', async () => {
+    const overview = await source.request<MarketOverview>('/markets/mkt-london-cinemas/overview')
+
+    expect(overview.market.name).toBe('Central London Cinemas')
+    expect(overview.competitors).toHaveLength(5)
+    expect(overview.recent_data_points).toBeGreaterThan(0)
+    expect(overview.metrics.price_quartiles).toBeDefined()
+    expect(Object.keys(overview.metrics.competitors)).toHaveLength(5)
+    expect(new Date(overview.metrics.period_end).getTime()).toBe(referenceDate.getTime())
+  })
+
+  it('keys trends by ISO week and honours filters', async () => {
+    const trends = await source.request<MarketTrends>(
+      '/markets/mkt-london-cinemas/trends?product_service=Standard+Ticket&days_back=90'
+    )
+
+    expect(trends.period.days_back).toBe(90)
+    expect(trends.filters.product_service).toBe('Standard Ticket')
+    Object.keys(trends.market_trend).forEach(week => {
+      expect(week).toMatch(/^\d{4}-W\d{2}$/)
+    })
+    expect(Object.keys(trends.competitor_trends)).toHaveLength(5)
+  })
+
+  it('limits analysis to an explicit date range', async () => {
+    const trends = await source.request<MarketTrends>(
+      '/markets/mkt-london-cinemas/trends?start_date=2025-02-01&end_date=2025-02-28'
+    )
+    const metrics = await source.request<MarketOverview['metrics']>(
+      '/markets/mkt-london-cinemas/analysis?start_date=2025-02-01&end_date=2025-02-28'
+    )
+
+    expect(trends.period.days_back).toBe(28)
+    expect(Object.keys(trends.market_trend).every(week => week >= '2025-W05' && week <= '2025-W09')).toBe(true)
+    expect(metrics.period_start).toBe('2025-02-01T00:00:00.000Z')
+    expect(metrics.period_end).toBe('2025-02-28T23:59:59.999Z')
+    await expect(source.request('/markets/mkt-london-cinemas/trends?start_date=2025-03-01&end_date=2025-02-01'))
+      .rejects.toThrow('start_date must be before end_date')
+  })
+
+    it('ranks competitors in a comparison', async () => {
+    const comparison = await source.request<CompetitorComparison>('/markets/mkt-leeds-gyms/comparison')
+
+    const ranks = comparison.rankings.by_price.map(r => r.average_price)
+    expect(ranks).toEqual([...ranks].sort((a, b) => a - b))
+    expect(comparison.rankings.by_price[0].rank).toBe(1)
+  })
+
+  it('returns competitor analysis with a product breakdown', async () => {
+    const analysis = await source.request<CompetitorAnalysis>(
+      '/competitors/mkt-london-cinemas-comp-2/analysis?days_back=60'
+    )
+
+    expect(analysis.competitor.name).toBe('Lumiere Screens')
+    expect(analysis.pricing_metrics.position_vs_market).toBe('above_market')
+    expect(Object.keys(analysis.product_breakdown)).toContain('IMAX Ticket')
+  })
+
+  it('marks alerts as read and filters unread alerts', async () => {
+    const alerts = await source.request<MarketAlert[]>('/markets/mkt-london-cinemas/alerts?unread_only=true')
+    expect(alerts.length).toBeGreaterThan(0)
+
+    await source.request(`/alerts/${alerts[0].id}/mark-read`, { method: 'POST' })
+    const remaining = await source.request<MarketAlert[]>('/markets/mkt-london-cinemas/alerts?unread_only=true')
+
+    expect(remaining.map(a => a.id)).not.toContain(alerts[0].id)
+  })
+
+  it('lists alerts across active markets newest first', async () => {
+    const markets = await source.request<Market[]>('/markets')
+    const archived = markets.filter(m => !m.is_active).map(m => m.id)
+    const alerts = await source.request<MarketAlert[]>('/alerts?limit=20')
+
+    expect(alerts.length).toBeGreaterThan(0)
+    expect(alerts.length).toBeLessThanOrEqual(20)
+    expect(new Set(alerts.map(a => a.market_id)).size).toBeGreaterThan(1)
+    expect(alerts.filter(a => archived.indexOf(a.market_id) !== -1)).toEqual([])
+    expect(alerts.map(a => a.created_at)).toEqual(alerts.map(a => a.created_at).sort().reverse())
+    expect(alerts.some(a => a.trigger_data?.competitor_id)).toBe(true)
+  })
+
+  it('builds a market report with recent moves including a product launch', async () => {
+    const report = await source.request<MarketReport>('/markets/mkt-london-cinemas/report?report_type=summary')
+
+    expect(report.report_type).toBe('summary')
+    expect(report.summary.total_competitors).toBe(5)
+    expect(report.recent_moves.some(m => m.type === 'new_products')).toBe(true)
+    expect(report.summary.key_insights).toBe(report.insights.length)
+  })
+
+  it('finds competitor moves across the whole analysis window', async () => {
+    const moves = await source.request<CompetitorMove[]>('/markets/mkt-london-cinemas/moves?days_back=90')
+    const recent = await source.request<CompetitorMove[]>('/markets/mkt-london-cinemas/moves?days_back=7')
+
+    expect(moves.length).toBeGreaterThan(recent.length)
+    expect(moves.every(m => m.detected_at >= '2024-12-14')).toBe(true)
+    const dates = moves.map(m => m.detected_at)
+    expect(dates).toEqual([...dates].sort().reverse())
+  })
+
+  it('summarises promotions with discount depth and weekly frequency', async () => {
+    const summary = await source.request<PromotionSummary>('/markets/mkt-london-cinemas/promotions?days_back=90')
+
+    expect(summary.promotions.length).toBeGreaterThan(0)
+    expect(summary.currency).toBe('GBP')
+    const discounted = summary.promotions.filter(p => p.discount_percent !== undefined)
+    expect(discounted.length).toBeGreaterThan(0)
+    discounted.forEach(p => expect(p.lowest_price).toBeLessThan(p.regular_price!))
+    const active = summary.promotions.map(p => p.is_active)
+    expect(active).toEqual([...active].sort((a, b) => Number(b) - Number(a)))
+    Object.values(summary.frequency).forEach(week => {
+      expect(week.promotion_share).toBeCloseTo((week.promotional_points / week.total_points) * 100, 1)
+    })
+  })
+
+  it('drops promotional prices from analysis when asked', async () => {
+    const all = await source.request<MarketOverview['metrics']>('/markets/mkt-london-cinemas/analysis?days_back=90')
+    const regular = await source.request<MarketOverview['metrics']>(
+      '/markets/mkt-london-cinemas/analysis?days_back=90&exclude_promotions=true'
+    )
+    const summary = await source.request<PromotionSummary>('/markets/mkt-london-cinemas/promotions?days_back=90')
+    const promotional = Object.values(summary.frequency).reduce((sum, week) => sum + week.promotional_points, 0)
+
+    expect(regular.total_data_points).toBe(all.total_data_points - promotional)
+  })
+
+  it('persists created competitors until reset', async () => {
+    await source.request('/competitors', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Newcomer Cinema', market_id: 'mkt-london-cinemas' })
+    })
+    expect(await source.request<unknown[]>('/markets/mkt-london-cinemas/competitors')).toHaveLength(6)
+
+    source.reset()
+    expect(await source.request<unknown[]>('/markets/mkt-london-cinemas/competitors')).toHaveLength(5)
+  })
+
+  it('rejects duplicate competitor names within a market', async () => {
+    const [existing, other] = await source.request<{ id: string; name: string }[]>('/markets/mkt-london-cinemas/competitors')
+    const create = source.request('/competitors', {
+      method: 'POST',
+      body: JSON.stringify({ name: ` ${existing.name.toUpperCase()} `, market_id: 'mkt-london-cinemas' })
+    })
+    const rename = source.request(`/competitors/${other.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name: existing.name, market_id: 'mkt-london-cinemas' })
+    })
+
+    await expect(create).rejects.toThrow('already exists')
+    await expect(rename).rejects.toThrow('already exists')
+  })
+
+  it('archives deleted markets instead of removing their data', async () => {
+    await source.request('/markets/mkt-leeds-gyms', { method: 'DELETE' })
+
+    const markets = await source.request<Market[]>('/markets')
+    expect(markets.find(m => m.id === 'mkt-leeds-gyms')?.is_active).toBe(false)
+    expect(await source.request<unknown[]>('/markets/mkt-leeds-gyms/competitors')).toHaveLength(4)
+  })
+
+  it('stores alert rules per market and backtests them over 90 days', async () => {
+    const input = {
+      name: 'Any price cut',
+      metric: 'price_change_percent',
+      operator: 'lt',
+      threshold: -2,
+      window_days: 7,
+      severity: 'high',
+      is_active: true
+    }
+    const rule = await source.request<AlertRule>('/markets/mkt-london-cinemas/alert-rules', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+    await source.request(`/alert-rules/${rule.id}`, { method: 'PUT', body: JSON.stringify({ is_active: false }) })
+
+    expect(await source.request<AlertRule[]>('/markets/mkt-london-cinemas/alert-rules'))
+      .toEqual([expect.objectContaining({ id: rule.id, is_active: false })])
+    expect(await source.request<AlertRule[]>('/markets/mkt-manchester-hotels/alert-rules')).toEqual([])
+
+    const backtest = await source.request<AlertRuleBacktest>('/markets/mkt-london-cinemas/alert-rules/backtest', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+    expect(backtest.period.start_date).toBe('2024-12-14T00:00:00.000Z')
+    expect(backtest.matches.length).toBeGreaterThan(0)
+    expect(backtest.matches.every(m => m.severity === 'high' && m.value! < -2)).toBe(true)
+
+    await expect(source.request('/markets/mkt-london-cinemas/alert-rules', {
+      method: 'POST',
+      body: JSON.stringify({ ...input, window_days: 0 })
+    })).rejects.toThrow('Window must be between 1 and 90 days')
+
+    await source.request(`/alert-rules/${rule.id}`, { method: 'DELETE' })
+    expect(await source.request<AlertRule[]>('/markets/mkt-london-cinemas/alert-rules')).toEqual([])
+  })
+
+  it('applies bulk triage actions to alerts', async () => {
+    const alerts = await source.request<MarketAlert[]>('/markets/mkt-london-cinemas/alerts')
+    const ids = alerts.slice(0, 2).map(a => a.id)
+
+    const resolved = await source.request<MarketAlert[]>('/alerts/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ alert_ids: ids, action: 'resolve' })
+    })
+    expect(resolved.every(a => a.is_read && a.resolved_at)).toBe(true)
+
+    const snoozed = await source.request<MarketAlert[]>('/alerts/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ alert_ids: [alerts[2].id], action: 'snooze', snoozed_until: '2099-01-01T00:00:00.000Z' })
+    })
+    expect(snoozed[0].snoozed_until).toBe('2099-01-01T00:00:00.000Z')
+
+    await expect(source.request('/alerts/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ alert_ids: ids, action: 'snooze', snoozed_until: '2000-01-01' })
+    })).rejects.toThrow('snoozed_until must be a future date')
+  })
+
+  it('stores webhooks and simulates deliveries without sending requests', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch')
+    const webhook = await source.request<Webhook>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: ' Ops relay ',
+        url: 'http://localhost:4001/webhooks/market-edge',
+        secret: 'whsec_0123456789abcdef',
+        filters: { severities: ['high'], alert_types: [], market_ids: ['mkt-leeds-gyms'] },
+        is_active: true
+      })
+    })
+    expect(webhook).toMatchObject({ name: 'Ops relay', organisation_id: 'org-synthetic', secret_last4: 'cdef' })
+
+    const delivery = await source.request<WebhookDelivery>(`/webhooks/${webhook.id}/test`, { method: 'POST' })
+    expect(delivery).toMatchObject({ event: 'webhook.test', status: 'succeeded' })
+    expect(delivery.attempts).toEqual([expect.objectContaining({ status_code: 200, simulated: true })])
+    expect(delivery.payload.market_id).toBe('mkt-leeds-gyms')
+
+    const retried = await source.request<WebhookDelivery>(`/webhook-deliveries/${delivery.id}/redeliver`, { method: 'POST' })
+    expect(retried.attempts).toHaveLength(2)
+    expect(await source.request<WebhookDelivery[]>(`/webhooks/${webhook.id}/deliveries`)).toHaveLength(1)
+    expect(fetchSpy).not.toHaveBeenCalled()
+    fetchSpy.mockRestore()
+
+    await expect(source.request(`/webhooks/${webhook.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ url: 'http://hooks.example.com' })
+    })).rejects.toThrow('URL must use HTTPS')
+
+    await source.request(`/webhooks/${webhook.id}`, { method: 'DELETE' })
+    expect(await source.request<Webhook[]>('/webhooks')).toEqual([])
+  })
+
+  it('only returns a webhook secret on create and rotate', async () => {
+    const created = await source.request<WebhookWithSecret>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: 'Ops relay',
+        url: 'https://hooks.example.com/market-edge',
+        secret: 'whsec_0123456789abcdef',
+        filters: { severities: [], alert_types: [], market_ids: [] },
+        is_active: true
+      })
+    })
+    expect(created.secret).toBe('whsec_0123456789abcdef')
+
+    const [listed] = await source.request<Webhook[]>('/webhooks')
+    expect(listed).not.toHaveProperty('secret')
+    expect(listed.secret_last4).toBe('cdef')
+
+    const updated = await source.request<Webhook>(`/webhooks/${created.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name: 'Pager', secret: 'whsec_ignored-by-updates' })
+    })
+    expect(updated).toMatchObject({ name: 'Pager', secret_last4: 'cdef' })
+    expect(updated).not.toHaveProperty('secret')
+
+    const rotated = await source.request<WebhookWithSecret>(`/webhooks/${created.id}/rotate-secret`, { method: 'POST' })
+    expect(rotated.secret).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(rotated.secret_last4).toBe(rotated.secret.slice(-4))
+    expect((await source.request<Webhook[]>('/webhooks'))[0]).toEqual(expect.objectContaining({ secret_last4: rotated.secret_last4 }))
+  })
+
+  it('remembers anomaly reviews per market', async () => {
+    const put = (marketId: string, status: string) => source.request(`/markets/${marketId}/anomaly-reviews/price-1`, {
+      method: 'PUT',
+      body: JSON.stringify({ status })
+    })
+    await put('mkt-london-cinemas', 'false_positive')
+    await put('mkt-london-cinemas', 'confirmed')
+
+    const reviews = await source.request<any[]>('/markets/mkt-london-cinemas/anomaly-reviews')
+    expect(reviews).toHaveLength(1)
+    expect(reviews[0]).toMatchObject({ anomaly_id: 'price-1', status: 'confirmed' })
+    expect(await source.request<unknown[]>('/markets/mkt-leeds-gyms/anomaly-reviews')).toEqual([])
+    await expect(put('mkt-london-cinemas', 'maybe')).rejects.toThrow('status must be')
+
+    await source.request('/markets/mkt-london-cinemas/anomaly-reviews/price-1', { method: 'DELETE' })
+    expect(await source.request<unknown[]>('/markets/mkt-london-cinemas/anomaly-reviews')).toEqual([])
+  })
+
+  it('manages watchlists across markets with organisation sharing', async () => {
+    const watchlists = await source.request<any[]>('/watchlists')
+    const shared = watchlists.find(w => w.id === 'watchlist-key-accounts')
+    expect(shared).toMatchObject({ visibility: 'organisation', created_by_name: 'Priya Shah', can_edit: false })
+    await expect(source.request('/watchlists/watchlist-key-accounts', {
+      method: 'PUT',
+      body: JSON.stringify({ name: 'Mine now' })
+    })).rejects.toThrow('Only the creator can change this watchlist')
+
+    const created = await source.request<any>('/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: ' Cinema chains ',
+        competitor_ids: ['mkt-london-cinemas-comp-1', 'mkt-manchester-hotels-comp-3'],
+        visibility: 'private'
+      })
+    })
+    expect(created).toMatchObject({ name: 'Cinema chains', can_edit: true, created_by: 'user-synthetic' })
+    await expect(source.request('/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Empty', competitor_ids: [], visibility: 'private' })
+    })).rejects.toThrow('Add at least one competitor')
+    await expect(source.request('/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Ghost', competitor_ids: ['nope'], visibility: 'private' })
+    })).rejects.toThrow('Competitor not found')
+
+    const summary = await source.request<any>(`/watchlists/${created.id}/summary`)
+    expect(summary.members.map((m: any) => m.market.id)).toEqual(['mkt-london-cinemas', 'mkt-manchester-hotels'])
+    summary.members.forEach((member: any) => {
+      expect(member.latest_average_price).toBeGreaterThan(0)
+      expect(typeof member.price_change_percent).toBe('number')
+      expect(member.unread_alerts).toBeGreaterThanOrEqual(0)
+    })
+
+    const updated = await source.request<any>(`/watchlists/${created.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ visibility: 'organisation' })
+    })
+    expect(updated.visibility).toBe('organisation')
+
+    await source.request(`/watchlists/${created.id}`, { method: 'DELETE' })
+    await expect(source.request(`/watchlists/${created.id}`)).rejects.toThrow('Watchlist not found')
+  })
+
+  it('stores chart annotations per market and only lets the author change them', async () => {
+    const annotations = await source.request<any[]>('/markets/mkt-london-cinemas/annotations')
+    expect(annotations.map(a => a.label)).toEqual(['Starlight reopens after refit', 'Summer blockbuster release'])
+    expect(annotations[0]).toMatchObject({ created_by_name: 'Priya Shah', can_edit: false })
+    expect(await source.request<unknown[]>('/markets/mkt-leeds-gyms/annotations')).toEqual([])
+    await expect(source.request(`/markets/mkt-london-cinemas/annotations/${annotations[0].id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ label: 'Refit' })
+    })).rejects.toThrow('Only the author can change this annotation')
+
+    const created = await source.request<any>('/markets/mkt-leeds-gyms/annotations', {
+      method: 'POST',
+      body: JSON.stringify({ date: '2025-03-03', label: ' January offer ends ' })
+    })
+    expect(created).toMatchObject({ market_id: 'mkt-leeds-gyms', label: 'January offer ends', can_edit: true })
+    expect(created.created_by_name).toBeTruthy()
+    await expect(source.request('/markets/mkt-leeds-gyms/annotations', {
+      method: 'POST',
+      body: JSON.stringify({ date: 'soon', label: 'Launch' })
+    })).rejects.toThrow('Choose the date of the event')
+
+    const updated = await source.request<any>(`/markets/mkt-leeds-gyms/annotations/${created.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ description: 'Prices back to list' })
+    })
+    expect(updated).toMatchObject({ label: 'January offer ends', description: 'Prices back to list' })
+    expect(updated.updated_at).toBeDefined()
+
+    await source.request(`/markets/mkt-leeds-gyms/annotations/${created.id}`, { method: 'DELETE' })
+    expect(await source.request<unknown[]>('/markets/mkt-leeds-gyms/annotations')).toEqual([])
+
+    const report = await source.request<MarketReport>('/markets/mkt-london-cinemas/report')
+    expect(report.annotations!.map(a => a.label)).toEqual(annotations.map(a => a.label))
+  })
+
+    it('rejects unknown markets and routes', async () => {
+    await expect(source.request('/markets/unknown/overview')).rejects.toThrow('Market not found')
+    await expect(source.request('/nope')).rejects.toThrow('No synthetic handler')
+  })
+})
+
+describe('toIsoWeekKey', () => {
+  it('uses the ISO week-numbering year around new year', () => {
+    expect(toIsoWeekKey('2025-12-29T12:00:00Z')).toBe('2026-W01')
+    expect(toIsoWeekKey('2027-01-01T12:00:00Z')).toBe('2026-W53')
+    expect(toIsoWeekKey('2025-03-14T12:00:00Z')).toBe('2025-W11')
+  })
+})
+
+describe('computeWeeklyPriceChange', () => {
+  const price = (product_service: string, price_point: number, date_collected: string) =>
+    ({ product_service, price_point, date_collected } as PricingData)
+
+  it('compares the latest week with the one before on shared products', () => {
+    const change = computeWeeklyPriceChange([
+      price('Adult', 10, '2025-03-04T10:00:00Z'),
+      price('Child', 6, '2025-03-05T10:00:00Z'),
+      price('Adult', 11, '2025-03-11T10:00:00Z'),
+      price('Senior', 4, '2025-03-12T10:00:00Z')
+    ])
+
+    expect(change).toEqual({
+      latest_average_price: 7.5,
+      previous_average_price: 8,
+      price_change_percent: 10,
+      latest_collected_at: '2025-03-12T10:00:00Z'
+    })
+  })
+
+  it('has no change without a previous week', () => {
+    expect(computeWeeklyPriceChange([price('Adult', 10, '2025-03-11T10:00:00Z')]).price_change_percent).toBeNull()
+    expect(computeWeeklyPriceChange([]).latest_average_price).toBeNull()
+  })
+})
+
+describe('data mode persistence', () => {
+  it('stores the data mode per user', () => {
+    storeDataMode('live', 'user-1')
+    storeDataMode('test', 'user-2')
+
+    expect(getStoredDataMode('user-1')).toBe('live')
+    expect(getStoredDataMode('user-2')).toBe('test')
+    expect(getStoredDataMode('user-3')).toBeNull()
+  })
+})
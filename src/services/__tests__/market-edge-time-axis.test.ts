@@ -0,0 +1,92 @@
+/**
+ * Market Edge time axis tests
+ * ISO week parsing across year boundaries, resampling and gap filling
+ */
+
+import {
+  buildTimeAxis,
+  buildTrendChartData,
+  formatAxisTick,
+  formatPeriodLabel,
+  parsePeriodKey,
+  resampleSeries
+} from '../market-edge-time-axis'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import { MarketTrends } from '@/types/market-edge'
+
+const trends = (
+  market: Record<string, number>,
+  competitors: Record<string, { name: string; weekly_averages: Record<string, number> }> = {}
+): MarketTrends => ({
+  period: { start_date: '2025-12-01T00:00:00Z', end_date: '2026-01-31T00:00:00Z', days_back: 60 },
+  filters: {},
+  market_trend: market,
+  competitor_trends: competitors,
+  data_points_count: 0
+})
+
+describe('parsePeriodKey', () => {
+  it('parses ISO weeks, days and months into UTC dates', () => {
+    expect(parsePeriodKey('2026-W01')?.start.toISOString()).toBe('2025-12-29T00:00:00.000Z')
+    expect(parsePeriodKey('2020-W53')?.start.toISOString()).toBe('2020-12-28T00:00:00.000Z')
+    expect(parsePeriodKey('2025-03-14')).toEqual({ start: new Date('2025-03-14T00:00:00Z'), granularity: 'day' })
+    expect(parsePeriodKey('2025-03')?.granularity).toBe('month')
+    expect(parsePeriodKey('W12')).toBeNull()
+  })
+})
+
+describe('buildTimeAxis', () => {
+  it('produces continuous weekly buckets across new year', () => {
+    const axis = buildTimeAxis(new Date('2025-12-17T00:00:00Z'), new Date('2026-01-07T00:00:00Z'), 'week')
+
+    expect(axis.map(b => b.key)).toEqual(['2025-W51', '2025-W52', '2026-W01', '2026-W02'])
+  })
+})
+
+describe('buildTrendChartData', () => {
+  it('orders weeks chronologically and leaves gaps as null', () => {
+    const data = buildTrendChartData(trends(
+      { '2026-W02': 12, '2025-W52': 10, '2026-W01': 11 },
+      { c1: { name: 'St. Mary\'s Cinema', weekly_averages: { '2025-W52': 9, '2026-W02': 13 } } }
+    ))
+
+    expect(data.points.map(p => p.key)).toEqual(['2025-W52', '2026-W01', '2026-W02'])
+    expect(data.points.map(p => p.c1)).toEqual([9, null, 13])
+    expect(data.series).toEqual([{ id: 'c1', name: 'St. Mary\'s Cinema' }])
+  })
+
+  it('averages weeks into months by their Thursday', () => {
+    // 2025-W01 starts on 30 December 2024 but belongs to January
+    expect(resampleSeries({ '2025-W01': 10, '2025-W02': 20, '2025-W05': 30 }, 'month')).toEqual({ '2025-01': 20 })
+
+    const data = buildTrendChartData(trends({ '2025-W01': 10, '2025-W14': 30 }), 'month')
+    expect(data.points.map(p => [p.key, p.market])).toEqual([
+      ['2025-01', 10], ['2025-02', null], ['2025-03', null], ['2025-04', 30]
+    ])
+  })
+
+  it('never shows weekly data finer than weekly', () => {
+    expect(buildTrendChartData(trends({ '2025-W10': 1, '2025-W11': 2 }), 'day').granularity).toBe('week')
+  })
+
+  it('handles daily trends from the data source', async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate: new Date('2025-03-14T00:00:00Z') })
+    const daily = await source.request<MarketTrends>('/markets/mkt-london-cinemas/trends?days_back=14&granularity=day')
+
+    Object.keys(daily.market_trend).forEach(key => expect(key).toMatch(/^\d{4}-\d{2}-\d{2}$/))
+    const data = buildTrendChartData(daily, 'day')
+    expect(data.granularity).toBe('day')
+    expect(new Set(data.points.map(p => p.timestamp)).size).toBe(data.points.length)
+  })
+})
+
+describe('labels', () => {
+  it('formats ticks and tooltips in the given locale', () => {
+    const monday = Date.UTC(2025, 11, 29)
+
+    expect(formatAxisTick(monday, 'week', { locale: 'en-GB' })).toBe('29 Dec')
+    expect(formatAxisTick(monday, 'week', { locale: 'en-US', showYear: true })).toBe('Dec 29, 25')
+    expect(formatAxisTick(monday, 'month', { locale: 'en-GB' })).toBe('Dec 2025')
+    expect(formatPeriodLabel('2026-W01', 'en-GB')).toBe('Week 1, 2026 (from 29 Dec 2025)')
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Watchlist tests
+ * Validation, grouping competitors by market and member ordering
+ */
+
+import {
+  EMPTY_WATCHLIST,
+  formatPriceChange,
+  groupCompetitorsByMarket,
+  sortWatchlistMembers,
+  validateWatchlist
+} from '../market-edge-watchlists'
+import { Competitor, Market, WatchlistMember } from '@/types/market-edge'
+
+const markets = [
+  { id: 'mkt-1', name: 'London Cinemas', is_active: true },
+  { id: 'mkt-2', name: 'Bristol Cinemas', is_active: false },
+  { id: 'mkt-3', name: 'Leeds Gyms', is_active: true },
+  { id: 'mkt-4', name: 'Empty', is_active: true }
+] as Market[]
+
+const competitor = (id: string, market_id: string, name: string) => ({ id, market_id, name } as Competitor)
+
+const member = (name: string, price_change_percent: number | null) => ({
+  competitor: competitor(name, 'mkt-1', name),
+  price_change_percent
+} as WatchlistMember)
+
+describe('watchlists', () => {
+  it('validates name, members and visibility', () => {
+    const valid = { ...EMPTY_WATCHLIST, name: 'Key accounts', competitor_ids: ['comp-1'] }
+
+    expect(validateWatchlist(valid)).toBeNull()
+    expect(validateWatchlist({ ...valid, name: '  ' })).toBe('Name is required')
+    expect(validateWatchlist({ ...valid, name: 'x'.repeat(81) })).toMatch(/80 characters/)
+    expect(validateWatchlist({ ...valid, competitor_ids: [] })).toBe('Add at least one competitor')
+    expect(validateWatchlist({ ...valid, visibility: 'public' as any })).toBe('Choose who can see the watchlist')
+  })
+
+  it('groups competitors by market with archived markets last', () => {
+    const groups = groupCompetitorsByMarket(markets, [
+      competitor('c-1', 'mkt-1', 'Starlight'),
+      competitor('c-2', 'mkt-2', 'Starlight'),
+      competitor('c-3', 'mkt-3', 'PureGym'),
+      competitor('c-4', 'mkt-1', 'Odeon')
+    ])
+
+    expect(groups.map(g => g.market.name)).toEqual(['Leeds Gyms', 'London Cinemas', 'Bristol Cinemas'])
+    expect(groups[1].competitors.map(c => c.id)).toEqual(['c-4', 'c-1'])
+  })
+
+  it('puts the biggest movers first', () => {
+    const sorted = sortWatchlistMembers([member('A', 1.5), member('B', null), member('C', -4), member('D', 1.5)])
+
+    expect(sorted.map(m => m.competitor.name)).toEqual(['C', 'A', 'D', 'B'])
+    expect([2.345, -1, 0, null].map(formatPriceChange)).toEqual(['+2.3%', '-1.0%', '0.0%', '—'])
+  })
+})
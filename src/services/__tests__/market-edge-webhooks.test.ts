@@ -0,0 +1,103 @@
+/**
+ * Alert webhook tests
+ * Validation, filter matching and the signature the bundled receiver checks
+ */
+
+import {
+  EMPTY_WEBHOOK_FILTERS,
+  deliveryStatus,
+  describeWebhookFilters,
+  generateWebhookSecret,
+  validateWebhook,
+  validateWebhookSecret,
+  webhookMatchesAlert
+} from '../market-edge-webhooks'
+import { Market, MarketAlert, WebhookInput } from '@/types/market-edge'
+import { signPayload, verifySignature } from '../../../scripts/webhook-receiver'
+
+const alert: MarketAlert = {
+  id: 'alert-1',
+  market_id: 'mkt-1',
+  organisation_id: 'org-1',
+  alert_type: 'price_change',
+  severity: 'high',
+  title: 'Starlight cut prices',
+  message: 'Adult tickets dropped 12%',
+  is_read: false,
+  created_at: '2025-03-10T09:00:00Z'
+}
+
+const markets = [
+  { id: 'mkt-1', name: 'London Cinemas' },
+  { id: 'mkt-2', name: 'Leeds Gyms' }
+] as Market[]
+
+const webhook: WebhookInput = {
+  name: 'Ops relay',
+  url: 'https://hooks.example.com/market-edge',
+  secret: 'whsec_0123456789abcdef',
+  filters: EMPTY_WEBHOOK_FILTERS,
+  is_active: true
+}
+
+describe('validateWebhook', () => {
+  it('accepts HTTPS and local HTTP receivers', () => {
+    expect(validateWebhook(webhook)).toBeNull()
+    expect(validateWebhook({ ...webhook, url: 'http://localhost:4001/hook' })).toBeNull()
+  })
+
+  it('reports the first problem', () => {
+    expect(validateWebhook({ ...webhook, name: ' ' })).toBe('Name is required')
+    expect(validateWebhook({ ...webhook, url: 'hooks.example.com' })).toBe('Enter a valid URL')
+    expect(validateWebhook({ ...webhook, url: 'http://hooks.example.com' })).toMatch(/HTTPS/)
+  })
+
+  it('requires secrets of at least 16 characters', () => {
+    expect(validateWebhookSecret(webhook.secret)).toBeNull()
+    expect(validateWebhookSecret(generateWebhookSecret())).toBeNull()
+    expect(validateWebhookSecret('short')).toMatch(/at least 16/)
+    expect(validateWebhookSecret(undefined)).toMatch(/at least 16/)
+  })
+})
+
+describe('webhook filters', () => {
+  it('treats empty lists as matching everything', () => {
+    expect(webhookMatchesAlert(EMPTY_WEBHOOK_FILTERS, alert)).toBe(true)
+    expect(webhookMatchesAlert({ ...EMPTY_WEBHOOK_FILTERS, severities: ['high', 'critical'] }, alert)).toBe(true)
+    expect(webhookMatchesAlert({ ...EMPTY_WEBHOOK_FILTERS, alert_types: ['anomaly'] }, alert)).toBe(false)
+    expect(webhookMatchesAlert({ ...EMPTY_WEBHOOK_FILTERS, market_ids: ['mkt-2'] }, alert)).toBe(false)
+  })
+
+  it('describes filters in severity order', () => {
+    expect(describeWebhookFilters(EMPTY_WEBHOOK_FILTERS, markets)).toBe('All alerts')
+    expect(describeWebhookFilters(
+      { severities: ['critical', 'high'], alert_types: ['price_change'], market_ids: ['mkt-2'] },
+      markets
+    )).toBe('High, critical · Price Change · Leeds Gyms')
+    expect(describeWebhookFilters({ ...EMPTY_WEBHOOK_FILTERS, market_ids: ['mkt-1'] }, markets))
+      .toBe('Any severity · any type · London Cinemas')
+  })
+})
+
+describe('deliveryStatus', () => {
+  it('succeeds once any attempt gets a 2xx response', () => {
+    const attempt = (status_code: number | null) => ({ attempted_at: '2025-03-10T09:00:00Z', status_code, duration_ms: 120 })
+
+    expect(deliveryStatus([attempt(503), attempt(204)])).toBe('succeeded')
+    expect(deliveryStatus([attempt(null), attempt(429)])).toBe('failed')
+    expect(deliveryStatus([])).toBe('failed')
+  })
+})
+
+describe('bundled webhook receiver', () => {
+  // HMAC-SHA256 of `<timestamp>.<body>`, as the backend signs deliveries
+  const body = '{"id":"alert-1"}'
+  const signature = 'sha256=5ef9ab3be8f6073100984f54a1ce89873ef248947dfee179fb439b2ca964dfaf'
+
+  it('checks the documented signature', () => {
+    expect(signPayload(webhook.secret, '1741597200', body)).toBe(signature)
+    expect(verifySignature(webhook.secret, '1741597200', body, signature)).toBe(true)
+    expect(verifySignature(webhook.secret, '1741597201', body, signature)).toBe(false)
+    expect(verifySignature('whsec_another-secret', '1741597200', body, signature)).toBe(false)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment-options {"url": "http://localhost:3000", "customExportConditions": ["node", "require"]}
+ *
+ * Market Edge XLSX export tests
+ * Builds a workbook from synthetic data and checks its sheets and cell types
+ */
+
+import { buildMarketWorkbook, currencyNumberFormat } from '../market-edge-xlsx'
+import { MarketExportData } from '../market-edge-export'
+import { SyntheticDataSource } from '../market-edge-synthetic-data'
+import {
+  CompetitorComparison,
+  MarketAlert,
+  MarketOverview,
+  MarketTrends,
+  PricingData
+} from '@/types/market-edge'
+
+describe('buildMarketWorkbook', () => {
+  const referenceDate = new Date('2025-03-14T00:00:00Z')
+  let data: MarketExportData
+
+  beforeAll(async () => {
+    const source = new SyntheticDataSource({ seed: 42, referenceDate })
+    const market = '/markets/mkt-london-cinemas'
+    data = {
+      overview: await source.request<MarketOverview>(`${market}/overview`),
+      date_range: { start: '2025-02-12', end: '2025-03-14' },
+      generated_at: '2025-03-14T09:00:00.000Z',
+      pricing: await source.request<PricingData[]>(`${market}/pricing-data?limit=20`),
+      trends: await source.request<MarketTrends>(`${market}/trends?days_back=30`),
+      anomalies: [],
+      comparison: await source.request<CompetitorComparison>(`${market}/comparison`),
+      alerts: await source.request<MarketAlert[]>(`${market}/alerts`)
+    }
+  })
+
+  it('writes one sheet per section', () => {
+    const workbook = buildMarketWorkbook(data)
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+      'Overview',
+      'Competitors',
+      'Pricing Data',
+      'Weekly Trends',
+      'Comparison Rankings',
+      'Alerts'
+    ])
+  })
+
+  it('stores prices as numeric cells with a currency format', () => {
+    const sheet = buildMarketWorkbook(data).getWorksheet('Pricing Data')!
+    const price = sheet.getRow(2).getCell(4)
+
+    expect(typeof price.value).toBe('number')
+    expect(price.value).toBe(data.pricing[0].price_point)
+    expect(price.numFmt).toBe(currencyNumberFormat('GBP'))
+    expect(sheet.getRow(2).getCell(1).value).toBeInstanceOf(Date)
+    expect(sheet.rowCount).toBe(data.pricing.length + 1)
+  })
+
+  it('adds a weekly column for every competitor', () => {
+    const sheet = buildMarketWorkbook(data).getWorksheet('Weekly Trends')!
+    const header = sheet.getRow(1).values as unknown[]
+    const competitorNames = Object.values(data.trends!.competitor_trends).map(c => c.name)
+
+    expect(header.slice(1)).toEqual(['Week', 'Market Average', ...competitorNames])
+    expect(typeof sheet.getRow(2).getCell(2).value).toBe('number')
+  })
+
+  it('lists competitors in price rank order', () => {
+    const sheet = buildMarketWorkbook(data).getWorksheet('Comparison Rankings')!
+
+    expect(sheet.rowCount).toBe(data.comparison!.rankings.by_price.length + 1)
+    expect(sheet.getRow(2).getCell(1).value).toBe(1)
+    expect(sheet.getRow(2).getCell(2).value).toBe(data.comparison!.rankings.by_price[0].name)
+  })
+
+  it('skips sections that were not requested', () => {
+    const workbook = buildMarketWorkbook(data, { include_pricing: false, include_trends: false })
+    const names = workbook.worksheets.map(sheet => sheet.name)
+
+    expect(names).not.toContain('Pricing Data')
+    expect(names).not.toContain('Weekly Trends')
+    expect(names).toContain('Alerts')
+  })
+
+  it('serialises to an xlsx (zip) buffer', async () => {
+    // Zip compression schedules real timers
+    jest.useRealTimers()
+    const buffer = Buffer.from(await buildMarketWorkbook(data).xlsx.writeBuffer())
+
+    expect(buffer.subarray(0, 2).toString()).toBe('PK')
+  })
+
+  it('falls back to the ISO code for currencies without a symbol', () => {
+    expect(currencyNumberFormat('chf')).toContain('"CHF"')
+    expect(currencyNumberFormat('EUR')).toContain('"€"')
+  })
+})
@@ -0,0 +1,209 @@
+import {
+  AlertRuleInput,
+  AlertRuleMatch,
+  AlertRuleMetric,
+  AlertRuleOperator,
+  Competitor,
+  MarketAlert,
+  PricingData
+} from '@/types/market-edge';
+import { AnalysisWindow, mean, round2 } from './market-edge-analytics';
+import { formatPrice } from './market-edge-currency';
+
+/**
+ * User-defined alert rules. A rule is a condition over one competitor (or
+ * every competitor) and optionally one product. Threshold metrics are
+ * evaluated once a day over a trailing window and fire when the condition
+ * starts to hold, so a sustained price cut alerts once rather than daily.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BACKTEST_DAYS = 90;
+export const MAX_RULE_WINDOW_DAYS = 90;
+
+export const ALERT_RULE_METRICS: Record<AlertRuleMetric, { label: string; unit?: 'percent' | 'price' }> = {
+  price_change_percent: { label: 'Price change', unit: 'percent' },
+  average_price: { label: 'Average price', unit: 'price' },
+  new_competitor: { label: 'New competitor' },
+  new_product: { label: 'New product' }
+};
+
+export const ALERT_RULE_OPERATORS: Record<AlertRuleOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤'
+};
+
+export const ALERT_SEVERITIES: MarketAlert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+/** Hidden from triage and notifications until `snoozed_until` passes. */
+export const isAlertSnoozed = (alert: MarketAlert, now = new Date()) =>
+  !!alert.snoozed_until && new Date(alert.snoozed_until).getTime() > now.getTime();
+
+/** Event metrics fire on a first sighting and ignore operator and threshold. */
+export const isEventMetric = (metric: AlertRuleMetric) =>
+  metric === 'new_competitor' || metric === 'new_product';
+
+export const DEFAULT_ALERT_RULE: AlertRuleInput = {
+  name: '',
+  metric: 'price_change_percent',
+  operator: 'lt',
+  threshold: -5,
+  window_days: 7,
+  severity: 'medium',
+  is_active: true
+};
+
+/** Returns the first problem with a rule, or null when it can be saved. */
+export const validateAlertRule = (rule: Partial<AlertRuleInput>): string | null => {
+  if (!rule.name || !rule.name.trim()) return 'Name is required';
+  if (!rule.metric || !ALERT_RULE_METRICS[rule.metric]) return 'Choose a metric';
+  if (!rule.severity || ALERT_SEVERITIES.indexOf(rule.severity) === -1) return 'Choose a severity';
+  if (!Number.isInteger(rule.window_days) || rule.window_days! < 1 || rule.window_days! > MAX_RULE_WINDOW_DAYS) {
+    return `Window must be between 1 and ${MAX_RULE_WINDOW_DAYS} days`;
+  }
+  if (isEventMetric(rule.metric)) return null;
+  if (!rule.operator || !ALERT_RULE_OPERATORS[rule.operator]) return 'Choose an operator';
+  if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) return 'Threshold must be a number';
+  return null;
+};
+
+/** Short summary such as "Starlight · Adult Ticket · Price change < -5% over 7 days". */
+export const describeAlertRule = (rule: AlertRuleInput, competitors: Competitor[], currency?: string) => {
+  const competitor = rule.competitor_id
+    ? competitors.find(c => c.id === rule.competitor_id)?.name || 'Unknown competitor'
+    : 'Any competitor';
+  const { label, unit } = ALERT_RULE_METRICS[rule.metric];
+  const threshold = unit === 'price' ? formatPrice(rule.threshold, currency) : `${rule.threshold}%`;
+  const condition = isEventMetric(rule.metric)
+    ? `${label} within ${rule.window_days} days`
+    : `${label} ${ALERT_RULE_OPERATORS[rule.operator]} ${threshold} over ${rule.window_days} days`;
+  return [competitor, rule.product_service, condition].filter(Boolean).join(' · ');
+};
+
+const compare = (value: number, operator: AlertRuleOperator, threshold: number) => {
+  switch (operator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+  }
+};
+
+const collectedAt = (p: PricingData) => new Date(p.date_collected).getTime();
+
+const inRange = (points: PricingData[], from: number, to: number) =>
+  points.filter(p => {
+    const t = collectedAt(p);
+    return t > from && t <= to;
+  });
+
+/** Change in average price across products sold in both periods. */
+const priceChangePercent = (current: PricingData[], previous: PricingData[]) => {
+  const shared = current.filter(p => previous.some(q => q.product_service === p.product_service));
+  const sharedPrevious = previous.filter(p => current.some(q => q.product_service === p.product_service));
+  if (!shared.length) return undefined;
+  const before = mean(sharedPrevious.map(p => p.price_point));
+  return before > 0 ? ((mean(shared.map(p => p.price_point)) - before) / before) * 100 : undefined;
+};
+
+const eventMatches = (
+  rule: AlertRuleInput,
+  scoped: PricingData[],
+  earliest: number,
+  window: AnalysisWindow,
+  nameOf: (id: string) => string
+): AlertRuleMatch[] => {
+  const subjectKey = (p: PricingData) =>
+    rule.metric === 'new_competitor' ? p.competitor_id : `${p.competitor_id}|${p.product_service}`;
+  const firstSeen = scoped.reduce((acc, p) => {
+    const key = subjectKey(p);
+    if (!acc[key] || collectedAt(p) < collectedAt(acc[key])) acc[key] = p;
+    return acc;
+  }, {} as Record<string, PricingData>);
+
+  return Object.values(firstSeen)
+    // Anything seen on the first day of data is not new, it predates tracking
+    .filter(p => collectedAt(p) > earliest + DAY_MS)
+    .filter(p => collectedAt(p) > window.start.getTime() && collectedAt(p) <= window.end.getTime())
+    .map(p => {
+      const name = nameOf(p.competitor_id);
+      return {
+        triggered_at: p.date_collected,
+        competitor_id: p.competitor_id,
+        competitor_name: name,
+        product_service: p.product_service,
+        severity: rule.severity,
+        title: rule.name,
+        message: rule.metric === 'new_competitor'
+          ? `${name} appeared in the market with ${p.product_service}`
+          : `${name} started listing ${p.product_service}`
+      };
+    });
+};
+
+/**
+ * Alerts the rule would have raised over the window, newest first. Prices
+ * are evaluated at the end of each day against the trailing `window_days`
+ * (and the period before it for price changes), ignoring promotions.
+ */
+export const backtestAlertRule = (
+  rule: AlertRuleInput,
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow,
+  currency?: string
+): AlertRuleMatch[] => {
+  const nameOf = (id: string) => competitors.find(c => c.id === id)?.name || 'Unknown';
+  const scoped = pricing.filter(p =>
+    (!rule.competitor_id || p.competitor_id === rule.competitor_id) &&
+    (!rule.product_service || p.product_service === rule.product_service)
+  );
+
+  if (isEventMetric(rule.metric)) {
+    const earliest = pricing.length ? Math.min(...pricing.map(collectedAt)) : 0;
+    return eventMatches(rule, scoped, earliest, window, nameOf)
+      .sort((a, b) => b.triggered_at.localeCompare(a.triggered_at));
+  }
+
+  const byCompetitor = scoped.filter(p => !p.is_promotion).reduce((acc, p) => {
+    (acc[p.competitor_id] = acc[p.competitor_id] || []).push(p);
+    return acc;
+  }, {} as Record<string, PricingData[]>);
+  const span = rule.window_days * DAY_MS;
+  const productLabel = rule.product_service ? `${rule.product_service} prices` : 'average prices';
+  const matches: AlertRuleMatch[] = [];
+
+  Object.entries(byCompetitor).forEach(([competitorId, points]) => {
+    let firing = false;
+    for (let t = window.start.getTime() + DAY_MS; t <= window.end.getTime(); t += DAY_MS) {
+      const current = inRange(points, t - span, t);
+      const value = rule.metric === 'average_price'
+        ? (current.length ? mean(current.map(p => p.price_point)) : undefined)
+        : priceChangePercent(current, inRange(points, t - 2 * span, t - span));
+      const holds = value !== undefined && compare(round2(value), rule.operator, rule.threshold);
+
+      if (holds && !firing) {
+        const name = nameOf(competitorId);
+        const rounded = round2(value!);
+        matches.push({
+          triggered_at: new Date(t).toISOString(),
+          competitor_id: competitorId,
+          competitor_name: name,
+          product_service: rule.product_service,
+          value: rounded,
+          severity: rule.severity,
+          title: rule.name,
+          message: rule.metric === 'average_price'
+            ? `${name} ${productLabel} averaged ${formatPrice(rounded, currency)} over ${rule.window_days} days`
+            : `${name} ${rounded < 0 ? 'cut' : 'raised'} ${productLabel} by ${Math.abs(rounded).toFixed(1)}% over ${rule.window_days} days`
+        });
+      }
+      firing = holds;
+    }
+  });
+
+  return matches.sort((a, b) => b.triggered_at.localeCompare(a.triggered_at));
+};
@@ -0,0 +1,195 @@
+import { MarketAlert } from '@/types/market-edge';
+import { marketEdgeAPI } from './market-edge-api';
+
+/**
+ * Live alert delivery for one market. Alerts arrive over a Server-Sent
+ * Events stream when the data source offers one; otherwise, or while the
+ * stream is down, unread alerts are polled while the page is visible.
+ * Alerts are deduplicated by id so reconnects and polls never repeat one.
+ */
+
+export type AlertStreamStatus = 'connecting' | 'live' | 'polling' | 'closed';
+
+export const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+export const DEFAULT_RECONNECT_DELAY_MS = 60 * 1000;
+
+// The subset of EventSource used here, so tests can supply a fake
+export interface AlertEventSource {
+  onopen: ((event: Event) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+  close(): void;
+}
+
+export interface AlertSubscriptionOptions {
+  marketId: string;
+  // Called with alerts not seen before, newest first
+  onAlerts: (alerts: MarketAlert[]) => void;
+  onStatusChange?: (status: AlertStreamStatus) => void;
+  // Alerts already on screen, so they are not announced again
+  knownAlertIds?: Iterable<string>;
+  // Resolves the URL for each connection attempt; null means poll only
+  getStreamUrl?: () => Promise<string | null>;
+  pollIntervalMs?: number;
+  reconnectDelayMs?: number;
+  createEventSource?: (url: string) => AlertEventSource;
+  fetchUnread?: () => Promise<MarketAlert[]>;
+}
+
+export interface AlertSubscription {
+  readonly status: AlertStreamStatus;
+  close(): void;
+}
+
+const browserEventSource = (url: string): AlertEventSource => new EventSource(url);
+
+/** Stream payloads carry one alert or a batch of them. */
+export const parseAlertEvent = (data: string): MarketAlert[] => {
+  try {
+    const parsed = JSON.parse(data);
+    const alerts = Array.isArray(parsed) ? parsed : [parsed];
+    return alerts.filter(a => a && typeof a.id === 'string');
+  } catch {
+    return [];
+  }
+};
+
+export const subscribeToMarketAlerts = (options: AlertSubscriptionOptions): AlertSubscription => {
+  const {
+    marketId,
+    onAlerts,
+    onStatusChange,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    reconnectDelayMs = DEFAULT_RECONNECT_DELAY_MS,
+    fetchUnread = () => marketEdgeAPI.getMarketAlerts(marketId, { unread_only: true }),
+    getStreamUrl = () => marketEdgeAPI.alertStreamUrl(marketId)
+  } = options;
+  const createEventSource = options.createEventSource
+    || (typeof EventSource !== 'undefined' ? browserEventSource : null);
+
+  const seen = new Set(options.knownAlertIds || []);
+  let status: AlertStreamStatus = 'connecting';
+  let source: AlertEventSource | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setStatus = (next: AlertStreamStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const deliver = (alerts: MarketAlert[]) => {
+    const fresh = alerts.filter(a => !seen.has(a.id));
+    fresh.forEach(a => seen.add(a.id));
+    if (fresh.length) {
+      onAlerts(fresh.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    }
+  };
+
+  const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+  const poll = async () => {
+    pollTimer = null;
+    if (status !== 'polling') return;
+    if (!isHidden()) {
+      try {
+        deliver(await fetchUnread());
+      } catch (error) {
+        console.warn('Failed to poll market alerts:', error);
+      }
+    }
+    if (status === 'polling' && !pollTimer) {
+      pollTimer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = null;
+  };
+
+  const startPolling = () => {
+    setStatus('polling');
+    stopPolling();
+    poll();
+  };
+
+  // Catch up as soon as a hidden tab comes back instead of waiting a full interval
+  const handleVisibilityChange = () => {
+    if (status === 'polling' && !isHidden()) {
+      stopPolling();
+      poll();
+    }
+  };
+
+  const scheduleReconnect = () => {
+    reconnectTimer = setTimeout(connect, reconnectDelayMs);
+  };
+
+  const connect = async () => {
+    reconnectTimer = null;
+    if (!createEventSource) {
+      startPolling();
+      return;
+    }
+
+    let streamUrl: string | null;
+    try {
+      streamUrl = await getStreamUrl();
+    } catch (error) {
+      // No ticket means no stream for now; poll and try again later
+      console.warn('Failed to open market alert stream:', error);
+      if (status === 'closed') return;
+      startPolling();
+      scheduleReconnect();
+      return;
+    }
+    if (status === 'closed') return;
+    if (!streamUrl) {
+      startPolling();
+      return;
+    }
+
+    const next = createEventSource(streamUrl);
+    source = next;
+    next.onopen = () => {
+      if (source !== next) return;
+      stopPolling();
+      setStatus('live');
+      // Pick up anything raised while the stream was down
+      fetchUnread().then(deliver).catch(() => undefined);
+    };
+    next.onerror = () => {
+      if (source !== next) return;
+      next.close();
+      source = null;
+      startPolling();
+      scheduleReconnect();
+    };
+    next.addEventListener('alert', event => deliver(parseAlertEvent(event.data)));
+  };
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+  onStatusChange?.(status);
+  connect();
+
+  return {
+    get status() {
+      return status;
+    },
+    close() {
+      source?.close();
+      source = null;
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+      setStatus('closed');
+    }
+  };
+};
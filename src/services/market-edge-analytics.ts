@@ -0,0 +1,612 @@
+import {
+  Competitor,
+  PricingData,
+  MarketMetrics,
+  CompetitorMetrics,
+  PricingTrends,
+  PriceAnomaly,
+  CompetitorAnalysis,
+  CompetitorComparison,
+  MarketTrends,
+  CompetitorMove,
+  TrendGranularity,
+  PromotionEntry,
+  PromotionSummary
+} from '@/types/market-edge';
+
+/**
+ * Client-side implementations of the Market Edge analysis endpoints.
+ *
+ * These mirror the calculations performed by the backend so that locally
+ * generated pricing data (see the synthetic data source) produces responses
+ * with the same shape and semantics as the live API.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statistics helpers
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+export const quantile = (sortedValues: number[], q: number) => {
+  if (!sortedValues.length) return 0;
+  const position = (sortedValues.length - 1) * q;
+  const base = Math.floor(position);
+  const rest = position - base;
+  const next = sortedValues[base + 1];
+  return next !== undefined
+    ? sortedValues[base] + rest * (next - sortedValues[base])
+    : sortedValues[base];
+};
+
+export const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * ISO 8601 week key for a date, e.g. `2025-W07`.
+ * The ISO year can differ from the calendar year around 1 January.
+ */
+export const toIsoWeekKey = (date: Date | string) => {
+  const d = new Date(typeof date === 'string' ? date : date.getTime());
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  const dayOfWeek = target.getUTCDay() || 7;
+  target.setUTCDate(target.getUTCDate() + 4 - dayOfWeek);
+  const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((target.getTime() - yearStart.getTime()) / DAY_MS + 1) / 7);
+  return `${target.getUTCFullYear()}-W${week < 10 ? '0' : ''}${week}`;
+};
+
+/** Monday (UTC) of an ISO week key such as `2025-W07`, or null if malformed. */
+export const isoWeekStartDate = (weekKey: string): Date | null => {
+  const match = /^(\d{4})-W(\d{1,2})$/.exec(weekKey);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const week = parseInt(match[2], 10);
+  // 4 January is always in week 1
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const week1Monday = new Date(jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS);
+  return new Date(week1Monday.getTime() + (week - 1) * 7 * DAY_MS);
+};
+
+/** Period key for a date at the given granularity (UTC). */
+export const periodKey = (date: Date | string, granularity: TrendGranularity) => {
+  const iso = new Date(typeof date === 'string' ? date : date.getTime()).toISOString();
+  if (granularity === 'day') return iso.substring(0, 10);
+  if (granularity === 'month') return iso.substring(0, 7);
+  return toIsoWeekKey(iso);
+};
+
+export interface AnalysisWindow {
+  start: Date;
+  end: Date;
+}
+
+export const windowFromDaysBack = (referenceDate: Date, daysBack: number): AnalysisWindow => ({
+  start: new Date(referenceDate.getTime() - daysBack * DAY_MS),
+  end: referenceDate
+});
+
+// Inclusive YYYY-MM-DD range covering the whole of the end day
+export const windowFromDateRange = (startDate: string, endDate: string): AnalysisWindow => ({
+  start: new Date(`${startDate}T00:00:00.000Z`),
+  end: new Date(`${endDate}T23:59:59.999Z`)
+});
+
+export const windowDays = (window: AnalysisWindow) =>
+  Math.max(1, Math.round((window.end.getTime() - window.start.getTime()) / DAY_MS));
+
+export const filterPricing = (
+  pricing: PricingData[],
+  filters: {
+    window?: AnalysisWindow;
+    competitor_id?: string;
+    product_service?: string;
+    exclude_promotions?: boolean;
+  }
+) => pricing.filter(p => {
+  if (filters.competitor_id && p.competitor_id !== filters.competitor_id) return false;
+  if (filters.exclude_promotions && p.is_promotion) return false;
+  if (filters.product_service && p.product_service !== filters.product_service) return false;
+  if (filters.window) {
+    const collected = new Date(p.date_collected).getTime();
+    if (collected < filters.window.start.getTime() || collected > filters.window.end.getTime()) {
+      return false;
+    }
+  }
+  return true;
+});
+
+const groupBy = <T>(items: T[], key: (item: T) => string) =>
+  items.reduce((acc, item) => {
+    const k = key(item);
+    (acc[k] = acc[k] || []).push(item);
+    return acc;
+  }, {} as Record<string, T[]>);
+
+/** The single currency every row was converted from, if there is one. */
+export const commonOriginalCurrency = (pricing: PricingData[]) => {
+  const currencies = new Set(pricing.map(p => p.original_currency || null));
+  const [only] = Array.from(currencies);
+  return currencies.size === 1 && only ? only : undefined;
+};
+
+const originalPrices = (pricing: PricingData[]) =>
+  pricing.map(p => ({ ...p, price_point: p.original_price_point ?? p.price_point }));
+
+export const periodAverages = (pricing: PricingData[], granularity: TrendGranularity) => {
+  const byPeriod = groupBy(pricing, p => periodKey(p.date_collected, granularity));
+  return Object.keys(byPeriod).sort().reduce((acc, period) => {
+    acc[period] = round2(mean(byPeriod[period].map(p => p.price_point)));
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+export const weeklyAverages = (pricing: PricingData[]) => periodAverages(pricing, 'week');
+
+export const computePricingTrends = (pricing: PricingData[]): PricingTrends => {
+  const weekly = weeklyAverages(pricing);
+  const weeks = Object.keys(weekly);
+
+  if (weeks.length < 2) {
+    return {
+      trend: 'insufficient_data',
+      weekly_averages: weekly,
+      price_change: 0,
+      price_change_percent: 0
+    };
+  }
+
+  const first = weekly[weeks[0]];
+  const last = weekly[weeks[weeks.length - 1]];
+  const change = last - first;
+  const changePercent = first > 0 ? (change / first) * 100 : 0;
+
+  return {
+    trend: changePercent > 2 ? 'increasing' : changePercent < -2 ? 'decreasing' : 'stable',
+    weekly_averages: weekly,
+    price_change: round2(change),
+    price_change_percent: round2(changePercent)
+  };
+};
+
+/**
+ * Prices are only comparable within a product/service, so z-scores are
+ * calculated per product rather than across the whole market.
+ */
+export const detectAnomalies = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  threshold = 2
+): PriceAnomaly[] => {
+  const names = competitors.reduce((acc, c) => {
+    acc[c.id] = c.name;
+    return acc;
+  }, {} as Record<string, string>);
+
+  const anomalies: PriceAnomaly[] = [];
+  const byProduct = groupBy(pricing, p => p.product_service);
+
+  Object.keys(byProduct).forEach(product => {
+    const points = byProduct[product];
+    const prices = points.map(p => p.price_point);
+    const avg = mean(prices);
+    const std = standardDeviation(prices);
+    if (std === 0) return;
+
+    points.forEach(point => {
+      const zScore = (point.price_point - avg) / std;
+      if (Math.abs(zScore) < threshold) return;
+      anomalies.push({
+        id: point.id,
+        competitor_name: names[point.competitor_id] || 'Unknown',
+        product_service: point.product_service,
+        price: point.price_point,
+        z_score: round2(zScore),
+        date_collected: point.date_collected,
+        deviation_from_mean: round2(point.price_point - avg),
+        severity: Math.abs(zScore) >= 3 ? 'high' : 'medium'
+      });
+    });
+  });
+
+  return anomalies.sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score));
+};
+
+const summarisePrices = (prices: number[]) => {
+  const sorted = [...prices].sort((a, b) => a - b);
+  return {
+    average_price: round2(mean(sorted)),
+    median_price: round2(quantile(sorted, 0.5)),
+    min_price: sorted.length ? sorted[0] : 0,
+    max_price: sorted.length ? sorted[sorted.length - 1] : 0,
+    standard_deviation: round2(standardDeviation(sorted))
+  };
+};
+
+const priceQuartiles = (sorted: number[]) => sorted.length ? {
+  q1: round2(quantile(sorted, 0.25)),
+  q2: round2(quantile(sorted, 0.5)),
+  q3: round2(quantile(sorted, 0.75))
+} : undefined;
+
+export const computeMarketMetrics = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow
+): MarketMetrics => {
+  const prices = pricing.map(p => p.price_point);
+  const sorted = [...prices].sort((a, b) => a - b);
+  const summary = summarisePrices(prices);
+
+  const byCompetitor = groupBy(pricing, p => p.competitor_id);
+  const ranked = competitors
+    .filter(c => byCompetitor[c.id])
+    .map(c => ({ competitor: c, prices: byCompetitor[c.id].map(p => p.price_point) }))
+    .map(({ competitor, prices }) => ({ competitor, prices, stats: summarisePrices(prices) }))
+    .sort((a, b) => a.stats.average_price - b.stats.average_price);
+
+  const competitorMetrics = ranked.reduce((acc, { competitor, prices, stats }, index) => {
+    const rank = index + 1;
+    acc[competitor.id] = {
+      name: competitor.name,
+      ...stats,
+      price_quartiles: priceQuartiles([...prices].sort((a, b) => a - b)),
+      price_points_count: byCompetitor[competitor.id].length,
+      price_rank: rank,
+      position: rank <= ranked.length / 3 ? 'low' : rank > (ranked.length * 2) / 3 ? 'high' : 'mid'
+    };
+    return acc;
+  }, {} as Record<string, CompetitorMetrics>);
+
+  return {
+    period_start: window.start.toISOString(),
+    period_end: window.end.toISOString(),
+    total_data_points: pricing.length,
+    ...summary,
+    price_range: round2(summary.max_price - summary.min_price),
+    price_quartiles: priceQuartiles(sorted),
+    competitors: competitorMetrics,
+    trends: computePricingTrends(pricing),
+    anomalies: detectAnomalies(pricing, competitors)
+  };
+};
+
+export const computeCompetitorAnalysis = (
+  competitor: Competitor,
+  competitorPricing: PricingData[],
+  marketPricing: PricingData[]
+): CompetitorAnalysis => {
+  const stats = summarisePrices(competitorPricing.map(p => p.price_point));
+  const marketAverage = round2(mean(marketPricing.map(p => p.price_point)));
+  const ratio = marketAverage > 0 ? stats.average_price / marketAverage : 1;
+
+  const byProduct = groupBy(competitorPricing, p => p.product_service);
+  const productBreakdown = Object.keys(byProduct).sort().reduce((acc, product) => {
+    const productStats = summarisePrices(byProduct[product].map(p => p.price_point));
+    acc[product] = {
+      average_price: productStats.average_price,
+      min_price: productStats.min_price,
+      max_price: productStats.max_price,
+      data_points: byProduct[product].length
+    };
+    return acc;
+  }, {} as CompetitorAnalysis['product_breakdown']);
+
+  return {
+    competitor,
+    pricing_metrics: {
+      average_price: stats.average_price,
+      min_price: stats.min_price,
+      max_price: stats.max_price,
+      total_data_points: competitorPricing.length,
+      position_vs_market: ratio < 0.95 ? 'below_market' : ratio > 1.05 ? 'above_market' : 'at_market',
+      market_average: marketAverage
+    },
+    product_breakdown: productBreakdown,
+    recent_pricing: [...competitorPricing]
+      .sort((a, b) => new Date(b.date_collected).getTime() - new Date(a.date_collected).getTime())
+      .slice(0, 20)
+  };
+};
+
+export const computeCompetitorComparison = (
+  marketId: string,
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow,
+  productService?: string
+): CompetitorComparison => {
+  const byCompetitor = groupBy(pricing, p => p.competitor_id);
+  const ranked = competitors
+    .filter(c => byCompetitor[c.id])
+    .map(c => ({ competitor: c, prices: byCompetitor[c.id].map(p => p.price_point) }))
+    .map(({ competitor, prices }) => ({ competitor, prices, stats: summarisePrices(prices) }))
+    .sort((a, b) => a.stats.average_price - b.stats.average_price);
+
+  const comparison: CompetitorComparison['competitors'] = {};
+  ranked.forEach(({ competitor, stats }, index) => {
+    const products = byCompetitor[competitor.id].map(p => p.product_service);
+    const originalCurrency = commonOriginalCurrency(byCompetitor[competitor.id]);
+    comparison[competitor.id] = {
+      name: competitor.name,
+      business_type: competitor.business_type,
+      average_price: stats.average_price,
+      min_price: stats.min_price,
+      max_price: stats.max_price,
+      data_points: byCompetitor[competitor.id].length,
+      products_services: products.filter((p, i) => products.indexOf(p) === i).sort(),
+      market_share_estimate: competitor.market_share_estimate,
+      tracking_priority: competitor.tracking_priority,
+      price_rank: index + 1,
+      ...(originalCurrency ? {
+        original_currency: originalCurrency,
+        original_average_price: round2(mean(originalPrices(byCompetitor[competitor.id]).map(p => p.price_point)))
+      } : {})
+    };
+  });
+
+  return {
+    market_id: marketId,
+    product_service_filter: productService,
+    comparison_period: {
+      start_date: window.start.toISOString(),
+      end_date: window.end.toISOString()
+    },
+    competitors: comparison,
+    rankings: {
+      by_price: ranked.map(({ competitor, stats }, index) => ({
+        competitor_id: competitor.id,
+        name: competitor.name,
+        average_price: stats.average_price,
+        rank: index + 1
+      }))
+    }
+  };
+};
+
+export const computeMarketTrends = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow,
+  daysBack: number,
+  filters: { competitor_id?: string; product_service?: string } = {},
+  granularity: TrendGranularity = 'week'
+): MarketTrends => {
+  const byCompetitor = groupBy(pricing, p => p.competitor_id);
+
+  return {
+    period: {
+      start_date: window.start.toISOString(),
+      end_date: window.end.toISOString(),
+      days_back: daysBack
+    },
+    filters,
+    market_trend: periodAverages(pricing, granularity),
+    competitor_trends: competitors
+      .filter(c => byCompetitor[c.id])
+      .reduce((acc, c) => {
+        const originalCurrency = commonOriginalCurrency(byCompetitor[c.id]);
+        acc[c.id] = { name: c.name, weekly_averages: periodAverages(byCompetitor[c.id], granularity) };
+        if (originalCurrency) {
+          acc[c.id].original_currency = originalCurrency;
+          acc[c.id].original_weekly_averages = periodAverages(originalPrices(byCompetitor[c.id]), granularity);
+        }
+        return acc;
+      }, {} as MarketTrends['competitor_trends']),
+    data_points_count: pricing.length
+  };
+};
+
+/**
+ * Compares each competitor's last week of pricing with the week before and
+ * flags products that first appeared in the recent window.
+ */
+export const detectCompetitorMoves = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  referenceDate: Date,
+  recentDays = 7
+): CompetitorMove[] => {
+  const recentStart = referenceDate.getTime() - recentDays * DAY_MS;
+  const previousStart = recentStart - recentDays * DAY_MS;
+  const moves: CompetitorMove[] = [];
+
+  competitors.forEach(competitor => {
+    const points = pricing.filter(p => p.competitor_id === competitor.id && !p.is_promotion);
+    const recent = points.filter(p => new Date(p.date_collected).getTime() >= recentStart);
+    const previous = points.filter(p => {
+      const t = new Date(p.date_collected).getTime();
+      return t >= previousStart && t < recentStart;
+    });
+
+    // Compare like-for-like products so a new product does not look like a price move
+    const sharedProducts = recent
+      .map(p => p.product_service)
+      .filter(product => previous.some(p => p.product_service === product));
+
+    if (sharedProducts.length) {
+      const currentAverage = mean(recent.filter(p => sharedProducts.indexOf(p.product_service) !== -1).map(p => p.price_point));
+      const previousAverage = mean(previous.filter(p => sharedProducts.indexOf(p.product_service) !== -1).map(p => p.price_point));
+      const changePercent = previousAverage > 0 ? ((currentAverage - previousAverage) / previousAverage) * 100 : 0;
+
+      if (Math.abs(changePercent) >= 2) {
+        const latest = recent.reduce((a, b) => (a.date_collected > b.date_collected ? a : b));
+        moves.push({
+          type: 'price_change',
+          competitor_id: competitor.id,
+          competitor_name: competitor.name,
+          change_type: changePercent > 0 ? 'increase' : 'decrease',
+          change_percent: round2(changePercent),
+          current_average: round2(currentAverage),
+          previous_average: round2(previousAverage),
+          significance: Math.abs(changePercent) >= 10 ? 'high' : Math.abs(changePercent) >= 5 ? 'medium' : 'low',
+          detected_at: latest.date_collected
+        });
+      }
+    }
+
+    const earlierProducts = points
+      .filter(p => new Date(p.date_collected).getTime() < recentStart)
+      .map(p => p.product_service);
+    const launches = recent.filter(p => earlierProducts.indexOf(p.product_service) === -1);
+    const newProducts = launches
+      .map(p => p.product_service)
+      .filter((p, i, all) => all.indexOf(p) === i);
+
+    if (newProducts.length) {
+      const firstSeen = launches.reduce((a, b) => (a.date_collected < b.date_collected ? a : b));
+      moves.push({
+        type: 'new_products',
+        competitor_id: competitor.id,
+        competitor_name: competitor.name,
+        new_products: newProducts,
+        significance: newProducts.length > 1 ? 'high' : 'medium',
+        detected_at: firstSeen.date_collected
+      });
+    }
+  });
+
+  return moves.sort((a, b) => b.detected_at.localeCompare(a.detected_at));
+};
+
+/**
+ * Moves across a longer window, found by comparing each `stepDays` period
+ * with the one before it, working back from the end of the window.
+ */
+export const detectCompetitorMovesInWindow = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow,
+  stepDays = 7
+): CompetitorMove[] => {
+  const moves: CompetitorMove[] = [];
+  for (let end = window.end.getTime(); end > window.start.getTime(); end -= stepDays * DAY_MS) {
+    const known = pricing.filter(p => new Date(p.date_collected).getTime() <= end);
+    moves.push(...detectCompetitorMoves(known, competitors, new Date(end), stepDays));
+  }
+  return moves.sort((a, b) => b.detected_at.localeCompare(a.detected_at));
+};
+
+// A promotion seen within this many days of the window end is still running
+export const ACTIVE_PROMOTION_DAYS = 7;
+
+/**
+ * Promotions in the window, one entry per competitor, product and offer.
+ * Discount depth compares the lowest promotional price with the same
+ * competitor's regular (non-promotional) average for that product.
+ */
+export const computePromotionSummary = (
+  pricing: PricingData[],
+  competitors: Competitor[],
+  window: AnalysisWindow
+): PromotionSummary => {
+  const names = competitors.reduce((acc, c) => {
+    acc[c.id] = c.name;
+    return acc;
+  }, {} as Record<string, string>);
+  const productKey = (p: PricingData) => `${p.competitor_id}|${p.product_service}`;
+
+  const regular = groupBy(pricing.filter(p => !p.is_promotion), productKey);
+  const campaigns = groupBy(
+    pricing.filter(p => p.is_promotion),
+    p => `${productKey(p)}|${p.promotion_details || ''}`
+  );
+  const activeFrom = window.end.getTime() - ACTIVE_PROMOTION_DAYS * DAY_MS;
+
+  const promotions = Object.entries(campaigns).map(([key, rows]): PromotionEntry => {
+    const sorted = [...rows].sort((a, b) => a.date_collected.localeCompare(b.date_collected));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const lowest = Math.min(...rows.map(p => p.price_point));
+    const regularRows = regular[productKey(first)];
+    const regularPrice = regularRows ? round2(mean(regularRows.map(p => p.price_point))) : undefined;
+
+    return {
+      id: key,
+      competitor_id: first.competitor_id,
+      competitor_name: names[first.competitor_id] || 'Unknown',
+      product_service: first.product_service,
+      promotion_details: first.promotion_details,
+      first_seen: first.date_collected,
+      last_seen: last.date_collected,
+      observations: rows.length,
+      lowest_price: lowest,
+      regular_price: regularPrice,
+      discount_percent: regularPrice ? round2(((regularPrice - lowest) / regularPrice) * 100) : undefined,
+      is_active: new Date(last.date_collected).getTime() >= activeFrom
+    };
+  });
+
+  const byWeek = groupBy(pricing, p => toIsoWeekKey(p.date_collected));
+  const frequency = Object.keys(byWeek).sort().reduce((acc, week) => {
+    const total = byWeek[week].length;
+    const promotional = byWeek[week].filter(p => p.is_promotion).length;
+    acc[week] = {
+      promotional_points: promotional,
+      total_points: total,
+      promotion_share: round2((promotional / total) * 100)
+    };
+    return acc;
+  }, {} as PromotionSummary['frequency']);
+
+  return {
+    period: { start_date: window.start.toISOString(), end_date: window.end.toISOString() },
+    promotions: promotions.sort((a, b) =>
+      Number(b.is_active) - Number(a.is_active) || b.last_seen.localeCompare(a.last_seen)
+    ),
+    frequency
+  };
+};
+
+export interface WeeklyPriceChange {
+  latest_average_price: number | null;
+  previous_average_price: number | null;
+  price_change_percent: number | null;
+  latest_collected_at?: string;
+}
+
+const productAverages = (pricing: PricingData[]) => {
+  const byProduct = groupBy(pricing, p => p.product_service);
+  return Object.keys(byProduct).reduce((acc, product) => {
+    acc[product] = mean(byProduct[product].map(p => p.price_point));
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+/**
+ * Average price in a competitor's most recent collection week and the change
+ * from the ISO week before it. The change only compares products priced in
+ * both weeks, so adding or dropping a product doesn't read as a price move.
+ */
+export const computeWeeklyPriceChange = (pricing: PricingData[]): WeeklyPriceChange => {
+  if (!pricing.length) {
+    return { latest_average_price: null, previous_average_price: null, price_change_percent: null };
+  }
+
+  const byWeek = groupBy(pricing, p => toIsoWeekKey(p.date_collected));
+  const latestWeek = Object.keys(byWeek).sort().pop()!;
+  const previousWeek = toIsoWeekKey(new Date(isoWeekStartDate(latestWeek)!.getTime() - 7 * DAY_MS));
+  const latest = byWeek[latestWeek];
+  const previous = byWeek[previousWeek] || [];
+
+  const latestByProduct = productAverages(latest);
+  const previousByProduct = productAverages(previous);
+  const shared = Object.keys(latestByProduct).filter(product => product in previousByProduct);
+  const latestShared = mean(shared.map(product => latestByProduct[product]));
+  const previousShared = mean(shared.map(product => previousByProduct[product]));
+
+  return {
+    latest_average_price: round2(mean(latest.map(p => p.price_point))),
+    previous_average_price: previous.length ? round2(mean(previous.map(p => p.price_point))) : null,
+    price_change_percent: previousShared > 0
+      ? round2(((latestShared - previousShared) / previousShared) * 100)
+      : null,
+    latest_collected_at: latest.map(p => p.date_collected).sort().pop()
+  };
+};
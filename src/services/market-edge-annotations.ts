@@ -0,0 +1,68 @@
+import { ChartAnnotation, ChartAnnotationInput, TrendGranularity } from '@/types/market-edge';
+import { bucketStart } from './market-edge-time-axis';
+
+/**
+ * Chart annotations mark known events (a launch, a tax change, a refit) on
+ * a market's pricing charts. Each annotation is dated to a day and drawn at
+ * the chart period containing that day, so several notes can share one
+ * marker at week or month granularity.
+ */
+
+export const MAX_ANNOTATION_LABEL_LENGTH = 60;
+
+export const EMPTY_ANNOTATION: ChartAnnotationInput = { date: '', label: '', description: '' };
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/** First problem with an annotation, or null when it can be saved. */
+export const validateAnnotation = (annotation: Partial<ChartAnnotationInput>): string | null => {
+  if (!annotation.date || !isValidDate(annotation.date)) return 'Choose the date of the event';
+  const label = (annotation.label || '').trim();
+  if (!label) return 'Label is required';
+  if (label.length > MAX_ANNOTATION_LABEL_LENGTH) {
+    return `Label must be ${MAX_ANNOTATION_LABEL_LENGTH} characters or fewer`;
+  }
+  return null;
+};
+
+/** Oldest first, then in the order they were added. */
+export const sortAnnotations = (annotations: ChartAnnotation[]) =>
+  [...annotations].sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at));
+
+export const annotationAuthor = (annotation: ChartAnnotation) =>
+  annotation.created_by_name || annotation.created_by;
+
+export interface AnnotationMarker {
+  // Start of the chart period, matching the trend point's timestamp
+  timestamp: number;
+  annotations: ChartAnnotation[];
+}
+
+/**
+ * Markers for the periods on a trend chart. Annotations dated outside the
+ * plotted periods are left off.
+ */
+export const annotationMarkers = (
+  annotations: ChartAnnotation[],
+  points: { timestamp: number }[],
+  granularity: TrendGranularity
+): AnnotationMarker[] => {
+  const plotted = points.map(p => p.timestamp);
+  const byPeriod: Record<number, ChartAnnotation[]> = {};
+  sortAnnotations(annotations).forEach(annotation => {
+    if (!isValidDate(annotation.date)) return;
+    const timestamp = bucketStart(new Date(`${annotation.date}T00:00:00Z`), granularity).getTime();
+    if (plotted.indexOf(timestamp) === -1) return;
+    (byPeriod[timestamp] = byPeriod[timestamp] || []).push(annotation);
+  });
+
+  return Object.keys(byPeriod)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(timestamp => ({ timestamp, annotations: byPeriod[timestamp] }));
+};
+
+/** Short text for a marker: the label, or a count when notes share a period. */
+export const markerLabel = (marker: AnnotationMarker) =>
+  marker.annotations.length === 1 ? marker.annotations[0].label : `${marker.annotations.length} notes`;
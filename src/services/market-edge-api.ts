@@ -2,47 +2,89 @@ import {
   Market, 
   Competitor, 
   PricingData, 
+  PricingDataInput,
   MarketAlert, 
   MarketOverview,
   MarketMetrics,
   CompetitorAnalysis,
   CompetitorComparison,
   MarketTrends,
-  MarketReport
+  MarketReport,
+  MarketReportType,
+  MarketDateFilter,
+  TrendGranularity,
+  CurrencySettings,
+  AnomalyReview,
+  AnomalyReviewStatus,
+  CompetitorMove,
+  PromotionSummary,
+  AlertRule,
+  AlertRuleInput,
+  AlertRuleBacktest,
+  AlertBulkAction,
+  Webhook,
+  WebhookDelivery,
+  WebhookInput,
+  WebhookUpdate,
+  WebhookWithSecret,
+  Watchlist,
+  WatchlistInput,
+  WatchlistSummary,
+  ChartAnnotation,
+  ChartAnnotationInput
 } from '@/types/market-edge';
-import Cookies from 'js-cookie';
+import {
+  MarketEdgeDataMode,
+  MarketEdgeDataSource,
+  HttpDataSource
+} from './market-edge-data-source';
+import { SyntheticDataSource } from './market-edge-synthetic-data';
+import { isoWeekStartDate } from './market-edge-analytics';
+import {
+  MarketExportData,
+  MarketExportFormat,
+  MarketExportOptions,
+  buildMarketCSV,
+  createCSVBlob
+} from './market-edge-export';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EXPORT_DAYS = 30;
+
+// Options shared by the endpoints that aggregate prices
+type PricingAnalysisOptions = MarketDateFilter & {
+  product_service?: string;
+  exclude_promotions?: boolean;
+};
+
+// An explicit range takes precedence over days_back
+const appendDateFilter = (params: URLSearchParams, filter: MarketDateFilter) => {
+  if (filter.start_date && filter.end_date) {
+    params.append('start_date', filter.start_date);
+    params.append('end_date', filter.end_date);
+  } else if (filter.days_back) {
+    params.append('days_back', filter.days_back.toString());
+  }
+};
 
-const API_BASE = 'http://localhost:8000/api/v1/market-edge';
+const appendPricingFilter = (params: URLSearchParams, options: PricingAnalysisOptions) => {
+  if (options.product_service) params.append('product_service', options.product_service);
+  if (options.exclude_promotions) params.append('exclude_promotions', 'true');
+  appendDateFilter(params, options);
+};
 
 class MarketEdgeAPI {
+  constructor(protected dataSource: MarketEdgeDataSource) {}
+
+  get dataMode(): MarketEdgeDataMode {
+    return this.dataSource.mode;
+  }
+
   private async request<T>(
     endpoint: string, 
     options: RequestInit = {}
   ): Promise<T> {
-    const token = Cookies.get('access_token');
-    
-    // Debug logging
-    console.log('Market Edge API Request:', {
-      endpoint: `${API_BASE}${endpoint}`,
-      hasToken: !!token,
-      token: token ? `${token.substring(0, 20)}...` : 'No token'
-    });
-    
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': token ? `Bearer ${token}` : '',
-        ...options.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-      throw new Error(error.detail || `HTTP ${response.status}`);
-    }
-
-    return response.json();
+    return this.dataSource.request<T>(endpoint, options);
   }
 
   // Market endpoints
@@ -71,6 +113,7 @@ class MarketEdgeAPI {
       name: string;
       geographic_bounds?: Record<string, any>;
       tracking_config?: Record<string, any>;
+      is_active?: boolean;
     }
   ): Promise<Market> {
     return this.request<Market>(`/markets/${marketId}`, {
@@ -130,17 +173,7 @@ class MarketEdgeAPI {
   }
 
   // Pricing data endpoints
-  async createPricingData(pricingData: {
-    competitor_id: string;
-    product_service: string;
-    price_point: number;
-    currency?: string;
-    date_collected: string;
-    source?: string;
-    metadata?: Record<string, any>;
-    is_promotion?: boolean;
-    promotion_details?: string;
-  }): Promise<PricingData> {
+  async createPricingData(pricingData: PricingDataInput): Promise<PricingData> {
     return this.request<PricingData>('/pricing-data', {
       method: 'POST',
       body: JSON.stringify(pricingData),
@@ -171,14 +204,10 @@ class MarketEdgeAPI {
 
   async getMarketAnalysis(
     marketId: string,
-    options: {
-      product_service?: string;
-      days_back?: number;
-    } = {}
+    options: PricingAnalysisOptions = {}
   ): Promise<MarketMetrics> {
     const params = new URLSearchParams();
-    if (options.product_service) params.append('product_service', options.product_service);
-    if (options.days_back) params.append('days_back', options.days_back.toString());
+    appendPricingFilter(params, options);
 
     const query = params.toString() ? `?${params.toString()}` : '';
     return this.request<MarketMetrics>(`/markets/${marketId}/analysis${query}`);
@@ -199,16 +228,15 @@ class MarketEdgeAPI {
 
   async compareCompetitors(
     marketId: string,
-    options: {
+    options: PricingAnalysisOptions & {
       competitor_ids?: string[];
-      product_service?: string;
     } = {}
   ): Promise<CompetitorComparison> {
     const params = new URLSearchParams();
     if (options.competitor_ids) {
       params.append('competitor_ids', options.competitor_ids.join(','));
     }
-    if (options.product_service) params.append('product_service', options.product_service);
+    appendPricingFilter(params, options);
 
     const query = params.toString() ? `?${params.toString()}` : '';
     return this.request<CompetitorComparison>(`/markets/${marketId}/comparison${query}`);
@@ -216,21 +244,42 @@ class MarketEdgeAPI {
 
   async getPricingTrends(
     marketId: string,
-    options: {
+    options: PricingAnalysisOptions & {
       competitor_id?: string;
-      product_service?: string;
-      days_back?: number;
+      // Weekly unless asked otherwise
+      granularity?: TrendGranularity;
     } = {}
   ): Promise<MarketTrends> {
     const params = new URLSearchParams();
     if (options.competitor_id) params.append('competitor_id', options.competitor_id);
-    if (options.product_service) params.append('product_service', options.product_service);
-    if (options.days_back) params.append('days_back', options.days_back.toString());
+    if (options.granularity && options.granularity !== 'week') params.append('granularity', options.granularity);
+    appendPricingFilter(params, options);
 
     const query = params.toString() ? `?${params.toString()}` : '';
     return this.request<MarketTrends>(`/markets/${marketId}/trends${query}`);
   }
 
+  async getCompetitorMoves(marketId: string, options: MarketDateFilter = {}): Promise<CompetitorMove[]> {
+    const params = new URLSearchParams();
+    appendDateFilter(params, options);
+
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.request<CompetitorMove[]>(`/markets/${marketId}/moves${query}`);
+  }
+
+  async getPromotions(
+    marketId: string,
+    options: MarketDateFilter & { product_service?: string } = {}
+  ): Promise<PromotionSummary> {
+    // Never forwards exclude_promotions: the tracker always needs promotional rows
+    const params = new URLSearchParams();
+    if (options.product_service) params.append('product_service', options.product_service);
+    appendDateFilter(params, options);
+
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.request<PromotionSummary>(`/markets/${marketId}/promotions${query}`);
+  }
+
   // Alert endpoints
   async getMarketAlerts(
     marketId: string,
@@ -247,16 +296,137 @@ class MarketEdgeAPI {
     return this.request<MarketAlert[]>(`/markets/${marketId}/alerts${query}`);
   }
 
+  /** Alerts across every market the user can access, newest first. */
+  async getAlerts(
+    options: {
+      unread_only?: boolean;
+      limit?: number;
+    } = {}
+  ): Promise<MarketAlert[]> {
+    const params = new URLSearchParams();
+    if (options.unread_only) params.append('unread_only', 'true');
+    if (options.limit) params.append('limit', options.limit.toString());
+
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.request<MarketAlert[]>(`/alerts${query}`);
+  }
+
   async markAlertRead(alertId: string): Promise<void> {
     await this.request(`/alerts/${alertId}/mark-read`, {
       method: 'POST',
     });
   }
 
+  /**
+   * URL for one connection to a market's live alert stream, or null when
+   * the data source has none. Stream tickets are single-use, so fetch a new
+   * URL for every connection.
+   */
+  async alertStreamUrl(marketId: string): Promise<string | null> {
+    const source = this.dataSource;
+    return source.streamUrl ? source.streamUrl(`/markets/${marketId}/alerts/stream`) : null;
+  }
+
+  /** Applies one triage action to several alerts and returns them updated. */
+  async bulkUpdateAlerts(
+    alertIds: string[],
+    action: AlertBulkAction,
+    options: { snoozed_until?: string } = {}
+  ): Promise<MarketAlert[]> {
+    return this.request<MarketAlert[]>('/alerts/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ alert_ids: alertIds, action, ...options }),
+    });
+  }
+
+  // Anomaly review endpoints
+  async getAnomalyReviews(marketId: string): Promise<AnomalyReview[]> {
+    return this.request<AnomalyReview[]>(`/markets/${marketId}/anomaly-reviews`);
+  }
+
+  async reviewAnomaly(
+    marketId: string,
+    anomalyId: string,
+    status: AnomalyReviewStatus
+  ): Promise<AnomalyReview> {
+    return this.request<AnomalyReview>(`/markets/${marketId}/anomaly-reviews/${anomalyId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async clearAnomalyReview(marketId: string, anomalyId: string): Promise<void> {
+    await this.request(`/markets/${marketId}/anomaly-reviews/${anomalyId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Chart annotation endpoints
+  async getChartAnnotations(marketId: string): Promise<ChartAnnotation[]> {
+    return this.request<ChartAnnotation[]>(`/markets/${marketId}/annotations`);
+  }
+
+  async createChartAnnotation(marketId: string, annotation: ChartAnnotationInput): Promise<ChartAnnotation> {
+    return this.request<ChartAnnotation>(`/markets/${marketId}/annotations`, {
+      method: 'POST',
+      body: JSON.stringify(annotation),
+    });
+  }
+
+  async updateChartAnnotation(
+    marketId: string,
+    annotationId: string,
+    annotation: Partial<ChartAnnotationInput>
+  ): Promise<ChartAnnotation> {
+    return this.request<ChartAnnotation>(`/markets/${marketId}/annotations/${annotationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(annotation),
+    });
+  }
+
+  async deleteChartAnnotation(marketId: string, annotationId: string): Promise<void> {
+    await this.request(`/markets/${marketId}/annotations/${annotationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Alert rule endpoints
+  async getAlertRules(marketId: string): Promise<AlertRule[]> {
+    return this.request<AlertRule[]>(`/markets/${marketId}/alert-rules`);
+  }
+
+  async createAlertRule(marketId: string, rule: AlertRuleInput): Promise<AlertRule> {
+    return this.request<AlertRule>(`/markets/${marketId}/alert-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updateAlertRule(ruleId: string, rule: Partial<AlertRuleInput>): Promise<AlertRule> {
+    return this.request<AlertRule>(`/alert-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async deleteAlertRule(ruleId: string): Promise<void> {
+    await this.request(`/alert-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /** Alerts the rule would have raised over the last 90 days of pricing. */
+  async backtestAlertRule(marketId: string, rule: AlertRuleInput): Promise<AlertRuleBacktest> {
+    return this.request<AlertRuleBacktest>(`/markets/${marketId}/alert-rules/backtest`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
   // Report endpoints
   async generateMarketReport(
     marketId: string,
-    reportType: 'comprehensive' | 'summary' | 'trends' = 'comprehensive'
+    reportType: MarketReportType = 'comprehensive'
   ): Promise<MarketReport> {
     const params = new URLSearchParams();
     params.append('report_type', reportType);
@@ -264,6 +434,101 @@ class MarketEdgeAPI {
     return this.request<MarketReport>(`/markets/${marketId}/report?${params.toString()}`);
   }
 
+  // Settings endpoints
+  async getCurrencySettings(): Promise<CurrencySettings> {
+    return this.request<CurrencySettings>('/settings/currency');
+  }
+
+  async updateCurrencySettings(settings: CurrencySettings): Promise<CurrencySettings> {
+    return this.request<CurrencySettings>('/settings/currency', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  // Webhook endpoints
+  async getWebhooks(): Promise<Webhook[]> {
+    return this.request<Webhook[]>('/webhooks');
+  }
+
+  async createWebhook(webhook: WebhookInput): Promise<WebhookWithSecret> {
+    return this.request<WebhookWithSecret>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(webhook),
+    });
+  }
+
+  async updateWebhook(webhookId: string, webhook: Partial<WebhookUpdate>): Promise<Webhook> {
+    return this.request<Webhook>(`/webhooks/${webhookId}`, {
+      method: 'PUT',
+      body: JSON.stringify(webhook),
+    });
+  }
+
+  /** Replaces the signing secret; the old one stops working straight away. */
+  async rotateWebhookSecret(webhookId: string): Promise<WebhookWithSecret> {
+    return this.request<WebhookWithSecret>(`/webhooks/${webhookId}/rotate-secret`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.request(`/webhooks/${webhookId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /** Latest deliveries first. */
+  async getWebhookDeliveries(webhookId: string, limit?: number): Promise<WebhookDelivery[]> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.request<WebhookDelivery[]>(`/webhooks/${webhookId}/deliveries${query}`);
+  }
+
+  /** Sends a sample alert to the webhook and returns the recorded delivery. */
+  async sendWebhookTestEvent(webhookId: string): Promise<WebhookDelivery> {
+    return this.request<WebhookDelivery>(`/webhooks/${webhookId}/test`, {
+      method: 'POST',
+    });
+  }
+
+  /** Sends a delivery's payload again; the new attempts are added to its log. */
+  async redeliverWebhookDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    return this.request<WebhookDelivery>(`/webhook-deliveries/${deliveryId}/redeliver`, {
+      method: 'POST',
+    });
+  }
+
+  // Watchlist endpoints
+  /** The user's own watchlists and those shared with the organisation. */
+  async getWatchlists(): Promise<Watchlist[]> {
+    return this.request<Watchlist[]>('/watchlists');
+  }
+
+  async createWatchlist(watchlist: WatchlistInput): Promise<Watchlist> {
+    return this.request<Watchlist>('/watchlists', {
+      method: 'POST',
+      body: JSON.stringify(watchlist),
+    });
+  }
+
+  async updateWatchlist(watchlistId: string, watchlist: Partial<WatchlistInput>): Promise<Watchlist> {
+    return this.request<Watchlist>(`/watchlists/${watchlistId}`, {
+      method: 'PUT',
+      body: JSON.stringify(watchlist),
+    });
+  }
+
+  async deleteWatchlist(watchlistId: string): Promise<void> {
+    await this.request(`/watchlists/${watchlistId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /** Latest weekly price, week-on-week change and unread alerts per member. */
+  async getWatchlistSummary(watchlistId: string): Promise<WatchlistSummary> {
+    return this.request<WatchlistSummary>(`/watchlists/${watchlistId}/summary`);
+  }
+
   // Utility methods
   async searchMarkets(query: string): Promise<Market[]> {
     const markets = await this.getMarkets();
@@ -287,59 +552,167 @@ class MarketEdgeAPI {
   // Export functionality
   async exportMarketData(
     marketId: string,
-    format: 'csv' | 'pdf' = 'csv',
-    options: {
-      include_pricing?: boolean;
-      include_competitors?: boolean;
-      include_trends?: boolean;
-      date_range?: {
-        start: string;
-        end: string;
-      };
-    } = {}
+    format: MarketExportFormat = 'csv',
+    options: MarketExportOptions = {}
   ): Promise<Blob> {
     // This would typically call a dedicated export endpoint
     // For now, we'll generate the data client-side
-    const overview = await this.getMarketOverview(marketId);
-    
     if (format === 'csv') {
-      return this.generateCSVExport(overview, options);
+      return this.generateCSVExport(await this.collectExportData(marketId, options), options);
+    } else if (format === 'xlsx') {
+      return this.generateXLSXExport(await this.collectExportData(marketId, options, true), options);
     } else {
-      return this.generatePDFExport(overview, options);
+      const reportType = options.report_type || 'comprehensive';
+      return this.generatePDFExport(await this.collectReportData(marketId, reportType), reportType);
     }
   }
 
+  private async collectReportData(
+    marketId: string,
+    reportType: MarketReportType
+  ): Promise<MarketReport> {
+    const [report, annotations] = await Promise.all([
+      this.generateMarketReport(marketId, reportType),
+      this.getChartAnnotations(marketId)
+    ]);
+    // The live report endpoint leaves annotations out, so add those dated within its trends period
+    const start = report.pricing_trends.period.start_date.substring(0, 10);
+    const end = report.pricing_trends.period.end_date.substring(0, 10);
+    return {
+      ...report,
+      annotations: annotations.filter(a => a.date >= start && a.date <= end)
+    };
+  }
+
+  private async collectExportData(
+    marketId: string,
+    options: MarketExportOptions,
+    includeWorkbookSheets = false
+  ): Promise<MarketExportData> {
+    const now = new Date();
+    const dateRange = options.date_range || {
+      start: new Date(now.getTime() - DEFAULT_EXPORT_DAYS * DAY_MS).toISOString(),
+      end: now.toISOString()
+    };
+    const rangeStart = new Date(dateRange.start).getTime();
+    // Date-only end values include the whole of that day
+    const rangeEnd = new Date(dateRange.end).getTime() + (dateRange.end.length <= 10 ? DAY_MS - 1 : 0);
+    const inRange = (date: string) => {
+      const time = new Date(date).getTime();
+      return time >= rangeStart && time <= rangeEnd;
+    };
+    // Analysis endpoints only accept a look-back window, so fetch enough to cover the range
+    const daysBack = Math.max(1, Math.ceil((now.getTime() - rangeStart) / DAY_MS));
+
+    const [overview, pricing, trends, analysis, comparison, alerts, annotations] = await Promise.all([
+      this.getMarketOverview(marketId),
+      options.include_pricing !== false
+        ? this.getMarketPricingData(marketId)
+        : Promise.resolve([] as PricingData[]),
+      options.include_trends !== false
+        ? this.getPricingTrends(marketId, { days_back: daysBack })
+        : Promise.resolve(null),
+      options.include_anomalies !== false
+        ? this.getMarketAnalysis(marketId, { days_back: daysBack })
+        : Promise.resolve(null),
+      includeWorkbookSheets ? this.compareCompetitors(marketId) : Promise.resolve(null),
+      includeWorkbookSheets ? this.getMarketAlerts(marketId) : Promise.resolve([] as MarketAlert[]),
+      options.include_annotations !== false
+        ? this.getChartAnnotations(marketId)
+        : Promise.resolve([] as ChartAnnotation[])
+    ]);
+    // Annotations are dated to a day, so keep any day overlapping the range
+    const dayInRange = (date: string) => {
+      const dayStart = new Date(`${date}T00:00:00Z`).getTime();
+      return dayStart + DAY_MS > rangeStart && dayStart <= rangeEnd;
+    };
+
+    const weekInRange = (week: string) => {
+      const weekStart = isoWeekStartDate(week);
+      if (!weekStart) return true;
+      return weekStart.getTime() + 7 * DAY_MS > rangeStart && weekStart.getTime() <= rangeEnd;
+    };
+    const filterWeeks = (weekly: Record<string, number>) =>
+      Object.keys(weekly).filter(weekInRange).reduce((acc, week) => {
+        acc[week] = weekly[week];
+        return acc;
+      }, {} as Record<string, number>);
+
+    return {
+      overview,
+      date_range: dateRange,
+      generated_at: now.toISOString(),
+      pricing: pricing
+        .filter(p => inRange(p.date_collected))
+        .sort((a, b) => a.date_collected.localeCompare(b.date_collected)),
+      trends: trends && {
+        ...trends,
+        market_trend: filterWeeks(trends.market_trend),
+        competitor_trends: Object.keys(trends.competitor_trends).reduce((acc, id) => {
+          acc[id] = {
+            ...trends.competitor_trends[id],
+            weekly_averages: filterWeeks(trends.competitor_trends[id].weekly_averages)
+          };
+          return acc;
+        }, {} as MarketTrends['competitor_trends'])
+      },
+      anomalies: analysis ? analysis.anomalies.filter(a => inRange(a.date_collected)) : [],
+      comparison,
+      alerts: alerts.filter(a => inRange(a.created_at)),
+      annotations: annotations.filter(a => dayInRange(a.date))
+    };
+  }
+
   private async generateCSVExport(
-    overview: MarketOverview, 
-    options: any
+    data: MarketExportData,
+    options: MarketExportOptions
   ): Promise<Blob> {
-    let csvContent = 'Market Edge Export\n\n';
-    
-    // Market info
-    csvContent += `Market,${overview.market.name}\n`;
-    csvContent += `Competitors,${overview.competitors.length}\n`;
-    csvContent += `Data Points,${overview.recent_data_points}\n\n`;
-    
-    // Competitors
-    if (options.include_competitors !== false) {
-      csvContent += 'Competitor Name,Business Type,Market Share,Tracking Priority\n';
-      overview.competitors.forEach(comp => {
-        csvContent += `${comp.name},${comp.business_type || ''},${comp.market_share_estimate || ''},${comp.tracking_priority}\n`;
-      });
-    }
-    
-    return new Blob([csvContent], { type: 'text/csv' });
+    return createCSVBlob(buildMarketCSV(data, options));
+  }
+
+  private async generateXLSXExport(
+    data: MarketExportData,
+    options: MarketExportOptions
+  ): Promise<Blob> {
+    // ExcelJS is large, so only load it when a workbook is requested
+    const { createMarketWorkbookBlob } = await import('./market-edge-xlsx');
+    return createMarketWorkbookBlob(data, options);
   }
 
   private async generatePDFExport(
-    overview: MarketOverview, 
-    options: any
+    report: MarketReport,
+    reportType: MarketReportType
   ): Promise<Blob> {
-    // This would use a PDF library like jsPDF
-    // For now, return a simple text blob
-    const content = `Market Edge Report - ${overview.market.name}`;
-    return new Blob([content], { type: 'application/pdf' });
+    // jsPDF is large, so only load it when a PDF is requested
+    const { createMarketReportPDF } = await import('./market-edge-pdf');
+    return createMarketReportPDF(report, reportType);
   }
 }
 
-export const marketEdgeAPI = new MarketEdgeAPI();
\ No newline at end of file
+/** The Market Edge pages' client, which follows the Test/Live toggle. */
+class SwitchableMarketEdgeAPI extends MarketEdgeAPI {
+  private dataSources: Record<MarketEdgeDataMode, MarketEdgeDataSource>;
+
+  constructor() {
+    const live = new HttpDataSource();
+    super(live);
+    this.dataSources = { live, test: new SyntheticDataSource() };
+  }
+
+  /**
+   * Switches between the live backend and the seeded synthetic data set
+   * used by the Test Data toggle.
+   */
+  setDataMode(mode: MarketEdgeDataMode) {
+    this.dataSource = this.dataSources[mode];
+  }
+}
+
+export const marketEdgeAPI = new SwitchableMarketEdgeAPI();
+
+/**
+ * Always talks to the live backend and cannot be switched to Test Data.
+ * App-wide chrome such as the header notification center uses it so
+ * synthetic data never leaves the Market Edge pages.
+ */
+export const liveMarketEdgeAPI: MarketEdgeAPI = new MarketEdgeAPI(new HttpDataSource());
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { CurrencySettings, ExchangeRate, PricingData } from '@/types/market-edge';
+import { parseDelimited } from '@/utils/csv';
+import { round2 } from './market-edge-analytics';
+
+/**
+ * Currency handling for Market Edge. There is no live FX feed, so each
+ * organisation keeps a base currency and an admin-maintained table of
+ * exchange rates. Prices are converted into the base currency before they
+ * are aggregated so averages never mix currencies.
+ */
+
+export const DEFAULT_BASE_CURRENCY = 'GBP';
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  base_currency: DEFAULT_BASE_CURRENCY,
+  rates: []
+};
+
+export const BASE_CURRENCY_OPTIONS = ['GBP', 'USD', 'EUR', 'AUD', 'CAD', 'CHF', 'JPY', 'NZD', 'SEK'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Formats an amount in the user's locale, e.g. "£12.50" or "US$12.50". */
+export const formatPrice = (value: number, currency: string = DEFAULT_BASE_CURRENCY, locale?: string) => {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    }).format(value);
+  } catch {
+    // Unknown currency codes still render with their ISO code
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
+
+export interface CurrencyConverter {
+  base: string;
+  canConvert(currency: string): boolean;
+  convert(amount: number, currency: string, date?: string): number | null;
+}
+
+/**
+ * Rates can be dated. A price uses the latest rate in effect on the day it
+ * was collected, or the earliest rate if it predates the whole table.
+ */
+export const createCurrencyConverter = (settings: CurrencySettings): CurrencyConverter => {
+  const base = settings.base_currency.toUpperCase();
+  const byCurrency = settings.rates.reduce((acc, rate) => {
+    const code = rate.currency.toUpperCase();
+    (acc[code] = acc[code] || []).push(rate);
+    return acc;
+  }, {} as Record<string, ExchangeRate[]>);
+  Object.values(byCurrency).forEach(rates =>
+    rates.sort((a, b) => (a.effective_date || '').localeCompare(b.effective_date || ''))
+  );
+
+  const rateFor = (currency: string, date?: string) => {
+    const rates = byCurrency[currency];
+    if (!rates?.length) return null;
+    const day = date?.substring(0, 10);
+    const applicable = day ? rates.filter(r => !r.effective_date || r.effective_date <= day) : rates;
+    return (applicable.length ? applicable[applicable.length - 1] : rates[0]).rate;
+  };
+
+  return {
+    base,
+    canConvert: currency => currency.toUpperCase() === base || !!byCurrency[currency.toUpperCase()],
+    convert: (amount, currency, date) => {
+      const code = (currency || base).toUpperCase();
+      if (code === base) return amount;
+      const rate = rateFor(code, date);
+      return rate === null ? null : round2(amount * rate);
+    }
+  };
+};
+
+export interface NormalisedPricing {
+  pricing: PricingData[];
+  excludedCurrencies: string[];
+}
+
+/**
+ * Converts prices into the base currency, keeping the original amount on
+ * converted rows. Rows in a currency without a rate are dropped rather than
+ * averaged in at face value.
+ */
+export const normalisePricing = (pricing: PricingData[], converter: CurrencyConverter): NormalisedPricing => {
+  const excluded = new Set<string>();
+  const normalised: PricingData[] = [];
+
+  pricing.forEach(p => {
+    const currency = (p.currency || converter.base).toUpperCase();
+    if (currency === converter.base) {
+      normalised.push(p);
+      return;
+    }
+    const converted = converter.convert(p.price_point, currency, p.date_collected);
+    if (converted === null) {
+      excluded.add(currency);
+      return;
+    }
+    normalised.push({
+      ...p,
+      price_point: converted,
+      currency: converter.base,
+      original_price_point: p.price_point,
+      original_currency: currency
+    });
+  });
+
+  return { pricing: normalised, excludedCurrencies: Array.from(excluded).sort() };
+};
+
+export interface RateTableParseResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+/**
+ * Reads an uploaded rate table. Expects a header row with `currency` and
+ * `rate` columns and an optional `effective_date` (YYYY-MM-DD) column.
+ */
+export const parseRateTable = (text: string, baseCurrency: string): RateTableParseResult => {
+  const [header, ...rows] = parseDelimited(text);
+  const errors: string[] = [];
+  if (!header) return { rates: [], errors: ['The file is empty'] };
+
+  const columns = header.map(h => h.trim().toLowerCase().replace(/[^a-z]/g, ''));
+  const currencyColumn = columns.findIndex(c => c === 'currency' || c === 'code');
+  const rateColumn = columns.findIndex(c => c === 'rate' || c.startsWith('rateto'));
+  const dateColumn = columns.findIndex(c => c === 'effectivedate' || c === 'date');
+  if (currencyColumn < 0 || rateColumn < 0) {
+    return { rates: [], errors: ['The header row needs "currency" and "rate" columns'] };
+  }
+
+  const rates: ExchangeRate[] = [];
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const currency = (row[currencyColumn] || '').trim().toUpperCase();
+    const rate = Number((row[rateColumn] || '').trim());
+    const effectiveDate = dateColumn >= 0 ? (row[dateColumn] || '').trim() : '';
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Row ${line}: invalid currency "${row[currencyColumn] || ''}"`);
+    } else if (currency === baseCurrency.toUpperCase()) {
+      errors.push(`Row ${line}: ${currency} is the base currency`);
+    } else if (!(rate > 0)) {
+      errors.push(`Row ${line}: rate must be a positive number`);
+    } else if (effectiveDate && !ISO_DATE.test(effectiveDate)) {
+      errors.push(`Row ${line}: effective date must be YYYY-MM-DD`);
+    } else {
+      rates.push({ currency, rate, ...(effectiveDate ? { effective_date: effectiveDate } : {}) });
+    }
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,100 @@
+import Cookies from 'js-cookie';
+
+export const API_BASE = 'http://localhost:8000/api/v1/market-edge';
+
+export type MarketEdgeDataMode = 'live' | 'test';
+
+/**
+ * Transport used by `MarketEdgeAPI`. Every endpoint call is expressed as a
+ * path relative to `API_BASE` plus fetch options, so alternative sources only
+ * need to understand the REST routes, not the client's method signatures.
+ */
+export interface MarketEdgeDataSource {
+  readonly mode: MarketEdgeDataMode;
+  request<T>(endpoint: string, options?: RequestInit): Promise<T>;
+  // Server-Sent Events URL for a route; sources without streams leave it out
+  streamUrl?(endpoint: string): Promise<string>;
+}
+
+// Short-lived, single-use credential for opening one event stream
+export interface StreamTicket {
+  ticket: string;
+  expires_at: string;
+}
+
+export class HttpDataSource implements MarketEdgeDataSource {
+  readonly mode = 'live' as const;
+
+  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    return this.send<T>(`${API_BASE}${endpoint}`, options);
+  }
+
+  private async send<T>(url: string, options: RequestInit = {}): Promise<T> {
+    const token = Cookies.get('access_token');
+
+    // Debug logging
+    console.log('Market Edge API Request:', {
+      endpoint: url,
+      hasToken: !!token,
+      token: token ? `${token.substring(0, 20)}...` : 'No token'
+    });
+
+    const response = await fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': token ? `Bearer ${token}` : '',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ detail: 'Request failed' }));
+      throw new Error(error.detail || `HTTP ${response.status}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    return response.json();
+  }
+
+  /**
+   * EventSource cannot send headers, and the session token must never end
+   * up in a URL (access logs, proxies, browser history). Each connection is
+   * opened with a single-use ticket from `POST <stream route>/ticket`, issued
+   * by the stream host itself. NEXT_PUBLIC_MARKET_EDGE_STREAM_URL points
+   * streams at another host, such as the local mock stream server.
+   */
+  async streamUrl(endpoint: string): Promise<string> {
+    const base = process.env.NEXT_PUBLIC_MARKET_EDGE_STREAM_URL || API_BASE;
+    const { ticket } = await this.send<StreamTicket>(`${base}${endpoint}/ticket`, { method: 'POST' });
+    return `${base}${endpoint}?ticket=${encodeURIComponent(ticket)}`;
+  }
+}
+
+// Data mode persistence (per user, so shared machines don't leak preferences)
+const DATA_MODE_STORAGE_KEY = 'market_edge_data_mode';
+
+const dataModeKey = (userId?: string) =>
+  userId ? `${DATA_MODE_STORAGE_KEY}:${userId}` : DATA_MODE_STORAGE_KEY;
+
+export const getStoredDataMode = (userId?: string): MarketEdgeDataMode | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(dataModeKey(userId));
+    return stored === 'live' || stored === 'test' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeDataMode = (mode: MarketEdgeDataMode, userId?: string) => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(dataModeKey(userId), mode);
+  } catch (error) {
+    console.warn('Failed to persist Market Edge data mode:', error);
+  }
+};
@@ -0,0 +1,154 @@
+import { Market, MarketAlert } from '@/types/market-edge';
+import { MarketEdgeDataMode } from './market-edge-data-source';
+
+export type DesktopNotificationPermission = NotificationPermission | 'unsupported';
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local "HH:MM"; a start after the end spans midnight
+  start: string;
+  end: string;
+}
+
+export interface DesktopNotificationPreferences {
+  enabled: boolean;
+  severities: MarketAlert['severity'][];
+  quiet_hours: QuietHours;
+}
+
+export const DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES: DesktopNotificationPreferences = {
+  enabled: false,
+  severities: ['critical', 'high'],
+  quiet_hours: { enabled: false, start: '22:00', end: '07:00' }
+};
+
+const preferencesKey = (userId?: string) =>
+  userId ? `market-edge-desktop-notifications:${userId}` : 'market-edge-desktop-notifications';
+
+export const getDesktopNotificationPreferences = (userId?: string): DesktopNotificationPreferences => {
+  if (typeof window === 'undefined') return DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES;
+  try {
+    const stored = localStorage.getItem(preferencesKey(userId));
+    return stored
+      ? { ...DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES, ...JSON.parse(stored) }
+      : DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES;
+  } catch {
+    return DEFAULT_DESKTOP_NOTIFICATION_PREFERENCES;
+  }
+};
+
+export const storeDesktopNotificationPreferences = (
+  preferences: DesktopNotificationPreferences,
+  userId?: string
+) => {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(preferencesKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Failed to persist desktop notification preferences:', error);
+  }
+};
+
+export const getDesktopNotificationPermission = (): DesktopNotificationPermission =>
+  typeof window === 'undefined' || !('Notification' in window) ? 'unsupported' : Notification.permission;
+
+/** Asks the browser for permission; a failed prompt counts as denied. */
+export const requestDesktopNotificationPermission = async (): Promise<DesktopNotificationPermission> => {
+  const current = getDesktopNotificationPermission();
+  if (current !== 'default') return current;
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.warn('Notification permission request failed:', error);
+    return 'denied';
+  }
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinQuietHours = (quietHours: QuietHours, now = new Date()) => {
+  if (!quietHours.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+export const shouldNotifyDesktop = (
+  alert: MarketAlert,
+  preferences: DesktopNotificationPreferences,
+  now = new Date()
+) =>
+  preferences.enabled
+  && !alert.is_read
+  && preferences.severities.indexOf(alert.severity) !== -1
+  && !isWithinQuietHours(preferences.quiet_hours, now);
+
+/**
+ * Opens the market's alerts tab with the alert highlighted, switching
+ * Market Edge to the data mode the alert came from.
+ */
+export const alertFocusHref = (alert: MarketAlert, mode: MarketEdgeDataMode) =>
+  `/market-edge?${new URLSearchParams({ market: alert.market_id, tab: 'alerts', alert: alert.id, mode }).toString()}`;
+
+// Alerts already shown in this tab, so the header poll and the alert stream
+// never notify twice
+const notifiedAlertIds = new Set<string>();
+
+/**
+ * Shows a desktop notification for each alert the preferences allow.
+ * Clicking one focuses the window and calls `onOpen` with the alert's link.
+ * Returns the alerts that qualified but could not be shown because
+ * permission is missing, so callers can fall back to in-app messages.
+ */
+export const notifyDesktop = (
+  alerts: MarketAlert[],
+  {
+    preferences,
+    markets = [],
+    dataMode,
+    onOpen,
+    now = new Date()
+  }: {
+    preferences: DesktopNotificationPreferences;
+    markets?: Pick<Market, 'id' | 'name'>[];
+    // Where the alerts were read from, so links open the same data
+    dataMode: MarketEdgeDataMode;
+    onOpen: (href: string) => void;
+    now?: Date;
+  }
+): MarketAlert[] => {
+  const due = alerts.filter(alert => !notifiedAlertIds.has(alert.id) && shouldNotifyDesktop(alert, preferences, now));
+  if (due.length === 0 || getDesktopNotificationPermission() !== 'granted') return due;
+
+  due.forEach(alert => {
+    notifiedAlertIds.add(alert.id);
+    const market = markets.find(m => m.id === alert.market_id);
+    const notification = new Notification(`${alert.severity.toUpperCase()}: ${alert.title}`, {
+      body: market ? `${market.name} · ${alert.message}` : alert.message,
+      tag: `market-alert-${alert.id}`,
+      requireInteraction: alert.severity === 'critical'
+    });
+    notification.onclick = () => {
+      window.focus();
+      onOpen(alertFocusHref(alert, dataMode));
+      notification.close();
+    };
+  });
+  return [];
+};
+
+export const sendTestDesktopNotification = () => {
+  if (getDesktopNotificationPermission() !== 'granted') return false;
+  new Notification('Market Edge notifications are on', {
+    body: 'Alerts matching your preferences will appear like this.',
+    tag: 'market-edge-test'
+  });
+  return true;
+};
@@ -0,0 +1,187 @@
+import {
+  ChartAnnotation,
+  Competitor,
+  CompetitorComparison,
+  MarketAlert,
+  MarketInsight,
+  MarketOverview,
+  MarketTrends,
+  MarketReportType,
+  PricingData,
+  PriceAnomaly
+} from '@/types/market-edge';
+import { CSVValue, CSV_BOM, toCSV } from '@/utils/csv';
+import { annotationAuthor, sortAnnotations } from './market-edge-annotations';
+
+/**
+ * Builders for the Market Edge export formats. Data is gathered by
+ * `MarketEdgeAPI.exportMarketData`; the functions here only lay it out.
+ */
+
+export interface ExportDateRange {
+  start: string;
+  end: string;
+}
+
+export type MarketExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface MarketExportOptions {
+  include_pricing?: boolean;
+  include_competitors?: boolean;
+  include_trends?: boolean;
+  include_anomalies?: boolean;
+  include_annotations?: boolean;
+  date_range?: ExportDateRange;
+  report_type?: MarketReportType;
+}
+
+export interface MarketExportData {
+  overview: MarketOverview;
+  date_range: ExportDateRange;
+  generated_at: string;
+  pricing: PricingData[];
+  trends: MarketTrends | null;
+  anomalies: PriceAnomaly[];
+  // Only gathered for the XLSX workbook
+  comparison?: CompetitorComparison | null;
+  alerts?: MarketAlert[];
+  annotations?: ChartAnnotation[];
+}
+
+export const formatExportDate = (value: string) => value.substring(0, 10);
+
+/** The sentence to show for a report insight, or '' when it has none. */
+export const insightText = (insight: MarketInsight | string): string =>
+  typeof insight === 'string' ? insight : insight?.message || insight?.description || insight?.title || '';
+
+const competitorNames = (competitors: Competitor[]) =>
+  competitors.reduce((acc, c) => {
+    acc[c.id] = c.name;
+    return acc;
+  }, {} as Record<string, string>);
+
+export const competitorRows = (competitors: Competitor[]): CSVValue[][] => [
+  ['Competitor ID', 'Competitor Name', 'Business Type', 'Website', 'Market Share (%)', 'Tracking Priority', 'Last Updated'],
+  ...competitors.map(c => [
+    c.id,
+    c.name,
+    c.business_type,
+    c.website,
+    c.market_share_estimate,
+    c.tracking_priority,
+    c.last_updated
+  ])
+];
+
+export const pricingRows = (pricing: PricingData[], competitors: Competitor[]): CSVValue[][] => {
+  const names = competitorNames(competitors);
+  return [
+    ['Date Collected', 'Competitor', 'Product/Service', 'Price', 'Currency', 'Promotion', 'Promotion Details', 'Source'],
+    ...pricing.map(p => [
+      p.date_collected,
+      names[p.competitor_id] || p.competitor_id,
+      p.product_service,
+      p.price_point,
+      p.currency,
+      p.is_promotion ? 'Yes' : 'No',
+      p.promotion_details,
+      p.source
+    ])
+  ];
+};
+
+/** Sorted union of the weeks covered by the market and any competitor. */
+export const trendWeeks = (trends: MarketTrends): string[] => {
+  const weeks = Object.keys(trends.market_trend);
+  Object.keys(trends.competitor_trends).forEach(id => {
+    Object.keys(trends.competitor_trends[id].weekly_averages).forEach(week => {
+      if (weeks.indexOf(week) === -1) weeks.push(week);
+    });
+  });
+  return weeks.sort();
+};
+
+/** One row per week: market average followed by one column per competitor. */
+export const weeklyTrendRows = (trends: MarketTrends): CSVValue[][] => {
+  const competitorIds = Object.keys(trends.competitor_trends);
+  const weeks = trendWeeks(trends);
+
+  return [
+    ['Week', 'Market Average', ...competitorIds.map(id => trends.competitor_trends[id].name)],
+    ...weeks.map(week => [
+      week,
+      trends.market_trend[week],
+      ...competitorIds.map(id => trends.competitor_trends[id].weekly_averages[week])
+    ])
+  ];
+};
+
+export const anomalyRows = (anomalies: PriceAnomaly[]): CSVValue[][] => [
+  ['Date Collected', 'Competitor', 'Product/Service', 'Price', 'Z-Score', 'Deviation From Mean', 'Severity'],
+  ...anomalies.map(a => [
+    a.date_collected,
+    a.competitor_name,
+    a.product_service,
+    a.price,
+    a.z_score,
+    a.deviation_from_mean,
+    a.severity
+  ])
+];
+
+export const annotationRows = (annotations: ChartAnnotation[]): CSVValue[][] => [
+  ['Date', 'Label', 'Description', 'Author', 'Created At', 'Updated At'],
+  ...sortAnnotations(annotations).map(a => [
+    a.date,
+    a.label,
+    a.description,
+    annotationAuthor(a),
+    a.created_at,
+    a.updated_at
+  ])
+];
+
+/**
+ * Single CSV file with titled sections separated by blank lines. Rows are
+ * padded to a common width so every record has the same number of fields.
+ */
+export const buildMarketCSV = (data: MarketExportData, options: MarketExportOptions = {}): string => {
+  const { overview } = data;
+  const rows: CSVValue[][] = [
+    ['Market Edge Export'],
+    ['Market', overview.market.name],
+    ['Generated At', data.generated_at],
+    ['Date Range Start', formatExportDate(data.date_range.start)],
+    ['Date Range End', formatExportDate(data.date_range.end)],
+    ['Competitors', overview.competitors.length],
+    ['Pricing Data Points', data.pricing.length]
+  ];
+
+  const addSection = (title: string, sectionRows: CSVValue[][]) => {
+    rows.push([], [title], ...sectionRows);
+  };
+
+  if (options.include_competitors !== false) {
+    addSection('Competitors', competitorRows(overview.competitors));
+  }
+  if (options.include_pricing !== false) {
+    addSection('Pricing Data', pricingRows(data.pricing, overview.competitors));
+  }
+  if (options.include_trends !== false && data.trends) {
+    addSection('Weekly Trends', weeklyTrendRows(data.trends));
+  }
+  if (options.include_anomalies !== false) {
+    addSection('Anomalies', anomalyRows(data.anomalies));
+  }
+  if (options.include_annotations !== false && data.annotations) {
+    addSection('Chart Annotations', annotationRows(data.annotations));
+  }
+
+  const width = Math.max(...rows.map(r => r.length));
+  const padded = rows.map(r => r.concat(new Array(width - r.length).fill('')));
+
+  return toCSV(padded);
+};
+
+export const createCSVBlob = (csv: string) =>
+  new Blob([CSV_BOM + csv], { type: 'text/csv;charset=utf-8' });
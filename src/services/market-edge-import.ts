@@ -0,0 +1,224 @@
+import { Competitor, PricingData, PricingDataInput } from '@/types/market-edge';
+
+/**
+ * Bulk pricing import. Rows come from a parsed CSV/TSV file; columns are
+ * mapped onto `PricingData` fields, every row is validated and checked for
+ * duplicates, and only then committed one by one through
+ * `createPricingData` so a bad row never blocks the rest.
+ */
+
+export type PricingImportField =
+  | 'competitor'
+  | 'product_service'
+  | 'price_point'
+  | 'currency'
+  | 'date_collected'
+  | 'is_promotion'
+  | 'promotion_details'
+  | 'source';
+
+export interface PricingImportFieldDefinition {
+  field: PricingImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const PRICING_IMPORT_FIELDS: PricingImportFieldDefinition[] = [
+  { field: 'competitor', label: 'Competitor', required: true, aliases: ['competitor', 'competitorname', 'competitorid', 'company', 'business'] },
+  { field: 'product_service', label: 'Product/Service', required: true, aliases: ['productservice', 'product', 'service', 'item'] },
+  { field: 'price_point', label: 'Price', required: true, aliases: ['price', 'pricepoint', 'amount', 'cost'] },
+  { field: 'currency', label: 'Currency', required: false, aliases: ['currency', 'currencycode'] },
+  { field: 'date_collected', label: 'Date collected', required: true, aliases: ['date', 'datecollected', 'collected', 'collectedon', 'observed'] },
+  { field: 'is_promotion', label: 'Promotion', required: false, aliases: ['promotion', 'ispromotion', 'promo', 'onpromotion'] },
+  { field: 'promotion_details', label: 'Promotion details', required: false, aliases: ['promotiondetails', 'promodetails', 'offer'] },
+  { field: 'source', label: 'Source', required: false, aliases: ['source', 'collectedby'] }
+];
+
+// Column index per field; unmapped fields are left out
+export type PricingColumnMapping = Partial<Record<PricingImportField, number>>;
+
+export type DuplicateReason = 'existing' | 'file';
+
+export interface PricingImportRow {
+  rowNumber: number;
+  values: string[];
+  errors: string[];
+  duplicate?: DuplicateReason;
+  payload?: PricingDataInput;
+}
+
+export interface PricingImportResult {
+  created: PricingData[];
+  failed: { rowNumber: number; message: string }[];
+}
+
+export const DEFAULT_IMPORT_SOURCE = 'csv_import';
+
+const normaliseHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (headers: string[]): PricingColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const used = new Set<number>();
+
+  return PRICING_IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = normalised.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+    return mapping;
+  }, {} as PricingColumnMapping);
+};
+
+export const missingRequiredFields = (mapping: PricingColumnMapping) =>
+  PRICING_IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+/** Accepts "12.50", "£12.50" and "1,299.00"; returns null for anything else. */
+export const parsePrice = (value: string): number | null => {
+  const cleaned = value.trim().replace(/^[£$€]/, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value.trim().toUpperCase());
+
+/**
+ * Accepts ISO 8601 dates (YYYY-MM-DD) and date-times. Returns the value as
+ * an ISO string, or null when it is malformed or not a real calendar date.
+ */
+export const parseIsoDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const match = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.exec(trimmed);
+  if (!match) return null;
+
+  const date = new Date(match[4] ? trimmed : `${trimmed}T00:00:00Z`);
+  if (isNaN(date.getTime())) return null;
+  // Reject dates like 2025-02-30 that JavaScript would roll over
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const calendar = new Date(Date.UTC(year, month - 1, day));
+  if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) return null;
+
+  return date.toISOString();
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalised = value.trim().toLowerCase();
+  if (['', 'no', 'n', 'false', '0'].includes(normalised)) return false;
+  if (['yes', 'y', 'true', '1'].includes(normalised)) return true;
+  return null;
+};
+
+export const pricingDuplicateKey = (entry: { competitor_id: string; product_service: string; date_collected: string }) =>
+  `${entry.competitor_id}|${entry.product_service.trim().toLowerCase()}|${entry.date_collected.substring(0, 10)}`;
+
+export const buildPricingImportPreview = ({
+  rows,
+  mapping,
+  competitors,
+  existing,
+  defaultCurrency = 'GBP',
+  referenceDate = new Date()
+}: {
+  rows: string[][];
+  mapping: PricingColumnMapping;
+  competitors: Competitor[];
+  existing: PricingData[];
+  defaultCurrency?: string;
+  referenceDate?: Date;
+}): PricingImportRow[] => {
+  const competitorsByName = new Map<string, Competitor>();
+  competitors.forEach(c => {
+    competitorsByName.set(c.name.trim().toLowerCase(), c);
+    competitorsByName.set(c.id.toLowerCase(), c);
+  });
+  const existingKeys = new Set(existing.map(pricingDuplicateKey));
+  const fileKeys = new Set<string>();
+
+  return rows.map((values, index) => {
+    const cell = (field: PricingImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (values[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const competitorName = cell('competitor');
+    const competitor = competitorsByName.get(competitorName.toLowerCase());
+    if (!competitorName) {
+      errors.push('Competitor is required');
+    } else if (!competitor) {
+      errors.push(`Unknown competitor "${competitorName}"`);
+    }
+
+    const product = cell('product_service');
+    if (!product) errors.push('Product/service is required');
+
+    const price = parsePrice(cell('price_point'));
+    if (price === null) errors.push('Price must be a number');
+
+    const currency = (cell('currency') || defaultCurrency).toUpperCase();
+    if (!isCurrencyCode(currency)) errors.push(`Invalid currency "${cell('currency')}"`);
+
+    const rawDate = cell('date_collected');
+    const date = parseIsoDate(rawDate);
+    if (!rawDate) {
+      errors.push('Date is required');
+    } else if (!date) {
+      errors.push('Date must be in ISO format (YYYY-MM-DD)');
+    } else if (new Date(date) > referenceDate) {
+      errors.push('Date is in the future');
+    }
+
+    const isPromotion = parseBoolean(cell('is_promotion'));
+    if (isPromotion === null) errors.push('Promotion must be yes or no');
+
+    const row: PricingImportRow = { rowNumber: index + 2, values, errors };
+    if (errors.length || !competitor || price === null || !date) return row;
+
+    row.payload = {
+      competitor_id: competitor.id,
+      product_service: product,
+      price_point: price,
+      currency,
+      date_collected: date,
+      source: cell('source') || DEFAULT_IMPORT_SOURCE,
+      is_promotion: !!isPromotion,
+      promotion_details: cell('promotion_details') || undefined
+    };
+
+    const key = pricingDuplicateKey(row.payload);
+    if (existingKeys.has(key)) {
+      row.duplicate = 'existing';
+    } else if (fileKeys.has(key)) {
+      row.duplicate = 'file';
+    }
+    fileKeys.add(key);
+
+    return row;
+  });
+};
+
+export const importableRows = (rows: PricingImportRow[], includeDuplicates = false) =>
+  rows.filter(row => row.payload && (includeDuplicates || !row.duplicate));
+
+export const commitPricingImport = async (
+  rows: PricingImportRow[],
+  create: (input: PricingDataInput) => Promise<PricingData>
+): Promise<PricingImportResult> => {
+  const result: PricingImportResult = { created: [], failed: [] };
+
+  // Sequential so the server sees rows in file order and isn't flooded
+  for (const row of rows) {
+    if (!row.payload) continue;
+    try {
+      result.created.push(await create(row.payload));
+    } catch (err) {
+      result.failed.push({
+        rowNumber: row.rowNumber,
+        message: err instanceof Error ? err.message : 'Failed to save row'
+      });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,547 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { MarketReport, MarketReportType, CompetitorMove, PriceAnomaly } from '@/types/market-edge';
+import { formatPrice } from './market-edge-currency';
+import { toIsoWeekKey } from './market-edge-analytics';
+import { annotationAuthor, sortAnnotations } from './market-edge-annotations';
+import { insightText } from './market-edge-export';
+
+/**
+ * Multi-page PDF rendering of a `MarketReport`.
+ *
+ * Charts are drawn with jsPDF vector primitives rather than rasterised from
+ * the on-screen Recharts components, so the report can be generated without
+ * the charts being mounted.
+ */
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ChartSeries {
+  name: string;
+  color: string;
+  values: Array<number | undefined>;
+  dashed?: boolean;
+}
+
+// Numbered event line at a label index, keyed to the annotations table
+interface ChartMarker {
+  index: number;
+  label: string;
+}
+
+const PAGE_MARGIN = 15;
+const SERIES_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899'];
+const TEXT_DARK = '#111827';
+const TEXT_MUTED = '#6B7280';
+const GRID_COLOR = '#E5E7EB';
+const BRAND_COLOR = '#2563EB';
+const ANNOTATION_COLOR = '#9333EA';
+
+export const REPORT_TYPE_LABELS: Record<MarketReportType, string> = {
+  comprehensive: 'Comprehensive Report',
+  summary: 'Executive Summary',
+  trends: 'Pricing Trends Report'
+};
+
+// Reports are rendered in en-GB; amounts use the analysis base currency
+const formatCurrency = (value: number, currency?: string) => formatPrice(value, currency, 'en-GB');
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+
+const niceStep = (range: number, ticks: number) => {
+  const rough = range / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalised = rough / magnitude;
+  const step = normalised >= 5 ? 10 : normalised >= 2 ? 5 : normalised >= 1 ? 2 : 1;
+  return step * magnitude;
+};
+
+class ReportWriter {
+  readonly doc: jsPDF;
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly contentWidth: number;
+  cursorY = PAGE_MARGIN;
+
+  constructor(private report: MarketReport) {
+    this.doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    this.pageWidth = this.doc.internal.pageSize.getWidth();
+    this.pageHeight = this.doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  money(value: number) {
+    return formatCurrency(value, this.report.market_overview.metrics.currency);
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.cursorY = PAGE_MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.cursorY + height > this.pageHeight - PAGE_MARGIN - 8) {
+      this.newPage();
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(16);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(14);
+    this.doc.setTextColor(TEXT_DARK);
+    this.doc.text(text, PAGE_MARGIN, this.cursorY + 6);
+    this.doc.setDrawColor(BRAND_COLOR);
+    this.doc.setLineWidth(0.6);
+    this.doc.line(PAGE_MARGIN, this.cursorY + 8.5, PAGE_MARGIN + 20, this.cursorY + 8.5);
+    this.cursorY += 14;
+  }
+
+  paragraph(text: string, options: { muted?: boolean; size?: number } = {}) {
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(options.size || 10);
+    this.doc.setTextColor(options.muted ? TEXT_MUTED : TEXT_DARK);
+    const lines = this.doc.splitTextToSize(text, this.contentWidth) as string[];
+    const lineHeight = (options.size || 10) * 0.45;
+    this.ensureSpace(lines.length * lineHeight + 2);
+    this.doc.text(lines, PAGE_MARGIN, this.cursorY + lineHeight);
+    this.cursorY += lines.length * lineHeight + 3;
+  }
+
+  table(head: string[], body: RowInput[], emptyMessage: string) {
+    if (!body.length) {
+      this.paragraph(emptyMessage, { muted: true });
+      this.cursorY += 2;
+      return;
+    }
+    autoTable(this.doc, {
+      head: [head],
+      body,
+      startY: this.cursorY,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+      styles: { fontSize: 8.5, cellPadding: 1.8 },
+      headStyles: { fillColor: BRAND_COLOR, textColor: '#FFFFFF' },
+      alternateRowStyles: { fillColor: '#F9FAFB' }
+    });
+    this.cursorY = ((this.doc as any).lastAutoTable?.finalY || this.cursorY) + 8;
+  }
+
+  cover(reportType: MarketReportType) {
+    const { doc, report } = this;
+    const market = report.market_overview.market;
+
+    doc.setFillColor(BRAND_COLOR);
+    doc.rect(0, 0, this.pageWidth, 90, 'F');
+    doc.setTextColor('#FFFFFF');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(12);
+    doc.text('MARKET EDGE', PAGE_MARGIN, 35);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(26);
+    doc.text(doc.splitTextToSize(market.name, this.contentWidth) as string[], PAGE_MARGIN, 52);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(14);
+    doc.text(REPORT_TYPE_LABELS[reportType], PAGE_MARGIN, 78);
+
+    const period = report.pricing_trends?.period;
+    const details: Array<[string, string]> = [
+      ['Generated', formatDateTime(report.generated_at)],
+      ['Analysis period', period ? `${formatDate(period.start_date)} - ${formatDate(period.end_date)}` : 'N/A'],
+      ['Competitors tracked', String(report.summary.total_competitors)],
+      ['Market status', market.is_active ? 'Active' : 'Archived']
+    ];
+
+    let y = 115;
+    details.forEach(([label, value]) => {
+      doc.setFontSize(10);
+      doc.setTextColor(TEXT_MUTED);
+      doc.text(label.toUpperCase(), PAGE_MARGIN, y);
+      doc.setFontSize(13);
+      doc.setTextColor(TEXT_DARK);
+      doc.text(value, PAGE_MARGIN, y + 7);
+      y += 20;
+    });
+
+    doc.setFontSize(8);
+    doc.setTextColor(TEXT_MUTED);
+    doc.text('Confidential - competitive intelligence for internal use only', PAGE_MARGIN, this.pageHeight - PAGE_MARGIN);
+  }
+
+  summaryBlock() {
+    const { summary } = this.report;
+    const metrics = this.report.market_overview.metrics;
+    const cards: Array<[string, string]> = [
+      ['Competitors', String(summary.total_competitors)],
+      ['Active alerts', String(summary.active_alerts)],
+      ['Recent moves', String(summary.recent_moves)],
+      ['Average price', metrics ? this.money(metrics.average_price) : 'N/A']
+    ];
+
+    this.heading('Summary');
+    this.ensureSpace(26);
+    const gap = 4;
+    const cardWidth = (this.contentWidth - gap * (cards.length - 1)) / cards.length;
+    cards.forEach(([label, value], index) => {
+      const x = PAGE_MARGIN + index * (cardWidth + gap);
+      this.doc.setFillColor('#F3F4F6');
+      this.doc.roundedRect(x, this.cursorY, cardWidth, 22, 2, 2, 'F');
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8.5);
+      this.doc.setTextColor(TEXT_MUTED);
+      this.doc.text(label, x + 4, this.cursorY + 7);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setFontSize(15);
+      this.doc.setTextColor(TEXT_DARK);
+      this.doc.text(value, x + 4, this.cursorY + 17);
+    });
+    this.cursorY += 30;
+  }
+
+  insights() {
+    const insights = (this.report.insights || []).map(insightText).filter(Boolean);
+    this.heading('Key Insights');
+    if (!insights.length) {
+      this.paragraph('No insights were generated for this period.', { muted: true });
+      return;
+    }
+    insights.forEach(text => this.paragraph(`- ${text}`));
+    this.cursorY += 3;
+  }
+
+  lineChart(title: string, labels: string[], series: ChartSeries[], markers: ChartMarker[] = []) {
+    const height = 80;
+    this.ensureSpace(height + 24);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(11);
+    this.doc.setTextColor(TEXT_DARK);
+    this.doc.text(title, PAGE_MARGIN, this.cursorY + 5);
+    this.cursorY += 9;
+
+    const plot: Rect = { x: PAGE_MARGIN + 16, y: this.cursorY, width: this.contentWidth - 18, height };
+    const values = series.reduce((all, s) => all.concat(s.values.filter((v): v is number => v !== undefined)), [] as number[]);
+
+    if (labels.length < 2 || !values.length) {
+      this.paragraph('Not enough trend data to plot.', { muted: true });
+      return;
+    }
+
+    const step = niceStep(Math.max(...values) - Math.min(...values) || 1, 5);
+    const min = Math.floor(Math.min(...values) / step) * step;
+    const max = Math.ceil(Math.max(...values) / step) * step || step;
+    const xFor = (index: number) => plot.x + (index / (labels.length - 1)) * plot.width;
+    const yFor = (value: number) => plot.y + plot.height - ((value - min) / (max - min || 1)) * plot.height;
+
+    this.drawValueAxis(plot, min, max, step, yFor);
+
+    const labelEvery = Math.ceil(labels.length / 8);
+    this.doc.setFontSize(7);
+    this.doc.setTextColor(TEXT_MUTED);
+    labels.forEach((label, index) => {
+      if (index % labelEvery === 0 || index === labels.length - 1) {
+        this.doc.text(label, xFor(index), plot.y + plot.height + 4, { align: 'center' });
+      }
+    });
+
+    series.forEach(s => {
+      this.doc.setDrawColor(s.color);
+      this.doc.setLineWidth(s.dashed ? 0.8 : 0.5);
+      this.doc.setLineDashPattern(s.dashed ? [1.5, 1] : [], 0);
+      let previous: { x: number; y: number } | null = null;
+      s.values.forEach((value, index) => {
+        if (value === undefined) {
+          previous = null;
+          return;
+        }
+        const point = { x: xFor(index), y: yFor(value) };
+        if (previous) this.doc.line(previous.x, previous.y, point.x, point.y);
+        previous = point;
+      });
+    });
+    this.doc.setLineDashPattern([], 0);
+
+    this.drawMarkers(plot, markers, xFor);
+
+    this.cursorY = plot.y + plot.height + 8;
+    this.legend(series);
+  }
+
+  barChart(title: string, bars: Array<{ label: string; value: number }>) {
+    const height = 70;
+    this.ensureSpace(height + 30);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(11);
+    this.doc.setTextColor(TEXT_DARK);
+    this.doc.text(title, PAGE_MARGIN, this.cursorY + 5);
+    this.cursorY += 9;
+
+    if (!bars.length) {
+      this.paragraph('No competitor pricing available.', { muted: true });
+      return;
+    }
+
+    const plot: Rect = { x: PAGE_MARGIN + 16, y: this.cursorY, width: this.contentWidth - 18, height };
+    const maxValue = Math.max(...bars.map(b => b.value));
+    const step = niceStep(maxValue || 1, 5);
+    const max = Math.ceil(maxValue / step) * step || step;
+    const yFor = (value: number) => plot.y + plot.height - (value / max) * plot.height;
+
+    this.drawValueAxis(plot, 0, max, step, yFor);
+
+    const slot = plot.width / bars.length;
+    const barWidth = Math.min(18, slot * 0.6);
+    bars.forEach((bar, index) => {
+      const x = plot.x + slot * index + (slot - barWidth) / 2;
+      const y = yFor(bar.value);
+      this.doc.setFillColor(SERIES_COLORS[index % SERIES_COLORS.length]);
+      this.doc.rect(x, y, barWidth, plot.y + plot.height - y, 'F');
+      this.doc.setFontSize(7);
+      this.doc.setTextColor(TEXT_DARK);
+      this.doc.text(this.money(bar.value), x + barWidth / 2, y - 1.5, { align: 'center' });
+      this.doc.setTextColor(TEXT_MUTED);
+      const label = this.doc.splitTextToSize(bar.label, slot - 2) as string[];
+      this.doc.text(label.slice(0, 2), x + barWidth / 2, plot.y + plot.height + 4, { align: 'center' });
+    });
+
+    this.cursorY = plot.y + plot.height + 14;
+  }
+
+  private drawValueAxis(plot: Rect, min: number, max: number, step: number, yFor: (v: number) => number) {
+    this.doc.setLineWidth(0.2);
+    this.doc.setLineDashPattern([], 0);
+    this.doc.setFontSize(7);
+    for (let value = min; value <= max + step / 2; value += step) {
+      const y = yFor(value);
+      this.doc.setDrawColor(GRID_COLOR);
+      this.doc.line(plot.x, y, plot.x + plot.width, y);
+      this.doc.setTextColor(TEXT_MUTED);
+      this.doc.text(this.money(value), plot.x - 2, y + 1, { align: 'right' });
+    }
+  }
+
+  private drawMarkers(plot: Rect, markers: ChartMarker[], xFor: (index: number) => number) {
+    this.doc.setDrawColor(ANNOTATION_COLOR);
+    this.doc.setLineWidth(0.3);
+    this.doc.setFontSize(6.5);
+    this.doc.setTextColor(ANNOTATION_COLOR);
+    markers.forEach(marker => {
+      const x = xFor(marker.index);
+      this.doc.setLineDashPattern([1, 1], 0);
+      this.doc.line(x, plot.y, x, plot.y + plot.height);
+      this.doc.text(marker.label, x + 0.8, plot.y + 2.5);
+    });
+    this.doc.setLineDashPattern([], 0);
+  }
+
+  private legend(series: ChartSeries[]) {
+    let x = PAGE_MARGIN;
+    this.doc.setFontSize(7.5);
+    series.forEach(s => {
+      const width = this.doc.getTextWidth(s.name) + 9;
+      if (x + width > this.pageWidth - PAGE_MARGIN) {
+        x = PAGE_MARGIN;
+        this.cursorY += 5;
+      }
+      this.doc.setFillColor(s.color);
+      this.doc.rect(x, this.cursorY - 2.2, 3, 3, 'F');
+      this.doc.setTextColor(TEXT_DARK);
+      this.doc.text(s.name, x + 4.5, this.cursorY);
+      x += width;
+    });
+    this.cursorY += 9;
+  }
+
+  pricingTrendChart() {
+    const trends = this.report.pricing_trends;
+    const weeks = Object.keys(trends?.market_trend || {}).sort();
+    const competitors = Object.keys(trends?.competitor_trends || {});
+    const series: ChartSeries[] = [
+      { name: 'Market Average', color: '#1F2937', values: weeks.map(w => trends.market_trend[w]), dashed: true },
+      ...competitors.map((id, index) => ({
+        name: trends.competitor_trends[id].name,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        values: weeks.map(w => trends.competitor_trends[id].weekly_averages[w])
+      }))
+    ];
+    // Notes in the same week share one line, labelled with all their numbers
+    const markers = this.annotations().reduce((acc, annotation, position) => {
+      const index = weeks.indexOf(toIsoWeekKey(`${annotation.date}T00:00:00Z`));
+      if (index === -1) return acc;
+      const existing = acc.find(m => m.index === index);
+      if (existing) {
+        existing.label += `,${position + 1}`;
+      } else {
+        acc.push({ index, label: String(position + 1) });
+      }
+      return acc;
+    }, [] as ChartMarker[]);
+    this.lineChart('Weekly Pricing Trends', weeks, series, markers);
+  }
+
+  annotations() {
+    return sortAnnotations(this.report.annotations || []);
+  }
+
+  annotationsTable() {
+    this.heading('Chart Annotations');
+    this.table(
+      ['#', 'Date', 'Event', 'Details', 'Added by'],
+      this.annotations().map((a, index) => [
+        String(index + 1),
+        formatDate(a.date),
+        a.label,
+        a.description || '',
+        annotationAuthor(a)
+      ]),
+      'No chart annotations in this period.'
+    );
+  }
+
+  comparisonChart() {
+    const rankings = this.report.competitor_analysis?.rankings?.by_price || [];
+    this.barChart(
+      'Competitor Price Comparison (average price)',
+      rankings.map(r => ({ label: r.name, value: r.average_price }))
+    );
+  }
+
+  rankingsTable() {
+    const competitors = this.report.competitor_analysis?.competitors || {};
+    const rows = (this.report.competitor_analysis?.rankings?.by_price || []).map(r => {
+      const c = competitors[r.competitor_id];
+      return [
+        String(r.rank),
+        r.name,
+        c?.business_type || '',
+        this.money(r.average_price),
+        c ? `${this.money(c.min_price)} - ${this.money(c.max_price)}` : '',
+        c?.market_share_estimate != null ? `${c.market_share_estimate.toFixed(1)}%` : 'N/A',
+        String(c?.data_points ?? '')
+      ];
+    });
+    this.heading('Competitor Rankings');
+    this.table(['Rank', 'Competitor', 'Type', 'Avg Price', 'Range', 'Share', 'Points'], rows, 'No competitor pricing available.');
+  }
+
+  anomaliesTable(anomalies: PriceAnomaly[]) {
+    this.heading('Price Anomalies');
+    this.table(
+      ['Date', 'Competitor', 'Product/Service', 'Price', 'Z-Score', 'Deviation', 'Severity'],
+      anomalies.map(a => [
+        formatDate(a.date_collected),
+        a.competitor_name,
+        a.product_service,
+        this.money(a.price),
+        a.z_score.toFixed(2),
+        `${a.deviation_from_mean >= 0 ? '+' : '-'}${this.money(Math.abs(a.deviation_from_mean))}`,
+        a.severity.toUpperCase()
+      ]),
+      'No price anomalies detected in this period.'
+    );
+  }
+
+  movesTable(moves: CompetitorMove[], title = 'Recent Competitor Moves') {
+    this.heading(title);
+    this.table(
+      ['Detected', 'Competitor', 'Move', 'Details', 'Significance'],
+      moves.map(m => [
+        formatDate(m.detected_at),
+        m.competitor_name,
+        m.type === 'price_change'
+          ? `Price ${m.change_type === 'increase' ? 'increase' : 'decrease'}`
+          : 'New products',
+        m.type === 'price_change'
+          ? `${(m.change_percent || 0) > 0 ? '+' : ''}${(m.change_percent || 0).toFixed(1)}% (${this.money(m.previous_average || 0)} to ${this.money(m.current_average || 0)})`
+          : (m.new_products || []).join(', '),
+        m.significance.toUpperCase()
+      ]),
+      'No competitor moves detected in this period.'
+    );
+  }
+
+  weeklyTrendTable() {
+    const trends = this.report.pricing_trends;
+    const weeks = Object.keys(trends?.market_trend || {}).sort();
+    const competitors = Object.keys(trends?.competitor_trends || {});
+    this.heading('Weekly Averages');
+    this.table(
+      ['Week', 'Market', ...competitors.map(id => trends.competitor_trends[id].name)],
+      weeks.map(week => [
+        week,
+        this.money(trends.market_trend[week]),
+        ...competitors.map(id => {
+          const value = trends.competitor_trends[id].weekly_averages[week];
+          return value !== undefined ? this.money(value) : '-';
+        })
+      ]),
+      'No weekly trend data available.'
+    );
+  }
+
+  footers(reportType: MarketReportType) {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 2; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(TEXT_MUTED);
+      this.doc.text(
+        `${this.report.market_overview.market.name} - ${REPORT_TYPE_LABELS[reportType]}`,
+        PAGE_MARGIN,
+        this.pageHeight - 8
+      );
+      this.doc.text(`Page ${page} of ${pages}`, this.pageWidth - PAGE_MARGIN, this.pageHeight - 8, { align: 'right' });
+    }
+  }
+}
+
+export const buildMarketReportPDF = (report: MarketReport, reportType: MarketReportType = 'comprehensive') => {
+  const writer = new ReportWriter(report);
+  const anomalies = report.market_overview.metrics?.anomalies || [];
+
+  writer.cover(reportType);
+  writer.newPage();
+  writer.summaryBlock();
+
+  switch (reportType) {
+    case 'summary':
+      writer.insights();
+      writer.comparisonChart();
+      writer.movesTable(report.recent_moves.slice(0, 5), 'Top Competitor Moves');
+      break;
+
+    case 'trends':
+      writer.pricingTrendChart();
+      writer.annotationsTable();
+      writer.weeklyTrendTable();
+      writer.movesTable(report.recent_moves.filter(m => m.type === 'price_change'), 'Recent Price Changes');
+      writer.anomaliesTable(anomalies);
+      break;
+
+    default:
+      writer.insights();
+      writer.pricingTrendChart();
+      writer.annotationsTable();
+      writer.comparisonChart();
+      writer.rankingsTable();
+      writer.anomaliesTable(anomalies);
+      writer.movesTable(report.recent_moves);
+      break;
+  }
+
+  writer.footers(reportType);
+  return writer.doc;
+};
+
+export const createMarketReportPDF = (report: MarketReport, reportType: MarketReportType = 'comprehensive'): Blob =>
+  buildMarketReportPDF(report, reportType).output('blob');
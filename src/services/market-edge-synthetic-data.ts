@@ -0,0 +1,1340 @@
+import {
+  Market,
+  Competitor,
+  PricingData,
+  MarketAlert,
+  MarketOverview,
+  MarketReport,
+  CurrencySettings,
+  AnomalyReview,
+  AlertRule,
+  AlertRuleBacktest,
+  Webhook,
+  WebhookDelivery,
+  WebhookWithSecret,
+  Watchlist,
+  WatchlistSummary,
+  ChartAnnotation
+} from '@/types/market-edge';
+import { MarketEdgeDataSource } from './market-edge-data-source';
+import { BASE_CURRENCY_OPTIONS, createCurrencyConverter, formatPrice, normalisePricing } from './market-edge-currency';
+import { BACKTEST_DAYS, backtestAlertRule, isAlertSnoozed, validateAlertRule } from './market-edge-alert-rules';
+import {
+  buildTestAlert,
+  deliveryStatus,
+  generateWebhookSecret,
+  validateWebhook,
+  validateWebhookSecret
+} from './market-edge-webhooks';
+import { validateWatchlist } from './market-edge-watchlists';
+import { sortAnnotations, validateAnnotation } from './market-edge-annotations';
+import {
+  AnalysisWindow,
+  computeCompetitorAnalysis,
+  computeCompetitorComparison,
+  computeMarketMetrics,
+  computeMarketTrends,
+  computePromotionSummary,
+  computeWeeklyPriceChange,
+  detectAnomalies,
+  detectCompetitorMoves,
+  detectCompetitorMovesInWindow,
+  filterPricing,
+  round2,
+  windowDays,
+  windowFromDateRange,
+  windowFromDaysBack
+} from './market-edge-analytics';
+
+/**
+ * Deterministic, in-memory implementation of the Market Edge REST API used
+ * for "Test Data" mode.
+ *
+ * All values are derived from a fixed seed, so the same seed and reference
+ * date always produce identical markets, competitors, prices and alerts.
+ * Dates are laid out backwards from the reference date (today by default)
+ * which keeps the `days_back` windows of the analysis endpoints populated.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_WEEKS = 56;
+const DEFAULT_DAYS_BACK = 30;
+const SYNTHETIC_ORGANISATION_ID = 'org-synthetic';
+const SYNTHETIC_USER_ID = 'user-synthetic';
+const SYNTHETIC_USER_NAME = 'Test Data User';
+// Author of seeded shared content, to show items created by others
+const SYNTHETIC_COLLEAGUE = { id: 'user-synthetic-colleague', name: 'Priya Shah' };
+const MAX_WEBHOOK_DELIVERIES = 50;
+
+// Seeded PRNG (mulberry32) so generated data is reproducible
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+interface ProductTemplate {
+  name: string;
+  basePrice: number;
+}
+
+interface CompetitorTemplate {
+  name: string;
+  business_type: string;
+  website: string;
+  tracking_priority: number;
+  market_share_estimate: number;
+  priceLevel: number;
+  promotionRate: number;
+  description: string;
+}
+
+interface MarketTemplate {
+  id: string;
+  name: string;
+  is_active: boolean;
+  geographic_bounds: Record<string, any>;
+  products: ProductTemplate[];
+  competitors: CompetitorTemplate[];
+  launch?: { competitorIndex: number; product: ProductTemplate };
+}
+
+const MARKET_TEMPLATES: MarketTemplate[] = [
+  {
+    id: 'mkt-london-cinemas',
+    name: 'Central London Cinemas',
+    is_active: true,
+    geographic_bounds: { city: 'London', region: 'Greater London', radius_km: 8 },
+    products: [
+      { name: 'Standard Ticket', basePrice: 13.5 },
+      { name: 'Premium Seat', basePrice: 18.25 },
+      { name: 'IMAX Ticket', basePrice: 22.0 }
+    ],
+    competitors: [
+      { name: 'Starlight Cinemas', business_type: 'Multiplex', website: 'https://starlight-cinemas.example.com', tracking_priority: 5, market_share_estimate: 31.5, priceLevel: 1.08, promotionRate: 0.06, description: 'National multiplex chain with four West End sites.' },
+      { name: 'Lumiere Screens', business_type: 'Boutique', website: 'https://lumiere-screens.example.com', tracking_priority: 4, market_share_estimate: 12.0, priceLevel: 1.22, promotionRate: 0.03, description: 'Luxury recliner cinema with dine-in service.' },
+      { name: 'Metro Picturehouse', business_type: 'Independent', website: 'https://metro-picturehouse.example.com', tracking_priority: 3, market_share_estimate: 9.5, priceLevel: 0.92, promotionRate: 0.1, description: 'Independent arthouse cinema, strong midweek offers.' },
+      { name: 'Grand Regal Cinema', business_type: 'Multiplex', website: 'https://grand-regal.example.com', tracking_priority: 4, market_share_estimate: 24.0, priceLevel: 1.0, promotionRate: 0.08, description: 'Large multiplex with regular family promotions.' },
+      { name: 'Northgate Movies', business_type: 'Budget', website: 'https://northgate-movies.example.com', tracking_priority: 2, market_share_estimate: 7.5, priceLevel: 0.78, promotionRate: 0.12, description: 'Value cinema chain targeting students.' }
+    ],
+    launch: { competitorIndex: 0, product: { name: 'Late Night Screening', basePrice: 9.5 } }
+  },
+  {
+    id: 'mkt-manchester-hotels',
+    name: 'Manchester City Centre Hotels',
+    is_active: true,
+    geographic_bounds: { city: 'Manchester', region: 'North West', radius_km: 5 },
+    products: [
+      { name: 'Standard Double Room', basePrice: 109 },
+      { name: 'Executive Suite', basePrice: 215 },
+      { name: 'Breakfast Add-on', basePrice: 16.5 }
+    ],
+    competitors: [
+      { name: 'Harbour View Hotel', business_type: 'Upscale', website: 'https://harbour-view.example.com', tracking_priority: 5, market_share_estimate: 18.0, priceLevel: 1.18, promotionRate: 0.05, description: 'Four-star hotel on the canal basin.' },
+      { name: 'Castlefield Inn', business_type: 'Midscale', website: 'https://castlefield-inn.example.com', tracking_priority: 3, market_share_estimate: 11.0, priceLevel: 0.96, promotionRate: 0.09, description: 'Converted warehouse hotel, popular for weekends.' },
+      { name: 'Piccadilly Lodge', business_type: 'Economy', website: 'https://piccadilly-lodge.example.com', tracking_priority: 2, market_share_estimate: 14.5, priceLevel: 0.74, promotionRate: 0.11, description: 'Budget chain near the main station.' },
+      { name: 'The Northern Grand', business_type: 'Luxury', website: 'https://northern-grand.example.com', tracking_priority: 4, market_share_estimate: 8.0, priceLevel: 1.45, promotionRate: 0.02, description: 'Five-star landmark hotel.' }
+    ]
+  },
+  {
+    id: 'mkt-leeds-gyms',
+    name: 'Leeds Fitness Clubs',
+    is_active: true,
+    geographic_bounds: { city: 'Leeds', region: 'Yorkshire', radius_km: 10 },
+    products: [
+      { name: 'Monthly Membership', basePrice: 34.99 },
+      { name: 'Day Pass', basePrice: 9.5 },
+      { name: 'Personal Training Session', basePrice: 42 }
+    ],
+    competitors: [
+      { name: 'PulseFit', business_type: 'Low-cost gym', website: 'https://pulsefit.example.com', tracking_priority: 4, market_share_estimate: 27.0, priceLevel: 0.72, promotionRate: 0.14, description: '24/7 low-cost gym chain.' },
+      { name: 'Aire Valley Health Club', business_type: 'Premium club', website: 'https://airevalley.example.com', tracking_priority: 5, market_share_estimate: 15.0, priceLevel: 1.35, promotionRate: 0.04, description: 'Premium club with pool and spa.' },
+      { name: 'Iron Works Gym', business_type: 'Independent', website: 'https://ironworks.example.com', tracking_priority: 2, market_share_estimate: 6.5, priceLevel: 0.95, promotionRate: 0.07, description: 'Strength-focused independent gym.' },
+      { name: 'Motion Studios', business_type: 'Boutique', website: 'https://motion-studios.example.com', tracking_priority: 3, market_share_estimate: 9.0, priceLevel: 1.15, promotionRate: 0.09, description: 'Boutique classes and personal training.' }
+    ],
+    launch: { competitorIndex: 3, product: { name: 'Reformer Pilates Class', basePrice: 18 } }
+  },
+  {
+    id: 'mkt-bristol-cinemas-pilot',
+    name: 'Bristol Cinemas (Pilot)',
+    is_active: false,
+    geographic_bounds: { city: 'Bristol', region: 'South West', radius_km: 6 },
+    products: [
+      { name: 'Standard Ticket', basePrice: 11.75 }
+    ],
+    competitors: [
+      { name: 'Harbourside Screens', business_type: 'Independent', website: 'https://harbourside.example.com', tracking_priority: 3, market_share_estimate: 20.0, priceLevel: 1.0, promotionRate: 0.05, description: 'Waterfront independent cinema.' },
+      { name: 'Clifton Picture House', business_type: 'Boutique', website: 'https://clifton-pictures.example.com', tracking_priority: 2, market_share_estimate: 10.0, priceLevel: 1.1, promotionRate: 0.03, description: 'Single-screen heritage cinema.' }
+    ]
+  }
+];
+
+const PROMOTION_LABELS = [
+  'Midweek saver',
+  'Members weekend offer',
+  'Bank holiday discount',
+  'Online booking exclusive',
+  'Student discount week'
+];
+
+// Retail-style price rounding (e.g. 12.49, 12.99)
+const toRetailPrice = (value: number) => {
+  if (value >= 100) return Math.round(value);
+  const whole = Math.floor(value);
+  const fraction = value - whole;
+  return fraction < 0.5 ? whole + 0.49 : whole + 0.99;
+};
+
+export interface SyntheticStore {
+  markets: Market[];
+  competitors: Competitor[];
+  pricing: PricingData[];
+  alerts: MarketAlert[];
+  currency_settings: CurrencySettings;
+  anomaly_reviews: AnomalyReview[];
+  alert_rules: AlertRule[];
+  webhooks: WebhookWithSecret[];
+  webhook_deliveries: WebhookDelivery[];
+  // Whether the current user may edit depends on who asks, so it isn't stored
+  watchlists: Omit<Watchlist, 'can_edit'>[];
+  chart_annotations: Omit<ChartAnnotation, 'can_edit'>[];
+}
+
+export interface SyntheticDataOptions {
+  seed?: number;
+  referenceDate?: Date;
+}
+
+export const DEFAULT_SYNTHETIC_SEED = 20240601;
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const isoAt = (referenceDate: Date, daysAgo: number, hour = 10) =>
+  new Date(referenceDate.getTime() - daysAgo * DAY_MS + hour * 60 * 60 * 1000).toISOString();
+
+const generateMarketPricing = (
+  template: MarketTemplate,
+  competitors: Competitor[],
+  referenceDate: Date,
+  random: () => number
+): PricingData[] => {
+  const pricing: PricingData[] = [];
+  let sequence = 0;
+
+  template.competitors.forEach((compTemplate, compIndex) => {
+    const competitor = competitors[compIndex];
+    // Each competitor makes one or two list price changes during the year
+    const priceSteps = [
+      { weeksAgo: Math.floor(random() * 40) + 10, factor: 1 + (random() * 0.06 + 0.02) },
+      { weeksAgo: Math.floor(random() * 4), factor: random() < 0.5 ? 1 + (random() * 0.08 + 0.03) : 1 - (random() * 0.07 + 0.03) }
+    ];
+    const drift = (random() - 0.4) * 0.04;
+
+    const products = template.products.slice();
+    const launch = template.launch && template.launch.competitorIndex === compIndex ? template.launch : undefined;
+
+    products.forEach(product => {
+      for (let week = HISTORY_WEEKS - 1; week >= 0; week--) {
+        const samples = random() < 0.6 ? 1 : 2;
+        for (let s = 0; s < samples; s++) {
+          const daysAgo = week * 7 + Math.floor(random() * 7);
+          const progress = (HISTORY_WEEKS - week) / HISTORY_WEEKS;
+          const seasonal = Math.sin((2 * Math.PI * (HISTORY_WEEKS - week)) / 26) * 0.025;
+          const stepFactor = priceSteps.reduce((f, step) => (week < step.weeksAgo ? f * step.factor : f), 1);
+          const noise = (random() - 0.5) * 0.03;
+          let price = product.basePrice * compTemplate.priceLevel * stepFactor * (1 + drift * progress + seasonal + noise);
+
+          const isPromotion = random() < compTemplate.promotionRate;
+          let promotionDetails: string | undefined;
+          if (isPromotion) {
+            const discount = [10, 15, 20, 25, 30][Math.floor(random() * 5)];
+            price = price * (1 - discount / 100);
+            promotionDetails = `${PROMOTION_LABELS[Math.floor(random() * PROMOTION_LABELS.length)]} - ${discount}% off`;
+          }
+
+          // Occasional data-entry errors and flash pricing show up as anomalies
+          const anomalyRoll = random();
+          const source = anomalyRoll < 0.012 ? 'manual_entry' : random() < 0.7 ? 'web_scrape' : 'mystery_shop';
+          if (anomalyRoll < 0.008) price = price * (1.7 + random() * 0.5);
+          else if (anomalyRoll < 0.012) price = price * (0.4 + random() * 0.1);
+
+          const dateCollected = isoAt(referenceDate, daysAgo, 9 + Math.floor(random() * 9));
+          pricing.push({
+            id: `${template.id}-price-${++sequence}`,
+            competitor_id: competitor.id,
+            market_id: template.id,
+            product_service: product.name,
+            price_point: toRetailPrice(price),
+            currency: 'GBP',
+            date_collected: dateCollected,
+            source,
+            metadata: { collector: source === 'mystery_shop' ? 'field_team' : 'automated' },
+            is_promotion: isPromotion,
+            promotion_details: promotionDetails,
+            created_at: dateCollected
+          });
+        }
+      }
+    });
+
+    if (launch) {
+      [6, 4, 1].forEach(daysAgo => {
+        const dateCollected = isoAt(referenceDate, daysAgo, 12);
+        pricing.push({
+          id: `${template.id}-price-${++sequence}`,
+          competitor_id: competitor.id,
+          market_id: template.id,
+          product_service: launch.product.name,
+          price_point: toRetailPrice(launch.product.basePrice * compTemplate.priceLevel),
+          currency: 'GBP',
+          date_collected: dateCollected,
+          source: 'web_scrape',
+          metadata: { collector: 'automated' },
+          is_promotion: false,
+          created_at: dateCollected
+        });
+      });
+    }
+  });
+
+  return pricing.sort((a, b) => a.date_collected.localeCompare(b.date_collected));
+};
+
+const generateMarketAlerts = (
+  market: Market,
+  competitors: Competitor[],
+  pricing: PricingData[],
+  referenceDate: Date
+): MarketAlert[] => {
+  const alerts: MarketAlert[] = [];
+  const window = windowFromDaysBack(referenceDate, DEFAULT_DAYS_BACK);
+  const recent = filterPricing(pricing, { window });
+  let sequence = 0;
+
+  const nextId = () => `${market.id}-alert-${++sequence}`;
+  const daysOld = (iso: string) => (referenceDate.getTime() - new Date(iso).getTime()) / DAY_MS;
+
+  detectAnomalies(recent, competitors).slice(0, 3).forEach(anomaly => {
+    alerts.push({
+      id: nextId(),
+      market_id: market.id,
+      organisation_id: market.organisation_id,
+      alert_type: 'anomaly',
+      severity: anomaly.severity === 'high' ? 'high' : 'medium',
+      title: `Unusual ${anomaly.product_service} price at ${anomaly.competitor_name}`,
+      message: `${anomaly.competitor_name} listed ${anomaly.product_service} at £${anomaly.price.toFixed(2)}, ${Math.abs(anomaly.z_score).toFixed(1)} standard deviations from the market mean.`,
+      trigger_data: {
+        pricing_id: anomaly.id,
+        competitor_id: recent.find(p => p.id === anomaly.id)?.competitor_id,
+        z_score: anomaly.z_score,
+        confidence: Math.min(0.99, Math.abs(anomaly.z_score) / 4)
+      },
+      is_read: daysOld(anomaly.date_collected) > 14,
+      created_at: anomaly.date_collected
+    });
+  });
+
+  detectCompetitorMoves(pricing, competitors, referenceDate).forEach(move => {
+    const severity = move.significance === 'high' ? 'critical' : move.significance === 'medium' ? 'high' : 'low';
+    alerts.push({
+      id: nextId(),
+      market_id: market.id,
+      organisation_id: market.organisation_id,
+      alert_type: move.type === 'price_change' ? 'price_change' : 'competitor_move',
+      severity,
+      title: move.type === 'price_change'
+        ? `${move.competitor_name} ${move.change_type === 'increase' ? 'raised' : 'cut'} prices by ${Math.abs(move.change_percent || 0).toFixed(1)}%`
+        : `${move.competitor_name} launched ${(move.new_products || []).join(', ')}`,
+      message: move.type === 'price_change'
+        ? `Average price moved from £${move.previous_average?.toFixed(2)} to £${move.current_average?.toFixed(2)} over the last week.`
+        : `New product${(move.new_products || []).length > 1 ? 's' : ''} detected in recent pricing data.`,
+      trigger_data: { ...move, confidence: move.significance === 'high' ? 0.92 : 0.8 },
+      is_read: false,
+      created_at: move.detected_at
+    });
+  });
+
+  const promotions = recent
+    .filter(p => p.is_promotion && daysOld(p.date_collected) <= 14)
+    .sort((a, b) => b.date_collected.localeCompare(a.date_collected));
+  const promotedCompetitors: string[] = [];
+  promotions.forEach(promo => {
+    if (promotedCompetitors.indexOf(promo.competitor_id) !== -1 || promotedCompetitors.length >= 2) return;
+    promotedCompetitors.push(promo.competitor_id);
+    const name = competitors.find(c => c.id === promo.competitor_id)?.name || 'A competitor';
+    alerts.push({
+      id: nextId(),
+      market_id: market.id,
+      organisation_id: market.organisation_id,
+      alert_type: 'promotion',
+      severity: 'low',
+      title: `${name} is running a promotion`,
+      message: `${promo.product_service}: ${promo.promotion_details} (£${promo.price_point.toFixed(2)}).`,
+      trigger_data: { pricing_id: promo.id, competitor_id: promo.competitor_id, confidence: 0.95 },
+      is_read: daysOld(promo.date_collected) > 7,
+      created_at: promo.date_collected
+    });
+  });
+
+  return alerts.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const generateSyntheticStore = (options: SyntheticDataOptions = {}): SyntheticStore => {
+  const seed = options.seed ?? DEFAULT_SYNTHETIC_SEED;
+  const referenceDate = startOfUtcDay(options.referenceDate || new Date());
+  const store: SyntheticStore = {
+    markets: [],
+    competitors: [],
+    pricing: [],
+    alerts: [],
+    anomaly_reviews: [],
+    alert_rules: [],
+    webhooks: [],
+    webhook_deliveries: [],
+    watchlists: [
+      {
+        id: 'watchlist-key-accounts',
+        organisation_id: SYNTHETIC_ORGANISATION_ID,
+        name: 'Key accounts',
+        description: 'National chains reviewed in the Monday trading meeting.',
+        competitor_ids: ['mkt-london-cinemas-comp-1', 'mkt-manchester-hotels-comp-3', 'mkt-leeds-gyms-comp-1'],
+        visibility: 'organisation',
+        created_by: SYNTHETIC_COLLEAGUE.id,
+        created_by_name: SYNTHETIC_COLLEAGUE.name,
+        created_at: isoAt(referenceDate, 21, 9)
+      }
+    ],
+    chart_annotations: [
+      {
+        id: 'annotation-starlight-refit',
+        market_id: 'mkt-london-cinemas',
+        date: isoAt(referenceDate, 24).substring(0, 10),
+        label: 'Starlight reopens after refit',
+        description: 'Recliner seating in every screen; premium tickets relaunched.',
+        created_by: SYNTHETIC_COLLEAGUE.id,
+        created_by_name: SYNTHETIC_COLLEAGUE.name,
+        created_at: isoAt(referenceDate, 24, 15)
+      },
+      {
+        id: 'annotation-summer-release',
+        market_id: 'mkt-london-cinemas',
+        date: isoAt(referenceDate, 10).substring(0, 10),
+        label: 'Summer blockbuster release',
+        created_by: SYNTHETIC_USER_ID,
+        created_by_name: SYNTHETIC_USER_NAME,
+        created_at: isoAt(referenceDate, 10, 11)
+      }
+    ],
+    currency_settings: {
+      base_currency: 'GBP',
+      rates: [
+        { currency: 'USD', rate: 0.79 },
+        { currency: 'EUR', rate: 0.85 }
+      ]
+    }
+  };
+
+  MARKET_TEMPLATES.forEach((template, marketIndex) => {
+    const random = createRandom(seed ^ hashString(template.id));
+    const createdAt = isoAt(referenceDate, HISTORY_WEEKS * 7 + 30 - marketIndex * 3, 9);
+
+    const competitors: Competitor[] = template.competitors.map((c, index) => ({
+      id: `${template.id}-comp-${index + 1}`,
+      name: c.name,
+      market_id: template.id,
+      organisation_id: SYNTHETIC_ORGANISATION_ID,
+      business_type: c.business_type,
+      website: c.website,
+      locations: { primary: template.geographic_bounds.city, sites: 1 + Math.floor(random() * 4) },
+      tracking_priority: c.tracking_priority,
+      description: c.description,
+      market_share_estimate: c.market_share_estimate,
+      created_at: createdAt
+    }));
+
+    const pricing = template.is_active
+      ? generateMarketPricing(template, competitors, referenceDate, random)
+      : generateMarketPricing(template, competitors, new Date(referenceDate.getTime() - 120 * DAY_MS), random);
+
+    competitors.forEach(competitor => {
+      const latest = pricing.filter(p => p.competitor_id === competitor.id).pop();
+      competitor.last_updated = latest?.date_collected;
+    });
+
+    const market: Market = {
+      id: template.id,
+      name: template.name,
+      geographic_bounds: template.geographic_bounds,
+      organisation_id: SYNTHETIC_ORGANISATION_ID,
+      created_by: SYNTHETIC_USER_ID,
+      competitor_count: competitors.length,
+      is_active: template.is_active,
+      tracking_config: { collection_frequency: 'weekly', currency: 'GBP' },
+      created_at: createdAt,
+      updated_at: pricing.length ? pricing[pricing.length - 1].date_collected : createdAt
+    };
+
+    store.markets.push(market);
+    store.competitors.push(...competitors);
+    store.pricing.push(...pricing);
+    if (template.is_active) {
+      store.alerts.push(...generateMarketAlerts(market, competitors, pricing, referenceDate));
+    }
+  });
+
+  return store;
+};
+
+class SyntheticDataError extends Error {
+  constructor(message: string, public status: number = 404) {
+    super(message);
+    this.name = 'SyntheticDataError';
+  }
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+}
+
+type RouteHandler = (context: RouteContext) => unknown | Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+// Deep copy responses so callers can't mutate the store by accident
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+export class SyntheticDataSource implements MarketEdgeDataSource {
+  readonly mode = 'test' as const;
+  private store: SyntheticStore | null = null;
+  private routes: Route[];
+  private sequence = 0;
+
+  constructor(private options: SyntheticDataOptions = {}) {
+    this.routes = this.buildRoutes();
+  }
+
+  /** Discards any in-memory edits and regenerates the seeded data set. */
+  reset() {
+    this.store = null;
+    this.sequence = 0;
+  }
+
+  async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const method = (options.method || 'GET').toUpperCase();
+    const [path, queryString = ''] = endpoint.split('?');
+    const query = new URLSearchParams(queryString);
+    const body = typeof options.body === 'string' && options.body ? JSON.parse(options.body) : undefined;
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = path.match(route.pattern);
+      if (match) {
+        return clone(await route.handler({ params: match.slice(1), query, body })) as T;
+      }
+    }
+
+    throw new SyntheticDataError(`No synthetic handler for ${method} ${path}`);
+  }
+
+  private get data(): SyntheticStore {
+    if (!this.store) {
+      this.store = generateSyntheticStore(this.options);
+    }
+    return this.store;
+  }
+
+  private get referenceDate() {
+    return startOfUtcDay(this.options.referenceDate || new Date());
+  }
+
+  private nextId(prefix: string) {
+    this.sequence += 1;
+    return `${prefix}-synthetic-${this.sequence}`;
+  }
+
+  private findMarket(marketId: string) {
+    const market = this.data.markets.find(m => m.id === marketId);
+    if (!market) throw new SyntheticDataError('Market not found');
+    return market;
+  }
+
+  private findCompetitor(competitorId: string) {
+    const competitor = this.data.competitors.find(c => c.id === competitorId);
+    if (!competitor) throw new SyntheticDataError('Competitor not found');
+    return competitor;
+  }
+
+  private assertUniqueCompetitorName(marketId: string, name: string | undefined, excludeId?: string) {
+    const normalised = (name || '').trim().toLowerCase();
+    const duplicate = this.marketCompetitors(marketId)
+      .some(c => c.id !== excludeId && c.name.trim().toLowerCase() === normalised);
+    if (duplicate) {
+      throw new SyntheticDataError('A competitor with this name already exists in this market', 409);
+    }
+  }
+
+  private findAlertRule(ruleId: string) {
+    const rule = this.data.alert_rules.find(r => r.id === ruleId);
+    if (!rule) throw new SyntheticDataError('Alert rule not found');
+    return rule;
+  }
+
+  private findWebhook(webhookId: string) {
+    const webhook = this.data.webhooks.find(w => w.id === webhookId);
+    if (!webhook) throw new SyntheticDataError('Webhook not found');
+    return webhook;
+  }
+
+  // Listings never carry the secret, only its last characters
+  private listedWebhook({ secret, ...webhook }: WebhookWithSecret): Webhook {
+    return webhook;
+  }
+
+  private withSecret(webhook: WebhookWithSecret, secret: string) {
+    return Object.assign(webhook, { secret, secret_last4: secret.slice(-4) });
+  }
+
+  /**
+   * Test Data has no outbound side effects: a delivery is recorded as one
+   * simulated, successful attempt and nothing is sent to the webhook URL.
+   * Only the latest deliveries per webhook are kept.
+   */
+  private simulateWebhook(webhook: Webhook, delivery: WebhookDelivery) {
+    delivery.attempts.push({
+      attempted_at: new Date().toISOString(),
+      status_code: 200,
+      duration_ms: 0,
+      simulated: true
+    });
+    delivery.status = deliveryStatus(delivery.attempts);
+    if (this.data.webhook_deliveries.indexOf(delivery) === -1) {
+      const kept = this.data.webhook_deliveries
+        .filter(d => d.webhook_id === webhook.id)
+        .slice(-(MAX_WEBHOOK_DELIVERIES - 1));
+      this.data.webhook_deliveries = [
+        ...this.data.webhook_deliveries.filter(d => d.webhook_id !== webhook.id),
+        ...kept,
+        delivery
+      ];
+    }
+    return delivery;
+  }
+
+  private findWatchlist(watchlistId: string) {
+    const watchlist = this.data.watchlists.find(w => w.id === watchlistId);
+    if (!watchlist || (watchlist.visibility === 'private' && watchlist.created_by !== SYNTHETIC_USER_ID)) {
+      throw new SyntheticDataError('Watchlist not found');
+    }
+    return watchlist;
+  }
+
+  private findEditableWatchlist(watchlistId: string) {
+    const watchlist = this.findWatchlist(watchlistId);
+    if (watchlist.created_by !== SYNTHETIC_USER_ID) {
+      throw new SyntheticDataError('Only the creator can change this watchlist', 403);
+    }
+    return watchlist;
+  }
+
+  private withAccess(watchlist: Omit<Watchlist, 'can_edit'>): Watchlist {
+    return { ...watchlist, can_edit: watchlist.created_by === SYNTHETIC_USER_ID };
+  }
+
+  private assertValidWatchlist(watchlist: Partial<Watchlist>) {
+    const invalid = validateWatchlist(watchlist);
+    if (invalid) throw new SyntheticDataError(invalid, 400);
+    watchlist.competitor_ids!.forEach(id => this.findCompetitor(id));
+  }
+
+  private watchlistSummary(watchlist: Omit<Watchlist, 'can_edit'>): WatchlistSummary {
+    const now = new Date();
+    const members = watchlist.competitor_ids
+      .map(id => this.data.competitors.find(c => c.id === id))
+      .filter((competitor): competitor is Competitor => !!competitor)
+      .map(competitor => {
+        const market = this.findMarket(competitor.market_id);
+        const { pricing, currency } = this.analysedPricing(market.id);
+        const unreadAlerts = this.data.alerts.filter(a =>
+          a.trigger_data?.competitor_id === competitor.id
+          && !a.is_read
+          && !a.resolved_at
+          && !isAlertSnoozed(a, now)
+        );
+        return {
+          competitor,
+          market: { id: market.id, name: market.name, is_active: market.is_active },
+          ...computeWeeklyPriceChange(pricing.filter(p => p.competitor_id === competitor.id)),
+          currency,
+          unread_alerts: unreadAlerts.length
+        };
+      });
+    return { watchlist: this.withAccess(watchlist), members };
+  }
+
+  private findAnnotation(marketId: string, annotationId: string) {
+    this.findMarket(marketId);
+    const annotation = this.data.chart_annotations.find(a => a.id === annotationId && a.market_id === marketId);
+    if (!annotation) throw new SyntheticDataError('Annotation not found');
+    return annotation;
+  }
+
+  private findEditableAnnotation(marketId: string, annotationId: string) {
+    const annotation = this.findAnnotation(marketId, annotationId);
+    if (annotation.created_by !== SYNTHETIC_USER_ID) {
+      throw new SyntheticDataError('Only the author can change this annotation', 403);
+    }
+    return annotation;
+  }
+
+  private annotationWithAccess(annotation: Omit<ChartAnnotation, 'can_edit'>): ChartAnnotation {
+    return { ...annotation, can_edit: annotation.created_by === SYNTHETIC_USER_ID };
+  }
+
+  private marketAnnotations(marketId: string) {
+    return sortAnnotations(
+      this.data.chart_annotations
+        .filter(a => a.market_id === marketId)
+        .map(a => this.annotationWithAccess(a))
+    );
+  }
+
+  private marketCompetitors(marketId: string) {
+    return this.data.competitors.filter(c => c.market_id === marketId);
+  }
+
+  private marketPricing(marketId: string) {
+    return this.data.pricing.filter(p => p.market_id === marketId);
+  }
+
+  /** Market pricing converted to the organisation's base currency. */
+  private analysedPricing(marketId: string) {
+    const converter = createCurrencyConverter(this.data.currency_settings);
+    const { pricing, excludedCurrencies } = normalisePricing(this.marketPricing(marketId), converter);
+    return { pricing, excludedCurrencies, currency: converter.base };
+  }
+
+  private daysBack(query: URLSearchParams) {
+    const value = parseInt(query.get('days_back') || '', 10);
+    return value > 0 ? value : DEFAULT_DAYS_BACK;
+  }
+
+  private excludePromotions(query: URLSearchParams) {
+    return query.get('exclude_promotions') === 'true';
+  }
+
+  private analysisWindow(query: URLSearchParams): AnalysisWindow {
+    const start = query.get('start_date');
+    const end = query.get('end_date');
+    const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    if (isDate(start) && isDate(end)) {
+      if (start > end) throw new SyntheticDataError('start_date must be before end_date', 400);
+      return windowFromDateRange(start, end);
+    }
+    return windowFromDaysBack(this.referenceDate, this.daysBack(query));
+  }
+
+  private marketOverview(marketId: string): MarketOverview {
+    const market = this.findMarket(marketId);
+    const competitors = this.marketCompetitors(marketId);
+    const window = windowFromDaysBack(this.referenceDate, DEFAULT_DAYS_BACK);
+    const { pricing, excludedCurrencies, currency } = this.analysedPricing(marketId);
+    const recentPricing = filterPricing(pricing, { window });
+
+    return {
+      market,
+      competitors,
+      metrics: {
+        ...computeMarketMetrics(recentPricing, competitors, window),
+        currency,
+        excluded_currencies: excludedCurrencies
+      },
+      recent_data_points: recentPricing.length,
+      total_data_points: this.marketPricing(marketId).length,
+      recent_alerts: this.data.alerts.filter(a => a.market_id === marketId).slice(0, 10)
+    };
+  }
+
+  private buildRoutes(): Route[] {
+    const route = (method: string, pattern: string, handler: RouteHandler): Route => ({
+      method,
+      pattern: new RegExp(`^${pattern.replace(/:[a-z_]+/g, '([^/]+)')}$`),
+      handler
+    });
+
+    return [
+      // Markets
+      route('GET', '/markets', () => this.data.markets),
+      route('POST', '/markets', ({ body }) => {
+        const now = new Date().toISOString();
+        const market: Market = {
+          id: this.nextId('mkt'),
+          name: body.name,
+          geographic_bounds: body.geographic_bounds,
+          tracking_config: body.tracking_config,
+          organisation_id: SYNTHETIC_ORGANISATION_ID,
+          created_by: SYNTHETIC_USER_ID,
+          competitor_count: 0,
+          is_active: true,
+          created_at: now,
+          updated_at: now
+        };
+        this.data.markets.push(market);
+        return market;
+      }),
+      route('GET', '/markets/:id', ({ params }) => this.findMarket(params[0])),
+      route('PUT', '/markets/:id', ({ params, body }) => {
+        const market = this.findMarket(params[0]);
+        Object.assign(market, body, { updated_at: new Date().toISOString() });
+        return market;
+      }),
+      // Deleting archives the market; its competitors and pricing are kept
+      route('DELETE', '/markets/:id', ({ params }) => {
+        const market = this.findMarket(params[0]);
+        Object.assign(market, { is_active: false, updated_at: new Date().toISOString() });
+        return undefined;
+      }),
+
+      // Competitors
+      route('GET', '/markets/:id/competitors', ({ params }) => {
+        this.findMarket(params[0]);
+        return this.marketCompetitors(params[0]);
+      }),
+      route('POST', '/competitors', ({ body }) => {
+        const market = this.findMarket(body.market_id);
+        this.assertUniqueCompetitorName(market.id, body.name);
+        const competitor: Competitor = {
+          tracking_priority: 3,
+          ...body,
+          id: this.nextId('comp'),
+          organisation_id: market.organisation_id,
+          created_at: new Date().toISOString()
+        };
+        this.data.competitors.push(competitor);
+        market.competitor_count += 1;
+        return competitor;
+      }),
+      route('GET', '/competitors/:id', ({ params }) => this.findCompetitor(params[0])),
+      route('PUT', '/competitors/:id', ({ params, body }) => {
+        const competitor = this.findCompetitor(params[0]);
+        this.assertUniqueCompetitorName(competitor.market_id, body.name, competitor.id);
+        Object.assign(competitor, body, { last_updated: new Date().toISOString() });
+        return competitor;
+      }),
+
+      // Pricing data
+      route('POST', '/pricing-data', ({ body }) => {
+        const competitor = this.findCompetitor(body.competitor_id);
+        const pricing: PricingData = {
+          currency: 'GBP',
+          is_promotion: false,
+          ...body,
+          id: this.nextId('price'),
+          market_id: competitor.market_id,
+          price_point: round2(Number(body.price_point)),
+          created_at: new Date().toISOString()
+        };
+        this.data.pricing.push(pricing);
+        return pricing;
+      }),
+      route('GET', '/markets/:id/pricing-data', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const limit = parseInt(query.get('limit') || '', 10);
+        const pricing = filterPricing(this.marketPricing(params[0]), {
+          competitor_id: query.get('competitor_id') || undefined,
+          product_service: query.get('product_service') || undefined
+        }).sort((a, b) => b.date_collected.localeCompare(a.date_collected));
+        return limit > 0 ? pricing.slice(0, limit) : pricing;
+      }),
+
+      // Analysis
+      route('GET', '/markets/:id/overview', ({ params }) => this.marketOverview(params[0])),
+      route('GET', '/markets/:id/analysis', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const window = this.analysisWindow(query);
+        const { pricing: analysed, excludedCurrencies, currency } = this.analysedPricing(params[0]);
+        const pricing = filterPricing(analysed, {
+          window,
+          product_service: query.get('product_service') || undefined,
+          exclude_promotions: this.excludePromotions(query)
+        });
+        return {
+          ...computeMarketMetrics(pricing, this.marketCompetitors(params[0]), window),
+          currency,
+          excluded_currencies: excludedCurrencies
+        };
+      }),
+      route('GET', '/competitors/:id/analysis', ({ params, query }) => {
+        const competitor = this.findCompetitor(params[0]);
+        const window = windowFromDaysBack(this.referenceDate, this.daysBack(query));
+        const { pricing, currency } = this.analysedPricing(competitor.market_id);
+        const marketPricing = filterPricing(pricing, { window });
+        return {
+          ...computeCompetitorAnalysis(
+            competitor,
+            marketPricing.filter(p => p.competitor_id === competitor.id),
+            marketPricing
+          ),
+          currency
+        };
+      }),
+      route('GET', '/markets/:id/comparison', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const window = this.analysisWindow(query);
+        const ids = (query.get('competitor_ids') || '').split(',').filter(Boolean);
+        const productService = query.get('product_service') || undefined;
+        const competitors = this.marketCompetitors(params[0])
+          .filter(c => !ids.length || ids.indexOf(c.id) !== -1);
+        const { pricing: analysed, currency } = this.analysedPricing(params[0]);
+        const pricing = filterPricing(analysed, {
+          window,
+          product_service: productService,
+          exclude_promotions: this.excludePromotions(query)
+        });
+        return { ...computeCompetitorComparison(params[0], pricing, competitors, window, productService), currency };
+      }),
+      route('GET', '/markets/:id/trends', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const window = this.analysisWindow(query);
+        const daysBack = windowDays(window);
+        const filters = {
+          competitor_id: query.get('competitor_id') || undefined,
+          product_service: query.get('product_service') || undefined
+        };
+        const granularity = query.get('granularity');
+        const { pricing: analysed, currency } = this.analysedPricing(params[0]);
+        const pricing = filterPricing(analysed, {
+          window,
+          ...filters,
+          exclude_promotions: this.excludePromotions(query)
+        });
+        return {
+          ...computeMarketTrends(
+            pricing,
+            this.marketCompetitors(params[0]),
+            window,
+            daysBack,
+            filters,
+            granularity === 'day' || granularity === 'month' ? granularity : 'week'
+          ),
+          currency
+        };
+      }),
+
+      route('GET', '/markets/:id/promotions', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const window = this.analysisWindow(query);
+        const { pricing, currency } = this.analysedPricing(params[0]);
+        return {
+          ...computePromotionSummary(filterPricing(pricing, {
+            window,
+            product_service: query.get('product_service') || undefined
+          }), this.marketCompetitors(params[0]), window),
+          currency
+        };
+      }),
+
+      // Settings
+      route('GET', '/settings/currency', () => this.data.currency_settings),
+      route('PUT', '/settings/currency', ({ body }) => {
+        const base = String(body?.base_currency || '').toUpperCase();
+        if (BASE_CURRENCY_OPTIONS.indexOf(base) === -1) {
+          throw new SyntheticDataError(`Unsupported base currency ${base || '(none)'}`, 400);
+        }
+        const rates: CurrencySettings['rates'] = Array.isArray(body.rates) ? body.rates : [];
+        const invalid = rates.find(r => !/^[A-Z]{3}$/.test(r.currency) || r.currency === base || !(Number(r.rate) > 0));
+        if (invalid) {
+          throw new SyntheticDataError(`Invalid exchange rate for ${invalid.currency || '(none)'}`, 400);
+        }
+        this.data.currency_settings = {
+          base_currency: base,
+          rates: rates.map(r => ({ ...r, rate: Number(r.rate) })),
+          updated_at: new Date().toISOString()
+        };
+        return this.data.currency_settings;
+      }),
+
+      // Webhooks
+      route('GET', '/webhooks', () => this.data.webhooks.map(w => this.listedWebhook(w))),
+      route('POST', '/webhooks', ({ body }) => {
+        const invalid = validateWebhook(body || {}) || validateWebhookSecret(body?.secret);
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        const webhook = this.withSecret({
+          ...body,
+          name: body.name.trim(),
+          id: this.nextId('webhook'),
+          organisation_id: SYNTHETIC_ORGANISATION_ID,
+          created_at: new Date().toISOString()
+        }, body.secret);
+        this.data.webhooks.push(webhook);
+        return { ...webhook };
+      }),
+      route('PUT', '/webhooks/:id', ({ params, body }) => {
+        const webhook = this.findWebhook(params[0]);
+        const invalid = validateWebhook({ ...webhook, ...body });
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        Object.assign(webhook, body, {
+          id: webhook.id,
+          organisation_id: webhook.organisation_id,
+          secret: webhook.secret,
+          secret_last4: webhook.secret_last4,
+          updated_at: new Date().toISOString()
+        });
+        return this.listedWebhook(webhook);
+      }),
+      route('POST', '/webhooks/:id/rotate-secret', ({ params }) => {
+        const webhook = this.withSecret(this.findWebhook(params[0]), generateWebhookSecret());
+        webhook.updated_at = new Date().toISOString();
+        return { ...webhook };
+      }),
+      route('DELETE', '/webhooks/:id', ({ params }) => {
+        this.findWebhook(params[0]);
+        this.data.webhooks = this.data.webhooks.filter(w => w.id !== params[0]);
+        this.data.webhook_deliveries = this.data.webhook_deliveries.filter(d => d.webhook_id !== params[0]);
+        return undefined;
+      }),
+      route('GET', '/webhooks/:id/deliveries', ({ params, query }) => {
+        this.findWebhook(params[0]);
+        const limit = parseInt(query.get('limit') || '', 10);
+        const deliveries = this.data.webhook_deliveries
+          .filter(d => d.webhook_id === params[0])
+          .reverse();
+        return limit > 0 ? deliveries.slice(0, limit) : deliveries;
+      }),
+      route('POST', '/webhooks/:id/test', ({ params }) => {
+        const webhook = this.findWebhook(params[0]);
+        const market = this.data.markets.find(m => webhook.filters.market_ids.indexOf(m.id) !== -1)
+          || this.data.markets[0];
+        return this.simulateWebhook(webhook, {
+          id: this.nextId('delivery'),
+          webhook_id: webhook.id,
+          event: 'webhook.test',
+          status: 'failed',
+          payload: buildTestAlert(SYNTHETIC_ORGANISATION_ID, market),
+          attempts: [],
+          created_at: new Date().toISOString()
+        });
+      }),
+      route('POST', '/webhook-deliveries/:id/redeliver', ({ params }) => {
+        const delivery = this.data.webhook_deliveries.find(d => d.id === params[0]);
+        if (!delivery) throw new SyntheticDataError('Delivery not found');
+        return this.simulateWebhook(this.findWebhook(delivery.webhook_id), delivery);
+      }),
+
+      // Watchlists: the user's own lists plus those shared with the organisation
+      route('GET', '/watchlists', () =>
+        this.data.watchlists
+          .filter(w => w.visibility === 'organisation' || w.created_by === SYNTHETIC_USER_ID)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(w => this.withAccess(w))
+      ),
+      route('POST', '/watchlists', ({ body }) => {
+        this.assertValidWatchlist(body || {});
+        const watchlist = {
+          name: body.name.trim(),
+          description: body.description || '',
+          competitor_ids: Array.from(new Set<string>(body.competitor_ids)),
+          visibility: body.visibility,
+          id: this.nextId('watchlist'),
+          organisation_id: SYNTHETIC_ORGANISATION_ID,
+          created_by: SYNTHETIC_USER_ID,
+          created_at: new Date().toISOString()
+        };
+        this.data.watchlists.push(watchlist);
+        return this.withAccess(watchlist);
+      }),
+      route('GET', '/watchlists/:id', ({ params }) => this.withAccess(this.findWatchlist(params[0]))),
+      route('PUT', '/watchlists/:id', ({ params, body }) => {
+        const watchlist = this.findEditableWatchlist(params[0]);
+        const updated = { ...watchlist, ...body };
+        this.assertValidWatchlist(updated);
+        Object.assign(watchlist, {
+          name: updated.name.trim(),
+          description: updated.description || '',
+          competitor_ids: Array.from(new Set<string>(updated.competitor_ids)),
+          visibility: updated.visibility,
+          updated_at: new Date().toISOString()
+        });
+        return this.withAccess(watchlist);
+      }),
+      route('DELETE', '/watchlists/:id', ({ params }) => {
+        this.findEditableWatchlist(params[0]);
+        this.data.watchlists = this.data.watchlists.filter(w => w.id !== params[0]);
+        return undefined;
+      }),
+      route('GET', '/watchlists/:id/summary', ({ params }) =>
+        this.watchlistSummary(this.findWatchlist(params[0]))
+      ),
+
+      route('GET', '/markets/:id/moves', ({ params, query }) => {
+        this.findMarket(params[0]);
+        return detectCompetitorMovesInWindow(
+          this.analysedPricing(params[0]).pricing,
+          this.marketCompetitors(params[0]),
+          this.analysisWindow(query)
+        );
+      }),
+
+      // Alerts
+      route('GET', '/alerts', ({ query }) => {
+        const activeMarkets = this.data.markets.filter(m => m.is_active).map(m => m.id);
+        const limit = parseInt(query.get('limit') || '', 10);
+        const alerts = this.data.alerts
+          .filter(a => activeMarkets.indexOf(a.market_id) !== -1)
+          .filter(a => query.get('unread_only') !== 'true' || !a.is_read)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+        return limit > 0 ? alerts.slice(0, limit) : alerts;
+      }),
+      route('GET', '/markets/:id/alerts', ({ params, query }) => {
+        this.findMarket(params[0]);
+        const limit = parseInt(query.get('limit') || '', 10);
+        const alerts = this.data.alerts
+          .filter(a => a.market_id === params[0])
+          .filter(a => query.get('unread_only') !== 'true' || !a.is_read);
+        return limit > 0 ? alerts.slice(0, limit) : alerts;
+      }),
+      route('POST', '/alerts/:id/mark-read', ({ params }) => {
+        const alert = this.data.alerts.find(a => a.id === params[0]);
+        if (!alert) throw new SyntheticDataError('Alert not found');
+        alert.is_read = true;
+        return { message: 'Alert marked as read' };
+      }),
+      route('POST', '/alerts/bulk', ({ body }) => {
+        const ids: string[] = Array.isArray(body?.alert_ids) ? body.alert_ids : [];
+        if (!ids.length) throw new SyntheticDataError('alert_ids is required', 400);
+        const alerts = ids.map(id => {
+          const alert = this.data.alerts.find(a => a.id === id);
+          if (!alert) throw new SyntheticDataError('Alert not found');
+          return alert;
+        });
+        const now = new Date().toISOString();
+
+        switch (body.action) {
+          case 'mark_read':
+            alerts.forEach(a => { a.is_read = true; });
+            break;
+          case 'resolve':
+            alerts.forEach(a => Object.assign(a, { is_read: true, resolved_at: now, snoozed_until: undefined }));
+            break;
+          case 'snooze': {
+            const until = new Date(body.snoozed_until || '');
+            if (Number.isNaN(until.getTime()) || until.toISOString() <= now) {
+              throw new SyntheticDataError('snoozed_until must be a future date', 400);
+            }
+            alerts.forEach(a => { a.snoozed_until = until.toISOString(); });
+            break;
+          }
+          default:
+            throw new SyntheticDataError('action must be "mark_read", "resolve" or "snooze"', 400);
+        }
+        return alerts;
+      }),
+
+      // Alert rules
+      route('GET', '/markets/:id/alert-rules', ({ params }) => {
+        this.findMarket(params[0]);
+        return this.data.alert_rules.filter(r => r.market_id === params[0]);
+      }),
+      route('POST', '/markets/:id/alert-rules/backtest', ({ params, body }) => {
+        this.findMarket(params[0]);
+        const invalid = validateAlertRule(body || {});
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        const window = windowFromDaysBack(this.referenceDate, BACKTEST_DAYS);
+        const { pricing, currency } = this.analysedPricing(params[0]);
+        const backtest: AlertRuleBacktest = {
+          period: { start_date: window.start.toISOString(), end_date: window.end.toISOString() },
+          matches: backtestAlertRule(body, pricing, this.marketCompetitors(params[0]), window, currency),
+          currency
+        };
+        return backtest;
+      }),
+      route('POST', '/markets/:id/alert-rules', ({ params, body }) => {
+        const market = this.findMarket(params[0]);
+        const invalid = validateAlertRule(body || {});
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        const rule: AlertRule = {
+          ...body,
+          name: body.name.trim(),
+          id: this.nextId('rule'),
+          market_id: market.id,
+          created_at: new Date().toISOString(),
+          created_by: SYNTHETIC_USER_ID
+        };
+        this.data.alert_rules.push(rule);
+        return rule;
+      }),
+      route('PUT', '/alert-rules/:id', ({ params, body }) => {
+        const rule = this.findAlertRule(params[0]);
+        const invalid = validateAlertRule({ ...rule, ...body });
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        Object.assign(rule, body, { id: rule.id, market_id: rule.market_id, updated_at: new Date().toISOString() });
+        return rule;
+      }),
+      route('DELETE', '/alert-rules/:id', ({ params }) => {
+        this.findAlertRule(params[0]);
+        this.data.alert_rules = this.data.alert_rules.filter(r => r.id !== params[0]);
+        return undefined;
+      }),
+
+      // Anomaly reviews
+      route('GET', '/markets/:id/anomaly-reviews', ({ params }) => {
+        this.findMarket(params[0]);
+        return this.data.anomaly_reviews.filter(r => r.market_id === params[0]);
+      }),
+      route('PUT', '/markets/:id/anomaly-reviews/:anomaly_id', ({ params, body }) => {
+        this.findMarket(params[0]);
+        if (body?.status !== 'confirmed' && body?.status !== 'false_positive') {
+          throw new SyntheticDataError('status must be "confirmed" or "false_positive"', 400);
+        }
+        const review: AnomalyReview = {
+          anomaly_id: params[1],
+          market_id: params[0],
+          status: body.status,
+          reviewed_at: new Date().toISOString(),
+          reviewed_by: SYNTHETIC_USER_ID
+        };
+        this.data.anomaly_reviews = [
+          ...this.data.anomaly_reviews.filter(r => !(r.market_id === params[0] && r.anomaly_id === params[1])),
+          review
+        ];
+        return review;
+      }),
+      route('DELETE', '/markets/:id/anomaly-reviews/:anomaly_id', ({ params }) => {
+        this.data.anomaly_reviews = this.data.anomaly_reviews
+          .filter(r => !(r.market_id === params[0] && r.anomaly_id === params[1]));
+        return undefined;
+      }),
+
+      // Chart annotations
+      route('GET', '/markets/:id/annotations', ({ params }) => {
+        this.findMarket(params[0]);
+        return this.marketAnnotations(params[0]);
+      }),
+      route('POST', '/markets/:id/annotations', ({ params, body }) => {
+        this.findMarket(params[0]);
+        const invalid = validateAnnotation(body || {});
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        const annotation = {
+          id: this.nextId('annotation'),
+          market_id: params[0],
+          date: body.date,
+          label: body.label.trim(),
+          description: (body.description || '').trim(),
+          created_by: SYNTHETIC_USER_ID,
+          created_by_name: SYNTHETIC_USER_NAME,
+          created_at: new Date().toISOString()
+        };
+        this.data.chart_annotations.push(annotation);
+        return this.annotationWithAccess(annotation);
+      }),
+      route('PUT', '/markets/:id/annotations/:annotation_id', ({ params, body }) => {
+        const annotation = this.findEditableAnnotation(params[0], params[1]);
+        const updated = { ...annotation, ...body };
+        const invalid = validateAnnotation(updated);
+        if (invalid) throw new SyntheticDataError(invalid, 400);
+        Object.assign(annotation, {
+          date: updated.date,
+          label: updated.label.trim(),
+          description: (updated.description || '').trim(),
+          updated_at: new Date().toISOString()
+        });
+        return this.annotationWithAccess(annotation);
+      }),
+      route('DELETE', '/markets/:id/annotations/:annotation_id', ({ params }) => {
+        this.findEditableAnnotation(params[0], params[1]);
+        this.data.chart_annotations = this.data.chart_annotations.filter(a => a.id !== params[1]);
+        return undefined;
+      }),
+
+      // Reports
+      route('GET', '/markets/:id/report', ({ params, query }) => {
+        const marketId = params[0];
+        const overview = this.marketOverview(marketId);
+        const competitors = overview.competitors;
+        const window = windowFromDaysBack(this.referenceDate, DEFAULT_DAYS_BACK);
+        const { pricing: analysed, currency } = this.analysedPricing(marketId);
+        const pricing = filterPricing(analysed, { window });
+        const moves = detectCompetitorMoves(analysed, competitors, this.referenceDate);
+        const comparison = { ...computeCompetitorComparison(marketId, pricing, competitors, window), currency };
+        const trends = { ...computeMarketTrends(pricing, competitors, window, DEFAULT_DAYS_BACK), currency };
+        const insights = this.buildInsights(overview, moves.length);
+
+        const report: MarketReport = {
+          report_type: query.get('report_type') || 'comprehensive',
+          generated_at: new Date().toISOString(),
+          market_overview: overview,
+          competitor_analysis: comparison,
+          pricing_trends: trends,
+          recent_moves: moves,
+          insights,
+          annotations: this.marketAnnotations(marketId).filter(a =>
+            a.date >= trends.period.start_date.substring(0, 10) && a.date <= trends.period.end_date.substring(0, 10)
+          ),
+          summary: {
+            total_competitors: competitors.length,
+            active_alerts: overview.recent_alerts.filter(a => !a.is_read && !a.resolved_at).length,
+            recent_moves: moves.length,
+            key_insights: insights.length
+          }
+        };
+        return report;
+      })
+    ];
+  }
+
+  private buildInsights(overview: MarketOverview, moveCount: number) {
+    const { metrics } = overview;
+    const insights: Array<{ type: string; priority: 'low' | 'medium' | 'high'; message: string }> = [];
+    const ranked = Object.values(metrics.competitors).sort((a, b) => a.price_rank - b.price_rank);
+
+    if (metrics.trends.trend !== 'insufficient_data') {
+      insights.push({
+        type: 'trend',
+        priority: Math.abs(metrics.trends.price_change_percent) > 5 ? 'high' : 'medium',
+        message: `Market prices are ${metrics.trends.trend} (${metrics.trends.price_change_percent > 0 ? '+' : ''}${metrics.trends.price_change_percent.toFixed(1)}% over the period).`
+      });
+    }
+    if (ranked.length > 1) {
+      insights.push({
+        type: 'positioning',
+        priority: 'medium',
+        message: `${ranked[0].name} is the price leader at ${formatPrice(ranked[0].average_price, metrics.currency)} on average; ${ranked[ranked.length - 1].name} is the most expensive at ${formatPrice(ranked[ranked.length - 1].average_price, metrics.currency)}.`
+      });
+    }
+    if (metrics.anomalies.length) {
+      insights.push({
+        type: 'anomaly',
+        priority: metrics.anomalies.some(a => a.severity === 'high') ? 'high' : 'low',
+        message: `${metrics.anomalies.length} unusual price point${metrics.anomalies.length > 1 ? 's were' : ' was'} detected and should be verified.`
+      });
+    }
+    if (moveCount) {
+      insights.push({
+        type: 'competitor_moves',
+        priority: 'medium',
+        message: `${moveCount} competitor move${moveCount > 1 ? 's' : ''} detected in the last week.`
+      });
+    }
+    return insights;
+  }
+}
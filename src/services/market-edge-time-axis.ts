@@ -0,0 +1,217 @@
+import { MarketTrends, TrendGranularity } from '@/types/market-edge';
+import { isoWeekStartDate, mean, periodKey, round2 } from './market-edge-analytics';
+
+/**
+ * Time axis for trend charts. Period keys (`2025-03-14`, `2025-W11`,
+ * `2025-03`) are parsed into real UTC dates, resampled to the requested
+ * granularity and laid out on a continuous axis. Periods without data stay
+ * on the axis with `null` values so charts show a gap instead of joining
+ * the neighbouring points.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TREND_GRANULARITIES: { value: TrendGranularity; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' }
+];
+
+const GRANULARITY_RANK: Record<TrendGranularity, number> = { day: 0, week: 1, month: 2 };
+
+export interface ParsedPeriod {
+  start: Date;
+  granularity: TrendGranularity;
+}
+
+export const parsePeriodKey = (key: string): ParsedPeriod | null => {
+  if (/^\d{4}-W\d{1,2}$/.test(key)) {
+    const start = isoWeekStartDate(key);
+    return start ? { start, granularity: 'week' } : null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(key)) {
+    const start = new Date(`${key}T00:00:00.000Z`);
+    return isNaN(start.getTime()) ? null : { start, granularity: 'day' };
+  }
+  if (/^\d{4}-\d{2}$/.test(key)) {
+    const start = new Date(`${key}-01T00:00:00.000Z`);
+    return isNaN(start.getTime()) ? null : { start, granularity: 'month' };
+  }
+  return null;
+};
+
+/** Start (UTC midnight) of the bucket containing `date`. */
+export const bucketStart = (date: Date, granularity: TrendGranularity): Date => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === 'day') return day;
+  if (granularity === 'month') return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  return new Date(day.getTime() - ((day.getUTCDay() || 7) - 1) * DAY_MS);
+};
+
+const nextBucket = (start: Date, granularity: TrendGranularity): Date => {
+  if (granularity === 'month') return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return new Date(start.getTime() + (granularity === 'week' ? 7 : 1) * DAY_MS);
+};
+
+export interface TimeBucket {
+  key: string;
+  start: Date;
+}
+
+/** Every bucket from the one containing `from` to the one containing `to`. */
+export const buildTimeAxis = (from: Date, to: Date, granularity: TrendGranularity): TimeBucket[] => {
+  const buckets: TimeBucket[] = [];
+  for (let start = bucketStart(from, granularity); start <= to; start = nextBucket(start, granularity)) {
+    buckets.push({ key: periodKey(start, granularity), start });
+  }
+  return buckets;
+};
+
+// A week belongs to the month holding its Thursday, matching ISO year rules
+const representativeDate = (period: ParsedPeriod) =>
+  period.granularity === 'week' ? new Date(period.start.getTime() + 3 * DAY_MS) : period.start;
+
+/**
+ * Averages a keyed series into buckets of `granularity`. Keys that cannot
+ * be parsed are skipped.
+ */
+export const resampleSeries = (
+  values: Record<string, number>,
+  granularity: TrendGranularity
+): Record<string, number> => {
+  const grouped: Record<string, number[]> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    const period = parsePeriodKey(key);
+    if (!period || value === null || value === undefined) return;
+    const bucket = periodKey(bucketStart(representativeDate(period), granularity), granularity);
+    (grouped[bucket] = grouped[bucket] || []).push(value);
+  });
+
+  return Object.keys(grouped).reduce((acc, key) => {
+    acc[key] = round2(mean(grouped[key]));
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+export interface TrendSeries {
+  id: string;
+  name: string;
+  // Set when the competitor was priced in another currency and converted
+  original_currency?: string;
+  original_values?: Record<string, number>;
+}
+
+export interface TrendChartPoint {
+  key: string;
+  timestamp: number;
+  market: number | null;
+  [seriesId: string]: string | number | null;
+}
+
+export interface TrendChartData {
+  points: TrendChartPoint[];
+  series: TrendSeries[];
+  // Coarser than requested when the source data is coarser
+  granularity: TrendGranularity;
+}
+
+const sourceGranularity = (keys: string[]): TrendGranularity =>
+  keys.reduce<TrendGranularity>((coarsest, key) => {
+    const period = parsePeriodKey(key);
+    return period && GRANULARITY_RANK[period.granularity] > GRANULARITY_RANK[coarsest]
+      ? period.granularity
+      : coarsest;
+  }, 'day');
+
+/**
+ * Chart rows for `MarketTrends`, one per bucket between the first and last
+ * period with data. Competitor values are keyed by competitor ID so names
+ * containing dots or brackets are safe to use as chart data keys.
+ */
+export const buildTrendChartData = (
+  trends: MarketTrends,
+  requested: TrendGranularity = 'week'
+): TrendChartData => {
+  const competitorTrends = Object.entries(trends.competitor_trends || {});
+  const keys = [
+    ...Object.keys(trends.market_trend || {}),
+    ...competitorTrends.flatMap(([, trend]) => Object.keys(trend.weekly_averages || {}))
+  ];
+  const starts = keys
+    .map(parsePeriodKey)
+    .filter((p): p is ParsedPeriod => !!p)
+    .map(p => representativeDate(p).getTime());
+
+  const source = sourceGranularity(keys);
+  const granularity = GRANULARITY_RANK[source] > GRANULARITY_RANK[requested] ? source : requested;
+  if (!starts.length) {
+    return { points: [], series: competitorTrends.map(([id, trend]) => ({ id, name: trend.name })), granularity };
+  }
+
+  const series: TrendSeries[] = competitorTrends.map(([id, trend]) => (
+    trend.original_currency && trend.original_weekly_averages
+      ? {
+        id,
+        name: trend.name,
+        original_currency: trend.original_currency,
+        original_values: resampleSeries(trend.original_weekly_averages, granularity)
+      }
+      : { id, name: trend.name }
+  ));
+
+  const market = resampleSeries(trends.market_trend || {}, granularity);
+  const competitors = competitorTrends.map(([id, trend]) => ({
+    id,
+    values: resampleSeries(trend.weekly_averages || {}, granularity)
+  }));
+
+  const axis = buildTimeAxis(new Date(Math.min(...starts)), new Date(Math.max(...starts)), granularity);
+  const points = axis.map(bucket => {
+    const point: TrendChartPoint = {
+      key: bucket.key,
+      timestamp: bucket.start.getTime(),
+      market: market[bucket.key] ?? null
+    };
+    competitors.forEach(({ id, values }) => {
+      point[id] = values[bucket.key] ?? null;
+    });
+    return point;
+  });
+
+  return { points, series, granularity };
+};
+
+/**
+ * Short tick label in the user's locale. The year is added when the axis
+ * spans more than one calendar year.
+ */
+export const formatAxisTick = (
+  timestamp: number,
+  granularity: TrendGranularity,
+  options: { showYear?: boolean; locale?: string } = {}
+) => {
+  const format: Intl.DateTimeFormatOptions = granularity === 'month'
+    ? { month: 'short', year: 'numeric' }
+    : { day: 'numeric', month: 'short', ...(options.showYear ? { year: '2-digit' } : {}) };
+  return new Intl.DateTimeFormat(options.locale, { ...format, timeZone: 'UTC' }).format(new Date(timestamp));
+};
+
+/** Full label for tooltips, e.g. "Week 1, 2026 (from 29 Dec 2025)". */
+export const formatPeriodLabel = (key: string, locale?: string) => {
+  const period = parsePeriodKey(key);
+  if (!period) return key;
+
+  if (period.granularity === 'month') {
+    return new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(period.start);
+  }
+  const date = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+    .format(period.start);
+  if (period.granularity === 'day') return date;
+
+  const [year, week] = key.split('-W');
+  return `Week ${parseInt(week, 10)}, ${year} (from ${date})`;
+};
+
+export const spansMultipleYears = (points: { timestamp: number }[]) =>
+  points.length > 1 &&
+  new Date(points[0].timestamp).getUTCFullYear() !== new Date(points[points.length - 1].timestamp).getUTCFullYear();
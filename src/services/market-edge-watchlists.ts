@@ -0,0 +1,60 @@
+import { Competitor, Market, WatchlistInput, WatchlistMember } from '@/types/market-edge';
+
+export const MAX_WATCHLIST_NAME_LENGTH = 80;
+
+export const EMPTY_WATCHLIST: WatchlistInput = {
+  name: '',
+  description: '',
+  competitor_ids: [],
+  visibility: 'private'
+};
+
+/** First problem with a watchlist, or null when it can be saved. */
+export const validateWatchlist = (watchlist: Partial<WatchlistInput>): string | null => {
+  const name = (watchlist.name || '').trim();
+  if (!name) return 'Name is required';
+  if (name.length > MAX_WATCHLIST_NAME_LENGTH) {
+    return `Name must be ${MAX_WATCHLIST_NAME_LENGTH} characters or fewer`;
+  }
+  if (!watchlist.competitor_ids || watchlist.competitor_ids.length === 0) {
+    return 'Add at least one competitor';
+  }
+  if (watchlist.visibility !== 'private' && watchlist.visibility !== 'organisation') {
+    return 'Choose who can see the watchlist';
+  }
+  return null;
+};
+
+export interface MarketCompetitors {
+  market: Market;
+  competitors: Competitor[];
+}
+
+/**
+ * Competitors grouped under their market, markets by name and competitors
+ * by name within each. Archived markets are kept so existing members stay
+ * visible, but come last.
+ */
+export const groupCompetitorsByMarket = (markets: Market[], competitors: Competitor[]): MarketCompetitors[] =>
+  markets
+    .map(market => ({
+      market,
+      competitors: competitors
+        .filter(c => c.market_id === market.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(group => group.competitors.length > 0)
+    .sort((a, b) => Number(b.market.is_active) - Number(a.market.is_active) || a.market.name.localeCompare(b.market.name));
+
+/** Members sorted so the biggest movers come first, then by name. */
+export const sortWatchlistMembers = (members: WatchlistMember[]) =>
+  [...members].sort((a, b) =>
+    Math.abs(b.price_change_percent ?? 0) - Math.abs(a.price_change_percent ?? 0)
+    || a.competitor.name.localeCompare(b.competitor.name)
+  );
+
+export const formatPriceChange = (percent: number | null) => {
+  if (percent === null) return '—';
+  if (percent === 0) return '0.0%';
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+};
@@ -0,0 +1,110 @@
+import {
+  Market,
+  MarketAlert,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookFilters,
+  WebhookUpdate
+} from '@/types/market-edge';
+import { ALERT_SEVERITIES } from './market-edge-alert-rules';
+
+/**
+ * Outbound alert webhooks. The backend POSTs each matching MarketAlert as
+ * JSON, signs it with the webhook's secret and retries failed deliveries;
+ * the README describes that contract. This module holds what the settings
+ * screens and Test Data share: validation, filters and the test alert.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-MarketEdge-Signature';
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+// Alert types a webhook can filter on, with the labels AlertsPanel shows
+export const WEBHOOK_ALERT_TYPES: Record<string, string> = {
+  price_change: 'Price Change',
+  new_competitor: 'New Competitor',
+  anomaly: 'Anomaly',
+  promotion: 'Promotion',
+  market_shift: 'Market Shift',
+  competitor_move: 'Competitor Move'
+};
+
+export const EMPTY_WEBHOOK_FILTERS: WebhookFilters = { severities: [], alert_types: [], market_ids: [] };
+
+// Plain HTTP is only accepted for receivers on this machine
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const generateWebhookSecret = () => `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+
+/** Returns the first problem with a webhook's settings, or null when they can be saved. */
+export const validateWebhook = (webhook: Partial<WebhookUpdate>): string | null => {
+  if (!webhook.name || !webhook.name.trim()) return 'Name is required';
+
+  let url: URL;
+  try {
+    url = new URL(webhook.url || '');
+  } catch {
+    return 'Enter a valid URL';
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOCAL_HOSTS.indexOf(url.hostname) !== -1)) {
+    return 'URL must use HTTPS (HTTP is allowed for localhost)';
+  }
+
+  if (webhook.filters?.severities.some(s => ALERT_SEVERITIES.indexOf(s) === -1)) {
+    return 'Unknown severity filter';
+  }
+  return null;
+};
+
+/** Checked on create only: afterwards the secret can be rotated but not edited. */
+export const validateWebhookSecret = (secret?: string): string | null =>
+  !secret || secret.length < MIN_WEBHOOK_SECRET_LENGTH
+    ? `Secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`
+    : null;
+
+export const webhookMatchesAlert = (filters: WebhookFilters, alert: MarketAlert) =>
+  (!filters.severities.length || filters.severities.indexOf(alert.severity) !== -1)
+  && (!filters.alert_types.length || filters.alert_types.indexOf(alert.alert_type) !== -1)
+  && (!filters.market_ids.length || filters.market_ids.indexOf(alert.market_id) !== -1);
+
+/** Short summary such as "High, critical · Price Change · Cinema London". */
+export const describeWebhookFilters = (filters: WebhookFilters, markets: Market[]) => {
+  const { severities, alert_types, market_ids } = filters;
+  if (!severities.length && !alert_types.length && !market_ids.length) return 'All alerts';
+
+  const severityText = severities.length
+    ? ALERT_SEVERITIES.filter(s => severities.indexOf(s) !== -1).join(', ')
+    : 'any severity';
+  const typeText = alert_types.length
+    ? alert_types.map(t => WEBHOOK_ALERT_TYPES[t] || t).join(', ')
+    : 'any type';
+  const marketText = market_ids.length
+    ? market_ids.map(id => markets.find(m => m.id === id)?.name || 'Unknown market').join(', ')
+    : 'all markets';
+  const text = [severityText, typeText, marketText].join(' · ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/** Sample alert sent by "Send test event", so receivers can be wired up before a real one fires. */
+export const buildTestAlert = (organisationId: string, market?: Market): MarketAlert => ({
+  id: `test-${Date.now()}`,
+  market_id: market?.id || '',
+  organisation_id: organisationId,
+  alert_type: 'price_change',
+  severity: 'low',
+  title: 'Test alert from Market Edge',
+  message: market
+    ? `This is a test event for ${market.name}. Real alerts use the same format.`
+    : 'This is a test event. Real alerts use the same format.',
+  trigger_data: { test: true },
+  is_read: false,
+  created_at: new Date().toISOString()
+});
+
+export const isSuccessfulAttempt = (attempt: WebhookDeliveryAttempt) =>
+  attempt.status_code !== null && attempt.status_code >= 200 && attempt.status_code < 300;
+
+export const deliveryStatus = (attempts: WebhookDeliveryAttempt[]): WebhookDelivery['status'] =>
+  attempts.some(isSuccessfulAttempt) ? 'succeeded' : 'failed';
@@ -0,0 +1,245 @@
+import ExcelJS from 'exceljs';
+import {
+  MarketExportData,
+  MarketExportOptions,
+  formatExportDate,
+  trendWeeks
+} from './market-edge-export';
+import { annotationAuthor, sortAnnotations } from './market-edge-annotations';
+
+/**
+ * Excel workbook export. Prices and dates are written as typed cells with
+ * number formats so they can be sorted, filtered and summed in Excel.
+ */
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  GBP: '£',
+  USD: '$',
+  EUR: '€'
+};
+
+export const currencyNumberFormat = (currency = 'GBP') => {
+  const code = currency.toUpperCase();
+  const symbol = CURRENCY_SYMBOLS[code];
+  return symbol
+    ? `"${symbol}"#,##0.00;-"${symbol}"#,##0.00`
+    : `#,##0.00 "${code}";-#,##0.00 "${code}"`;
+};
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+const PERCENT_FORMAT = '0.0"%"';
+
+interface ColumnSpec {
+  header: string;
+  key: string;
+  width: number;
+  numFmt?: string;
+}
+
+type SheetRow = Record<string, unknown>;
+
+const addSheet = (
+  workbook: ExcelJS.Workbook,
+  name: string,
+  columns: ColumnSpec[],
+  rows: SheetRow[]
+) => {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(c => ({
+    header: c.header,
+    key: c.key,
+    width: c.width,
+    style: c.numFmt ? { numFmt: c.numFmt } : {}
+  }));
+  rows.forEach(row => sheet.addRow(row));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2563EB' } };
+  if (rows.length) {
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  }
+  return sheet;
+};
+
+const toDate = (value?: string) => (value ? new Date(value) : null);
+
+export const buildMarketWorkbook = (
+  data: MarketExportData,
+  options: MarketExportOptions = {}
+): ExcelJS.Workbook => {
+  const { overview, trends, comparison } = data;
+  const alerts = data.alerts || [];
+  const metrics = overview.metrics;
+  const currency = metrics.currency || overview.market.tracking_config?.currency || 'GBP';
+  const priceFormat = currencyNumberFormat(currency);
+  const names = overview.competitors.reduce((acc, c) => {
+    acc[c.id] = c.name;
+    return acc;
+  }, {} as Record<string, string>);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Market Edge';
+  workbook.created = new Date(data.generated_at);
+
+  const overviewSheet = workbook.addWorksheet('Overview');
+  overviewSheet.columns = [
+    { header: 'Metric', key: 'metric', width: 28 },
+    { header: 'Value', key: 'value', width: 32 }
+  ];
+  const overviewRows: Array<[string, unknown, string?]> = [
+    ['Market', overview.market.name],
+    ['Generated At', new Date(data.generated_at), DATE_TIME_FORMAT],
+    ['Date Range Start', new Date(formatExportDate(data.date_range.start)), DATE_FORMAT],
+    ['Date Range End', new Date(formatExportDate(data.date_range.end)), DATE_FORMAT],
+    ['Competitors', overview.competitors.length],
+    ['Pricing Data Points', data.pricing.length],
+    ['Average Price', metrics?.average_price, priceFormat],
+    ['Median Price', metrics?.median_price, priceFormat],
+    ['Minimum Price', metrics?.min_price, priceFormat],
+    ['Maximum Price', metrics?.max_price, priceFormat],
+    ['Standard Deviation', metrics?.standard_deviation, priceFormat],
+    ['Lower Quartile', metrics?.price_quartiles?.q1, priceFormat],
+    ['Upper Quartile', metrics?.price_quartiles?.q3, priceFormat],
+    ['Price Trend', metrics?.trends?.trend],
+    ['Price Change', metrics?.trends?.price_change_percent, PERCENT_FORMAT],
+    ['Alerts', alerts.length]
+  ];
+  overviewRows.forEach(([metric, value, numFmt]) => {
+    const row = overviewSheet.addRow({ metric, value: value ?? null });
+    if (numFmt) row.getCell(2).numFmt = numFmt;
+    row.getCell(2).alignment = { horizontal: 'left' };
+  });
+  overviewSheet.getColumn(1).font = { bold: true };
+
+  if (options.include_competitors !== false) {
+    addSheet(workbook, 'Competitors', [
+      { header: 'Competitor', key: 'name', width: 28 },
+      { header: 'Business Type', key: 'business_type', width: 18 },
+      { header: 'Website', key: 'website', width: 34 },
+      { header: 'Market Share', key: 'market_share', width: 14, numFmt: PERCENT_FORMAT },
+      { header: 'Tracking Priority', key: 'tracking_priority', width: 16 },
+      { header: 'Last Updated', key: 'last_updated', width: 16, numFmt: DATE_FORMAT }
+    ], overview.competitors.map(c => ({
+      name: c.name,
+      business_type: c.business_type,
+      website: c.website,
+      market_share: c.market_share_estimate ?? null,
+      tracking_priority: c.tracking_priority,
+      last_updated: toDate(c.last_updated)
+    })));
+  }
+
+  if (options.include_pricing !== false) {
+    const pricingSheet = addSheet(workbook, 'Pricing Data', [
+      { header: 'Date Collected', key: 'date_collected', width: 18, numFmt: DATE_TIME_FORMAT },
+      { header: 'Competitor', key: 'competitor', width: 28 },
+      { header: 'Product/Service', key: 'product_service', width: 28 },
+      { header: 'Price', key: 'price', width: 12, numFmt: priceFormat },
+      { header: 'Currency', key: 'currency', width: 10 },
+      { header: 'Promotion', key: 'is_promotion', width: 11 },
+      { header: 'Promotion Details', key: 'promotion_details', width: 32 },
+      { header: 'Source', key: 'source', width: 16 }
+    ], data.pricing.map(p => ({
+      date_collected: toDate(p.date_collected),
+      competitor: names[p.competitor_id] || p.competitor_id,
+      product_service: p.product_service,
+      price: p.price_point,
+      currency: p.currency,
+      is_promotion: p.is_promotion ? 'Yes' : 'No',
+      promotion_details: p.promotion_details,
+      source: p.source
+    })));
+    // Rows priced in another currency keep their own symbol
+    data.pricing.forEach((p, index) => {
+      if (p.currency && p.currency !== currency) {
+        pricingSheet.getRow(index + 2).getCell('price').numFmt = currencyNumberFormat(p.currency);
+      }
+    });
+  }
+
+  if (options.include_trends !== false && trends) {
+    const competitorIds = Object.keys(trends.competitor_trends);
+    addSheet(workbook, 'Weekly Trends', [
+      { header: 'Week', key: 'week', width: 12 },
+      { header: 'Market Average', key: 'market', width: 16, numFmt: priceFormat },
+      ...competitorIds.map(id => ({
+        header: trends.competitor_trends[id].name,
+        key: `competitor_${id}`,
+        width: Math.max(14, trends.competitor_trends[id].name.length + 2),
+        numFmt: priceFormat
+      }))
+    ], trendWeeks(trends).map(week => competitorIds.reduce((row, id) => {
+      row[`competitor_${id}`] = trends.competitor_trends[id].weekly_averages[week] ?? null;
+      return row;
+    }, { week, market: trends.market_trend[week] ?? null } as SheetRow)));
+  }
+
+  addSheet(workbook, 'Comparison Rankings', [
+    { header: 'Rank', key: 'rank', width: 8 },
+    { header: 'Competitor', key: 'name', width: 28 },
+    { header: 'Average Price', key: 'average_price', width: 15, numFmt: priceFormat },
+    { header: 'Min Price', key: 'min_price', width: 12, numFmt: priceFormat },
+    { header: 'Max Price', key: 'max_price', width: 12, numFmt: priceFormat },
+    { header: 'Data Points', key: 'data_points', width: 12 },
+    { header: 'Market Share', key: 'market_share', width: 14, numFmt: PERCENT_FORMAT }
+  ], (comparison?.rankings.by_price || []).map(r => {
+    const details = comparison?.competitors[r.competitor_id];
+    return {
+      rank: r.rank,
+      name: r.name,
+      average_price: r.average_price,
+      min_price: details?.min_price ?? null,
+      max_price: details?.max_price ?? null,
+      data_points: details?.data_points ?? null,
+      market_share: details?.market_share_estimate ?? null
+    };
+  }));
+
+  addSheet(workbook, 'Alerts', [
+    { header: 'Created', key: 'created_at', width: 18, numFmt: DATE_TIME_FORMAT },
+    { header: 'Severity', key: 'severity', width: 10 },
+    { header: 'Type', key: 'alert_type', width: 16 },
+    { header: 'Title', key: 'title', width: 44 },
+    { header: 'Message', key: 'message', width: 70 },
+    { header: 'Read', key: 'is_read', width: 8 },
+    { header: 'Resolved', key: 'resolved_at', width: 18, numFmt: DATE_TIME_FORMAT }
+  ], alerts.map(a => ({
+    created_at: toDate(a.created_at),
+    severity: a.severity,
+    alert_type: a.alert_type,
+    title: a.title,
+    message: a.message,
+    is_read: a.is_read ? 'Yes' : 'No',
+    resolved_at: toDate(a.resolved_at)
+  })));
+
+  if (options.include_annotations !== false && data.annotations) {
+    addSheet(workbook, 'Chart Annotations', [
+      { header: 'Date', key: 'date', width: 12, numFmt: DATE_FORMAT },
+      { header: 'Label', key: 'label', width: 32 },
+      { header: 'Description', key: 'description', width: 60 },
+      { header: 'Author', key: 'author', width: 20 },
+      { header: 'Updated', key: 'updated_at', width: 18, numFmt: DATE_TIME_FORMAT }
+    ], sortAnnotations(data.annotations).map(a => ({
+      date: toDate(a.date),
+      label: a.label,
+      description: a.description || '',
+      author: annotationAuthor(a),
+      updated_at: toDate(a.updated_at || a.created_at)
+    })));
+  }
+
+  return workbook;
+};
+
+export const createMarketWorkbookBlob = async (
+  data: MarketExportData,
+  options: MarketExportOptions = {}
+): Promise<Blob> => {
+  const buffer = await buildMarketWorkbook(data, options).xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+};
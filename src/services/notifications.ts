@@ -0,0 +1,170 @@
+import { AppNotification, InvitedUser, NotificationCategory, Organisation } from '@/types/api'
+import { Market, MarketAlert } from '@/types/market-edge'
+import { apiService } from '@/services/api'
+import { liveMarketEdgeAPI } from '@/services/market-edge-api'
+import { isAlertSnoozed } from '@/services/market-edge-alert-rules'
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationCategory, string> = {
+  market_alerts: 'Market alerts',
+  organisation: 'Organisation switches',
+  invitations: 'Invitation acceptances'
+}
+
+export const MAX_NOTIFICATIONS = 50
+const MAX_READ_IDS = 200
+
+/**
+ * Per-user notification center state kept in the browser. Alerts carry
+ * their own read flag on the server; organisation switches only exist here,
+ * and invitation acceptances from before `since` count as already read.
+ */
+export interface NotificationState {
+  read_ids: string[]
+  muted: NotificationCategory[]
+  events: AppNotification[]
+  since: string
+}
+
+// Avoid "org_" in the key: switching organisation clears matching keys
+const stateKey = (userId?: string) => `notification-center:${userId || 'anonymous'}`
+
+export const emptyNotificationState = (now = new Date()): NotificationState => ({
+  read_ids: [],
+  muted: [],
+  events: [],
+  since: now.toISOString()
+})
+
+export const getNotificationState = (userId?: string): NotificationState => {
+  if (typeof window === 'undefined') return emptyNotificationState()
+  try {
+    const stored = localStorage.getItem(stateKey(userId))
+    if (stored) return { ...emptyNotificationState(), ...JSON.parse(stored) }
+  } catch {
+    // Fall through to a fresh state
+  }
+  const state = emptyNotificationState()
+  storeNotificationState(state, userId)
+  return state
+}
+
+export const storeNotificationState = (state: NotificationState, userId?: string) => {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(stateKey(userId), JSON.stringify({
+      ...state,
+      read_ids: state.read_ids.slice(-MAX_READ_IDS),
+      events: state.events.slice(0, MAX_NOTIFICATIONS)
+    }))
+  } catch (error) {
+    console.warn('Failed to persist notification state:', error)
+  }
+}
+
+// Notification alerts always come from the live backend, so their links switch Market Edge to Live
+export const alertHref = (alert: MarketAlert): string => {
+  const params = new URLSearchParams({ market: alert.market_id, mode: 'live' })
+  const competitorId = alert.trigger_data?.competitor_id
+  if (competitorId) {
+    params.set('competitor', competitorId)
+  } else {
+    params.set('tab', 'alerts')
+  }
+  return `/market-edge?${params.toString()}`
+}
+
+export const alertNotification = (alert: MarketAlert, markets: Market[]): AppNotification => {
+  const market = markets.find(m => m.id === alert.market_id)
+  return {
+    id: `alert:${alert.id}`,
+    category: 'market_alerts',
+    title: market ? `${market.name}: ${alert.title}` : alert.title,
+    message: alert.message,
+    created_at: alert.created_at,
+    is_read: alert.is_read,
+    source_id: alert.id,
+    href: alertHref(alert),
+    severity: alert.severity
+  }
+}
+
+export const invitationNotification = (user: InvitedUser): AppNotification => {
+  const name = `${user.first_name} ${user.last_name}`.trim() || user.email
+  return {
+    id: `invitation:${user.id}`,
+    category: 'invitations',
+    title: `${name} joined`,
+    message: `${user.email} accepted their invitation.`,
+    created_at: user.invitation_accepted_at || user.last_login || user.created_at,
+    is_read: false,
+    source_id: user.id,
+    href: '/users'
+  }
+}
+
+export const organisationSwitchNotification = (organisation: Organisation, at = new Date()): AppNotification => ({
+  id: `organisation:${organisation.id}:${at.getTime()}`,
+  category: 'organisation',
+  title: `Switched to ${organisation.name}`,
+  message: 'Dashboards now show data for this organisation.',
+  created_at: at.toISOString(),
+  is_read: false,
+  source_id: organisation.id,
+  href: '/dashboard'
+})
+
+/**
+ * Combines server and local notifications into the list the center shows:
+ * muted categories are left out, local read state is applied and the newest
+ * `MAX_NOTIFICATIONS` are kept.
+ */
+export const mergeNotifications = (items: AppNotification[], state: NotificationState): AppNotification[] =>
+  items
+    .filter(item => state.muted.indexOf(item.category) === -1)
+    .map(item => ({
+      ...item,
+      is_read: item.is_read
+        || state.read_ids.indexOf(item.id) !== -1
+        || (item.category !== 'market_alerts' && item.created_at < state.since)
+    }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, MAX_NOTIFICATIONS)
+
+/**
+ * Alerts across every accessible market, leaving out snoozed ones. Always
+ * read from the live backend, never Test Data. Empty when Market Edge is
+ * unavailable so other notifications still load.
+ */
+export const fetchAlertNotifications = async (now = new Date()): Promise<{
+  alerts: MarketAlert[]
+  markets: Market[]
+  notifications: AppNotification[]
+}> => {
+  try {
+    const [markets, allAlerts] = await Promise.all([
+      liveMarketEdgeAPI.getMarkets(),
+      liveMarketEdgeAPI.getAlerts({ limit: MAX_NOTIFICATIONS })
+    ])
+    const alerts = allAlerts.filter(alert => !isAlertSnoozed(alert, now))
+    return {
+      alerts,
+      markets,
+      notifications: alerts.map(alert => alertNotification(alert, markets))
+    }
+  } catch (error) {
+    console.warn('Failed to load alert notifications:', error)
+    return { alerts: [], markets: [], notifications: [] }
+  }
+}
+
+export const fetchInvitationNotifications = async (endpoint: string): Promise<AppNotification[]> => {
+  try {
+    const users = await apiService.get<InvitedUser[]>(endpoint)
+    return users
+      .filter(user => user.invitation_status === 'accepted')
+      .map(invitationNotification)
+  } catch (error) {
+    console.warn('Failed to load invitation notifications:', error)
+    return []
+  }
+}
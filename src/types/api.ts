@@ -47,4 +47,32 @@ export interface ToolAccess {
   subscription_tier: string
   features_enabled: string[]
   usage_limits: Record<string, any>
-}
\ No newline at end of file
+}
+
+// Notification center
+export type NotificationCategory = 'market_alerts' | 'organisation' | 'invitations'
+
+export interface AppNotification {
+  id: string
+  category: NotificationCategory
+  title: string
+  message: string
+  created_at: string
+  is_read: boolean
+  // The alert or user the item is about
+  source_id?: string
+  // In-app link to the market, competitor or page the item is about
+  href?: string
+  severity?: 'low' | 'medium' | 'high' | 'critical'
+}
+
+export interface InvitedUser {
+  id: string
+  email: string
+  first_name: string
+  last_name: string
+  invitation_status: 'pending' | 'accepted' | 'expired'
+  invitation_accepted_at?: string
+  last_login?: string
+  created_at: string
+}
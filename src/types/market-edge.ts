@@ -11,6 +11,13 @@ export interface Market {
   updated_at: string;
 }
 
+export interface CompetitorLocation {
+  name: string;
+  address?: string;
+  city: string;
+  postcode?: string;
+}
+
 export interface Competitor {
   id: string;
   name: string;
@@ -39,6 +46,21 @@ export interface PricingData {
   is_promotion: boolean;
   promotion_details?: string;
   created_at: string;
+  // Set on analysed prices that were converted into the base currency
+  original_price_point?: number;
+  original_currency?: string;
+}
+
+export interface PricingDataInput {
+  competitor_id: string;
+  product_service: string;
+  price_point: number;
+  currency?: string;
+  date_collected: string;
+  source?: string;
+  metadata?: Record<string, any>;
+  is_promotion?: boolean;
+  promotion_details?: string;
 }
 
 export interface MarketAlert {
@@ -52,9 +74,13 @@ export interface MarketAlert {
   trigger_data?: Record<string, any>;
   is_read: boolean;
   resolved_at?: string;
+  // Hidden from triage until this time passes
+  snoozed_until?: string;
   created_at: string;
 }
 
+export type AlertBulkAction = 'mark_read' | 'resolve' | 'snooze';
+
 export interface MarketMetrics {
   period_start: string;
   period_end: string;
@@ -65,14 +91,19 @@ export interface MarketMetrics {
   max_price: number;
   price_range: number;
   standard_deviation: number;
-  price_quartiles?: {
-    q1: number;
-    q2: number;
-    q3: number;
-  };
+  price_quartiles?: PriceQuartiles;
   competitors: Record<string, CompetitorMetrics>;
   trends: PricingTrends;
   anomalies: PriceAnomaly[];
+  currency?: string;
+  // Currencies left out of the figures because no exchange rate was set
+  excluded_currencies?: string[];
+}
+
+export interface PriceQuartiles {
+  q1: number;
+  q2: number;
+  q3: number;
 }
 
 export interface CompetitorMetrics {
@@ -85,6 +116,7 @@ export interface CompetitorMetrics {
   standard_deviation: number;
   price_rank: number;
   position: 'low' | 'mid' | 'high';
+  price_quartiles?: PriceQuartiles;
 }
 
 export interface PricingTrends {
@@ -105,11 +137,103 @@ export interface PriceAnomaly {
   severity: 'medium' | 'high';
 }
 
+// Consecutive promotional prices for one competitor, product and offer
+export interface PromotionEntry {
+  id: string;
+  competitor_id: string;
+  competitor_name: string;
+  product_service: string;
+  promotion_details?: string;
+  first_seen: string;
+  last_seen: string;
+  observations: number;
+  lowest_price: number;
+  regular_price?: number;
+  // Percentage below the regular price; undefined without regular prices to compare
+  discount_percent?: number;
+  is_active: boolean;
+}
+
+export interface PromotionSummary {
+  period: {
+    start_date: string;
+    end_date: string;
+  };
+  promotions: PromotionEntry[];
+  // Keyed by ISO week like MarketTrends
+  frequency: Record<string, {
+    promotional_points: number;
+    total_points: number;
+    promotion_share: number;
+  }>;
+  currency?: string;
+}
+
+// Analyst verdict on a flagged price, kept per market so it is reviewed once
+export type AnomalyReviewStatus = 'confirmed' | 'false_positive';
+
+export interface AnomalyReview {
+  anomaly_id: string;
+  market_id: string;
+  status: AnomalyReviewStatus;
+  reviewed_at: string;
+  reviewed_by?: string;
+}
+
+// Analyst-defined alert conditions, evaluated against pricing per competitor
+export type AlertRuleMetric = 'price_change_percent' | 'average_price' | 'new_competitor' | 'new_product';
+
+export type AlertRuleOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface AlertRuleInput {
+  name: string;
+  // Unset means any competitor / product in the market
+  competitor_id?: string;
+  product_service?: string;
+  metric: AlertRuleMetric;
+  // Ignored by the new_competitor and new_product metrics
+  operator: AlertRuleOperator;
+  threshold: number;
+  window_days: number;
+  severity: MarketAlert['severity'];
+  is_active: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  market_id: string;
+  created_at: string;
+  updated_at?: string;
+  created_by?: string;
+}
+
+export interface AlertRuleMatch {
+  triggered_at: string;
+  competitor_id: string;
+  competitor_name: string;
+  product_service?: string;
+  value?: number;
+  severity: MarketAlert['severity'];
+  title: string;
+  message: string;
+}
+
+export interface AlertRuleBacktest {
+  period: {
+    start_date: string;
+    end_date: string;
+  };
+  matches: AlertRuleMatch[];
+  currency?: string;
+}
+
 export interface MarketOverview {
   market: Market;
   competitors: Competitor[];
   metrics: MarketMetrics;
   recent_data_points: number;
+  // Every pricing row stored for the market, in any currency and period
+  total_data_points: number;
   recent_alerts: MarketAlert[];
 }
 
@@ -130,6 +254,7 @@ export interface CompetitorAnalysis {
     data_points: number;
   }>;
   recent_pricing: PricingData[];
+  currency?: string;
 }
 
 export interface CompetitorComparison {
@@ -150,6 +275,8 @@ export interface CompetitorComparison {
     market_share_estimate?: number;
     tracking_priority: number;
     price_rank: number;
+    original_currency?: string;
+    original_average_price?: number;
   }>;
   rankings: {
     by_price: Array<{
@@ -159,6 +286,17 @@ export interface CompetitorComparison {
       rank: number;
     }>;
   };
+  currency?: string;
+}
+
+// Bucket size for trend series; keys are YYYY-MM-DD, YYYY-Www or YYYY-MM
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+// Either a rolling window (days_back) or an explicit inclusive date range
+export interface MarketDateFilter {
+  days_back?: number;
+  start_date?: string;
+  end_date?: string;
 }
 
 export interface MarketTrends {
@@ -175,8 +313,12 @@ export interface MarketTrends {
   competitor_trends: Record<string, {
     name: string;
     weekly_averages: Record<string, number>;
+    // Only when every price for the competitor was converted from one currency
+    original_currency?: string;
+    original_weekly_averages?: Record<string, number>;
   }>;
   data_points_count: number;
+  currency?: string;
 }
 
 export interface CompetitorMove {
@@ -192,6 +334,17 @@ export interface CompetitorMove {
   detected_at: string;
 }
 
+export type MarketReportType = 'comprehensive' | 'summary' | 'trends';
+
+// Generated report insights; older reports send plain strings instead
+export interface MarketInsight {
+  type?: string;
+  priority?: 'low' | 'medium' | 'high';
+  message?: string;
+  description?: string;
+  title?: string;
+}
+
 export interface MarketReport {
   report_type: string;
   generated_at: string;
@@ -200,10 +353,138 @@ export interface MarketReport {
   pricing_trends: MarketTrends;
   recent_moves: CompetitorMove[];
   insights: any[];
+  // Chart annotations dated within the trends period
+  annotations?: ChartAnnotation[];
   summary: {
     total_competitors: number;
     active_alerts: number;
     recent_moves: number;
     key_insights: number;
   };
-}
\ No newline at end of file
+}
+export interface ExchangeRate {
+  currency: string;
+  // Units of the base currency per one unit of `currency`
+  rate: number;
+  effective_date?: string;
+}
+
+export interface CurrencySettings {
+  base_currency: string;
+  rates: ExchangeRate[];
+  updated_at?: string;
+}
+
+// Outbound alert webhooks, configured per organisation
+export type WebhookEvent = 'alert.created' | 'webhook.test';
+
+// An empty list matches everything
+export interface WebhookFilters {
+  severities: MarketAlert['severity'][];
+  alert_types: string[];
+  market_ids: string[];
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  // Signs each request body with HMAC-SHA256
+  secret: string;
+  filters: WebhookFilters;
+  is_active: boolean;
+}
+
+// Secrets cannot be edited, only rotated
+export type WebhookUpdate = Omit<WebhookInput, 'secret'>;
+
+// As listed: the secret itself is only returned on create and rotate
+export interface Webhook extends WebhookUpdate {
+  id: string;
+  organisation_id: string;
+  secret_last4: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  attempted_at: string;
+  // Null when the request never got a response
+  status_code: number | null;
+  error?: string;
+  duration_ms: number;
+  // Recorded by Test Data in place of a real request
+  simulated?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  status: 'succeeded' | 'failed';
+  // The request body, a MarketAlert
+  payload: MarketAlert;
+  attempts: WebhookDeliveryAttempt[];
+  created_at: string;
+}
+
+// Named competitor lists spanning markets, e.g. national chains
+export type WatchlistVisibility = 'private' | 'organisation';
+
+export interface WatchlistInput {
+  name: string;
+  description?: string;
+  competitor_ids: string[];
+  visibility: WatchlistVisibility;
+}
+
+export interface Watchlist extends WatchlistInput {
+  id: string;
+  organisation_id: string;
+  created_by: string;
+  created_by_name?: string;
+  // Only the creator can change or delete a list shared with them
+  can_edit: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface WatchlistMember {
+  competitor: Competitor;
+  market: Pick<Market, 'id' | 'name' | 'is_active'>;
+  // Average over the competitor's most recent collection week
+  latest_average_price: number | null;
+  previous_average_price: number | null;
+  // Week-on-week change across products priced in both weeks
+  price_change_percent: number | null;
+  latest_collected_at?: string;
+  currency: string;
+  unread_alerts: number;
+}
+
+export interface WatchlistSummary {
+  watchlist: Watchlist;
+  members: WatchlistMember[];
+}
+
+// Dated notes on a market's pricing charts, e.g. a launch or a tax change
+export interface ChartAnnotationInput {
+  // YYYY-MM-DD
+  date: string;
+  label: string;
+  description?: string;
+}
+
+export interface ChartAnnotation extends ChartAnnotationInput {
+  id: string;
+  market_id: string;
+  created_by: string;
+  created_by_name?: string;
+  // Only the author can change or delete an annotation
+  can_edit: boolean;
+  created_at: string;
+  updated_at?: string;
+}
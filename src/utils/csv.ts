@@ -0,0 +1,79 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 serialisation: CRLF record separators, and any field containing a
+ * comma, double quote, CR or LF is wrapped in double quotes with embedded
+ * quotes doubled. Parsing accepts the same rules with either comma or tab
+ * delimiters and LF or CRLF line endings.
+ */
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+export const CSV_LINE_BREAK = '\r\n';
+
+// Byte order mark so Excel opens UTF-8 files (e.g. "£") correctly
+export const CSV_BOM = '﻿';
+
+export const escapeCSVField = (value: CSVValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' && !isFinite(value) ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSVRow = (values: CSVValue[]): string =>
+  values.map(escapeCSVField).join(',');
+
+export const toCSV = (rows: CSVValue[][]): string =>
+  rows.map(toCSVRow).join(CSV_LINE_BREAK) + (rows.length ? CSV_LINE_BREAK : '');
+
+// Tabs win when the header row has more of them than commas (spreadsheet paste)
+export const detectDelimiter = (text: string): ',' | '\t' => {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const tabs = header.split('\t').length - 1;
+  const commas = header.split(',').length - 1;
+  return tabs > commas ? '\t' : ',';
+};
+
+export const parseDelimited = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const input = text.startsWith(CSV_BOM) ? text.slice(CSV_BOM.length) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, which spreadsheets often leave at the end
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
@@ -0,0 +1,21 @@
+/**
+ * Triggers a browser download for a generated file.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  if (typeof window === 'undefined') return;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Lower-case, dash-separated version of a name for use in file names. */
+export const toFileSlug = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
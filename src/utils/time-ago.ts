@@ -0,0 +1,14 @@
+/**
+ * Short relative time for feeds such as alerts and notifications: "Just now",
+ * "5m ago", "3h ago" or "2d ago", then the date once it is a week old.
+ */
+export const formatTimeAgo = (dateString: string, now = new Date()) => {
+  const date = new Date(dateString);
+  const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+
+  if (diffInMinutes < 1) return 'Just now';
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+  if (diffInMinutes < 10080) return `${Math.floor(diffInMinutes / 1440)}d ago`;
+  return date.toLocaleDateString();
+};